@@ -0,0 +1,72 @@
+import assert from "node:assert/strict";
+import { appendFile, mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import test from "node:test";
+import { AuditLog, payloadDigest, SYSTEM_ACTOR } from "./audit.js";
+
+const ALICE = { actor: "alice", token_id: "0123456789ab", ip: "10.0.0.5" };
+
+async function withLog(fn: (log: AuditLog) => Promise<void>) {
+  const dir = await mkdtemp(join(tmpdir(), "audit-"));
+  try {
+    await fn(new AuditLog(join(dir, "nested", "audit.ndjson")));
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+test("entries are appended as NDJSON with a payload digest, not the payload", async () => {
+  await withLog(async (log) => {
+    const body = { stage: "review", response: "approve" };
+    await log.record(ALICE, { action: "feedback.respond", run_id: "r1", payload: body, result: "ok", detail: { stage: "review" } });
+    const lines = (await readFile(log.path, "utf8")).trim().split("\n");
+    assert.equal(lines.length, 1);
+    const entry = JSON.parse(lines[0]);
+    assert.equal(entry.actor, "alice");
+    assert.equal(entry.token_id, "0123456789ab");
+    assert.equal(entry.run_id, "r1");
+    assert.equal(entry.job_id, null);
+    assert.equal(entry.payload_sha256, payloadDigest(body));
+    assert.ok(!lines[0].includes("approve"));
+  });
+});
+
+test("query filters and returns newest first, skipping malformed lines", async () => {
+  await withLog(async (log) => {
+    await log.record(ALICE, { action: "factory.start", job_id: "j1", result: "ok" });
+    await log.record(SYSTEM_ACTOR, { action: "attractor.spawn", job_id: "j1", result: "ok" });
+    await appendFile(log.path, "{ torn line\n");
+    await log.record(ALICE, { action: "factory.stop", run_id: "r1", job_id: "j1", result: "ok" });
+    await log.record(ALICE, { action: "workspace.reveal", run_id: "r2", result: "error" });
+
+    assert.deepEqual((await log.query({})).map((e) => e.action), [
+      "workspace.reveal", "factory.stop", "attractor.spawn", "factory.start",
+    ]);
+    assert.deepEqual((await log.query({ action: "factory." })).map((e) => e.action), ["factory.stop", "factory.start"]);
+    assert.deepEqual((await log.query({ actor: "system" })).map((e) => e.action), ["attractor.spawn"]);
+    assert.deepEqual((await log.query({ limit: 1 })).map((e) => e.action), ["workspace.reveal"]);
+  });
+});
+
+test("a run's activity includes entries of the jobs that drove it", async () => {
+  await withLog(async (log) => {
+    await log.record(ALICE, { action: "factory.start", job_id: "j1", result: "ok" });
+    await log.record(SYSTEM_ACTOR, { action: "attractor.spawn", job_id: "j1", result: "ok" });
+    await log.record(SYSTEM_ACTOR, { action: "attractor.run_created", run_id: "r1", job_id: "j1", result: "ok" });
+    await log.record(ALICE, { action: "factory.start", job_id: "j2", result: "ok" });
+    await log.record(ALICE, { action: "feedback.respond", run_id: "r1", result: "ok" });
+
+    assert.deepEqual((await log.forRun("r1")).map((e) => `${e.action}:${e.job_id ?? "-"}`), [
+      "feedback.respond:-", "attractor.run_created:j1", "attractor.spawn:j1", "factory.start:j1",
+    ]);
+    assert.deepEqual((await log.forRun("r1", 2)).map((e) => e.action), ["feedback.respond", "attractor.run_created"]);
+    assert.deepEqual(await log.forRun("unknown"), []);
+  });
+});
+
+test("querying before anything was recorded returns nothing", async () => {
+  await withLog(async (log) => {
+    assert.deepEqual(await log.query({}), []);
+  });
+});
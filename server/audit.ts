@@ -0,0 +1,213 @@
+import { createHash } from "node:crypto";
+import { createReadStream } from "node:fs";
+import { appendFile, mkdir, stat } from "node:fs/promises";
+import { dirname } from "node:path";
+import { createInterface } from "node:readline";
+import type { Express, Request, Response } from "express";
+import type { Principal } from "./auth.js";
+
+// ── Audit log ───────────────────────────────────────────────────────────────
+//
+// One JSON object per line in KILROY_AUDIT_LOG (default <state dir>/audit.ndjson),
+// appended for every action that changes a run or the factory: feedback
+// responses, worktree reveals, factory starts/resumes/stops, queue changes,
+// checkpoint repairs, attractor spawns and exits, progress-webhook, budget
+// and escalation-policy changes, and refused writes. The file is never
+// rewritten; rotate it externally if it grows too large.
+
+export type AuditResult = "ok" | "error" | "denied";
+
+export interface AuditEntry {
+  at: string;
+  /** Token name, "anonymous", or "system" for things the server does on its own. */
+  actor: string;
+  /** Short digest prefix identifying the token (not the secret); null without one. */
+  token_id: string | null;
+  ip: string | null;
+  action: string;
+  run_id: string | null;
+  job_id: string | null;
+  /** sha256 of the request payload as JSON, so the body can be matched without storing it. */
+  payload_sha256: string | null;
+  result: AuditResult;
+  detail?: Record<string, unknown>;
+}
+
+export interface AuditQuery {
+  run_id?: string;
+  job_id?: string;
+  action?: string;
+  actor?: string;
+  since?: string;
+  until?: string;
+  limit?: number;
+}
+
+type Actor = Pick<AuditEntry, "actor" | "token_id" | "ip">;
+
+export const SYSTEM_ACTOR: Actor = { actor: "system", token_id: null, ip: null };
+
+const DEFAULT_QUERY_LIMIT = 200;
+const MAX_QUERY_LIMIT = 5000;
+
+export function payloadDigest(payload: unknown): string | null {
+  if (payload === undefined) return null;
+  return createHash("sha256").update(JSON.stringify(payload) ?? "", "utf8").digest("hex");
+}
+
+/** Who made a request, from the principal the auth middleware resolved. */
+export function requestActor(req: Request, res: Response): Actor {
+  const principal = res.locals.principal as Principal | undefined;
+  return {
+    actor: principal?.name ?? "anonymous",
+    token_id: principal?.tokenId ?? null,
+    ip: req.ip ?? null,
+  };
+}
+
+function matches(e: AuditEntry, q: AuditQuery): boolean {
+  if (q.run_id && e.run_id !== q.run_id) return false;
+  if (q.job_id && e.job_id !== q.job_id) return false;
+  // "factory." matches every factory action; anything else must match exactly.
+  if (q.action && !(q.action.endsWith(".") ? e.action.startsWith(q.action) : e.action === q.action)) return false;
+  if (q.actor && e.actor !== q.actor) return false;
+  if (q.since && e.at < q.since) return false;
+  if (q.until && e.at > q.until) return false;
+  return true;
+}
+
+/**
+ * Append-only NDJSON audit trail. Writes are serialised so lines never
+ * interleave; a failed write is logged and does not fail the request.
+ */
+export class AuditLog {
+  private tail: Promise<void> = Promise.resolve();
+
+  constructor(readonly path: string) {}
+
+  record(
+    actor: Actor,
+    entry: { action: string; run_id?: string | null; job_id?: string | null; payload?: unknown; result: AuditResult; detail?: Record<string, unknown> },
+  ): Promise<void> {
+    const line: AuditEntry = {
+      at: new Date().toISOString(),
+      ...actor,
+      action: entry.action,
+      run_id: entry.run_id || null,
+      job_id: entry.job_id || null,
+      payload_sha256: payloadDigest(entry.payload),
+      result: entry.result,
+      ...(entry.detail ? { detail: entry.detail } : {}),
+    };
+    this.tail = this.tail.then(async () => {
+      try {
+        await mkdir(dirname(this.path), { recursive: true });
+        await appendFile(this.path, JSON.stringify(line) + "\n", "utf8");
+      } catch (err) {
+        console.error(`[audit] cannot append to ${this.path}:`, err, line);
+      }
+    });
+    return this.tail;
+  }
+
+  /** Every entry in file order; malformed lines (a torn last write) are skipped. */
+  private async *entries(): AsyncGenerator<AuditEntry> {
+    await this.tail;
+    try {
+      await stat(this.path);
+    } catch {
+      return; // nothing recorded yet
+    }
+    const stream = createReadStream(this.path, { encoding: "utf8" });
+    try {
+      for await (const line of createInterface({ input: stream, crlfDelay: Infinity })) {
+        if (!line.trim()) continue;
+        try {
+          yield JSON.parse(line) as AuditEntry;
+        } catch { /* skip malformed line */ }
+      }
+    } finally {
+      stream.destroy();
+    }
+  }
+
+  /** Matching entries, newest first. */
+  async query(q: AuditQuery): Promise<AuditEntry[]> {
+    const limit = Math.min(Math.max(1, q.limit ?? DEFAULT_QUERY_LIMIT), MAX_QUERY_LIMIT);
+    const out: AuditEntry[] = [];
+    for await (const e of this.entries()) {
+      if (!matches(e, q)) continue;
+      out.push(e);
+      if (out.length > limit) out.shift();
+    }
+    return out.reverse();
+  }
+
+  /**
+   * A run's activity, newest first: entries naming the run, plus entries of
+   * the factory jobs that drove it (a fresh start's spawn happens before its
+   * run id is known).
+   */
+  async forRun(runId: string, limit = DEFAULT_QUERY_LIMIT): Promise<AuditEntry[]> {
+    // One pass: other runs' job entries are held back (at most `limit` per
+    // job, all that can make the cut) until we know which jobs drove this run.
+    const keep = (list: [number, AuditEntry][], item: [number, AuditEntry]) => {
+      list.push(item);
+      if (list.length > limit) list.shift();
+    };
+    const own: [number, AuditEntry][] = [];
+    const byJob = new Map<string, [number, AuditEntry][]>();
+    const jobIds = new Set<string>();
+    let seq = 0;
+    for await (const e of this.entries()) {
+      seq++;
+      if (e.run_id === runId) {
+        if (e.job_id) jobIds.add(e.job_id);
+        keep(own, [seq, e]);
+      } else if (e.job_id) {
+        let list = byJob.get(e.job_id);
+        if (!list) byJob.set(e.job_id, (list = []));
+        keep(list, [seq, e]);
+      }
+    }
+    const merged = [...own];
+    for (const jobId of jobIds) merged.push(...(byJob.get(jobId) ?? []));
+    merged.sort((a, b) => b[0] - a[0]);
+    return merged.slice(0, limit).map(([, e]) => e);
+  }
+}
+
+export function registerAuditRoutes(app: Express, opts: { audit: AuditLog }) {
+  const { audit } = opts;
+
+  /** Query: ?run_id= &job_id= &action= (a trailing "." matches a prefix) &actor= &since= &until= &limit=. Admin only. */
+  app.get("/api/audit", async (req: Request, res: Response) => {
+    const str = (k: string) => (typeof req.query[k] === "string" && req.query[k] ? String(req.query[k]) : undefined);
+    const limit = parseInt(String(req.query["limit"] ?? ""), 10);
+    try {
+      const entries = await audit.query({
+        run_id: str("run_id"),
+        job_id: str("job_id"),
+        action: str("action"),
+        actor: str("actor"),
+        since: str("since"),
+        until: str("until"),
+        limit: Number.isFinite(limit) ? limit : undefined,
+      });
+      res.json({ entries });
+    } catch (err) {
+      res.status(500).json({ error: String(err) });
+    }
+  });
+
+  /** The Activity view of a run; readable with the read scope, so client addresses are left out. */
+  app.get("/api/runs/:id/activity", async (req: Request, res: Response) => {
+    const runId = String(req.params["id"] ?? "");
+    try {
+      const entries = await audit.forRun(runId);
+      res.json({ entries: entries.map(({ ip: _ip, ...rest }) => rest) });
+    } catch (err) {
+      res.status(500).json({ error: String(err) });
+    }
+  });
+}
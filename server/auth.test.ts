@@ -0,0 +1,183 @@
+import assert from "node:assert/strict";
+import { createHash } from "node:crypto";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import test from "node:test";
+import type { Request, Response } from "express";
+import { AuditLog } from "./audit.js";
+import { ApiAuth, parseTokenConfig, scopeForRoute } from "./auth.js";
+
+const ALICE = "alice-token-0123456789";
+const CI = "ci-token-abcdefghijklmnop";
+
+function fakeReq(
+  method: string,
+  path: string,
+  token?: string,
+  query: Record<string, string> = {},
+  from = "127.0.0.1",
+  headers: Record<string, string> = {},
+): Request {
+  return {
+    method,
+    path,
+    query,
+    ip: from,
+    socket: { remoteAddress: from },
+    headers: token ? { ...headers, authorization: `Bearer ${token}` } : headers,
+  } as unknown as Request;
+}
+
+const STREAM = { accept: "text/event-stream" };
+
+/** Run the middleware; returns the status it sent, or "next" if it let the request through. */
+async function run(auth: ApiAuth, req: Request): Promise<number | "next"> {
+  let status: number | "next" = "next";
+  const res = {
+    locals: {},
+    status(code: number) {
+      status = code;
+      return this;
+    },
+    json() {
+      return this;
+    },
+  } as unknown as Response;
+  await auth.middleware()(req, res, () => {});
+  return status;
+}
+
+async function withTokensFile(doc: unknown | null, fn: (file: string) => Promise<void>) {
+  const dir = await mkdtemp(join(tmpdir(), "api-auth-"));
+  const file = join(dir, "api-tokens.json");
+  try {
+    if (doc !== null) await writeFile(file, typeof doc === "string" ? doc : JSON.stringify(doc));
+    await fn(file);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+test("parseTokenConfig expands implied scopes and skips bad entries", () => {
+  const digest = createHash("sha256").update(CI).digest("hex");
+  const { publicScopes, tokens, errors } = parseTokenConfig({
+    tokens: [
+      { name: "alice", token: ALICE, scopes: ["admin"] },
+      { name: "ci", sha256: digest, scopes: ["factory"] },
+      { name: "short", token: "too-short", scopes: ["read"] },
+      { name: "alice", token: ALICE, scopes: ["read"] },
+      { name: "odd", token: ALICE + "x", scopes: ["root"] },
+    ],
+  });
+  assert.deepEqual([...publicScopes], ["read"]);
+  assert.deepEqual(tokens.map((t) => t.name), ["alice", "ci"]);
+  assert.deepEqual([...tokens[0].scopes].sort(), ["admin", "factory", "feedback", "read"]);
+  assert.deepEqual([...tokens[1].scopes].sort(), ["factory", "read"]);
+  assert.equal(errors.length, 4);
+});
+
+test("scopeForRoute maps write routes to their scope and defaults the rest", () => {
+  assert.equal(scopeForRoute("GET", "/api/runs"), "read");
+  assert.equal(scopeForRoute("GET", "/api/factory/attractor/runs/01ABC"), "read");
+  assert.equal(scopeForRoute("POST", "/api/factory/attractor/runs/01ABC/stop"), "factory");
+  assert.equal(scopeForRoute("GET", "/api/factory/jobs"), "factory");
+  assert.equal(scopeForRoute("GET", "/api/runs/01ABC/launcher-logs"), "factory");
+  assert.equal(scopeForRoute("POST", "/api/runs/01ABC/feedback-respond"), "feedback");
+  assert.equal(scopeForRoute("POST", "/api/runs/01ABC/workspace/reveal"), "feedback");
+  assert.equal(scopeForRoute("GET", "/api/auth/tokens"), "admin");
+  assert.equal(scopeForRoute("PUT", "/api/budgets"), "admin");
+});
+
+test("scopeForRoute matches paths the way Express routes them", () => {
+  assert.equal(scopeForRoute("POST", "/API/factory/start"), "factory");
+  assert.equal(scopeForRoute("POST", "/api/Factory/start"), "factory");
+  assert.equal(scopeForRoute("GET", "/api/AUDIT"), "admin");
+  assert.equal(scopeForRoute("GET", "/api/audit/"), "admin");
+  assert.equal(scopeForRoute("POST", "/api/runs/r1/Feedback-Respond/"), "feedback");
+});
+
+test("with a tokens file, scopes are enforced per token", async () => {
+  await withTokensFile({
+    tokens: [
+      { name: "alice", token: ALICE, scopes: ["feedback"] },
+      { name: "ci", token: CI, scopes: ["factory"] },
+    ],
+  }, async (file) => {
+    const auth = new ApiAuth({ tokensFile: file });
+    await auth.reload(true);
+    assert.equal(auth.enforced, true);
+
+    assert.equal(await run(auth, fakeReq("GET", "/api/runs")), "next");
+    assert.equal(await run(auth, fakeReq("POST", "/api/runs/r1/feedback-respond")), 401);
+    assert.equal(await run(auth, fakeReq("POST", "/api/runs/r1/feedback-respond", ALICE)), "next");
+    assert.equal(await run(auth, fakeReq("POST", "/api/runs/r1/feedback-respond", CI)), 403);
+    assert.equal(await run(auth, fakeReq("POST", "/api/factory/attractor/start", CI)), "next");
+    assert.equal(await run(auth, fakeReq("POST", "/api/factory/attractor/start", ALICE)), 403);
+    assert.equal(await run(auth, fakeReq("GET", "/api/runs", "not-a-token")), 401);
+    assert.equal(await run(auth, fakeReq("GET", "/api/factory/jobs", undefined, { access_token: CI }, "127.0.0.1", STREAM)), "next");
+    // Query tokens are only read from EventSource requests.
+    assert.equal(await run(auth, fakeReq("GET", "/api/factory/jobs", undefined, { access_token: CI })), 401);
+    // Non-API paths (the SPA) are never gated.
+    assert.equal(await run(auth, fakeReq("GET", "/run/r1")), "next");
+    // Express routes these to the same handlers, so they are gated the same.
+    assert.equal(await run(auth, fakeReq("POST", "/API/factory/attractor/start")), 401);
+    assert.equal(await run(auth, fakeReq("GET", "/api/AUDIT")), 401);
+    assert.equal(await run(auth, fakeReq("GET", "/api/auth/tokens/", ALICE)), 403);
+
+    const usage = auth.tokenUsage();
+    assert.deepEqual(usage.map((u) => [u.name, u.uses]), [["alice", 3], ["ci", 3]]);
+    assert.equal(usage[1].last_used_from, "127.0.0.1");
+  });
+});
+
+test("without a tokens file writes are open to loopback only, and the env token is admin", async () => {
+  await withTokensFile(null, async (file) => {
+    const open = new ApiAuth({ tokensFile: file });
+    await open.reload(true);
+    assert.equal(open.enforced, false);
+    assert.equal(await run(open, fakeReq("POST", "/api/runs/r1/feedback-respond")), "next");
+    assert.equal(await run(open, fakeReq("PUT", "/api/budgets")), "next");
+    assert.equal(await run(open, fakeReq("POST", "/api/factory/attractor/start")), 503);
+    assert.equal(await run(open, fakeReq("POST", "/api/Factory/attractor/start")), 503);
+    // Remote or proxied callers only read.
+    assert.equal(await run(open, fakeReq("GET", "/api/runs", undefined, {}, "10.0.0.7")), "next");
+    assert.equal(await run(open, fakeReq("POST", "/api/runs/r1/feedback-respond", undefined, {}, "10.0.0.7")), 401);
+    const proxied = fakeReq("PUT", "/api/budgets", undefined, {}, "127.0.0.1", { "x-forwarded-for": "10.0.0.7" });
+    assert.equal(await run(open, proxied), 401);
+
+    const legacy = new ApiAuth({ tokensFile: file, legacyFactoryToken: CI });
+    await legacy.reload(true);
+    assert.equal(await run(legacy, fakeReq("POST", "/api/factory/attractor/start")), 401);
+    assert.equal(await run(legacy, fakeReq("POST", "/api/factory/attractor/start", CI)), "next");
+    assert.equal(await run(legacy, fakeReq("POST", "/api/factory/attractor/start", ALICE)), 401);
+    assert.equal(await run(legacy, fakeReq("PUT", "/api/budgets", CI, {}, "10.0.0.7")), "next");
+  });
+});
+
+test("refused writes are audited with the token id, refused reads are not", async () => {
+  await withTokensFile({ tokens: [{ name: "ci", token: CI, scopes: ["factory"] }] }, async (file) => {
+    const audit = new AuditLog(join(file, "..", "audit.ndjson"));
+    const auth = new ApiAuth({ tokensFile: file, audit });
+    await auth.reload(true);
+    assert.equal(await run(auth, fakeReq("POST", "/api/runs/r1/feedback-respond", CI)), 403);
+    assert.equal(await run(auth, fakeReq("POST", "/api/runs/r1/feedback-respond", "not-a-token")), 401);
+    assert.equal(await run(auth, fakeReq("GET", "/api/auth/tokens", CI)), 403);
+
+    const entries = await audit.query({ action: "auth.denied" });
+    assert.deepEqual(entries.map((e) => [e.actor, e.run_id, e.detail?.status]), [
+      ["unknown token", "r1", 401],
+      ["ci", "r1", 403],
+    ]);
+    assert.equal(entries[1].token_id, createHash("sha256").update(CI).digest("hex").slice(0, 12));
+    assert.equal(auth.tokenUsage()[0].id, entries[1].token_id);
+  });
+});
+
+test("an unparseable tokens file fails closed", async () => {
+  await withTokensFile("{ not json", async (file) => {
+    const auth = new ApiAuth({ tokensFile: file });
+    await auth.reload(true);
+    assert.equal(await run(auth, fakeReq("GET", "/api/runs")), 401);
+  });
+});
@@ -0,0 +1,362 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import { readFile, stat } from "node:fs/promises";
+import type { Express, NextFunction, Request, RequestHandler, Response } from "express";
+import { requestActor, type AuditLog } from "./audit.js";
+
+// ── API tokens and scopes ───────────────────────────────────────────────────
+//
+// KILROY_API_TOKENS_FILE (default <state dir>/api-tokens.json):
+//
+//   {
+//     "public_scopes": ["read"],
+//     "tokens": [
+//       { "name": "alice", "token": "…", "scopes": ["admin"] },
+//       { "name": "ci", "sha256": "<hex digest of the token>", "scopes": ["factory"] }
+//     ]
+//   }
+//
+// Requests send `Authorization: Bearer <token>`; EventSource clients, which
+// cannot set headers, may pass ?access_token= on event-stream GETs (and only
+// there, to keep tokens out of access logs). `public_scopes` (default
+// ["read"]) are granted without a token. admin implies every scope; factory
+// and feedback imply read.
+//
+// Without the file anonymous callers get read only, except from loopback
+// (not via a proxy), which also gets feedback and admin so a local UI keeps
+// working. KILROY_FACTORY_TOKEN is then the credential for everything;
+// with the file present it is honoured for the factory scope only.
+
+export const SCOPES = ["read", "feedback", "factory", "admin"] as const;
+export type Scope = (typeof SCOPES)[number];
+
+const IMPLIED: Record<Scope, Scope[]> = {
+  read: ["read"],
+  feedback: ["feedback", "read"],
+  factory: ["factory", "read"],
+  admin: ["admin", "factory", "feedback", "read"],
+};
+
+/** Who a request acts as; `name` and `tokenId` are null for anonymous requests. */
+export interface Principal {
+  name: string | null;
+  tokenId: string | null;
+  scopes: Set<Scope>;
+}
+
+interface TokenEntry {
+  name: string;
+  digest: Buffer;
+  scopes: Set<Scope>;
+}
+
+/** Per-token use counters (no secrets), for GET /api/auth/tokens. */
+export interface TokenUsage {
+  name: string;
+  /** The token id recorded in the audit log. */
+  id: string;
+  scopes: Scope[];
+  source: "file" | "env";
+  uses: number;
+  last_used_at: string | null;
+  last_used_from: string | null;
+}
+
+interface TokenConfig {
+  /** False when there is no tokens file: the legacy, mostly-open mode. */
+  enforced: boolean;
+  publicScopes: Set<Scope>;
+  tokens: TokenEntry[];
+  errors: string[];
+}
+
+const LEGACY_ENV_NAME = "KILROY_FACTORY_TOKEN";
+const RELOAD_CHECK_MS = 2_000;
+
+const sha256 = (s: string) => createHash("sha256").update(s, "utf8").digest();
+/** A token's public id: a prefix of its digest, safe to log. */
+const tokenId = (digest: Buffer) => digest.toString("hex").slice(0, 12);
+
+function expand(scopes: Iterable<Scope>): Set<Scope> {
+  const out = new Set<Scope>();
+  for (const s of scopes) for (const implied of IMPLIED[s]) out.add(implied);
+  return out;
+}
+
+function parseScopes(raw: unknown, where: string, errors: string[]): Scope[] {
+  if (!Array.isArray(raw)) {
+    errors.push(`${where}: scopes must be a list`);
+    return [];
+  }
+  const out: Scope[] = [];
+  for (const s of raw) {
+    if ((SCOPES as readonly string[]).includes(String(s))) out.push(s as Scope);
+    else errors.push(`${where}: unknown scope "${String(s)}"`);
+  }
+  return out;
+}
+
+/** Validate tokens-file contents; bad entries are reported and skipped. */
+export function parseTokenConfig(doc: unknown): { publicScopes: Set<Scope>; tokens: TokenEntry[]; errors: string[] } {
+  const errors: string[] = [];
+  const obj = (doc ?? {}) as Record<string, unknown>;
+  const publicScopes = expand(obj.public_scopes === undefined ? ["read"] : parseScopes(obj.public_scopes, "public_scopes", errors));
+  const tokens: TokenEntry[] = [];
+  const names = new Set<string>();
+  const list = Array.isArray(obj.tokens) ? obj.tokens : [];
+  if (!Array.isArray(obj.tokens)) errors.push("top-level `tokens` list missing");
+  list.forEach((raw, i) => {
+    const e = (raw ?? {}) as Record<string, unknown>;
+    const name = typeof e.name === "string" ? e.name.trim() : "";
+    const where = `token ${name || `#${i + 1}`}`;
+    if (!name) { errors.push(`${where}: name required`); return; }
+    if (names.has(name)) { errors.push(`${where}: duplicate name`); return; }
+    let digest: Buffer;
+    if (typeof e.sha256 === "string" && /^[0-9a-f]{64}$/i.test(e.sha256.trim())) {
+      digest = Buffer.from(e.sha256.trim(), "hex");
+    } else if (typeof e.token === "string" && e.token.trim().length >= 16) {
+      digest = sha256(e.token.trim());
+    } else {
+      errors.push(`${where}: needs "token" (16+ characters) or "sha256" (hex digest)`);
+      return;
+    }
+    const scopes = parseScopes(e.scopes, where, errors);
+    if (scopes.length === 0) { errors.push(`${where}: no valid scopes`); return; }
+    names.add(name);
+    tokens.push({ name, digest, scopes: expand(scopes) });
+  });
+  return { publicScopes, tokens, errors };
+}
+
+/** The bearer token of a request: Authorization header, or ?access_token= on an EventSource GET. */
+function presentedToken(req: Request): string | null {
+  const h = String(req.headers.authorization ?? "");
+  if (h.startsWith("Bearer ")) return h.slice("Bearer ".length).trim() || null;
+  const wantsStream = String(req.headers.accept ?? "").includes("text/event-stream");
+  if (req.method === "GET" && wantsStream && typeof req.query["access_token"] === "string") return req.query["access_token"];
+  return null;
+}
+
+const LOOPBACK = new Set(["127.0.0.1", "::1", "::ffff:127.0.0.1"]);
+
+/** A direct connection from this host; anything forwarded by a proxy does not count. */
+function isLoopback(req: Request): boolean {
+  return LOOPBACK.has(req.socket?.remoteAddress ?? "") && req.headers["x-forwarded-for"] === undefined;
+}
+
+// ── Route scopes ────────────────────────────────────────────────────────────
+// First match wins. Anything unlisted needs read for GET/HEAD and admin otherwise.
+// Express routes match case-insensitively and ignore a trailing slash, so
+// paths are compared in that same normalised form.
+
+const ROUTE_SCOPES: { methods?: string[]; pattern: RegExp; scope: Scope }[] = [
+  // Lets the viewer decide whether to offer Stop / Launcher log; reveals no output.
+  { methods: ["GET"], pattern: /^\/api\/factory\/attractor\/runs\/[^/]+$/i, scope: "read" },
+  { pattern: /^\/api\/factory(\/|$)/i, scope: "factory" },
+  { pattern: /^\/api\/runs\/[^/]+\/launcher-logs$/i, scope: "factory" },
+  { methods: ["POST"], pattern: /^\/api\/runs\/[^/]+\/feedback-respond$/i, scope: "feedback" },
+  { methods: ["POST"], pattern: /^\/api\/runs\/[^/]+\/workspace\/reveal$/i, scope: "feedback" },
+  { pattern: /^\/api\/auth\/tokens$/i, scope: "admin" },
+  { pattern: /^\/api\/audit$/i, scope: "admin" },
+];
+
+/** A request path as Express routes it: lower-cased, without trailing slashes. */
+function routePath(path: string): string {
+  return path.toLowerCase().replace(/\/+$/, "") || "/";
+}
+
+export function scopeForRoute(method: string, path: string): Scope {
+  const normalized = routePath(path);
+  for (const rule of ROUTE_SCOPES) {
+    if (rule.methods && !rule.methods.includes(method)) continue;
+    if (rule.pattern.test(normalized)) return rule.scope;
+  }
+  return method === "GET" || method === "HEAD" ? "read" : "admin";
+}
+
+/**
+ * Resolves request credentials to a Principal and enforces route scopes.
+ * The tokens file is re-read when it changes.
+ */
+export class ApiAuth {
+  private config: TokenConfig = { enforced: false, publicScopes: new Set(), tokens: [], errors: [] };
+  // undefined until the first load; null while there is no tokens file.
+  private loadedMtime: number | null | undefined;
+  private lastCheck = 0;
+  private usage = new Map<string, TokenUsage>();
+
+  constructor(private opts: { tokensFile: string; legacyFactoryToken?: string; audit?: AuditLog }) {}
+
+  get enforced(): boolean {
+    return this.config.enforced;
+  }
+
+  /** Re-read the tokens file if it changed; at most every couple of seconds unless forced. */
+  async reload(force = false): Promise<void> {
+    const now = Date.now();
+    if (!force && now - this.lastCheck < RELOAD_CHECK_MS) return;
+    this.lastCheck = now;
+    let mtime: number | null = null;
+    try {
+      mtime = (await stat(this.opts.tokensFile)).mtimeMs;
+    } catch { /* no tokens file: legacy mode */ }
+    if (!force && mtime === this.loadedMtime) return;
+    this.loadedMtime = mtime;
+
+    if (mtime == null) {
+      this.config = { enforced: false, publicScopes: new Set(["read"]), tokens: [], errors: [] };
+    } else {
+      let parsed: ReturnType<typeof parseTokenConfig>;
+      try {
+        parsed = parseTokenConfig(JSON.parse(await readFile(this.opts.tokensFile, "utf8")));
+      } catch (err) {
+        // Fail closed: a broken file must not reopen the API.
+        parsed = { publicScopes: new Set(), tokens: [], errors: [`cannot parse: ${(err as Error).message}`] };
+      }
+      this.config = { enforced: true, ...parsed };
+      for (const msg of parsed.errors) console.warn(`[auth] ${this.opts.tokensFile}: ${msg}`);
+      console.log(`[auth] loaded ${parsed.tokens.length} API token(s) from ${this.opts.tokensFile}`);
+    }
+  }
+
+  private allTokens(): (TokenEntry & { source: "file" | "env" })[] {
+    const tokens: (TokenEntry & { source: "file" | "env" })[] = this.config.tokens.map((t) => ({ ...t, source: "file" }));
+    const legacy = this.opts.legacyFactoryToken?.trim();
+    if (legacy) {
+      const scopes = expand([this.config.enforced ? "factory" : "admin"]);
+      tokens.push({ name: LEGACY_ENV_NAME, digest: sha256(legacy), scopes, source: "env" });
+    }
+    return tokens;
+  }
+
+  /**
+   * The principal for a request, or null when a token was presented but
+   * matches nothing. Digests are compared in constant time, and every
+   * token is compared so the match position does not leak through timing.
+   */
+  authenticate(req: Request): Principal | null {
+    const token = presentedToken(req);
+    if (token == null) {
+      // Not expanded: a local caller keeps the open endpoints but never gets factory.
+      const local = !this.config.enforced && isLoopback(req);
+      return { name: null, tokenId: null, scopes: local ? new Set(["read", "feedback", "admin"]) : this.config.publicScopes };
+    }
+    const digest = sha256(token);
+    let match: (TokenEntry & { source: "file" | "env" }) | null = null;
+    for (const entry of this.allTokens()) {
+      if (timingSafeEqual(digest, entry.digest) && !match) match = entry;
+    }
+    if (!match) return null;
+    const scopes = new Set([...match.scopes, ...this.config.publicScopes]);
+    this.recordUse(match, req);
+    return { name: match.name, tokenId: tokenId(match.digest), scopes };
+  }
+
+  private recordUse(entry: TokenEntry & { source: "file" | "env" }, req: Request) {
+    const u = this.usage.get(entry.name) ?? {
+      name: entry.name, id: tokenId(entry.digest), scopes: [], source: entry.source, uses: 0, last_used_at: null, last_used_from: null,
+    };
+    u.scopes = SCOPES.filter((s) => entry.scopes.has(s));
+    u.uses++;
+    u.last_used_at = new Date().toISOString();
+    u.last_used_from = req.ip ?? null;
+    this.usage.set(entry.name, u);
+  }
+
+  /** Use counters for every configured token, including ones never used. */
+  tokenUsage(): TokenUsage[] {
+    return this.allTokens().map((t) => this.usage.get(t.name) ?? {
+      name: t.name,
+      id: tokenId(t.digest),
+      scopes: SCOPES.filter((s) => t.scopes.has(s)),
+      source: t.source,
+      uses: 0,
+      last_used_at: null,
+      last_used_from: null,
+    });
+  }
+
+  /**
+   * Refused writes go to the audit log (refused reads would only be noise);
+   * `actor` is "unknown token" when the presented token matched nothing.
+   */
+  private recordDenied(req: Request, res: Response, status: number, scope: Scope) {
+    if (!this.opts.audit || req.method === "GET" || req.method === "HEAD") return;
+    const who = res.locals.principal ? requestActor(req, res) : { actor: "unknown token", token_id: null, ip: req.ip ?? null };
+    void this.opts.audit.record(who, {
+      action: "auth.denied",
+      run_id: /^\/api\/runs\/([^/]+)\//i.exec(req.path)?.[1] ?? null,
+      result: "denied",
+      detail: { method: req.method, path: req.path, status, required_scope: scope },
+    });
+  }
+
+  /** Express middleware: authenticate /api requests and enforce the route's scope. */
+  middleware(): RequestHandler {
+    return async (req: Request, res: Response, next: NextFunction) => {
+      if (!routePath(req.path).startsWith("/api/")) return next();
+      try {
+        await this.reload();
+      } catch (err) {
+        console.error("[auth] reload failed:", err);
+      }
+      const scope = scopeForRoute(req.method, req.path);
+      const principal = this.authenticate(req);
+      if (!principal) {
+        console.warn(`[auth] rejected unknown token for ${req.method} ${req.path} from ${req.ip}`);
+        this.recordDenied(req, res, 401, scope);
+        res.status(401).json({ error: "unauthorized" });
+        return;
+      }
+      res.locals.principal = principal;
+      if (principal.scopes.has(scope)) {
+        if (principal.name && req.method !== "GET" && req.method !== "HEAD") {
+          console.log(`[auth] ${principal.name}: ${req.method} ${req.path}`);
+        }
+        return next();
+      }
+      if (principal.name) {
+        console.warn(`[auth] ${principal.name} lacks ${scope} for ${req.method} ${req.path}`);
+        this.recordDenied(req, res, 403, scope);
+        res.status(403).json({ error: `token "${principal.name}" lacks the ${scope} scope` });
+        return;
+      }
+      if (scope === "factory" && !this.config.enforced && !this.opts.legacyFactoryToken?.trim()) {
+        res.status(503).json({ error: "factory API disabled (no KILROY_FACTORY_TOKEN)" });
+        return;
+      }
+      this.recordDenied(req, res, 401, scope);
+      res.status(401).json({ error: "unauthorized", required_scope: scope });
+    };
+  }
+}
+
+/**
+ * For checks that depend on the request body rather than the route: 403
+ * unless the principal resolved by the middleware has `scope`.
+ */
+export function requireScope(req: Request, res: Response, scope: Scope): boolean {
+  const principal = res.locals.principal as Principal | undefined;
+  if (principal?.scopes.has(scope)) return true;
+  const who = principal?.name ? `token "${principal.name}"` : "anonymous request";
+  res.status(principal?.name ? 403 : 401).json({ error: `${who} lacks the ${scope} scope` });
+  return false;
+}
+
+export function registerAuthRoutes(app: Express, opts: { auth: ApiAuth }) {
+  const { auth } = opts;
+
+  /** The caller's identity, so clients can tell which controls to offer. */
+  app.get("/api/auth/whoami", (_req: Request, res: Response) => {
+    const principal = res.locals.principal as Principal | undefined;
+    res.json({
+      name: principal?.name ?? null,
+      scopes: SCOPES.filter((s) => principal?.scopes.has(s)),
+      enforced: auth.enforced,
+    });
+  });
+
+  /** Configured tokens with use counts since the server started; never the secrets. */
+  app.get("/api/auth/tokens", (_req: Request, res: Response) => {
+    res.json({ enforced: auth.enforced, tokens: auth.tokenUsage() });
+  });
+}
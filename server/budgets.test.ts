@@ -0,0 +1,49 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { crossedThresholds, parseBudgetConfig, resolveBudget, type BudgetStore } from "./budgets.js";
+import { collectProgressEvents } from "./progressWebhookFilter.js";
+import type { RunState } from "./runWatcher.js";
+
+test("budget bodies need a positive threshold; stop_on_limit needs a limit", () => {
+  assert.deepEqual(parseBudgetConfig({ warn_usd: "5", limit_usd: 20 }), { warn_usd: 5, limit_usd: 20 });
+  assert.equal(typeof parseBudgetConfig({}), "string");
+  assert.equal(typeof parseBudgetConfig({ limit_usd: -1 }), "string");
+  assert.equal(typeof parseBudgetConfig({ warn_usd: 30, limit_usd: 20 }), "string");
+  assert.equal(typeof parseBudgetConfig({ warn_usd: 5, stop_on_limit: true }), "string");
+});
+
+test("run budgets override graph budgets, which override the default", () => {
+  const store: BudgetStore = { graphs: { build: { limit_usd: 50 } }, runs: { r1: { warn_usd: 1 } } };
+  const defaults = { limit_usd: 100 };
+  assert.deepEqual(resolveBudget(store, "r1", "build", defaults), { warn_usd: 1, source: "run" });
+  assert.deepEqual(resolveBudget(store, "r2", "build", defaults), { limit_usd: 50, source: "graph" });
+  assert.deepEqual(resolveBudget(store, "r2", "docs", defaults), { limit_usd: 100, source: "default" });
+  assert.equal(resolveBudget(store, "r2", null, { warn_usd: undefined }), null);
+});
+
+test("thresholds fire in order and keep their first crossing time", () => {
+  const budget = { warn_usd: 5, limit_usd: 10 };
+  assert.deepEqual(crossedThresholds(budget, 4, [], "t0"), []);
+  const warned = crossedThresholds(budget, 6, [], "t1");
+  assert.deepEqual(warned.map((a) => [a.level, a.crossed_at]), [["warn", "t1"]]);
+  const limited = crossedThresholds(budget, 12, warned, "t2");
+  assert.deepEqual(limited.map((a) => [a.level, a.crossed_at]), [["warn", "t1"], ["limit", "t2"]]);
+  // A re-priced stage lowering the total does not un-cross a threshold.
+  assert.equal(crossedThresholds(budget, 3, limited, "t3").length, 2);
+  // Raising the limit re-arms it.
+  assert.deepEqual(crossedThresholds({ ...budget, limit_usd: 20 }, 12, limited, "t4").map((a) => a.level), ["warn"]);
+});
+
+test("budget alerts surface as one webhook event per level", () => {
+  const state: RunState = {
+    run: { id: "r1", status: "executing" },
+    containerAlive: true,
+    computedStatus: "executing",
+    lastChecked: "2026-03-20T00:00:00Z",
+    format: "attractor",
+  };
+  const matches = collectProgressEvents(state, { events: ["budget"] }, [], [
+    { level: "warn", spent_usd: 6, threshold_usd: 5, crossed_at: "t1" },
+  ]);
+  assert.deepEqual(matches.map((m) => [m.type, m.key, m.status]), [["budget", "budget:warn", "warn"]]);
+});
@@ -0,0 +1,344 @@
+import type { Express, Request, Response } from "express";
+import { readFile } from "node:fs/promises";
+import { requestActor, type AuditLog } from "./audit.js";
+import { requireScope } from "./auth.js";
+import { computeRunCost, type StageCostCache } from "./costs.js";
+import { interruptFactoryRun } from "./factory.js";
+import { writeJsonAtomic } from "./jsonFile.js";
+import type { RunState, RunWatcher } from "./runWatcher.js";
+
+/** USD thresholds for one run or every run of a graph. Mirrors `BudgetConfig` in src/lib/types.ts. */
+export interface BudgetConfig {
+  warn_usd?: number;
+  limit_usd?: number;
+  /** Interrupt the factory's attractor child when the limit is crossed. */
+  stop_on_limit?: boolean;
+}
+
+export interface ResolvedBudget extends BudgetConfig {
+  /** Which level of configuration applied: run beats graph beats the server default. */
+  source: "run" | "graph" | "default";
+}
+
+export type BudgetLevel = "warn" | "limit";
+
+export interface BudgetAlert {
+  level: BudgetLevel;
+  spent_usd: number;
+  threshold_usd: number;
+  crossed_at: string;
+}
+
+export interface BudgetStatus {
+  run_id: string;
+  budget: ResolvedBudget | null;
+  spent_usd: number | null;
+  /** Thresholds crossed so far, warn before limit. */
+  alerts: BudgetAlert[];
+  stopped_at: string | null;
+}
+
+export interface BudgetStore {
+  graphs: Record<string, BudgetConfig>;
+  runs: Record<string, BudgetConfig>;
+}
+
+const STORE_VERSION = 1;
+const TERMINAL_STATUSES = new Set(["completed", "failed", "interrupted"]);
+
+function hasThreshold(c: BudgetConfig | undefined): c is BudgetConfig {
+  return c?.warn_usd != null || c?.limit_usd != null;
+}
+
+/** Parse a PUT body. Returns an error string for invalid input. */
+export function parseBudgetConfig(raw: unknown): BudgetConfig | string {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return "body must be an object";
+  const obj = raw as Record<string, unknown>;
+  const config: BudgetConfig = {};
+  for (const key of ["warn_usd", "limit_usd"] as const) {
+    if (obj[key] == null) continue;
+    const n = Number(obj[key]);
+    if (!Number.isFinite(n) || n <= 0) return `${key} must be a positive number`;
+    config[key] = n;
+  }
+  if (!hasThreshold(config)) return "warn_usd or limit_usd required";
+  if (config.warn_usd != null && config.limit_usd != null && config.warn_usd > config.limit_usd) {
+    return "warn_usd must not exceed limit_usd";
+  }
+  if (obj.stop_on_limit != null) {
+    if (typeof obj.stop_on_limit !== "boolean") return "stop_on_limit must be a boolean";
+    if (obj.stop_on_limit && config.limit_usd == null) return "stop_on_limit requires limit_usd";
+    config.stop_on_limit = obj.stop_on_limit;
+  }
+  return config;
+}
+
+export function resolveBudget(
+  store: BudgetStore,
+  runId: string,
+  graphName: string | null,
+  defaults?: BudgetConfig,
+): ResolvedBudget | null {
+  const run = store.runs[runId];
+  if (hasThreshold(run)) return { ...run, source: "run" };
+  const graph = graphName ? store.graphs[graphName] : undefined;
+  if (hasThreshold(graph)) return { ...graph, source: "graph" };
+  if (hasThreshold(defaults)) return { ...defaults, source: "default" };
+  return null;
+}
+
+/**
+ * Thresholds `spentUsd` has reached. A threshold keeps its original
+ * crossed_at; lowering spend (a re-priced stage) never un-crosses one.
+ */
+export function crossedThresholds(
+  budget: BudgetConfig,
+  spentUsd: number,
+  prev: BudgetAlert[],
+  now: string,
+): BudgetAlert[] {
+  const alerts: BudgetAlert[] = [];
+  const levels: [BudgetLevel, number | undefined][] = [["warn", budget.warn_usd], ["limit", budget.limit_usd]];
+  for (const [level, threshold] of levels) {
+    if (threshold == null) continue;
+    const earlier = prev.find((a) => a.level === level && a.threshold_usd === threshold);
+    if (!earlier && spentUsd < threshold) continue;
+    alerts.push({ level, spent_usd: spentUsd, threshold_usd: threshold, crossed_at: earlier?.crossed_at ?? now });
+  }
+  return alerts;
+}
+
+async function loadBudgetStore(storePath: string): Promise<BudgetStore> {
+  try {
+    const parsed = JSON.parse(await readFile(storePath, "utf8")) as Partial<BudgetStore>;
+    return { graphs: parsed.graphs ?? {}, runs: parsed.runs ?? {} };
+  } catch {
+    return { graphs: {}, runs: {} };
+  }
+}
+
+async function saveBudgetStore(storePath: string, store: BudgetStore): Promise<void> {
+  await writeJsonAtomic(storePath, { version: STORE_VERSION, saved_at: new Date().toISOString(), ...store });
+}
+
+/**
+ * Prices live runs as they progress and raises budget alerts on the watcher,
+ * which turns them into `budget` progress-webhook events. While any budget is
+ * configured every run is watched, so alerts do not depend on an open viewer.
+ */
+export class BudgetMonitor {
+  private store: BudgetStore = { graphs: {}, runs: {} };
+  private status = new Map<string, Omit<BudgetStatus, "run_id" | "budget">>();
+  // Runs being priced → the newest state that arrived meanwhile (null = none).
+  private inFlight = new Map<string, RunState | null>();
+  private stageCosts = new Map<string, StageCostCache>();
+  private watchingAll = false;
+  private persist: Promise<void> = Promise.resolve();
+
+  constructor(
+    private watcher: RunWatcher,
+    private opts: { storePath?: string; defaults?: BudgetConfig } = {},
+  ) {}
+
+  async start(): Promise<void> {
+    if (this.opts.storePath) this.store = await loadBudgetStore(this.opts.storePath);
+    const onState = (runId: string, state: RunState) => this.schedule(runId, state);
+    this.watcher.on("update", onState);
+    this.watcher.on("run-added", onState);
+    await this.syncWatching();
+  }
+
+  getStore(): BudgetStore { return this.store; }
+
+  resolve(runId: string, graphName: string | null): ResolvedBudget | null {
+    return resolveBudget(this.store, runId, graphName, this.opts.defaults);
+  }
+
+  async statusFor(runId: string, state: RunState): Promise<BudgetStatus> {
+    const budget = this.resolve(runId, state.run.dot_file ?? null);
+    const entry = this.status.get(runId);
+    if (!entry && budget) {
+      // Not evaluated since start-up (idle or finished run): price it for
+      // display only, without raising alerts after the fact.
+      const runDir = await this.watcher.findRunDir(runId);
+      const spent = runDir ? (await computeRunCost(runDir, state)).totals.cost_usd : null;
+      const alerts = spent == null ? [] : crossedThresholds(budget, spent, [], new Date().toISOString());
+      return { run_id: runId, budget, spent_usd: spent, alerts, stopped_at: null };
+    }
+    return {
+      run_id: runId,
+      budget,
+      spent_usd: entry?.spent_usd ?? null,
+      alerts: budget ? entry?.alerts ?? [] : [],
+      stopped_at: entry?.stopped_at ?? null,
+    };
+  }
+
+  async setBudget(scope: "runs" | "graphs", key: string, config: BudgetConfig | null) {
+    if (config) this.store[scope][key] = config;
+    else delete this.store[scope][key];
+    const storePath = this.opts.storePath;
+    if (storePath) {
+      const snapshot = { graphs: { ...this.store.graphs }, runs: { ...this.store.runs } };
+      this.persist = this.persist
+        .then(() => saveBudgetStore(storePath, snapshot))
+        .catch((err) => console.error("[BudgetMonitor] failed to persist budgets:", err));
+    }
+    await this.syncWatching();
+    // Thresholds changed: re-evaluate tracked runs against the new numbers.
+    const runIds = new Set(this.status.keys());
+    if (scope === "runs") runIds.add(key);
+    for (const runId of runIds) {
+      const state = this.watcher.getState(runId);
+      if (state) this.schedule(runId, state);
+    }
+  }
+
+  private async syncWatching() {
+    const any = hasThreshold(this.opts.defaults)
+      || Object.values(this.store.graphs).some(hasThreshold)
+      || Object.values(this.store.runs).some(hasThreshold);
+    if (any && !this.watchingAll) {
+      this.watchingAll = true;
+      await this.watcher.acquireAllRuns();
+    } else if (!any && this.watchingAll) {
+      this.watchingAll = false;
+      this.watcher.releaseAllRuns();
+    }
+  }
+
+  /** Coalesce updates: at most one pricing pass per run, re-run once with the newest state. */
+  private schedule(runId: string, state: RunState) {
+    if (this.inFlight.has(runId)) {
+      this.inFlight.set(runId, state);
+      return;
+    }
+    this.inFlight.set(runId, null);
+    void (async () => {
+      let next: RunState | null = state;
+      while (next) {
+        try {
+          await this.evaluate(runId, next);
+        } catch (err) {
+          console.error(`[BudgetMonitor] pricing ${runId} failed:`, err);
+        }
+        next = this.inFlight.get(runId) ?? null;
+        this.inFlight.set(runId, null);
+      }
+      this.inFlight.delete(runId);
+    })();
+  }
+
+  private async evaluate(runId: string, state: RunState) {
+    const budget = this.resolve(runId, state.run.dot_file ?? null);
+    const runDir = await this.watcher.findRunDir(runId);
+    if (!budget || !runDir) {
+      this.status.delete(runId);
+      this.stageCosts.delete(runId);
+      this.watcher.setBudgetAlerts(runId, []);
+      return;
+    }
+    let stageCosts = this.stageCosts.get(runId);
+    if (!stageCosts) this.stageCosts.set(runId, (stageCosts = new Map()));
+    const cost = await computeRunCost(runDir, state, stageCosts);
+    // Finished runs stop updating; their memo would only hold memory.
+    if (TERMINAL_STATUSES.has(state.computedStatus)) this.stageCosts.delete(runId);
+    const prev = this.status.get(runId);
+    const spent = cost.totals.cost_usd;
+    const alerts = crossedThresholds(budget, spent, prev?.alerts ?? [], new Date().toISOString());
+    const entry = { spent_usd: spent, alerts, stopped_at: prev?.stopped_at ?? null };
+
+    for (const alert of alerts) {
+      if (prev?.alerts.some((a) => a.level === alert.level)) continue;
+      console.warn(`[BudgetMonitor] run ${runId} crossed its ${alert.level} of $${alert.threshold_usd.toFixed(2)} ($${spent.toFixed(2)} spent)`);
+    }
+    const limit = alerts.find((a) => a.level === "limit");
+    if (limit && budget.stop_on_limit && !entry.stopped_at && !TERMINAL_STATUSES.has(state.computedStatus)) {
+      const reason = `budget limit $${limit.threshold_usd.toFixed(2)} reached`;
+      if (await interruptFactoryRun(runDir, reason)) entry.stopped_at = new Date().toISOString();
+    }
+
+    this.status.set(runId, entry);
+    this.watcher.setBudgetAlerts(runId, alerts);
+  }
+}
+
+export function registerBudgetRoutes(app: Express, opts: { watcher: RunWatcher; monitor: BudgetMonitor; audit: AuditLog }) {
+  const { watcher, monitor, audit } = opts;
+
+  /**
+   * Setting stop_on_limit lets the server kill a factory child, so it needs
+   * the factory scope on top of the route's own.
+   */
+  const parseBody = (req: Request, res: Response): BudgetConfig | null => {
+    const config = parseBudgetConfig(req.body);
+    if (typeof config === "string") {
+      res.status(400).json({ error: config });
+      return null;
+    }
+    if (config.stop_on_limit && !requireScope(req, res, "factory")) return null;
+    return config;
+  };
+
+  app.get("/api/budgets", (_req: Request, res: Response) => {
+    res.json(monitor.getStore());
+  });
+
+  app.put("/api/budgets/graphs/:graph", async (req: Request, res: Response) => {
+    const config = parseBody(req, res);
+    if (!config) return;
+    const graph = String(req.params["graph"] ?? "");
+    await monitor.setBudget("graphs", graph, config);
+    void audit.record(requestActor(req, res), {
+      action: "budget.set", payload: req.body, result: "ok", detail: { graph, budget: config },
+    });
+    res.json({ graph, budget: config });
+  });
+
+  app.delete("/api/budgets/graphs/:graph", async (req: Request, res: Response) => {
+    const graph = String(req.params["graph"] ?? "");
+    if (!monitor.getStore().graphs[graph]) {
+      res.status(404).json({ error: "no budget for graph" });
+      return;
+    }
+    await monitor.setBudget("graphs", graph, null);
+    void audit.record(requestActor(req, res), { action: "budget.clear", result: "ok", detail: { graph } });
+    res.json({ ok: true });
+  });
+
+  app.get("/api/runs/:id/budget", async (req: Request, res: Response) => {
+    const runId = String(req.params["id"] ?? "");
+    const state = await watcher.readOnce(runId);
+    if (!state) {
+      res.status(404).json({ error: "run not found" });
+      return;
+    }
+    res.json(await monitor.statusFor(runId, state));
+  });
+
+  app.put("/api/runs/:id/budget", async (req: Request, res: Response) => {
+    const runId = String(req.params["id"] ?? "");
+    if (!(await watcher.findRunDir(runId))) {
+      res.status(404).json({ error: "run not found" });
+      return;
+    }
+    const config = parseBody(req, res);
+    if (!config) return;
+    await monitor.setBudget("runs", runId, config);
+    void audit.record(requestActor(req, res), {
+      action: "budget.set", run_id: runId, payload: req.body, result: "ok", detail: { budget: config },
+    });
+    res.json({ run_id: runId, budget: config });
+  });
+
+  app.delete("/api/runs/:id/budget", async (req: Request, res: Response) => {
+    const runId = String(req.params["id"] ?? "");
+    if (!monitor.getStore().runs[runId]) {
+      res.status(404).json({ error: "no budget for run" });
+      return;
+    }
+    await monitor.setBudget("runs", runId, null);
+    void audit.record(requestActor(req, res), { action: "budget.clear", run_id: runId, result: "ok" });
+    res.json({ ok: true });
+  });
+}
@@ -3,21 +3,22 @@ import { join } from "node:path";
 
 /**
  * repairCheckpointForResume mirrors kilroy-dash's Go repair logic enough for embedded resume.
+ * Returns the node it reset, or null when the checkpoint needed no repair.
  */
-export async function repairCheckpointForResume(runsRoot: string, runID: string): Promise<void> {
+export async function repairCheckpointForResume(runsRoot: string, runID: string): Promise<string | null> {
   const runDir = join(runsRoot, runID);
   const cpPath = join(runDir, "checkpoint.json");
   let data: string;
   try {
     data = await readFile(cpPath, "utf8");
   } catch {
-    return;
+    return null;
   }
   let cp: Record<string, unknown>;
   try {
     cp = JSON.parse(data) as Record<string, unknown>;
   } catch {
-    return;
+    return null;
   }
 
   let runFailed = false;
@@ -35,7 +36,7 @@ export async function repairCheckpointForResume(runsRoot: string, runID: string)
       /* no final */
     }
   }
-  if (!runFailed) return;
+  if (!runFailed) return null;
 
   let failedNode = "";
   const retries = cp["node_retries"] as Record<string, number> | undefined;
@@ -83,7 +84,7 @@ export async function repairCheckpointForResume(runsRoot: string, runID: string)
       if (pn && pn !== "exit" && pn !== "start") failedNode = pn;
     }
   }
-  if (!failedNode || failedNode === "exit") return;
+  if (!failedNode || failedNode === "exit") return null;
 
   const completedRaw = (cp["completed_nodes"] as unknown[] | undefined) ?? [];
   const newCompleted: unknown[] = [];
@@ -140,4 +141,5 @@ export async function repairCheckpointForResume(runsRoot: string, runID: string)
   }
 
   await writeFile(cpPath, JSON.stringify(cp, null, 2), "utf8");
+  return failedNode;
 }
@@ -0,0 +1,24 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { summarizeNodes } from "./compare.js";
+import type { VisitedStage } from "./runWatcher.js";
+
+test("node summaries aggregate visits across attempts and restart dirs", () => {
+  const history: VisitedStage[] = [
+    { node_id: "implement", attempt: 1, status: "fail", started_at: "t0", duration_s: 30, failure_reason: "tests failed" },
+    { node_id: "implement", attempt: 2, status: "fail", started_at: "t1", duration_s: 20, failure_reason: "tests failed" },
+    { node_id: "implement", attempt: 1, status: "pass", started_at: "t2", duration_s: 10, restartIndex: 1, stage_path: "restart-1/implement" },
+    { node_id: "review", attempt: 1, status: "running", started_at: "t3" },
+  ];
+  const nodes = summarizeNodes(history);
+  assert.deepEqual([...nodes.keys()], ["implement", "review"]);
+
+  const implement = nodes.get("implement")!;
+  assert.equal(implement.visits, 3);
+  assert.equal(implement.max_attempt, 2);
+  assert.equal(implement.total_duration_s, 60);
+  assert.deepEqual(implement.statuses, ["fail", "fail", "pass"]);
+  assert.deepEqual(implement.failure_reasons, ["tests failed"]);
+  assert.equal(implement.stage_path, "restart-1/implement");
+  assert.deepEqual([...implement.stagePaths], ["implement", "restart-1/implement"]);
+});
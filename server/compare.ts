@@ -0,0 +1,132 @@
+import type { Express, Request, Response } from "express";
+import { estimateStageCost } from "./pricing.js";
+import type { RunState, RunWatcher, VisitedStage } from "./runWatcher.js";
+
+/** One run's side of a node row. Mirrors `CompareNodeSide` in src/lib/types.ts. */
+export interface CompareNodeSide {
+  visits: number;
+  max_attempt: number;
+  total_duration_s: number;
+  statuses: VisitedStage["status"][];
+  failure_reasons: string[];
+  /** Stage dir of the latest visit — where response.md lives. */
+  stage_path: string;
+  /** Summed over the node's distinct stage dirs; null when no stage could be priced. */
+  estimated_cost_usd: number | null;
+}
+
+export interface CompareNodeRow {
+  node_id: string;
+  a: CompareNodeSide | null;
+  b: CompareNodeSide | null;
+}
+
+export interface CompareRunSummary {
+  id: string;
+  graph_name: string | null;
+  status: string;
+  started_at: string | null;
+  finished_at: string | null;
+  duration_s: number | null;
+  visits: number;
+  estimated_cost_usd: number | null;
+}
+
+export interface RunComparison {
+  a: CompareRunSummary;
+  b: CompareRunSummary;
+  same_graph: boolean;
+  nodes: CompareNodeRow[];
+}
+
+/** Per-node aggregates for one run, in first-visit order. Costs are filled in separately. */
+export function summarizeNodes(history: VisitedStage[]): Map<string, CompareNodeSide & { stagePaths: Set<string> }> {
+  const byNode = new Map<string, CompareNodeSide & { stagePaths: Set<string> }>();
+  for (const v of history) {
+    const stagePath = v.stage_path ?? v.node_id;
+    let side = byNode.get(v.node_id);
+    if (!side) {
+      side = {
+        visits: 0, max_attempt: 0, total_duration_s: 0, statuses: [], failure_reasons: [],
+        stage_path: stagePath, estimated_cost_usd: null, stagePaths: new Set(),
+      };
+      byNode.set(v.node_id, side);
+    }
+    side.visits++;
+    side.max_attempt = Math.max(side.max_attempt, v.attempt);
+    side.total_duration_s += v.duration_s ?? 0;
+    side.statuses.push(v.status);
+    if (v.failure_reason && !side.failure_reasons.includes(v.failure_reason)) side.failure_reasons.push(v.failure_reason);
+    side.stage_path = stagePath;
+    side.stagePaths.add(stagePath);
+  }
+  return byNode;
+}
+
+function runDuration(state: RunState): number | null {
+  const start = state.run.started_at ? Date.parse(state.run.started_at) : NaN;
+  const end = state.run.finished_at ? Date.parse(state.run.finished_at) : NaN;
+  return Number.isFinite(start) && Number.isFinite(end) ? Math.round((end - start) / 1000) : null;
+}
+
+async function sideWithCosts(
+  runDir: string,
+  history: VisitedStage[],
+): Promise<{ nodes: Map<string, CompareNodeSide>; total: number | null }> {
+  const nodes = new Map<string, CompareNodeSide>();
+  let total: number | null = null;
+  for (const [nodeId, { stagePaths, ...side }] of summarizeNodes(history)) {
+    for (const stagePath of stagePaths) {
+      const cost = (await estimateStageCost(runDir, stagePath))?.estimated_cost_usd;
+      if (cost == null) continue;
+      side.estimated_cost_usd = (side.estimated_cost_usd ?? 0) + cost;
+      total = (total ?? 0) + cost;
+    }
+    nodes.set(nodeId, side);
+  }
+  return { nodes, total };
+}
+
+export function registerCompareRoutes(app: Express, opts: { watcher: RunWatcher }) {
+  const { watcher } = opts;
+
+  /** Side-by-side node statistics for two runs, normally of the same graph. */
+  app.get("/api/compare/:runA/:runB", async (req: Request, res: Response) => {
+    const ids = [String(req.params["runA"] ?? ""), String(req.params["runB"] ?? "")];
+    const sides = [];
+    for (const id of ids) {
+      const runDir = await watcher.findRunDir(id);
+      const state = runDir ? await watcher.readOnce(id) : null;
+      if (!runDir || !state) {
+        res.status(404).json({ error: `run not found: ${id}` });
+        return;
+      }
+      sides.push({ state, ...(await sideWithCosts(runDir, state.stageHistory ?? [])) });
+    }
+    const [a, b] = sides;
+
+    const summary = (s: typeof a): CompareRunSummary => ({
+      id: s.state.run.id,
+      graph_name: s.state.run.dot_file ?? null,
+      status: s.state.computedStatus,
+      started_at: s.state.run.started_at ?? null,
+      finished_at: s.state.run.finished_at ?? null,
+      duration_s: runDuration(s.state),
+      visits: s.state.stageHistory?.length ?? 0,
+      estimated_cost_usd: s.total,
+    });
+
+    const nodeIds = [...new Set([...a.nodes.keys(), ...b.nodes.keys()])];
+    const comparison: RunComparison = {
+      a: summary(a),
+      b: summary(b),
+      same_graph: (a.state.run.dot_file ?? null) === (b.state.run.dot_file ?? null),
+      nodes: nodeIds.map((nodeId) => ({
+        node_id: nodeId,
+        a: a.nodes.get(nodeId) ?? null,
+        b: b.nodes.get(nodeId) ?? null,
+      })),
+    };
+    res.json(comparison);
+  });
+}
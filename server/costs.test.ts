@@ -0,0 +1,78 @@
+import assert from "node:assert/strict";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import test from "node:test";
+import { computeRunCost, emptyTotals, rollupCosts, type RunCost, type StageCost, type StageCostCache } from "./costs.js";
+import type { RunState } from "./runWatcher.js";
+
+function stage(node_id: string, model_id: string, cost_usd: number | null, stage_path = node_id): StageCost {
+  return {
+    stage_path, node_id, model_id, cost_usd, token_source: "usage", pricing_source: null,
+    input_tokens: 100, output_tokens: 10, cache_read_tokens: 0, cache_write_tokens: 0,
+  };
+}
+
+function run(run_id: string, graph_name: string, started_at: string, stages: StageCost[]): RunCost {
+  const totals = emptyTotals();
+  for (const s of stages) {
+    if (s.cost_usd == null) totals.unpriced_stages++;
+    else { totals.cost_usd += s.cost_usd; totals.priced_stages++; }
+    totals.input_tokens += s.input_tokens;
+    totals.output_tokens += s.output_tokens;
+  }
+  return { run_id, graph_name, repo: "kilroy", started_at, status: "completed", totals, stages };
+}
+
+test("rollup groups by graph, model, day and node, priciest first", () => {
+  const rollup = rollupCosts([
+    run("r2", "build", "2026-03-02T10:00:00Z", [
+      stage("implement", "anthropic/sonnet", 1.0),
+      stage("implement", "anthropic/sonnet", 0.5, "restart-1/implement"),
+      stage("review", "openai/gpt-5", null),
+    ]),
+    run("r1", "build", "2026-03-01T09:00:00Z", [stage("implement", "anthropic/sonnet", 0.5), stage("review", "openai/gpt-5", 0.25)]),
+    run("r0", "docs", "2026-03-01T08:00:00Z", [stage("write", "openai/gpt-5", 0.1)]),
+  ]);
+
+  assert.equal(rollup.totals.cost_usd, 2.35);
+  assert.equal(rollup.totals.unpriced_stages, 1);
+  assert.equal(rollup.runs.length, 3);
+  assert.equal("stages" in rollup.runs[0]!, false);
+
+  assert.deepEqual(rollup.by_graph.map((g) => [g.key, g.runs]), [["build", 2], ["docs", 1]]);
+  assert.deepEqual(rollup.by_day.map((g) => g.key), ["2026-03-02", "2026-03-01"]);
+  assert.deepEqual(rollup.by_model.map((g) => [g.key, g.runs]), [["anthropic/sonnet", 2], ["openai/gpt-5", 3]]);
+
+  const implement = rollup.by_node[0]!;
+  assert.equal(implement.key, "build::implement");
+  assert.equal(implement.runs, 2);
+  assert.equal(implement.totals.cost_usd, 2.0);
+  assert.equal(implement.avg_cost_usd, 1.0);
+});
+
+test("a stage cost cache re-prices a stage only when its events change", async () => {
+  const runDir = await mkdtemp(join(tmpdir(), "run-cost-"));
+  try {
+    await mkdir(join(runDir, "implement"));
+    await writeFile(join(runDir, "implement", "provider_used.json"), JSON.stringify({ model: "gpt-5" }));
+    const events = (input: number) => JSON.stringify({ type: "thread.started" }) + "\n"
+      + JSON.stringify({ type: "turn.completed", usage: { input_tokens: input, output_tokens: 10 } }) + "\n";
+    await writeFile(join(runDir, "implement", "events.ndjson"), events(100));
+    const state = { run: { id: "r1" }, computedStatus: "executing", stageHistory: [{ node_id: "implement" }] } as unknown as RunState;
+
+    const cache: StageCostCache = new Map();
+    const first = await computeRunCost(runDir, state, cache);
+    const memo = cache.get("implement")?.pricing;
+    assert.equal(first.stages[0]?.input_tokens, 100);
+    await computeRunCost(runDir, state, cache);
+    assert.equal(cache.get("implement")?.pricing, memo);
+
+    await writeFile(join(runDir, "implement", "events.ndjson"), events(2500));
+    const second = await computeRunCost(runDir, state, cache);
+    assert.notEqual(cache.get("implement")?.pricing, memo);
+    assert.equal(second.stages[0]?.input_tokens, 2500);
+  } finally {
+    await rm(runDir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,286 @@
+import { stat } from "node:fs/promises";
+import { join } from "node:path";
+import type { Express, Request, Response } from "express";
+import { estimateStageCost } from "./pricing.js";
+import { loadPricingTable, type PricingTable } from "./pricingTable.js";
+import type { RunState, RunWatcher } from "./runWatcher.js";
+import type { PricingEstimate, PricingSource } from "./turns.js";
+
+/** Sums over a set of priced stages. Mirrors `CostTotals` in src/lib/types.ts. */
+export interface CostTotals {
+  cost_usd: number;
+  /** Stages with a dollar figure. */
+  priced_stages: number;
+  /** Stages with events but no price (unknown model / no modeldb) — cost_usd excludes them. */
+  unpriced_stages: number;
+  /** Priced from chars ÷ 4 rather than provider usage. */
+  estimated_stages: number;
+  input_tokens: number;
+  output_tokens: number;
+  cache_read_tokens: number;
+  cache_write_tokens: number;
+}
+
+export interface StageCost {
+  stage_path: string;
+  node_id: string;
+  model_id: string;
+  cost_usd: number | null;
+  token_source: "usage" | "estimate";
+  input_tokens: number;
+  output_tokens: number;
+  cache_read_tokens: number;
+  cache_write_tokens: number;
+  /** Which pricing table or modeldb entry priced the stage; null when unpriced. */
+  pricing_source: PricingSource | null;
+}
+
+export interface RunCost {
+  run_id: string;
+  graph_name: string | null;
+  repo: string | null;
+  started_at: string | null;
+  status: string;
+  totals: CostTotals;
+  stages: StageCost[];
+}
+
+export interface CostGroup {
+  key: string;
+  runs: number;
+  totals: CostTotals;
+}
+
+export interface NodeCostGroup extends CostGroup {
+  graph_name: string | null;
+  node_id: string;
+  /** Mean cost per run that visited the node. */
+  avg_cost_usd: number;
+}
+
+export interface CostRollup {
+  runs: (Omit<RunCost, "stages">)[];
+  totals: CostTotals;
+  by_graph: CostGroup[];
+  by_repo: CostGroup[];
+  by_model: CostGroup[];
+  by_day: CostGroup[];
+  by_node: NodeCostGroup[];
+}
+
+const DEFAULT_ROLLUP_RUNS = 50;
+const MAX_ROLLUP_RUNS = 500;
+const TERMINAL_STATUSES = new Set(["completed", "failed", "interrupted"]);
+
+export function emptyTotals(): CostTotals {
+  return {
+    cost_usd: 0, priced_stages: 0, unpriced_stages: 0, estimated_stages: 0,
+    input_tokens: 0, output_tokens: 0, cache_read_tokens: 0, cache_write_tokens: 0,
+  };
+}
+
+export function addStageToTotals(t: CostTotals, s: StageCost) {
+  if (s.cost_usd == null) t.unpriced_stages++;
+  else { t.cost_usd += s.cost_usd; t.priced_stages++; }
+  if (s.token_source === "estimate") t.estimated_stages++;
+  t.input_tokens += s.input_tokens;
+  t.output_tokens += s.output_tokens;
+  t.cache_read_tokens += s.cache_read_tokens;
+  t.cache_write_tokens += s.cache_write_tokens;
+}
+
+function mergeTotals(into: CostTotals, from: CostTotals) {
+  for (const key of Object.keys(into) as (keyof CostTotals)[]) into[key] += from[key];
+}
+
+/**
+ * Stage pricing kept between passes over one live run, keyed by stage_path.
+ * An entry stands while the stage's events.ndjson and the pricing table are
+ * unchanged, so heartbeat updates do not re-parse every finished stage.
+ */
+export type StageCostCache = Map<string, {
+  mtimeMs: number;
+  size: number;
+  table: PricingTable | null;
+  pricing: PricingEstimate | undefined;
+}>;
+
+async function cachedStageCost(runDir: string, stagePath: string, cache: StageCostCache): Promise<PricingEstimate | undefined> {
+  let file: { mtimeMs: number; size: number };
+  try {
+    file = await stat(join(runDir, stagePath, "events.ndjson"));
+  } catch {
+    cache.delete(stagePath);
+    return undefined;
+  }
+  const table = await loadPricingTable();
+  const hit = cache.get(stagePath);
+  if (hit && hit.mtimeMs === file.mtimeMs && hit.size === file.size && hit.table === table) return hit.pricing;
+  const pricing = await estimateStageCost(runDir, stagePath);
+  cache.set(stagePath, { mtimeMs: file.mtimeMs, size: file.size, table, pricing });
+  return pricing;
+}
+
+/**
+ * Every distinct stage directory of the run: main-line stages, parallel
+ * branches and restart-N copies each have their own stage_path. A directory
+ * keeps only its latest attempt's events, so retries in place are not re-billed.
+ */
+export async function computeRunCost(runDir: string, state: RunState, cache?: StageCostCache): Promise<RunCost> {
+  const stagePaths = new Map<string, string>();
+  for (const v of state.stageHistory ?? []) stagePaths.set(v.stage_path ?? v.node_id, v.node_id);
+
+  const stages: StageCost[] = [];
+  const totals = emptyTotals();
+  for (const [stagePath, nodeId] of stagePaths) {
+    const pricing = cache ? await cachedStageCost(runDir, stagePath, cache) : await estimateStageCost(runDir, stagePath);
+    if (!pricing) continue;
+    const usage = pricing.actual_usage;
+    const stage: StageCost = {
+      stage_path: stagePath,
+      node_id: nodeId,
+      model_id: pricing.model_id,
+      cost_usd: pricing.estimated_cost_usd,
+      token_source: pricing.token_source,
+      input_tokens: usage?.input_tokens ?? pricing.estimated_input_tokens,
+      output_tokens: usage?.output_tokens ?? pricing.estimated_output_tokens,
+      cache_read_tokens: usage?.cache_read_tokens ?? 0,
+      cache_write_tokens: usage?.cache_write_tokens ?? 0,
+      pricing_source: pricing.pricing_source,
+    };
+    stages.push(stage);
+    addStageToTotals(totals, stage);
+  }
+
+  return {
+    run_id: state.run.id,
+    graph_name: state.run.dot_file ?? null,
+    repo: state.run.repo ?? null,
+    started_at: state.run.started_at ?? null,
+    status: state.computedStatus,
+    totals,
+    stages,
+  };
+}
+
+/** Group a set of run costs by graph, repo, model, start day and graph node. */
+export function rollupCosts(costs: RunCost[]): CostRollup {
+  const groups = {
+    graph: new Map<string, CostGroup>(),
+    repo: new Map<string, CostGroup>(),
+    model: new Map<string, CostGroup>(),
+    day: new Map<string, CostGroup>(),
+  };
+  const nodes = new Map<string, NodeCostGroup>();
+  const totals = emptyTotals();
+
+  const bucket = <G extends CostGroup>(map: Map<string, G>, key: string, make: () => G): G => {
+    let g = map.get(key);
+    if (!g) { g = make(); map.set(key, g); }
+    return g;
+  };
+  const plain = (key: string) => () => ({ key, runs: 0, totals: emptyTotals() });
+
+  for (const cost of costs) {
+    mergeTotals(totals, cost.totals);
+    const runKeys: [Map<string, CostGroup>, string][] = [
+      [groups.graph, cost.graph_name ?? "(unknown)"],
+      [groups.repo, cost.repo ?? "(unknown)"],
+      [groups.day, cost.started_at?.slice(0, 10) ?? "(unknown)"],
+    ];
+    for (const [map, key] of runKeys) {
+      const g = bucket(map, key, plain(key));
+      g.runs++;
+      mergeTotals(g.totals, cost.totals);
+    }
+
+    const modelsSeen = new Set<string>();
+    const nodesSeen = new Set<string>();
+    for (const stage of cost.stages) {
+      const m = bucket(groups.model, stage.model_id, plain(stage.model_id));
+      if (!modelsSeen.has(stage.model_id)) { m.runs++; modelsSeen.add(stage.model_id); }
+      addStageToTotals(m.totals, stage);
+
+      const nodeKey = `${cost.graph_name ?? "(unknown)"}::${stage.node_id}`;
+      const n = bucket(nodes, nodeKey, () => ({
+        key: nodeKey, graph_name: cost.graph_name, node_id: stage.node_id, runs: 0, totals: emptyTotals(), avg_cost_usd: 0,
+      }));
+      if (!nodesSeen.has(nodeKey)) { n.runs++; nodesSeen.add(nodeKey); }
+      addStageToTotals(n.totals, stage);
+    }
+  }
+
+  const byCost = <G extends CostGroup>(map: Map<string, G>) =>
+    [...map.values()].sort((a, b) => b.totals.cost_usd - a.totals.cost_usd);
+  for (const n of nodes.values()) n.avg_cost_usd = n.runs > 0 ? n.totals.cost_usd / n.runs : 0;
+
+  return {
+    runs: costs.map(({ stages: _stages, ...rest }) => rest),
+    totals,
+    by_graph: byCost(groups.graph),
+    by_repo: byCost(groups.repo),
+    by_model: byCost(groups.model),
+    by_day: [...groups.day.values()].sort((a, b) => b.key.localeCompare(a.key)),
+    by_node: byCost(nodes),
+  };
+}
+
+export function registerCostRoutes(app: Express, opts: { watcher: RunWatcher }) {
+  const { watcher } = opts;
+  // Finished runs do not change; live ones are recomputed on every request.
+  const cache = new Map<string, RunCost>();
+  watcher.on("update", (runId: string) => cache.delete(runId));
+
+  // Editing the pricing table re-prices everything, finished runs included.
+  let pricedWith: PricingTable | null | undefined;
+
+  const runCost = async (runId: string): Promise<RunCost | null> => {
+    const table = await loadPricingTable();
+    if (table !== pricedWith) {
+      cache.clear();
+      pricedWith = table;
+    }
+    const cached = cache.get(runId);
+    if (cached) return cached;
+    const runDir = await watcher.findRunDir(runId);
+    const state = runDir ? await watcher.readOnce(runId) : null;
+    if (!runDir || !state) return null;
+    const cost = await computeRunCost(runDir, state);
+    if (TERMINAL_STATUSES.has(state.computedStatus)) cache.set(runId, cost);
+    return cost;
+  };
+
+  /** The local pricing table (KILROY_PRICING_FILE) as loaded, with any entries it rejected. */
+  app.get("/api/pricing", async (_req: Request, res: Response) => {
+    const table = await loadPricingTable();
+    res.json({ table });
+  });
+
+  app.get("/api/runs/:id/cost", async (req: Request, res: Response) => {
+    const cost = await runCost(String(req.params["id"] ?? ""));
+    if (!cost) { res.status(404).json({ error: "run not found" }); return; }
+    res.json(cost);
+  });
+
+  /**
+   * Cost rollup over the most recent runs. Query: ?limit=50 &graph=name &repo=name.
+   * Filters apply before the limit, so ?graph=x&limit=50 is "the last 50 runs of x".
+   */
+  app.get("/api/costs", async (req: Request, res: Response) => {
+    const rawLimit = parseInt(String(req.query["limit"] ?? ""), 10);
+    const limit = Math.min(Number.isFinite(rawLimit) && rawLimit > 0 ? rawLimit : DEFAULT_ROLLUP_RUNS, MAX_ROLLUP_RUNS);
+    const graph = String(req.query["graph"] ?? "").trim();
+    const repo = String(req.query["repo"] ?? "").trim();
+
+    const costs: RunCost[] = [];
+    for (const { id } of await watcher.listRuns()) {
+      if (costs.length >= limit) break;
+      const cost = await runCost(id);
+      if (!cost) continue;
+      if (graph && cost.graph_name !== graph) continue;
+      if (repo && cost.repo !== repo) continue;
+      costs.push(cost);
+    }
+    res.json(rollupCosts(costs));
+  });
+}
@@ -0,0 +1,64 @@
+import assert from "node:assert/strict";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import test from "node:test";
+import express from "express";
+import { AuditLog } from "./audit.js";
+import { ApiAuth } from "./auth.js";
+import { registerFactoryRoutes } from "./factory.js";
+
+const CI = "ci-token-abcdefghijklmnop";
+const ALICE = "alice-token-0123456789";
+
+test("the stop route needs the factory scope and is audited", async () => {
+  const root = await mkdtemp(join(tmpdir(), "factory-routes-"));
+  const tokensFile = join(root, "api-tokens.json");
+  await writeFile(tokensFile, JSON.stringify({
+    tokens: [
+      { name: "ci", token: CI, scopes: ["factory"] },
+      { name: "alice", token: ALICE, scopes: ["feedback"] },
+    ],
+  }));
+  await mkdir(join(root, "runs"));
+  const audit = new AuditLog(join(root, "audit.ndjson"));
+  const auth = new ApiAuth({ tokensFile, audit });
+  await auth.reload(true);
+
+  const app = express();
+  app.use(express.json());
+  app.use(auth.middleware());
+  registerFactoryRoutes(app, {
+    runsDirs: [join(root, "runs")],
+    projectRoot: root,
+    logDir: join(root, "factory-logs"),
+    uploadDir: join(root, "factory-graphs"),
+    audit,
+  });
+  const server = app.listen(0, "127.0.0.1");
+  await new Promise((r) => server.once("listening", r));
+  const { port } = server.address() as AddressInfo;
+  const stop = (token?: string) =>
+    fetch(`http://127.0.0.1:${port}/api/factory/attractor/stop`, {
+      method: "POST",
+      headers: { "content-type": "application/json", ...(token ? { authorization: `Bearer ${token}` } : {}) },
+      body: JSON.stringify({ run_id: "01RUN", reason: "wrong graph" }),
+    });
+  try {
+    assert.equal((await stop()).status, 401);
+    assert.equal((await stop(ALICE)).status, 403);
+    // Authorised: reaches the handler, which has no job for the run.
+    const res = await stop(CI);
+    assert.equal(res.status, 409);
+    assert.deepEqual(await res.json(), { error: "run is not driven by a factory job" });
+
+    const stops = await audit.query({ action: "factory.stop" });
+    assert.deepEqual(stops.map((e) => [e.actor, e.run_id, e.result]), [["ci", "01RUN", "error"]]);
+    const denied = await audit.query({ action: "auth.denied" });
+    assert.deepEqual(denied.map((e) => [e.actor, e.detail?.status]), [["alice", 403], ["anonymous", 401]]);
+  } finally {
+    await new Promise((r) => server.close(r));
+    await rm(root, { recursive: true, force: true });
+  }
+});
@@ -1,220 +1,502 @@
 import type { Express, Request, Response } from "express";
 import { spawn, type ChildProcess } from "node:child_process";
-import { createWriteStream } from "node:fs";
+import { closeSync, mkdirSync, openSync } from "node:fs";
 import { access, readFile, readdir } from "node:fs/promises";
-import { join, resolve } from "node:path";
+import { dirname, join, resolve } from "node:path";
+import { requestActor, SYSTEM_ACTOR, type AuditLog, type AuditResult } from "./audit.js";
 import { repairCheckpointForResume } from "./checkpointRepair.js";
+import { FactoryLogStore } from "./factoryLogs.js";
+import { listStartFiles, parseStartRequest, startPolicyFromEnv } from "./factoryStart.js";
+import { FactoryJobQueue, type FactoryJob, type FactoryJobSpec } from "./factoryQueue.js";
 
 type FactoryOpts = {
   runsDirs: string[];
   projectRoot: string;
+  /** One `<job id>.log` per launch, plus a sidecar linking it to the run. */
+  logDir: string;
+  /** Graphs started from DOT text (browser drops) are written here. */
+  uploadDir: string;
+  audit: AuditLog;
 };
 
-function requireFactoryAuth(req: Request, res: Response): boolean {
-  const want = process.env.KILROY_FACTORY_TOKEN?.trim() ?? "";
-  if (!want) {
-    res.status(503).json({ error: "factory API disabled (no KILROY_FACTORY_TOKEN)" });
-    return false;
-  }
-  const h = String(req.headers.authorization ?? "");
-  const prefix = "Bearer ";
-  if (!h.startsWith(prefix) || h.slice(prefix.length).trim() !== want) {
-    res.status(401).json({ error: "unauthorized" });
-    return false;
-  }
-  return true;
-}
-
 function primaryRunsDir(runsDirs: string[]): string {
   return runsDirs[0] ?? join(process.env.HOME ?? "/root", ".local", "state", "kilroy", "attractor", "runs");
 }
 
-let active: ChildProcess | null = null;
-let lastFactoryError = "";
+function envPositiveInt(name: string, fallback: number): number {
+  const n = parseInt(process.env[name] ?? "", 10);
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+}
+
+const LOG_POLL_INTERVAL_MS = 500;
+const SSE_PING_INTERVAL_MS = 15_000;
+
+function spawnAttractor(job: FactoryJob): ChildProcess {
+  mkdirSync(dirname(job.log_path), { recursive: true });
+  // A raw fd: spawn() rejects a WriteStream whose file is not open yet.
+  const fd = openSync(job.log_path, "a");
+  try {
+    return spawn("kilroy", job.args, { cwd: job.cwd, env: process.env, stdio: ["ignore", fd, fd] });
+  } finally {
+    closeSync(fd);
+  }
+}
+
+// Set by registerFactoryRoutes; module-level so other features can stop runs.
+let jobs: FactoryJobQueue | null = null;
+let auditLog: AuditLog | null = null;
+
+/**
+ * Stop the factory job driving `runDir`, if there is one. Returns whether a
+ * stop was started.
+ */
+export async function interruptFactoryRun(runDir: string, reason: string): Promise<boolean> {
+  const job = await jobs?.jobForRunDir(runDir);
+  if (!job) return false;
+  const stopping = jobs!.stop(job, reason);
+  void auditLog?.record(SYSTEM_ACTOR, {
+    action: "factory.stop", run_id: job.run_id, job_id: job.id, result: stopping ? "ok" : "error", detail: { reason },
+  });
+  return stopping;
+}
 
-function setActive(child: ChildProcess | null) {
-  active = child;
+/** Attractor run ids that have a checkpoint but no successful final.json. */
+async function listIncompleteRuns(runsRoot: string): Promise<string[]> {
+  let entries: string[] = [];
+  try {
+    const dirents = await readdir(runsRoot, { withFileTypes: true });
+    entries = dirents.filter((d) => d.isDirectory()).map((d) => d.name);
+  } catch {
+    entries = [];
+  }
+  const incomplete: string[] = [];
+  for (const id of entries) {
+    try {
+      await access(join(runsRoot, id, "checkpoint.json"));
+    } catch {
+      continue;
+    }
+    let needs = false;
+    try {
+      await access(join(runsRoot, id, "final.json"));
+    } catch {
+      needs = true;
+    }
+    if (!needs) {
+      try {
+        const raw = await readFile(join(runsRoot, id, "final.json"), "utf8");
+        const fj = JSON.parse(raw) as Record<string, unknown>;
+        const st = String(fj["status"] ?? "");
+        if (st === "fail" || st === "work_failed") needs = true;
+      } catch {
+        needs = true;
+      }
+    }
+    if (needs) incomplete.push(id);
+  }
+  return incomplete;
 }
 
 export function registerFactoryRoutes(app: Express, opts: FactoryOpts) {
-  const { runsDirs, projectRoot } = opts;
+  const { runsDirs, projectRoot, audit } = opts;
   const runsRoot = primaryRunsDir(runsDirs);
+  const logs = new FactoryLogStore(opts.logDir, envPositiveInt("KILROY_FACTORY_LOG_KEEP", 200));
+  void logs.init().catch((err) => console.error(`[factory] cannot prepare log dir ${opts.logDir}:`, err));
+  // Fresh starts whose run dir has been recorded, so the link is audited once.
+  const linked = new Set<string>();
+  const onChange = (job: FactoryJob) => {
+    void logs.writeMeta(job);
+    if (job.status === "exited") {
+      linked.delete(job.id);
+      void audit.record(SYSTEM_ACTOR, {
+        action: "attractor.exit",
+        run_id: job.run_id,
+        job_id: job.id,
+        result: job.error ? "error" : "ok",
+        detail: { exit_code: job.exit_code, signal: job.signal, error: job.error },
+      });
+    } else if (job.kind === "start" && job.run_id && !linked.has(job.id)) {
+      linked.add(job.id);
+      void audit.record(SYSTEM_ACTOR, { action: "attractor.run_created", run_id: job.run_id, job_id: job.id, result: "ok" });
+    }
+  };
+  const queue = new FactoryJobQueue({
+    concurrency: envPositiveInt("KILROY_FACTORY_CONCURRENCY", 1),
+    runsRoot,
+    logPathFor: (jobId) => logs.logPath(jobId),
+    onChange,
+    // SIGINT lets the attractor checkpoint; SIGTERM, then SIGKILL, if it lingers.
+    stopEscalateMs: envPositiveInt("KILROY_FACTORY_STOP_GRACE_MS", 30_000),
+    spawn: (job) => {
+      const child = spawnAttractor(job);
+      // "spawn" fires only once the process exists (a failed spawn is recorded as its exit).
+      child.once("spawn", () => {
+        void audit.record(SYSTEM_ACTOR, {
+          action: "attractor.spawn", run_id: job.run_id, job_id: job.id, result: "ok",
+          detail: { kind: job.kind, pid: child.pid ?? null, args: job.args, cwd: job.cwd },
+        });
+      });
+      return child;
+    },
+  });
+  jobs = queue;
+  auditLog = audit;
+
+  /** Record a factory API call made by the requester; `job` is the job it created or acted on. */
+  const record = (
+    req: Request, res: Response, action: string, result: AuditResult,
+    fields: { job?: FactoryJob | null; run_id?: string | null; payload?: unknown; detail?: Record<string, unknown> } = {},
+  ) => {
+    void audit.record(requestActor(req, res), {
+      action,
+      run_id: fields.run_id ?? fields.job?.run_id,
+      job_id: fields.job?.id,
+      payload: "payload" in fields ? fields.payload : req.body,
+      result,
+      detail: fields.detail,
+    });
+  };
 
-  app.get("/api/factory/attractor/status", (req: Request, res: Response) => {
-    if (!requireFactoryAuth(req, res)) return;
+  const startPolicy = startPolicyFromEnv(projectRoot, opts.uploadDir);
+
+  /** Validate a start body into a job spec; returns an error message on bad input. */
+  const startSpec = async (body: Record<string, unknown>): Promise<FactoryJobSpec | string> => {
+    const start = await parseStartRequest(body, startPolicy);
+    if (typeof start === "string") return start;
+    return {
+      kind: "start",
+      args: start.args,
+      cwd: startPolicy.projectRoot,
+      graph_path: start.graph_path,
+      compose_file: start.compose_file,
+    };
+  };
+
+  /** Resumes repair the checkpoint right before launch, not at enqueue time. */
+  const resumeSpec = (attractorRunId: string): FactoryJobSpec => {
+    const logsRoot = join(runsRoot, attractorRunId);
+    return {
+      kind: "resume",
+      args: ["attractor", "resume", "--logs-root", logsRoot],
+      cwd: resolve(projectRoot),
+      run_dir: logsRoot,
+      prepare: async (job) => {
+        let node: string | null;
+        try {
+          node = await repairCheckpointForResume(runsRoot, attractorRunId);
+        } catch (err) {
+          void audit.record(SYSTEM_ACTOR, {
+            action: "checkpoint.repair", run_id: attractorRunId, job_id: job.id, result: "error", detail: { error: String(err) },
+          });
+          throw err;
+        }
+        if (node) {
+          void audit.record(SYSTEM_ACTOR, {
+            action: "checkpoint.repair", run_id: attractorRunId, job_id: job.id, result: "ok", detail: { reset_node: node },
+          });
+        }
+      },
+    };
+  };
+
+  const resolveRunning = () => Promise.all(queue.running().map((j) => queue.resolveRun(j)));
+
+  const lastError = () => queue.list().find((j) => j.status === "exited")?.error ?? null;
+
+  app.get("/api/factory/attractor/status", async (req: Request, res: Response) => {
+    await resolveRunning();
+    const running = queue.running();
     res.json({
-      busy: active !== null,
-      pid: active?.pid ?? null,
-      last_error: lastFactoryError || null,
+      busy: running.length >= queue.concurrency,
+      pid: running[0]?.pid ?? null,
+      run_id: running[0]?.run_id ?? null,
+      stopping: running[0]?.stop ?? null,
+      running: running.length,
+      queued: queue.queuedCount(),
+      concurrency: queue.concurrency,
+      last_error: lastError(),
       runs_root: runsRoot,
     });
   });
 
-  app.post("/api/factory/attractor/start", async (req: Request, res: Response) => {
-    if (!requireFactoryAuth(req, res)) return;
-    if (active) {
-      res.status(409).json({ error: "attractor already running in this container" });
-      return;
-    }
+  /**
+   * Needs only the read scope (see auth.ts): reveals whether a run is driven
+   * by a factory job and how many launcher logs it has, so the viewer knows
+   * to offer a Stop button and a Launcher log tab.
+   */
+  app.get("/api/factory/attractor/runs/:id", async (req: Request, res: Response) => {
+    const runId = String(req.params["id"] ?? "");
+    await resolveRunning();
+    const job = queue.findLive(runId);
+    res.json({
+      active: job?.status === "running",
+      queued: job?.status === "queued",
+      stopping: Boolean(job?.stop),
+      launcher_logs: (await logs.forRun(runId)).length,
+    });
+  });
+
+  /**
+   * Stop a running job (or drop a queued one). Body: { job_id?, run_id?, reason? }.
+   * Without either id this stops the only running job, and is ambiguous otherwise.
+   */
+  app.post("/api/factory/attractor/stop", async (req: Request, res: Response) => {
     const body = (req.body ?? {}) as Record<string, unknown>;
-    const graphPath = String(body.graph_path ?? "").trim();
-    const composeFile = String(body.compose_file ?? process.env.KILROY_DEFAULT_COMPOSE ?? "run-compose.yaml").trim();
-    if (!graphPath) {
-      res.status(400).json({ error: "graph_path required" });
-      return;
-    }
-    const absGraph = resolve(graphPath);
-    const absProj = resolve(projectRoot);
-    if (!absGraph.startsWith(absProj + "/") && absGraph !== absProj) {
-      res.status(400).json({ error: "graph_path must be under project root" });
-      return;
+    const jobId = String(body.job_id ?? "").trim();
+    const runId = String(body.run_id ?? "").trim();
+    const reason = String(body.reason ?? "").trim() || "stopped via factory API";
+    await resolveRunning();
+    let job: FactoryJob | undefined;
+    if (jobId) job = queue.get(jobId);
+    else if (runId) job = queue.findLive(runId);
+    else {
+      const running = queue.running();
+      if (running.length > 1) {
+        res.status(409).json({ error: "several jobs running; pass job_id or run_id" });
+        return;
+      }
+      job = running[0];
     }
-    try {
-      await access(absGraph);
-    } catch {
-      res.status(400).json({ error: "graph_path not found" });
+    if (!job || job.status === "exited") {
+      record(req, res, "factory.stop", "error", { run_id: runId || null, detail: { error: "not running" } });
+      res.status(409).json({ error: runId ? "run is not driven by a factory job" : "attractor not running" });
       return;
     }
+    const wasQueued = job.status === "queued";
+    queue.cancel(job.id, reason);
+    record(req, res, "factory.stop", "ok", { job, detail: { reason, queued: wasQueued } });
+    res.json({ status: wasQueued ? "cancelled" : "stopping", pid: job.pid, run_id: job.run_id, job });
+  });
 
-    const cwd = absProj;
-    const logPath = "/tmp/kilroy-factory-attractor.log";
-    const log = createWriteStream(logPath, { flags: "a" });
-    const args = [
-      "attractor",
-      "run",
-      "--skip-cli-headless-warning",
-      "--graph",
-      absGraph,
-      "--config",
-      composeFile,
-    ];
-    const child = spawn("kilroy", args, { cwd, env: process.env, stdio: ["ignore", log, log] });
-    setActive(child);
-    lastFactoryError = "";
-    child.on("exit", (code, signal) => {
-      setActive(null);
-      if (code && code !== 0) {
-        lastFactoryError = `attractor exited ${code}`;
-      }
-      if (signal) {
-        lastFactoryError = `attractor signal ${signal}`;
-      }
-    });
-    child.on("error", (err) => {
-      setActive(null);
-      lastFactoryError = String(err.message ?? err);
+  /** What the start form may offer: project graphs and configs, and the override allow-lists. */
+  app.get("/api/factory/start-options", async (req: Request, res: Response) => {
+    const { graphs, configs } = await listStartFiles(startPolicy.projectRoot);
+    res.json({
+      project_root: startPolicy.projectRoot,
+      graphs,
+      compose_files: configs,
+      default_compose: startPolicy.defaultCompose,
+      model_profiles: startPolicy.modelProfiles,
+      allowed_flags: startPolicy.allowedFlags,
+      param_keys: startPolicy.paramKeys,
     });
-    res.json({ status: "started", pid: child.pid, log: logPath });
   });
 
-  app.post("/api/factory/attractor/resume", async (req: Request, res: Response) => {
-    if (!requireFactoryAuth(req, res)) return;
-    if (active) {
-      res.status(409).json({ error: "attractor already running in this container" });
+  /**
+   * Start a run. Body: { graph_path | graph_dot (+ graph_name), compose_file?,
+   * goal?, params?, model_profile?, extra_flags? } — see factoryStart.ts.
+   */
+  app.post("/api/factory/attractor/start", async (req: Request, res: Response) => {
+    const spec = await startSpec((req.body ?? {}) as Record<string, unknown>);
+    if (typeof spec === "string") {
+      record(req, res, "factory.start", "error", { detail: { error: spec } });
+      res.status(400).json({ error: spec });
       return;
     }
+    const job = queue.enqueue(spec);
+    record(req, res, "factory.start", "ok", { job, detail: { graph_path: spec.graph_path, args: spec.args } });
+    await queue.launched(job.id);
+    if (job.status === "exited") {
+      res.status(500).json({ error: "attractor failed to start", detail: job.error, job });
+      return;
+    }
+    res.json({ status: job.status === "running" ? "started" : "queued", pid: job.pid, log: job.log_path, job });
+  });
+
+  app.post("/api/factory/attractor/resume", async (req: Request, res: Response) => {
     const body = (req.body ?? {}) as Record<string, unknown>;
     const attractorRunId = String(body.attractor_run_id ?? "").trim();
     if (!attractorRunId) {
       res.status(400).json({ error: "attractor_run_id required" });
       return;
     }
-    const runDir = join(runsRoot, attractorRunId);
-    try {
-      await repairCheckpointForResume(runsRoot, attractorRunId);
-    } catch (e) {
-      lastFactoryError = String(e);
-      res.status(500).json({ error: "checkpoint repair failed", detail: lastFactoryError });
+    if (queue.findLive(attractorRunId)) {
+      record(req, res, "factory.resume", "error", { run_id: attractorRunId, detail: { error: "already queued or running" } });
+      res.status(409).json({ error: "run already queued or running" });
       return;
     }
-    const logsRoot = runDir;
-    const cwd = resolve(projectRoot);
-    const logPath = "/tmp/kilroy-factory-attractor.log";
-    const log = createWriteStream(logPath, { flags: "a" });
-    const args = ["attractor", "resume", "--logs-root", logsRoot];
-    const child = spawn("kilroy", args, { cwd, env: process.env, stdio: ["ignore", log, log] });
-    setActive(child);
-    lastFactoryError = "";
-    child.on("exit", (code, signal) => {
-      setActive(null);
-      if (code && code !== 0) {
-        lastFactoryError = `resume exited ${code}`;
-      }
-      if (signal) {
-        lastFactoryError = `resume signal ${signal}`;
-      }
-    });
-    child.on("error", (err) => {
-      setActive(null);
-      lastFactoryError = String(err.message ?? err);
+    const job = queue.enqueue(resumeSpec(attractorRunId));
+    record(req, res, "factory.resume", "ok", { job });
+    await queue.launched(job.id);
+    if (job.status === "exited") {
+      res.status(500).json({ error: "resume failed", detail: job.error, job });
+      return;
+    }
+    res.json({
+      status: job.status === "running" ? "resumed" : "queued",
+      pid: job.pid,
+      logs_root: job.run_dir,
+      log: job.log_path,
+      job,
     });
-    res.json({ status: "resumed", pid: child.pid, logs_root: logsRoot, log: logPath });
   });
 
+  /** Queue a resume for every incomplete run that is not already queued or running. */
   app.post("/api/factory/attractor/resume-incomplete", async (req: Request, res: Response) => {
-    if (!requireFactoryAuth(req, res)) return;
-    if (active) {
-      res.json({ status: "skipped", reason: "busy" });
+    const resumed: string[] = [];
+    const queued: FactoryJob[] = [];
+    for (const id of await listIncompleteRuns(runsRoot)) {
+      if (queue.findLive(id)) continue;
+      const job = queue.enqueue(resumeSpec(id));
+      record(req, res, "factory.resume", "ok", { job, detail: { via: "resume-incomplete" } });
+      queued.push(job);
+      resumed.push(id);
+    }
+    res.json({ status: "ok", resumed, jobs: queued });
+  });
+
+  // ── Job queue ─────────────────────────────────────────────────────────────
+
+  app.get("/api/factory/jobs", async (req: Request, res: Response) => {
+    await resolveRunning();
+    res.json({ concurrency: queue.concurrency, jobs: queue.list() });
+  });
+
+  app.get("/api/factory/jobs/:jobId", async (req: Request, res: Response) => {
+    const job = queue.get(String(req.params["jobId"] ?? ""));
+    if (!job) {
+      res.status(404).json({ error: "job not found" });
       return;
     }
-    let entries: string[] = [];
-    try {
-      const dirents = await readdir(runsRoot, { withFileTypes: true });
-      entries = dirents.filter((d) => d.isDirectory()).map((d) => d.name);
-    } catch {
-      entries = [];
+    await queue.resolveRun(job);
+    res.json(job);
+  });
+
+  /** Enqueue a job. Body: { kind: "start", ...start fields } or { kind: "resume", attractor_run_id }. */
+  app.post("/api/factory/jobs", async (req: Request, res: Response) => {
+    const body = (req.body ?? {}) as Record<string, unknown>;
+    const kind = String(body.kind ?? "start");
+    let spec: FactoryJobSpec | string;
+    if (kind === "start") {
+      spec = await startSpec(body);
+    } else if (kind === "resume") {
+      const attractorRunId = String(body.attractor_run_id ?? "").trim();
+      if (!attractorRunId) spec = "attractor_run_id required";
+      else if (queue.findLive(attractorRunId)) {
+        res.status(409).json({ error: "run already queued or running" });
+        return;
+      } else spec = resumeSpec(attractorRunId);
+    } else {
+      spec = `unknown kind "${kind}" (expected start or resume)`;
     }
-    const resumed: string[] = [];
-    for (const id of entries) {
-      if (active) break;
-      try {
-        await access(join(runsRoot, id, "checkpoint.json"));
-      } catch {
-        continue;
-      }
-      let needs = false;
-      try {
-        await access(join(runsRoot, id, "final.json"));
-      } catch {
-        needs = true;
+    if (typeof spec === "string") {
+      record(req, res, `factory.${kind === "resume" ? "resume" : "start"}`, "error", { detail: { error: spec } });
+      res.status(400).json({ error: spec });
+      return;
+    }
+    const job = queue.enqueue(spec);
+    record(req, res, `factory.${spec.kind}`, "ok", { job, detail: { via: "jobs" } });
+    res.status(201).json(job);
+  });
+
+  app.delete("/api/factory/jobs/:jobId", (req: Request, res: Response) => {
+    const reason = String(req.query["reason"] ?? "").trim() || "cancelled via factory API";
+    const job = queue.cancel(String(req.params["jobId"] ?? ""), reason);
+    if (!job) {
+      res.status(404).json({ error: "job not found or already exited" });
+      return;
+    }
+    record(req, res, "factory.cancel", "ok", { job, payload: { reason }, detail: { reason } });
+    res.json(job);
+  });
+
+  /** Reorder a queued job. Body: { position } — 0 launches it next. */
+  app.post("/api/factory/jobs/:jobId/move", (req: Request, res: Response) => {
+    const position = Number((req.body as Record<string, unknown> | undefined)?.position);
+    if (!Number.isInteger(position) || position < 0) {
+      res.status(400).json({ error: "position must be a non-negative integer" });
+      return;
+    }
+    const jobId = String(req.params["jobId"] ?? "");
+    if (!queue.move(jobId, position)) {
+      res.status(409).json({ error: "job is not queued" });
+      return;
+    }
+    record(req, res, "factory.move", "ok", { job: queue.get(jobId), detail: { position } });
+    res.json({ jobs: queue.list().filter((j) => j.status === "queued") });
+  });
+
+  // ── Launcher logs ─────────────────────────────────────────────────────────
+
+  /** A job's log is complete once the job has exited (or predates this server). */
+  const logLive = (jobId: string) => {
+    const job = queue.get(jobId);
+    return Boolean(job && job.status !== "exited");
+  };
+  const logKnown = async (jobId: string) => Boolean(queue.get(jobId) ?? (await logs.meta(jobId)));
+
+  /**
+   * A chunk of a job's stdout/stderr. Query: ?offset= (bytes; negative tails
+   * from the end) &limit=. Poll again from `next_offset` until `done`.
+   */
+  app.get("/api/factory/jobs/:jobId/log", async (req: Request, res: Response) => {
+    const jobId = String(req.params["jobId"] ?? "");
+    if (!(await logKnown(jobId))) {
+      res.status(404).json({ error: "job not found" });
+      return;
+    }
+    const offset = parseInt(String(req.query["offset"] ?? "0"), 10) || 0;
+    const limit = parseInt(String(req.query["limit"] ?? ""), 10);
+    const live = logLive(jobId);
+    const chunk = await logs.read(jobId, offset, Number.isFinite(limit) ? limit : undefined);
+    res.json({ ...chunk, live, done: !live && chunk.next_offset >= chunk.size });
+  });
+
+  /**
+   * SSE stream of a job's log from ?offset= (or Last-Event-ID). Messages:
+   * { text } with the byte offset after it as the event id, then an "end"
+   * event once the job has exited and everything was sent.
+   */
+  app.get("/api/factory/jobs/:jobId/log/stream", async (req: Request, res: Response) => {
+    const jobId = String(req.params["jobId"] ?? "");
+    if (!(await logKnown(jobId))) {
+      res.status(404).json({ error: "job not found" });
+      return;
+    }
+    let offset = parseInt(String(req.headers["last-event-id"] ?? req.query["offset"] ?? "0"), 10) || 0;
+
+    res.setHeader("Content-Type", "text/event-stream");
+    res.setHeader("Cache-Control", "no-cache");
+    res.setHeader("Connection", "keep-alive");
+    res.setHeader("X-Accel-Buffering", "no");
+    res.flushHeaders();
+
+    let closed = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const ping = setInterval(() => res.write(": ping\n\n"), SSE_PING_INTERVAL_MS);
+    req.on("close", () => {
+      closed = true;
+      clearInterval(ping);
+      clearTimeout(timer);
+    });
+
+    const pump = async () => {
+      if (closed) return;
+      // Read the live flag first: output written before the exit is then still sent.
+      const live = logLive(jobId);
+      let chunk = await logs.read(jobId, offset);
+      while (!closed && chunk.next_offset > chunk.offset) {
+        res.write(`id: ${chunk.next_offset}\ndata: ${JSON.stringify({ text: chunk.text })}\n\n`);
+        offset = chunk.next_offset;
+        chunk = await logs.read(jobId, offset);
       }
-      if (!needs) {
-        try {
-          const raw = await readFile(join(runsRoot, id, "final.json"), "utf8");
-          const fj = JSON.parse(raw) as Record<string, unknown>;
-          const st = String(fj["status"] ?? "");
-          if (st === "fail" || st === "work_failed") needs = true;
-        } catch {
-          needs = true;
-        }
+      if (closed) return;
+      if (!live) {
+        res.write(`event: end\ndata: ${JSON.stringify({ size: chunk.size })}\n\n`);
+        res.end();
+        clearInterval(ping);
+        return;
       }
-      if (!needs) continue;
+      timer = setTimeout(() => void pump(), LOG_POLL_INTERVAL_MS);
+    };
+    await pump();
+  });
 
-      try {
-        await repairCheckpointForResume(runsRoot, id);
-      } catch (e) {
-        lastFactoryError = String(e);
-        continue;
-      }
-      const logsRoot = join(runsRoot, id);
-      const cwd = resolve(projectRoot);
-      const logPath = "/tmp/kilroy-factory-attractor.log";
-      const log = createWriteStream(logPath, { flags: "a" });
-      const child = spawn("kilroy", ["attractor", "resume", "--logs-root", logsRoot], {
-        cwd,
-        env: process.env,
-        stdio: ["ignore", log, log],
-      });
-      setActive(child);
-      lastFactoryError = "";
-      resumed.push(id);
-      child.on("exit", () => setActive(null));
-      child.on("error", (err) => {
-        setActive(null);
-        lastFactoryError = String(err.message ?? err);
-      });
-      break;
-    }
-    res.json({ status: "ok", resumed });
+  /** Launcher logs of every job that drove a run — its start and any resumes — oldest first. */
+  app.get("/api/runs/:id/launcher-logs", async (req: Request, res: Response) => {
+    const runId = String(req.params["id"] ?? "");
+    await resolveRunning();
+    const logged = await logs.forRun(runId);
+    res.json({ logs: logged.map((meta) => ({ ...meta, live: logLive(meta.job_id) })) });
   });
 }
@@ -0,0 +1,66 @@
+import assert from "node:assert/strict";
+import { mkdtemp, readdir, rm, stat, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import test from "node:test";
+import { completeUtf8Length, FactoryLogStore } from "./factoryLogs.js";
+import type { FactoryJob } from "./factoryQueue.js";
+
+function job(id: string, runId: string | null): FactoryJob {
+  return {
+    id, kind: "start", status: "running", args: [], cwd: "/", graph_path: null, compose_file: null,
+    run_id: runId, run_dir: null, pid: 1, log_path: "", created_at: "2026-01-01T00:00:00Z",
+    started_at: null, finished_at: null, exit_code: null, signal: null, error: null, stop: null, cancelled: false,
+  };
+}
+
+test("completeUtf8Length stops before a split multi-byte character", () => {
+  const euro = Buffer.from("a€", "utf8"); // 1 + 3 bytes
+  assert.equal(completeUtf8Length(euro), 4);
+  assert.equal(completeUtf8Length(euro.subarray(0, 3)), 1);
+  assert.equal(completeUtf8Length(Buffer.from("plain")), 5);
+});
+
+test("job logs are read in chunks and found by run id", async () => {
+  const dir = await mkdtemp(join(tmpdir(), "factory-logs-"));
+  try {
+    const store = new FactoryLogStore(dir);
+    await store.init();
+    await writeFile(store.logPath("a1"), "hello €uro\n");
+    await store.writeMeta(job("a1", null));
+    await store.writeMeta(job("a1", "01RUN"));
+    await store.writeMeta(job("b2", "01OTHER"));
+
+    assert.deepEqual((await store.forRun("01RUN")).map((m) => [m.job_id, m.size]), [["a1", 13]]);
+    assert.equal((await stat(join(dir, "a1.json"))).mode & 0o777, 0o600);
+
+    const first = await store.read("a1", 0, 7);
+    assert.deepEqual([first.text, first.next_offset], ["hello ", 6]);
+    const rest = await store.read("a1", first.next_offset);
+    assert.equal(rest.text, "€uro\n");
+    assert.equal(rest.next_offset, rest.size);
+
+    const tail = await store.read("a1", -6);
+    assert.equal(tail.text, "uro\n"); // starts inside "€", which is dropped
+    assert.equal((await store.read("missing", 0)).size, 0);
+    assert.equal(await store.meta("../etc/passwd"), null);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
+
+test("init keeps only the newest logs", async () => {
+  const dir = await mkdtemp(join(tmpdir(), "factory-logs-"));
+  try {
+    const store = new FactoryLogStore(dir, 2);
+    await store.init();
+    for (const id of ["m1", "m2", "m3"]) {
+      await writeFile(store.logPath(id), id);
+      await store.writeMeta(job(id, null));
+    }
+    await store.init();
+    assert.deepEqual((await readdir(dir)).sort(), ["m2.json", "m2.log", "m3.json", "m3.log"]);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,156 @@
+import { mkdir, open, readdir, readFile, stat, unlink } from "node:fs/promises";
+import { join } from "node:path";
+import type { FactoryJob } from "./factoryQueue.js";
+import { writeJsonAtomic } from "./jsonFile.js";
+
+/** Sidecar written next to each job log, so logs stay findable by run id across restarts. */
+export interface FactoryLogMeta {
+  job_id: string;
+  kind: "start" | "resume";
+  run_id: string | null;
+  graph_path: string | null;
+  created_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+  exit_code: number | null;
+  error: string | null;
+}
+
+export interface FactoryLogChunk {
+  text: string;
+  offset: number;
+  next_offset: number;
+  size: number;
+}
+
+const DEFAULT_KEEP = 200;
+const MAX_CHUNK_BYTES = 256 * 1024;
+
+/** Length of `buf` without a trailing, incomplete UTF-8 sequence. */
+export function completeUtf8Length(buf: Buffer): number {
+  let i = buf.length - 1;
+  // Walk back over continuation bytes to the lead byte of the last sequence.
+  while (i >= 0 && i > buf.length - 4 && (buf[i] & 0xc0) === 0x80) i--;
+  if (i < 0) return buf.length;
+  const lead = buf[i];
+  const need = lead >= 0xf0 ? 4 : lead >= 0xe0 ? 3 : lead >= 0xc0 ? 2 : 1;
+  return buf.length - i >= need ? buf.length : i;
+}
+
+/**
+ * One log file per factory job (`<job id>.log`) plus a `<job id>.json`
+ * sidecar. Job ids start with a base-36 timestamp, so name order is age order.
+ */
+export class FactoryLogStore {
+  // Sidecar writes per job, chained so a later state never loses to an earlier one.
+  private writes = new Map<string, Promise<void>>();
+
+  constructor(readonly dir: string, private keep = DEFAULT_KEEP) {}
+
+  logPath(jobId: string): string {
+    return join(this.dir, `${jobId}.log`);
+  }
+
+  /** Create the directory and drop all but the newest `keep` job logs. */
+  async init(): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+    const ids = await this.jobIds();
+    for (const id of ids.slice(0, Math.max(0, ids.length - this.keep))) {
+      for (const ext of [".log", ".json"]) {
+        await unlink(join(this.dir, id + ext)).catch(() => { /* already gone */ });
+      }
+    }
+  }
+
+  writeMeta(job: FactoryJob): Promise<void> {
+    const write = (this.writes.get(job.id) ?? Promise.resolve()).then(() => this.flushMeta(job));
+    this.writes.set(job.id, write);
+    void write.then(() => { if (this.writes.get(job.id) === write) this.writes.delete(job.id); });
+    return write;
+  }
+
+  private async flushMeta(job: FactoryJob): Promise<void> {
+    const meta: FactoryLogMeta = {
+      job_id: job.id,
+      kind: job.kind,
+      run_id: job.run_id,
+      graph_path: job.graph_path,
+      created_at: job.created_at,
+      started_at: job.started_at,
+      finished_at: job.finished_at,
+      exit_code: job.exit_code,
+      error: job.error,
+    };
+    const path = join(this.dir, `${job.id}.json`);
+    try {
+      await writeJsonAtomic(path, meta);
+    } catch (err) {
+      console.error(`[factoryLogs] could not write ${path}:`, err);
+    }
+  }
+
+  async meta(jobId: string): Promise<FactoryLogMeta | null> {
+    if (!/^[\w-]+$/.test(jobId)) return null;
+    try {
+      return JSON.parse(await readFile(join(this.dir, `${jobId}.json`), "utf8")) as FactoryLogMeta;
+    } catch {
+      return null;
+    }
+  }
+
+  /** Logs of every job that drove `runId` (a start and its resumes), oldest first. */
+  async forRun(runId: string): Promise<(FactoryLogMeta & { size: number })[]> {
+    const out: (FactoryLogMeta & { size: number })[] = [];
+    for (const id of await this.jobIds()) {
+      const meta = await this.meta(id);
+      if (meta?.run_id !== runId) continue;
+      out.push({ ...meta, size: await this.size(id) });
+    }
+    return out;
+  }
+
+  async size(jobId: string): Promise<number> {
+    try {
+      return (await stat(this.logPath(jobId))).size;
+    } catch {
+      return 0; // not spawned yet
+    }
+  }
+
+  /**
+   * Up to `limit` bytes from `offset`, cut back to a whole UTF-8 character;
+   * pass `next_offset` to continue. A negative offset counts back from the end.
+   */
+  async read(jobId: string, offset: number, limit = MAX_CHUNK_BYTES): Promise<FactoryLogChunk> {
+    const size = await this.size(jobId);
+    const start = offset < 0 ? Math.max(0, size + offset) : Math.min(offset, size);
+    const length = Math.min(Math.max(0, limit), MAX_CHUNK_BYTES, size - start);
+    if (length <= 0) return { text: "", offset: start, next_offset: start, size };
+    const fh = await open(this.logPath(jobId), "r");
+    try {
+      const buf = Buffer.alloc(length);
+      const { bytesRead } = await fh.read(buf, 0, length, start);
+      let skip = 0;
+      // A tail may start inside a character; drop its continuation bytes.
+      if (offset < 0) while (skip < bytesRead && (buf[skip] & 0xc0) === 0x80) skip++;
+      const usable = completeUtf8Length(buf.subarray(0, bytesRead));
+      return {
+        text: buf.subarray(skip, usable).toString("utf8"),
+        offset: start + skip,
+        next_offset: start + usable,
+        size,
+      };
+    } finally {
+      await fh.close();
+    }
+  }
+
+  private async jobIds(): Promise<string[]> {
+    try {
+      const names = await readdir(this.dir);
+      return names.filter((n) => n.endsWith(".json")).map((n) => n.slice(0, -".json".length)).sort();
+    } catch {
+      return []; // directory not created yet
+    }
+  }
+}
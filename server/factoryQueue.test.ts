@@ -0,0 +1,118 @@
+import assert from "node:assert/strict";
+import type { ChildProcess } from "node:child_process";
+import { EventEmitter } from "node:events";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import test from "node:test";
+import { FactoryJobQueue, type FactoryJob } from "./factoryQueue.js";
+import { readRunArtifactStatus } from "./runStatus.js";
+
+class FakeChild extends EventEmitter {
+  static nextPid = 1000;
+  pid = FakeChild.nextPid++;
+  exitCode: number | null = null;
+  signals: string[] = [];
+  kill(signal: string) {
+    this.signals.push(signal);
+    return true;
+  }
+  exit(code: number | null, signal: string | null = null) {
+    this.exitCode = code;
+    this.emit("exit", code, signal);
+  }
+}
+
+function makeQueue(concurrency: number) {
+  const spawned = new Map<string, FakeChild>();
+  const queue = new FactoryJobQueue({
+    concurrency,
+    runsRoot: "/nonexistent/runs",
+    logPathFor: (id) => `/tmp/${id}.log`,
+    stopEscalateMs: 5,
+    spawn: (job: FactoryJob) => {
+      const child = new FakeChild();
+      spawned.set(job.id, child);
+      return child as unknown as ChildProcess;
+    },
+  });
+  return { queue, spawned };
+}
+
+const spec = (graph: string) => ({ kind: "start" as const, args: ["attractor", "run", graph], cwd: "/", graph_path: graph });
+
+test("jobs beyond the concurrency limit wait and launch in queue order", () => {
+  const { queue, spawned } = makeQueue(2);
+  const [a, b, c, d] = ["a", "b", "c", "d"].map((g) => queue.enqueue(spec(g)));
+  assert.deepEqual([a, b, c, d].map((j) => j.status), ["running", "running", "queued", "queued"]);
+  assert.ok(a.pid);
+  assert.equal(a.log_path, `/tmp/${a.id}.log`);
+
+  assert.ok(queue.move(d.id, 0));
+  assert.equal(queue.move(a.id, 0), false);
+  spawned.get(a.id)!.exit(0);
+  assert.equal(a.status, "exited");
+  assert.equal(d.status, "running");
+  assert.equal(c.status, "queued");
+
+  spawned.get(b.id)!.exit(2);
+  assert.equal(b.error, "attractor exited 2");
+  assert.deepEqual(queue.list().map((j) => j.id), [c.id, d.id, b.id, a.id]);
+});
+
+test("cancelling a queued job drops it; cancelling a running one escalates signals", async () => {
+  const { queue, spawned } = makeQueue(1);
+  const running = queue.enqueue(spec("a"));
+  const waiting = queue.enqueue(spec("b"));
+
+  assert.equal(queue.cancel(waiting.id, "not tonight")?.cancelled, true);
+  assert.equal(waiting.status, "exited");
+  assert.equal(queue.queuedCount(), 0);
+
+  queue.cancel(running.id, "bad run");
+  const child = spawned.get(running.id)!;
+  assert.deepEqual(child.signals, ["SIGINT"]);
+  await new Promise((r) => setTimeout(r, 20));
+  assert.deepEqual(child.signals, ["SIGINT", "SIGTERM", "SIGKILL"]);
+  child.exit(null, "SIGKILL");
+  assert.equal(running.error, "stopped: bad run");
+  assert.equal(queue.cancel(running.id, "again"), null);
+});
+
+test("a failing prepare step fails the job and frees the slot", async () => {
+  const { queue } = makeQueue(1);
+  const broken = queue.enqueue({ ...spec("a"), prepare: async () => { throw new Error("no checkpoint"); } });
+  const next = queue.enqueue(spec("b"));
+  await queue.launched(broken.id);
+  assert.equal(broken.status, "exited");
+  assert.match(broken.error ?? "", /no checkpoint/);
+  assert.equal(next.status, "running");
+});
+
+test("a run stopped by an escalated kill is recorded as interrupted", async () => {
+  const runDir = await mkdtemp(join(tmpdir(), "factory-run-"));
+  try {
+    await writeFile(join(runDir, "checkpoint.json"), JSON.stringify({ current_node: "implement" }));
+    const { queue, spawned } = makeQueue(1);
+    const job = queue.enqueue({ ...spec("a"), kind: "resume", run_dir: runDir });
+    await queue.launched(job.id);
+    const child = spawned.get(job.id)!;
+
+    queue.cancel(job.id, "over budget");
+    await new Promise((r) => setTimeout(r, 20));
+    assert.deepEqual(child.signals, ["SIGINT", "SIGTERM", "SIGKILL"]);
+    assert.equal(job.stop?.signal, "SIGKILL");
+    child.exit(null, "SIGKILL");
+
+    let final: Record<string, unknown> | null = null;
+    for (let i = 0; i < 50 && !final; i++) {
+      final = JSON.parse(await readFile(join(runDir, "final.json"), "utf8").catch(() => "null"));
+      if (!final) await new Promise((r) => setTimeout(r, 10));
+    }
+    assert.equal(final?.["status"], "interrupted");
+    assert.equal(final?.["failure_reason"], "over budget");
+    assert.equal((await readRunArtifactStatus(runDir)).status, "interrupted");
+  } finally {
+    await rm(runDir, { recursive: true, force: true });
+  }
+});
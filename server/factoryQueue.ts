@@ -0,0 +1,346 @@
+import type { ChildProcess } from "node:child_process";
+import { readFile, readdir, writeFile } from "node:fs/promises";
+import { basename, join, resolve } from "node:path";
+import { readRunArtifactStatus } from "./runStatus.js";
+
+export type FactoryJobStatus = "queued" | "running" | "exited";
+
+export interface FactoryStopRequest {
+  reason: string;
+  requested_at: string;
+  signal: NodeJS.Signals;
+}
+
+/** What to launch. `run_dir` is known up front for resumes; fresh starts discover it via run.pid. */
+export interface FactoryJobSpec {
+  kind: "start" | "resume";
+  args: string[];
+  cwd: string;
+  graph_path?: string;
+  compose_file?: string;
+  run_dir?: string;
+  /** Runs just before spawning (e.g. checkpoint repair); a throw fails the job. */
+  prepare?: (job: FactoryJob) => Promise<void>;
+}
+
+export interface FactoryJob {
+  id: string;
+  kind: "start" | "resume";
+  status: FactoryJobStatus;
+  args: string[];
+  cwd: string;
+  graph_path: string | null;
+  compose_file: string | null;
+  run_id: string | null;
+  run_dir: string | null;
+  pid: number | null;
+  log_path: string;
+  created_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+  exit_code: number | null;
+  signal: string | null;
+  error: string | null;
+  /** Set while a stop is escalating; kept on the job after it exits. */
+  stop: FactoryStopRequest | null;
+  cancelled: boolean;
+}
+
+export interface FactoryQueueOptions {
+  concurrency: number;
+  runsRoot: string;
+  /** Where a job's stdout/stderr goes. */
+  logPathFor: (jobId: string) => string;
+  /** SIGINT → SIGTERM after this long, → SIGKILL after twice this. */
+  stopEscalateMs: number;
+  spawn: (job: FactoryJob) => ChildProcess;
+  /** Exited jobs kept for inspection; the oldest are dropped beyond this. */
+  maxFinished?: number;
+  /** Called when a job launches, is linked to its run, and exits. */
+  onChange?: (job: FactoryJob) => void;
+}
+
+const DEFAULT_MAX_FINISHED = 50;
+// A fresh start writes run.pid shortly after launch; look for it this often, this many times.
+const RUN_LOOKUP_INTERVAL_MS = 1_000;
+const RUN_LOOKUP_ATTEMPTS = 60;
+
+/**
+ * Make sure a stopped run reads as interrupted. The attractor writes its own
+ * final.json on a clean SIGINT; after SIGTERM/SIGKILL (or a stale final.json
+ * from before a resume) the server writes one.
+ */
+async function recordInterrupted(runDir: string, reason: string) {
+  const { status } = await readRunArtifactStatus(runDir);
+  if (status === "completed" || status === "interrupted") return;
+  const body = { status: "interrupted", timestamp: new Date().toISOString(), failure_reason: reason };
+  try {
+    await writeFile(join(runDir, "final.json"), JSON.stringify(body, null, 2), "utf8");
+  } catch (err) {
+    console.error(`[factory] could not record interrupted outcome in ${runDir}:`, err);
+  }
+}
+
+/**
+ * Attractor launches, run at most `concurrency` at a time in queue order.
+ * Queued jobs can be reordered or cancelled; running jobs are stopped with
+ * SIGINT escalating to SIGTERM and SIGKILL.
+ */
+export class FactoryJobQueue {
+  private jobs = new Map<string, FactoryJob>();
+  private queued: string[] = [];
+  private children = new Map<string, ChildProcess>();
+  private prepared = new Map<string, FactoryJobSpec["prepare"]>();
+  // Launches still preparing or spawning, so callers can wait for a pid.
+  private launching = new Map<string, Promise<void>>();
+
+  constructor(private opts: FactoryQueueOptions) {}
+
+  get concurrency(): number { return this.opts.concurrency; }
+
+  enqueue(spec: FactoryJobSpec): FactoryJob {
+    const id = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+    const job: FactoryJob = {
+      id,
+      kind: spec.kind,
+      status: "queued",
+      args: spec.args,
+      cwd: spec.cwd,
+      graph_path: spec.graph_path ?? null,
+      compose_file: spec.compose_file ?? null,
+      run_id: spec.run_dir ? basename(spec.run_dir) : null,
+      run_dir: spec.run_dir ?? null,
+      pid: null,
+      log_path: this.opts.logPathFor(id),
+      created_at: new Date().toISOString(),
+      started_at: null,
+      finished_at: null,
+      exit_code: null,
+      signal: null,
+      error: null,
+      stop: null,
+      cancelled: false,
+    };
+    this.jobs.set(job.id, job);
+    if (spec.prepare) this.prepared.set(job.id, spec.prepare);
+    this.queued.push(job.id);
+    this.pump();
+    return job;
+  }
+
+  get(id: string): FactoryJob | undefined {
+    return this.jobs.get(id);
+  }
+
+  /** Running jobs, then queued jobs in launch order, then exited jobs newest first. */
+  list(): FactoryJob[] {
+    const all = [...this.jobs.values()];
+    return [
+      ...all.filter((j) => j.status === "running"),
+      ...this.queued.map((id) => this.jobs.get(id)!),
+      ...all.filter((j) => j.status === "exited").reverse(),
+    ];
+  }
+
+  /** Resolves once a launched job has spawned (or failed to); immediately for queued jobs. */
+  async launched(id: string): Promise<void> {
+    await this.launching.get(id);
+  }
+
+  running(): FactoryJob[] {
+    return [...this.jobs.values()].filter((j) => j.status === "running");
+  }
+
+  queuedCount(): number {
+    return this.queued.length;
+  }
+
+  /** Queued or running job for a run, e.g. to refuse a duplicate resume. */
+  findLive(runId: string): FactoryJob | undefined {
+    return [...this.jobs.values()].find((j) => j.status !== "exited" && j.run_id === runId);
+  }
+
+  /** Move a queued job to `position` (0 = next to launch). Returns false when the job is not queued. */
+  move(id: string, position: number): boolean {
+    const from = this.queued.indexOf(id);
+    if (from < 0) return false;
+    this.queued.splice(from, 1);
+    const to = Math.max(0, Math.min(Math.trunc(position), this.queued.length));
+    this.queued.splice(to, 0, id);
+    return true;
+  }
+
+  /** Drop a queued job, or stop a running one. Returns null for unknown or already-exited jobs. */
+  cancel(id: string, reason: string): FactoryJob | null {
+    const job = this.jobs.get(id);
+    if (!job || job.status === "exited") return null;
+    if (job.status === "queued") {
+      this.queued = this.queued.filter((q) => q !== id);
+      this.prepared.delete(id);
+      job.status = "exited";
+      job.cancelled = true;
+      job.error = reason;
+      job.finished_at = new Date().toISOString();
+      this.trimFinished();
+      return job;
+    }
+    this.stop(job, reason);
+    return job;
+  }
+
+  /**
+   * Resolve the run directory of a fresh-start job by matching its pid
+   * against run.pid in the newest run dirs (run ids are ULIDs).
+   */
+  async resolveRun(job: FactoryJob): Promise<string | null> {
+    if (job.run_dir || !job.pid) return job.run_dir;
+    let names: string[] = [];
+    try {
+      const dirents = await readdir(this.opts.runsRoot, { withFileTypes: true });
+      names = dirents.filter((d) => d.isDirectory()).map((d) => d.name).sort().reverse().slice(0, 20);
+    } catch { /* runs root not created yet */ }
+    for (const name of names) {
+      const dir = join(this.opts.runsRoot, name);
+      if (await pidOwnsRunDir(job.pid, dir)) {
+        this.link(job, dir);
+        break;
+      }
+    }
+    return job.run_dir;
+  }
+
+  /** The running job driving `runDir`, if any. */
+  async jobForRunDir(runDir: string): Promise<FactoryJob | undefined> {
+    for (const job of this.running()) {
+      if (job.run_dir && resolve(job.run_dir) === resolve(runDir)) return job;
+      if (job.pid && !job.run_dir && (await pidOwnsRunDir(job.pid, runDir))) {
+        this.link(job, runDir);
+        return job;
+      }
+    }
+    return undefined;
+  }
+
+  private link(job: FactoryJob, runDir: string) {
+    if (job.run_dir) return;
+    job.run_dir = runDir;
+    job.run_id = basename(runDir);
+    this.opts.onChange?.(job);
+  }
+
+  /** SIGINT now, escalating to SIGTERM and then SIGKILL while the child stays alive. */
+  stop(job: FactoryJob, reason: string): boolean {
+    if (job.status !== "running") return false;
+    if (job.stop) return true; // already escalating
+    job.stop = { reason, requested_at: new Date().toISOString(), signal: "SIGINT" };
+    const child = this.children.get(job.id);
+    if (!child) return true; // still preparing: launch() sees job.stop and never spawns
+    console.warn(`[factory] stopping job ${job.id} (pid ${child.pid}): ${reason}`);
+    const escalate = (signal: NodeJS.Signals) => () => {
+      if (job.status !== "running") return;
+      console.warn(`[factory] job ${job.id} (pid ${child.pid}) still running; sending ${signal}`);
+      job.stop!.signal = signal;
+      child.kill(signal);
+    };
+    const timers = [
+      setTimeout(escalate("SIGTERM"), this.opts.stopEscalateMs),
+      setTimeout(escalate("SIGKILL"), this.opts.stopEscalateMs * 2),
+    ];
+    for (const t of timers) t.unref?.();
+    child.once("exit", () => { for (const t of timers) clearTimeout(t); });
+    child.kill("SIGINT");
+    return true;
+  }
+
+  private pump() {
+    while (this.queued.length > 0 && this.running().length < this.opts.concurrency) {
+      const job = this.jobs.get(this.queued.shift()!)!;
+      job.status = "running";
+      job.started_at = new Date().toISOString();
+      const launch = this.launch(job).finally(() => this.launching.delete(job.id));
+      this.launching.set(job.id, launch);
+    }
+  }
+
+  private async launch(job: FactoryJob) {
+    const prepare = this.prepared.get(job.id);
+    this.prepared.delete(job.id);
+    try {
+      if (prepare) await prepare(job);
+    } catch (err) {
+      this.finish(job, { error: `prepare failed: ${String(err)}` });
+      return;
+    }
+    if (job.stop) {
+      // Stopped while preparing: never spawn.
+      this.finish(job, { error: job.stop.reason });
+      return;
+    }
+
+    let child: ChildProcess;
+    try {
+      child = this.opts.spawn(job);
+    } catch (err) {
+      this.finish(job, { error: String((err as Error).message ?? err) });
+      return;
+    }
+    job.pid = child.pid ?? null;
+    this.children.set(job.id, child);
+    this.opts.onChange?.(job);
+    if (!job.run_dir) this.lookForRun(job, RUN_LOOKUP_ATTEMPTS);
+    child.on("exit", (code, signal) => {
+      this.finish(job, {
+        exit_code: code,
+        signal,
+        error: job.stop
+          ? `stopped: ${job.stop.reason}`
+          : code ? `attractor exited ${code}` : signal ? `attractor signal ${signal}` : null,
+      });
+    });
+    child.on("error", (err) => {
+      this.finish(job, { error: String(err.message ?? err) });
+    });
+  }
+
+  /** Poll for the run dir of a fresh start so its log is linked while it runs. */
+  private lookForRun(job: FactoryJob, attemptsLeft: number) {
+    const timer = setTimeout(() => {
+      if (job.status !== "running" || job.run_dir) return;
+      void this.resolveRun(job).then((dir) => {
+        if (!dir && attemptsLeft > 1) this.lookForRun(job, attemptsLeft - 1);
+      });
+    }, RUN_LOOKUP_INTERVAL_MS);
+    timer.unref?.();
+  }
+
+  private finish(job: FactoryJob, outcome: { exit_code?: number | null; signal?: string | null; error: string | null }) {
+    if (job.status === "exited") return; // "error" and "exit" can both fire
+    job.status = "exited";
+    job.finished_at = new Date().toISOString();
+    job.exit_code = outcome.exit_code ?? null;
+    job.signal = outcome.signal ?? null;
+    job.error = outcome.error;
+    this.children.delete(job.id);
+    const stop = job.stop;
+    void this.resolveRun(job).then(async (dir) => {
+      this.opts.onChange?.(job);
+      if (stop && job.pid && dir) await recordInterrupted(dir, stop.reason);
+    });
+    this.trimFinished();
+    this.pump();
+  }
+
+  private trimFinished() {
+    const max = this.opts.maxFinished ?? DEFAULT_MAX_FINISHED;
+    const finished = [...this.jobs.values()].filter((j) => j.status === "exited");
+    for (const job of finished.slice(0, Math.max(0, finished.length - max))) this.jobs.delete(job.id);
+  }
+}
+
+async function pidOwnsRunDir(pid: number, runDir: string): Promise<boolean> {
+  try {
+    return parseInt((await readFile(join(runDir, "run.pid"), "utf8")).trim(), 10) === pid;
+  } catch {
+    return false; // no run.pid yet
+  }
+}
@@ -0,0 +1,93 @@
+import assert from "node:assert/strict";
+import { mkdir, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import test from "node:test";
+import { listStartFiles, parseStartRequest, type StartPolicy } from "./factoryStart.js";
+
+async function withProject(fn: (policy: StartPolicy) => Promise<void>) {
+  const root = await mkdtemp(join(tmpdir(), "factory-start-"));
+  try {
+    await mkdir(join(root, "graphs"));
+    await writeFile(join(root, "graphs", "build.dot"), "digraph g { a -> b }");
+    await writeFile(join(root, "run-compose.yaml"), "");
+    await fn({
+      projectRoot: root,
+      defaultCompose: "run-compose.yaml",
+      modelProfiles: ["fast", "careful"],
+      allowedFlags: ["--max-steps", "--no-cxdb"],
+      paramKeys: null,
+      uploadDir: join(root, ".uploads"),
+    });
+  } finally {
+    await rm(root, { recursive: true, force: true });
+  }
+}
+
+test("a parameterised start maps every override to CLI args", async () => {
+  await withProject(async (policy) => {
+    const start = await parseStartRequest({
+      graph_path: "graphs/build.dot",
+      goal: "  ship it ",
+      params: { target: "linux", retries: 3 },
+      model_profile: "fast",
+      extra_flags: ["--max-steps=40", "--no-cxdb"],
+    }, policy);
+    assert.ok(typeof start !== "string", String(start));
+    assert.deepEqual(start.args, [
+      "attractor", "run", "--skip-cli-headless-warning",
+      "--graph", join(policy.projectRoot, "graphs", "build.dot"), "--config", "run-compose.yaml",
+      "--goal", "ship it",
+      "--param", "target=linux", "--param", "retries=3",
+      "--model-profile", "fast",
+      "--max-steps=40", "--no-cxdb",
+    ]);
+    assert.deepEqual(start.params, { target: "linux", retries: "3" });
+  });
+});
+
+test("overrides outside the allow-lists are rejected", async () => {
+  await withProject(async (policy) => {
+    const base = { graph_path: "graphs/build.dot" };
+    const reject = async (extra: Record<string, unknown>, pattern: RegExp) => {
+      const out = await parseStartRequest({ ...base, ...extra }, policy);
+      assert.equal(typeof out, "string");
+      assert.match(out as string, pattern);
+    };
+    await reject({ model_profile: "yolo" }, /must be one of: fast, careful/);
+    await reject({ extra_flags: ["--dangerously-skip"] }, /not in the allow-list/);
+    await reject({ extra_flags: ["-x"] }, /not a --flag/);
+    await reject({ params: { "bad key": "v" } }, /not allowed/);
+    await reject({ params: { nested: { a: 1 } } }, /must be a string/);
+    await reject({ compose_file: "../elsewhere.yaml" }, /under project root/);
+    await reject({ graph_path: "/etc/passwd" }, /under project root/);
+    await reject({ graph_path: "graphs/missing.dot" }, /not found/);
+
+    const noProfiles = await parseStartRequest({ ...base, model_profile: "fast" }, { ...policy, modelProfiles: [] });
+    assert.match(String(noProfiles), /disabled/);
+    const keyed = await parseStartRequest({ ...base, params: { other: "x" } }, { ...policy, paramKeys: ["target"] });
+    assert.match(String(keyed), /not in the allow-list/);
+  });
+});
+
+test("DOT text from a browser drop is stored by content hash", async () => {
+  await withProject(async (policy) => {
+    const dot = "digraph dropped { start -> done }";
+    const start = await parseStartRequest({ graph_dot: dot, graph_name: "my graph.dot" }, policy);
+    assert.ok(typeof start !== "string", String(start));
+    assert.match(start.graph_path, /\/\.uploads\/my_graph-[0-9a-f]{12}\.dot$/);
+    assert.equal(await readFile(start.graph_path, "utf8"), dot);
+    assert.match(String(await parseStartRequest({ graph_dot: "hello" }, policy)), /does not look like/);
+  });
+});
+
+test("listStartFiles finds graphs and top-level configs, skipping hidden dirs", async () => {
+  await withProject(async (policy) => {
+    await mkdir(join(policy.projectRoot, ".git"));
+    await writeFile(join(policy.projectRoot, ".git", "x.dot"), "");
+    assert.deepEqual(await listStartFiles(policy.projectRoot), {
+      graphs: ["graphs/build.dot"],
+      configs: ["run-compose.yaml"],
+    });
+  });
+});
@@ -0,0 +1,204 @@
+import { createHash } from "node:crypto";
+import { access, mkdir, readdir, writeFile } from "node:fs/promises";
+import { basename, join, relative, resolve } from "node:path";
+
+// ── Parameterised attractor starts ──────────────────────────────────────────
+//
+// A start request may carry, besides graph_path and compose_file:
+//
+//   goal           → --goal <text>
+//   params {k: v}  → --param k=v (once per key)
+//   model_profile  → --model-profile <name>, only names in KILROY_FACTORY_MODEL_PROFILES
+//   extra_flags    → ["--flag", "--flag=value"], only names in KILROY_FACTORY_ALLOWED_FLAGS
+//
+// Both allow-lists are comma-separated and empty by default, which disables
+// that override. KILROY_FACTORY_PARAM_KEYS optionally restricts param keys.
+
+export interface StartPolicy {
+  projectRoot: string;
+  defaultCompose: string;
+  modelProfiles: string[];
+  allowedFlags: string[];
+  /** Null allows any well-formed key. */
+  paramKeys: string[] | null;
+  /** Where DOT text posted with the request (a browser drop) is written. */
+  uploadDir: string;
+}
+
+/** A validated start: what to pass to `kilroy attractor run`, and what to show for the job. */
+export interface StartRequest {
+  graph_path: string;
+  compose_file: string;
+  goal: string | null;
+  params: Record<string, string>;
+  model_profile: string | null;
+  extra_flags: string[];
+  args: string[];
+}
+
+const MAX_GOAL_CHARS = 8000;
+const MAX_PARAMS = 50;
+const MAX_PARAM_VALUE_CHARS = 4000;
+const MAX_GRAPH_CHARS = 512 * 1024;
+const PARAM_KEY_RE = /^[A-Za-z_][\w.-]{0,63}$/;
+const FLAG_RE = /^(--[a-z0-9][a-z0-9-]*)(?:=(.*))?$/i;
+/** Flags the server sets itself; listing them in the allow-list does not unlock them. */
+const RESERVED_FLAGS = new Set(["--graph", "--config", "--goal", "--param", "--model-profile", "--skip-cli-headless-warning"]);
+
+function csvEnv(name: string): string[] {
+  return String(process.env[name] ?? "").split(",").map((v) => v.trim()).filter(Boolean);
+}
+
+export function startPolicyFromEnv(projectRoot: string, uploadDir: string): StartPolicy {
+  const paramKeys = csvEnv("KILROY_FACTORY_PARAM_KEYS");
+  return {
+    projectRoot: resolve(projectRoot),
+    defaultCompose: process.env.KILROY_DEFAULT_COMPOSE?.trim() || "run-compose.yaml",
+    modelProfiles: csvEnv("KILROY_FACTORY_MODEL_PROFILES"),
+    allowedFlags: csvEnv("KILROY_FACTORY_ALLOWED_FLAGS").filter((f) => !RESERVED_FLAGS.has(f)),
+    paramKeys: paramKeys.length > 0 ? paramKeys : null,
+    uploadDir,
+  };
+}
+
+function underRoot(root: string, p: string): boolean {
+  return p === root || p.startsWith(root + "/");
+}
+
+async function exists(p: string): Promise<boolean> {
+  try {
+    await access(p);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Validate the non-path fields of a start body; returns an error message on bad input. */
+export function parseStartOverrides(
+  body: Record<string, unknown>,
+  policy: StartPolicy,
+): Pick<StartRequest, "goal" | "params" | "model_profile" | "extra_flags"> | string {
+  const goal = body.goal == null ? "" : String(body.goal).trim();
+  if (goal.length > MAX_GOAL_CHARS) return `goal longer than ${MAX_GOAL_CHARS} characters`;
+
+  const params: Record<string, string> = {};
+  if (body.params != null) {
+    if (typeof body.params !== "object" || Array.isArray(body.params)) return "params must be an object";
+    const entries = Object.entries(body.params as Record<string, unknown>);
+    if (entries.length > MAX_PARAMS) return `at most ${MAX_PARAMS} params`;
+    for (const [key, value] of entries) {
+      if (!PARAM_KEY_RE.test(key)) return `param key "${key}" is not allowed (letters, digits, _ . -)`;
+      if (policy.paramKeys && !policy.paramKeys.includes(key)) return `param key "${key}" is not in the allow-list`;
+      if (value != null && typeof value === "object") return `param "${key}" must be a string, number or boolean`;
+      const str = value == null ? "" : String(value);
+      if (str.length > MAX_PARAM_VALUE_CHARS) return `param "${key}" longer than ${MAX_PARAM_VALUE_CHARS} characters`;
+      params[key] = str;
+    }
+  }
+
+  const profile = body.model_profile == null ? "" : String(body.model_profile).trim();
+  if (profile && !policy.modelProfiles.includes(profile)) {
+    return policy.modelProfiles.length > 0
+      ? `model_profile must be one of: ${policy.modelProfiles.join(", ")}`
+      : "model profile overrides are disabled (set KILROY_FACTORY_MODEL_PROFILES)";
+  }
+
+  const extraFlags: string[] = [];
+  if (body.extra_flags != null) {
+    if (!Array.isArray(body.extra_flags)) return "extra_flags must be a list";
+    for (const raw of body.extra_flags) {
+      const flag = String(raw).trim();
+      const m = FLAG_RE.exec(flag);
+      if (!m) return `"${flag}" is not a --flag or --flag=value`;
+      if (!policy.allowedFlags.includes(m[1])) return `flag ${m[1]} is not in the allow-list`;
+      extraFlags.push(flag);
+    }
+  }
+
+  return { goal: goal || null, params, model_profile: profile || null, extra_flags: extraFlags };
+}
+
+/**
+ * Write DOT text from the request (a graph dropped in the browser, with no
+ * path the server can see) under the upload dir, named by content hash.
+ */
+async function storeUploadedGraph(uploadDir: string, name: string, dot: string): Promise<string> {
+  const hash = createHash("sha256").update(dot).digest("hex").slice(0, 12);
+  const stem = basename(name || "graph").replace(/\.(dot|gv)$/i, "").replace(/[^\w.-]/g, "_").slice(0, 60) || "graph";
+  await mkdir(uploadDir, { recursive: true });
+  const path = join(uploadDir, `${stem}-${hash}.dot`);
+  await writeFile(path, dot, "utf8");
+  return path;
+}
+
+/**
+ * Validate a start body into the attractor command line. The graph is either
+ * `graph_path` under the project root or `graph_dot` text (plus optional
+ * `graph_name`); `compose_file` is relative to the project root, which is
+ * also the attractor's working directory.
+ */
+export async function parseStartRequest(body: Record<string, unknown>, policy: StartPolicy): Promise<StartRequest | string> {
+  const overrides = parseStartOverrides(body, policy);
+  if (typeof overrides === "string") return overrides;
+
+  let graphPath: string;
+  const graphDot = typeof body.graph_dot === "string" ? body.graph_dot : "";
+  if (graphDot.trim()) {
+    if (graphDot.length > MAX_GRAPH_CHARS) return "graph_dot too large";
+    if (!/\b(di)?graph\b[^{]*\{/i.test(graphDot)) return "graph_dot does not look like a DOT graph";
+    graphPath = await storeUploadedGraph(policy.uploadDir, String(body.graph_name ?? ""), graphDot);
+  } else {
+    const raw = String(body.graph_path ?? "").trim();
+    if (!raw) return "graph_path or graph_dot required";
+    graphPath = resolve(policy.projectRoot, raw);
+    if (!underRoot(policy.projectRoot, graphPath)) return "graph_path must be under project root";
+    if (!(await exists(graphPath))) return "graph_path not found";
+  }
+
+  // The server's default config may live anywhere; a requested one must be in the project.
+  const requested = String(body.compose_file ?? "").trim();
+  if (requested && !underRoot(policy.projectRoot, resolve(policy.projectRoot, requested))) {
+    return "compose_file must be under project root";
+  }
+  const composeRaw = requested || policy.defaultCompose;
+
+  const args = ["attractor", "run", "--skip-cli-headless-warning", "--graph", graphPath, "--config", composeRaw];
+  if (overrides.goal) args.push("--goal", overrides.goal);
+  for (const [key, value] of Object.entries(overrides.params)) args.push("--param", `${key}=${value}`);
+  if (overrides.model_profile) args.push("--model-profile", overrides.model_profile);
+  args.push(...overrides.extra_flags);
+
+  return { graph_path: graphPath, compose_file: composeRaw, ...overrides, args };
+}
+
+const SKIP_DIRS = new Set(["node_modules", "dist", "build", "vendor"]);
+const MAX_LISTED = 500;
+
+/** DOT graphs and YAML configs under the project root (shallow walk), paths relative to it. */
+export async function listStartFiles(projectRoot: string, maxDepth = 4): Promise<{ graphs: string[]; configs: string[] }> {
+  const graphs: string[] = [];
+  const configs: string[] = [];
+  const walk = async (dir: string, depth: number) => {
+    let entries;
+    try {
+      entries = await readdir(dir, { withFileTypes: true });
+    } catch {
+      return; // unreadable dir
+    }
+    for (const e of entries) {
+      if (graphs.length + configs.length >= MAX_LISTED) return;
+      if (e.name.startsWith(".")) continue;
+      const full = join(dir, e.name);
+      if (e.isDirectory()) {
+        if (depth < maxDepth && !SKIP_DIRS.has(e.name)) await walk(full, depth + 1);
+      } else if (/\.(dot|gv)$/i.test(e.name)) {
+        graphs.push(relative(projectRoot, full));
+      } else if (/\.ya?ml$/i.test(e.name) && depth <= 1) {
+        configs.push(relative(projectRoot, full));
+      }
+    }
+  };
+  await walk(resolve(projectRoot), 0);
+  return { graphs: graphs.sort(), configs: configs.sort() };
+}
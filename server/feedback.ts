@@ -0,0 +1,127 @@
+import { readdir, readFile, rename, stat, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+
+/** An unanswered request file; `modified_at` is when it was written (its age in the inbox). */
+export interface PendingFeedbackFile {
+  stage: string;
+  path: string;
+  modified_at: string;
+  request: Record<string, unknown>;
+}
+
+/** Walk attractor run dir for unanswered feedback_request_*.json (matches kilroy-dash semantics). */
+export async function pendingFeedbackForAttractorRun(runDir: string): Promise<Record<string, unknown>[]> {
+  return (await scanPendingFeedback(runDir)).map((f) => f.request);
+}
+
+/** Like pendingFeedbackForAttractorRun, with each request's file path and mtime. */
+export async function scanPendingFeedback(runDir: string): Promise<PendingFeedbackFile[]> {
+  const pending: PendingFeedbackFile[] = [];
+  const seen = new Set<string>();
+
+  async function walk(dir: string): Promise<void> {
+    let entries;
+    try {
+      entries = await readdir(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+    for (const e of entries) {
+      const p = join(dir, e.name);
+      if (e.isDirectory()) {
+        await walk(p);
+        continue;
+      }
+      if (
+        !e.isFile() ||
+        !e.name.startsWith("feedback_request_") ||
+        !e.name.endsWith(".json") ||
+        e.name.endsWith(".done.json")
+      ) {
+        continue;
+      }
+      const stage = e.name.slice("feedback_request_".length, -".json".length);
+      if (seen.has(stage)) continue;
+
+      const respName = `feedback_response_${stage}.json`;
+      let responded = false;
+      try {
+        await stat(join(dir, respName));
+        responded = true;
+      } catch {
+        /* same dir */
+      }
+      if (!responded) {
+        try {
+          await stat(join(runDir, respName));
+          responded = true;
+        } catch {
+          /* top-level */
+        }
+      }
+      if (responded) {
+        seen.add(stage);
+        continue;
+      }
+
+      try {
+        const [raw, st] = await Promise.all([readFile(p, "utf8"), stat(p)]);
+        const req = JSON.parse(raw) as Record<string, unknown>;
+        if (req["stage"] == null || req["stage"] === "") req["stage"] = stage;
+        pending.push({ stage, path: p, modified_at: st.mtime.toISOString(), request: req });
+        seen.add(stage);
+      } catch {
+        /* skip malformed */
+      }
+    }
+  }
+
+  await walk(runDir);
+  return pending;
+}
+
+export async function findFeedbackRequestFilePath(runDir: string, stage: string): Promise<string | null> {
+  const target = `feedback_request_${stage}.json`;
+  let found: string | null = null;
+  async function walk(dir: string): Promise<void> {
+    if (found) return;
+    let entries;
+    try {
+      entries = await readdir(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+    for (const e of entries) {
+      const p = join(dir, e.name);
+      if (e.isDirectory()) {
+        await walk(p);
+      } else if (e.isFile() && e.name === target) {
+        found = p;
+        return;
+      }
+    }
+  }
+  await walk(runDir);
+  return found;
+}
+
+/**
+ * Answer a request the way attractor expects: feedback_response_<stage>.json
+ * next to the request, which is then renamed to .done.json (best-effort).
+ */
+export async function writeFeedbackResponse(
+  reqPath: string,
+  stage: string,
+  payload: object,
+): Promise<{ responsePath: string; renamed: boolean }> {
+  const reqDir = dirname(reqPath);
+  const responsePath = join(reqDir, `feedback_response_${stage}.json`);
+  await writeFile(responsePath, JSON.stringify(payload), "utf8");
+  let renamed = true;
+  try {
+    await rename(reqPath, join(reqDir, `feedback_request_${stage}.done.json`));
+  } catch {
+    renamed = false; /* best-effort */
+  }
+  return { responsePath, renamed };
+}
@@ -0,0 +1,163 @@
+import assert from "node:assert/strict";
+import { EventEmitter } from "node:events";
+import { chmod, mkdtemp, mkdir, readFile, readdir, rm, stat, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import test from "node:test";
+import { AuditLog } from "./audit.js";
+import { FeedbackEscalator, parseEscalationPolicy, resolveEscalationPolicy } from "./feedbackEscalation.js";
+import { FeedbackIndex, type FeedbackRunSource } from "./feedbackIndex.js";
+import type { RunState } from "./runWatcher.js";
+
+const REQUESTED = "2026-03-20T08:00:00.000Z";
+
+function state(id: string, status: RunState["computedStatus"] = "executing"): RunState {
+  return {
+    run: { id, status: "executing", dot_file: "release" },
+    containerAlive: true,
+    computedStatus: status,
+    lastChecked: REQUESTED,
+    format: "attractor",
+  };
+}
+
+async function withRun(
+  request: Record<string, unknown>,
+  fn: (ctx: { root: string; index: FeedbackIndex; source: FeedbackRunSource; audit: AuditLog }) => Promise<void>,
+  status: RunState["computedStatus"] = "executing",
+) {
+  const root = await mkdtemp(join(tmpdir(), "feedback-escalation-"));
+  try {
+    await mkdir(join(root, "r1", "gate"), { recursive: true });
+    await writeFile(join(root, "r1", "gate", "feedback_request_gate.json"), JSON.stringify({ requested_at: REQUESTED, ...request }));
+    const source = Object.assign(new EventEmitter(), {
+      listRuns: async () => [{ id: "r1", runsDir: root }],
+      findRunDir: async (id: string) => (id === "r1" ? join(root, "r1") : null),
+      readOnce: async (id: string) => (id === "r1" ? state(id, status) : null),
+      watch: async (id: string) => state(id, status),
+      sseDisconnect: () => {},
+      notifyFeedbackPending: async () => {},
+      acquireRunDiscovery: () => {},
+      releaseRunDiscovery: () => {},
+    }) as unknown as FeedbackRunSource;
+    const index = new FeedbackIndex(source);
+    await index.start();
+    index.close();
+    await fn({ root, index, source, audit: new AuditLog(join(root, "audit.ndjson")) });
+  } finally {
+    await rm(root, { recursive: true, force: true });
+  }
+}
+
+const minutesAfter = (m: number) => new Date(Date.parse(REQUESTED) + m * 60_000);
+
+test("policies need a rule, and each rule its target", () => {
+  assert.deepEqual(parseEscalationPolicy({ auto_respond_after_minutes: "90", default_response: "reject" }), {
+    auto_respond_after_minutes: 90, default_response: "reject",
+  });
+  assert.equal(typeof parseEscalationPolicy({}), "string");
+  assert.equal(typeof parseEscalationPolicy({ notify_after_minutes: 30 }), "string");
+  assert.equal(typeof parseEscalationPolicy({ notify_after_minutes: 30, notify_webhook_url: "ftp://x" }), "string");
+  assert.equal(typeof parseEscalationPolicy({ auto_respond_after_minutes: 0, default_response: "reject" }), "string");
+  assert.equal(typeof parseEscalationPolicy({ auto_respond_after_minutes: 10 }), "string");
+});
+
+test("graph policies override the server-wide one, which overrides the default", () => {
+  const store = { server: { notify_after_minutes: 60, notify_webhook_url: "https://x" }, graphs: { release: { auto_respond_after_minutes: 5, default_response: "ok" } } };
+  assert.equal(resolveEscalationPolicy(store, "release")?.source, "graph");
+  assert.equal(resolveEscalationPolicy(store, "docs")?.source, "server");
+  assert.equal(resolveEscalationPolicy({ server: null, graphs: {} }, "docs", { auto_respond_after_minutes: 1, default_response: "ok" })?.source, "default");
+  assert.equal(resolveEscalationPolicy({ server: null, graphs: {} }, "docs"), null);
+});
+
+test("after N minutes the webhook is told once; after M the default answers the request", async () => {
+  await withRun({ question: "Release?", options: ["approve", "reject"] }, async ({ root, index, source, audit }) => {
+    const sent: Record<string, unknown>[] = [];
+    let failNext = true;
+    let now = minutesAfter(10);
+    const escalator = new FeedbackEscalator(index, source, {
+      defaults: {
+        notify_after_minutes: 30, notify_webhook_url: "https://hooks.example/oncall",
+        auto_respond_after_minutes: 120, default_response: "reject",
+      },
+      audit,
+      now: () => now,
+      send: async (_sub, delivery) => {
+        if (failNext) { failNext = false; throw new Error("503"); }
+        sent.push(delivery.payload);
+      },
+    });
+
+    await escalator.tick();
+    assert.equal(sent.length, 0);
+
+    now = minutesAfter(31);
+    await escalator.tick(); // delivery fails: retried next tick
+    await escalator.tick();
+    await escalator.tick();
+    assert.deepEqual(sent.map((p) => [p.event, p.run_id, p.stage, p.waiting_minutes]), [["feedback_escalation", "r1", "gate", 31]]);
+
+    now = minutesAfter(121);
+    await escalator.tick();
+    const response = JSON.parse(await readFile(join(root, "r1", "gate", "feedback_response_gate.json"), "utf8"));
+    assert.deepEqual(response, {
+      response: "reject", timestamp: now.toISOString(), choice: "reject",
+      auto_response: { policy: "default", after_minutes: 120 },
+    });
+    assert.deepEqual((await readdir(join(root, "r1", "gate"))).sort(), [
+      "feedback_request_gate.done.json", "feedback_response_gate.json",
+    ]);
+    assert.deepEqual(index.entries(), []);
+    assert.deepEqual((await audit.query({ action: "feedback." })).map((e) => [e.action, e.result]), [
+      ["feedback.auto_respond", "ok"], ["feedback.escalate", "ok"],
+    ]);
+  });
+});
+
+test("a default the request does not accept is recorded, not written", async () => {
+  await withRun({ options: ["approve", "revise"] }, async ({ root, index, source, audit }) => {
+    const escalator = new FeedbackEscalator(index, source, {
+      defaults: { auto_respond_after_minutes: 5, default_response: "reject" },
+      audit,
+      now: () => minutesAfter(6),
+    });
+    await escalator.tick();
+    await escalator.tick();
+    await assert.rejects(readFile(join(root, "r1", "gate", "feedback_response_gate.json")));
+    const entries = await audit.query({ action: "feedback.auto_respond" });
+    assert.equal(entries.length, 1);
+    assert.equal(entries[0].result, "error");
+  });
+});
+
+test("finished runs are not escalated", async () => {
+  await withRun({ question: "Release?" }, async ({ root, index, source }) => {
+    const escalator = new FeedbackEscalator(index, source, {
+      defaults: { auto_respond_after_minutes: 5, default_response: "ship" },
+      now: () => minutesAfter(60),
+    });
+    await escalator.tick();
+    await assert.rejects(readFile(join(root, "r1", "gate", "feedback_response_gate.json")));
+  }, "failed");
+});
+
+test("stored policies keep their notify secrets owner-only", async () => {
+  await withRun({ question: "Release?" }, async ({ root, index, source }) => {
+    const storePath = join(root, "state", "feedback-escalation.json");
+    const escalator = new FeedbackEscalator(index, source, { storePath });
+    await escalator.setPolicy("server", "", {
+      notify_after_minutes: 5,
+      notify_webhook_url: "http://example.invalid/hook",
+      notify_signing_secret: "hmac-secret",
+    });
+    assert.equal((await stat(storePath)).mode & 0o777, 0o600);
+
+    // A store from before this was enforced is narrowed when loaded.
+    await chmod(storePath, 0o644);
+    const reloaded = new FeedbackEscalator(index, source, { storePath });
+    await reloaded.start();
+    reloaded.close();
+    assert.equal((await stat(storePath)).mode & 0o777, 0o600);
+    assert.equal(reloaded.getStore().server?.notify_signing_secret, "hmac-secret");
+  });
+});
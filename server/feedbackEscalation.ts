@@ -0,0 +1,387 @@
+import type { Express, Request, Response } from "express";
+import { readFile } from "node:fs/promises";
+import { SYSTEM_ACTOR, requestActor, type AuditLog } from "./audit.js";
+import { findFeedbackRequestFilePath, writeFeedbackResponse } from "./feedback.js";
+import type { FeedbackIndex, FeedbackInboxEntry } from "./feedbackIndex.js";
+import { buildFeedbackResponse, declaredOptions } from "./feedbackResponse.js";
+import { restrictStateFile, writeJsonAtomic } from "./jsonFile.js";
+import type { ProgressWebhookSubscription, RunWatcher } from "./runWatcher.js";
+import { newDeliveryId, postWebhookDelivery, type ProgressWebhookDelivery } from "./webhookQueue.js";
+
+/** What to do about a request left unanswered. Either rule may be set alone. */
+export interface EscalationPolicy {
+  /** Minutes unanswered before `notify_webhook_url` is told, once per request. */
+  notify_after_minutes?: number;
+  notify_webhook_url?: string;
+  notify_auth_token?: string;
+  notify_signing_secret?: string;
+  /** Minutes unanswered before the server answers with `default_response`. */
+  auto_respond_after_minutes?: number;
+  default_response?: string;
+}
+
+export interface ResolvedEscalationPolicy extends EscalationPolicy {
+  /** Graph beats the server-wide policy, which beats the env default. */
+  source: "graph" | "server" | "default";
+}
+
+export interface EscalationStore {
+  server: EscalationPolicy | null;
+  graphs: Record<string, EscalationPolicy>;
+}
+
+const STORE_VERSION = 1;
+const DEFAULT_TICK_MS = 30_000;
+const TERMINAL_STATUSES = new Set(["completed", "failed", "interrupted", "stopped"]);
+
+function hasRule(p: EscalationPolicy | null | undefined): p is EscalationPolicy {
+  return p?.notify_after_minutes != null || p?.auto_respond_after_minutes != null;
+}
+
+/** Parse a PUT body. Returns an error string for invalid input. */
+export function parseEscalationPolicy(raw: unknown): EscalationPolicy | string {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return "body must be an object";
+  const obj = raw as Record<string, unknown>;
+  const policy: EscalationPolicy = {};
+  for (const key of ["notify_after_minutes", "auto_respond_after_minutes"] as const) {
+    if (obj[key] == null) continue;
+    const n = Number(obj[key]);
+    if (!Number.isFinite(n) || n <= 0) return `${key} must be a positive number`;
+    policy[key] = n;
+  }
+  if (!hasRule(policy)) return "notify_after_minutes or auto_respond_after_minutes required";
+
+  if (policy.notify_after_minutes != null) {
+    const url = String(obj.notify_webhook_url ?? "").trim();
+    if (!url) return "notify_after_minutes requires notify_webhook_url";
+    try {
+      const parsed = new URL(url);
+      if (parsed.protocol !== "http:" && parsed.protocol !== "https:") return "notify_webhook_url must be http(s)";
+    } catch {
+      return "notify_webhook_url must be a valid URL";
+    }
+    policy.notify_webhook_url = url;
+    for (const key of ["notify_auth_token", "notify_signing_secret"] as const) {
+      const v = String(obj[key] ?? "").trim();
+      if (v) policy[key] = v;
+    }
+  }
+  if (policy.auto_respond_after_minutes != null) {
+    const response = typeof obj.default_response === "string" ? obj.default_response : "";
+    if (!response.trim()) return "auto_respond_after_minutes requires default_response";
+    policy.default_response = response;
+  }
+  return policy;
+}
+
+export function resolveEscalationPolicy(
+  store: EscalationStore,
+  graphName: string | null,
+  defaults?: EscalationPolicy,
+): ResolvedEscalationPolicy | null {
+  const graph = graphName ? store.graphs[graphName] : undefined;
+  if (hasRule(graph)) return { ...graph, source: "graph" };
+  if (hasRule(store.server)) return { ...store.server, source: "server" };
+  if (hasRule(defaults)) return { ...defaults, source: "default" };
+  return null;
+}
+
+/** A policy as the API shows it: webhook credentials are never echoed back. */
+export function escalationPolicyView(p: EscalationPolicy | null | undefined) {
+  if (!p) return null;
+  const { notify_auth_token, notify_signing_secret, ...rest } = p;
+  return {
+    ...rest,
+    ...(rest.notify_webhook_url ? { notify_authenticated: Boolean(notify_auth_token), notify_signed: Boolean(notify_signing_secret) } : {}),
+  };
+}
+
+/**
+ * The body auto-responses send through the same validation as a person's:
+ * JSON data for a response_schema, a choice when it names an option, else text.
+ */
+export function defaultResponseBody(request: Record<string, unknown>, response: string): Record<string, unknown> {
+  const schema = request["response_schema"];
+  if (schema && typeof schema === "object") {
+    try {
+      return { data: JSON.parse(response) };
+    } catch {
+      return { response };
+    }
+  }
+  return declaredOptions(request)?.includes(response) ? { choice: response } : { response };
+}
+
+async function loadEscalationStore(storePath: string): Promise<EscalationStore> {
+  await restrictStateFile(storePath);
+  try {
+    const parsed = JSON.parse(await readFile(storePath, "utf8")) as Partial<EscalationStore>;
+    return { server: parsed.server ?? null, graphs: parsed.graphs ?? {} };
+  } catch {
+    return { server: null, graphs: {} };
+  }
+}
+
+/** Policies carry notify_auth_token and notify_signing_secret in plain text. */
+async function saveEscalationStore(storePath: string, store: EscalationStore): Promise<void> {
+  await writeJsonAtomic(storePath, { version: STORE_VERSION, saved_at: new Date().toISOString(), ...store });
+}
+
+function entryKey(runId: string, stage: string): string {
+  return `${runId}/${stage}`;
+}
+
+interface EscalationState {
+  notified_at?: string;
+  /** Delivery id reused across retries so the receiver can dedupe. */
+  delivery_id?: string;
+  /** Set once auto-responding was attempted, successful or not. */
+  auto_responded_at?: string;
+}
+
+/**
+ * Applies escalation policies to the feedback index on a timer: re-notifies
+ * a webhook after `notify_after_minutes` and answers with `default_response`
+ * after `auto_respond_after_minutes`. Finished runs are left alone.
+ * What fired is kept in memory, so a restart may send a notification again.
+ */
+export class FeedbackEscalator {
+  private store: EscalationStore = { server: null, graphs: {} };
+  private state = new Map<string, EscalationState>();
+  private persist: Promise<void> = Promise.resolve();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private ticking = false;
+  private defaults: EscalationPolicy | undefined;
+
+  constructor(
+    private index: FeedbackIndex,
+    private watcher: Pick<RunWatcher, "findRunDir">,
+    private opts: {
+      storePath?: string;
+      defaults?: EscalationPolicy;
+      audit?: AuditLog;
+      tickMs?: number;
+      now?: () => Date;
+      send?: (sub: ProgressWebhookSubscription, delivery: ProgressWebhookDelivery) => Promise<void>;
+    } = {},
+  ) {
+    // Env-provided defaults get the same checks as API-set policies.
+    if (hasRule(opts.defaults)) {
+      const parsed = parseEscalationPolicy(opts.defaults);
+      if (typeof parsed === "string") console.warn(`[FeedbackEscalator] ignoring default policy: ${parsed}`);
+      else this.defaults = parsed;
+    }
+  }
+
+  async start(): Promise<void> {
+    if (this.opts.storePath) this.store = await loadEscalationStore(this.opts.storePath);
+    this.index.on("removed", (runId: string, stage: string) => this.state.delete(entryKey(runId, stage)));
+    this.timer = setInterval(() => void this.tick(), this.opts.tickMs ?? DEFAULT_TICK_MS);
+    this.timer.unref();
+  }
+
+  close() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  getStore(): EscalationStore { return this.store; }
+
+  getDefaults(): EscalationPolicy | undefined { return this.defaults; }
+
+  resolve(graphName: string | null): ResolvedEscalationPolicy | null {
+    return resolveEscalationPolicy(this.store, graphName, this.defaults);
+  }
+
+  async setPolicy(scope: "server" | "graphs", key: string, policy: EscalationPolicy | null) {
+    if (scope === "server") this.store.server = policy;
+    else if (policy) this.store.graphs[key] = policy;
+    else delete this.store.graphs[key];
+    const storePath = this.opts.storePath;
+    if (!storePath) return;
+    const snapshot = { server: this.store.server, graphs: { ...this.store.graphs } };
+    this.persist = this.persist
+      .then(() => saveEscalationStore(storePath, snapshot))
+      .catch((err) => console.error("[FeedbackEscalator] failed to persist policies:", err));
+    await this.persist;
+  }
+
+  /** One pass over the inbox. Overlapping calls are skipped. */
+  async tick(): Promise<void> {
+    if (this.ticking) return;
+    this.ticking = true;
+    try {
+      for (const entry of this.index.entries()) {
+        try {
+          await this.evaluate(entry);
+        } catch (err) {
+          console.error(`[FeedbackEscalator] ${entry.run_id}/${entry.stage} failed:`, err);
+        }
+      }
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  private async evaluate(entry: FeedbackInboxEntry) {
+    if (entry.run_status && TERMINAL_STATUSES.has(entry.run_status)) return;
+    const policy = this.resolve(entry.graph_name);
+    if (!policy) return;
+    const now = (this.opts.now ?? (() => new Date()))();
+    const waitedMinutes = (now.getTime() - Date.parse(entry.requested_at)) / 60_000;
+    const key = entryKey(entry.run_id, entry.stage);
+    const st = this.state.get(key) ?? {};
+    this.state.set(key, st);
+
+    if (policy.notify_after_minutes != null && policy.notify_webhook_url && !st.notified_at
+      && waitedMinutes >= policy.notify_after_minutes) {
+      await this.notify(entry, policy, st, now, waitedMinutes);
+    }
+    if (policy.auto_respond_after_minutes != null && policy.default_response && !st.auto_responded_at
+      && waitedMinutes >= policy.auto_respond_after_minutes) {
+      st.auto_responded_at = now.toISOString();
+      await this.autoRespond(entry, policy, now);
+    }
+  }
+
+  private async notify(
+    entry: FeedbackInboxEntry,
+    policy: ResolvedEscalationPolicy,
+    st: EscalationState,
+    now: Date,
+    waitedMinutes: number,
+  ) {
+    const sub: ProgressWebhookSubscription = {
+      id: `feedback-escalation:${policy.source}`,
+      runId: entry.run_id,
+      webhookUrl: policy.notify_webhook_url!,
+      authToken: policy.notify_auth_token,
+      signingSecret: policy.notify_signing_secret,
+      createdAt: now.toISOString(),
+    };
+    st.delivery_id ??= newDeliveryId();
+    const delivery: ProgressWebhookDelivery = {
+      id: st.delivery_id,
+      digest: `feedback_escalation:${entry.run_id}/${entry.stage}`,
+      payload: {
+        event: "feedback_escalation",
+        run_id: entry.run_id,
+        stage: entry.stage,
+        node_id: entry.node_id,
+        graph_name: entry.graph_name,
+        question: entry.question,
+        requested_at: entry.requested_at,
+        waiting_minutes: Math.floor(waitedMinutes),
+        auto_respond_after_minutes: policy.auto_respond_after_minutes ?? null,
+        default_response: policy.default_response ?? null,
+      },
+      enqueuedAt: now.toISOString(),
+      attempts: 0,
+    };
+    try {
+      await (this.opts.send ?? postWebhookDelivery)(sub, delivery);
+    } catch (err) {
+      // Not marked: the next tick tries again.
+      console.warn(`[FeedbackEscalator] notifying for ${entry.run_id}/${entry.stage} failed:`, err);
+      return;
+    }
+    st.notified_at = now.toISOString();
+    void this.opts.audit?.record(SYSTEM_ACTOR, {
+      action: "feedback.escalate", run_id: entry.run_id, result: "ok",
+      detail: { stage: entry.stage, policy: policy.source, webhook_host: new URL(sub.webhookUrl).host },
+    });
+  }
+
+  private async autoRespond(entry: FeedbackInboxEntry, policy: ResolvedEscalationPolicy, now: Date) {
+    const fail = (error: string) => {
+      console.warn(`[FeedbackEscalator] auto-response for ${entry.run_id}/${entry.stage} not sent: ${error}`);
+      void this.opts.audit?.record(SYSTEM_ACTOR, {
+        action: "feedback.auto_respond", run_id: entry.run_id, result: "error",
+        detail: { stage: entry.stage, policy: policy.source, error },
+      });
+    };
+    const runDir = await this.watcher.findRunDir(entry.run_id);
+    const reqPath = runDir ? await findFeedbackRequestFilePath(runDir, entry.stage) : null;
+    if (!reqPath) return; // answered meanwhile
+    const payload = buildFeedbackResponse(entry.request, defaultResponseBody(entry.request, policy.default_response!), now);
+    if ("error" in payload) {
+      fail(payload.details ? `${payload.error}: ${payload.details.join("; ")}` : payload.error);
+      return;
+    }
+    payload.auto_response = { policy: policy.source, after_minutes: policy.auto_respond_after_minutes! };
+    const { responsePath, renamed } = await writeFeedbackResponse(reqPath, entry.stage, payload);
+    void this.opts.audit?.record(SYSTEM_ACTOR, {
+      action: "feedback.auto_respond", run_id: entry.run_id, result: "ok",
+      detail: {
+        stage: entry.stage, policy: policy.source, response: payload.response,
+        response_file: responsePath, request_renamed: renamed,
+      },
+    });
+    await this.index.rescanRun(entry.run_id);
+  }
+}
+
+export function registerEscalationRoutes(app: Express, opts: { escalator: FeedbackEscalator; audit: AuditLog }) {
+  const { escalator, audit } = opts;
+
+  // No payload digest: policies carry the notify webhook's credentials.
+  const recordChange = (req: Request, res: Response, action: string, graph: string | null) => {
+    void audit.record(requestActor(req, res), { action, result: "ok", detail: graph == null ? { scope: "server" } : { graph } });
+  };
+
+  const parseBody = (req: Request, res: Response): EscalationPolicy | null => {
+    const policy = parseEscalationPolicy(req.body);
+    if (typeof policy === "string") {
+      res.status(400).json({ error: policy });
+      return null;
+    }
+    return policy;
+  };
+
+  app.get("/api/feedback/escalation", (_req: Request, res: Response) => {
+    const store = escalator.getStore();
+    res.json({
+      server: escalationPolicyView(store.server),
+      graphs: Object.fromEntries(Object.entries(store.graphs).map(([g, p]) => [g, escalationPolicyView(p)])),
+      defaults: escalationPolicyView(escalator.getDefaults()),
+    });
+  });
+
+  app.put("/api/feedback/escalation/server", async (req: Request, res: Response) => {
+    const policy = parseBody(req, res);
+    if (!policy) return;
+    await escalator.setPolicy("server", "", policy);
+    recordChange(req, res, "escalation.set", null);
+    res.json({ policy: escalationPolicyView(policy) });
+  });
+
+  app.delete("/api/feedback/escalation/server", async (req: Request, res: Response) => {
+    if (!escalator.getStore().server) {
+      res.status(404).json({ error: "no server-wide policy" });
+      return;
+    }
+    await escalator.setPolicy("server", "", null);
+    recordChange(req, res, "escalation.clear", null);
+    res.json({ ok: true });
+  });
+
+  app.put("/api/feedback/escalation/graphs/:graph", async (req: Request, res: Response) => {
+    const policy = parseBody(req, res);
+    if (!policy) return;
+    const graph = String(req.params["graph"] ?? "");
+    await escalator.setPolicy("graphs", graph, policy);
+    recordChange(req, res, "escalation.set", graph);
+    res.json({ graph, policy: escalationPolicyView(policy) });
+  });
+
+  app.delete("/api/feedback/escalation/graphs/:graph", async (req: Request, res: Response) => {
+    const graph = String(req.params["graph"] ?? "");
+    if (!escalator.getStore().graphs[graph]) {
+      res.status(404).json({ error: "no policy for graph" });
+      return;
+    }
+    await escalator.setPolicy("graphs", graph, null);
+    recordChange(req, res, "escalation.clear", graph);
+    res.json({ ok: true });
+  });
+}
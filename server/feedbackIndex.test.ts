@@ -0,0 +1,181 @@
+import assert from "node:assert/strict";
+import { EventEmitter } from "node:events";
+import { mkdtemp, mkdir, rename, rm, utimes, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import test from "node:test";
+import { FeedbackIndex, type FeedbackInboxEntry, type FeedbackRunSource } from "./feedbackIndex.js";
+import type { RunState } from "./runWatcher.js";
+
+function state(id: string, status: RunState["computedStatus"] = "executing"): RunState {
+  return {
+    run: { id, status: status as RunState["run"]["status"], dot_file: "review-loop" },
+    containerAlive: true,
+    computedStatus: status,
+    lastChecked: "2026-03-20T00:00:00Z",
+    format: "attractor",
+  };
+}
+
+/**
+ * A watcher stand-in over `<root>/<runId>` dirs; records feedback
+ * notifications, which runs are held watched, and which run dirs are looked up.
+ */
+function fakeWatcher(root: string, runIds: string[], statuses: Record<string, RunState["computedStatus"]> = {}) {
+  const notified: string[] = [];
+  const watched = new Map<string, number>();
+  const scanned: string[] = [];
+  const discovery = { refs: 0 };
+  const source = Object.assign(new EventEmitter(), {
+    listRuns: async () => runIds.map((id) => ({ id, runsDir: root })),
+    findRunDir: async (id: string) => {
+      scanned.push(id);
+      return runIds.includes(id) ? join(root, id) : null;
+    },
+    readOnce: async (id: string) => (runIds.includes(id) ? state(id, statuses[id]) : null),
+    watch: async (id: string) => {
+      watched.set(id, (watched.get(id) ?? 0) + 1);
+      return state(id, statuses[id]);
+    },
+    sseDisconnect: (id: string) => {
+      const refs = (watched.get(id) ?? 1) - 1;
+      if (refs > 0) watched.set(id, refs);
+      else watched.delete(id);
+    },
+    notifyFeedbackPending: async (id: string) => { notified.push(id); },
+    acquireRunDiscovery: () => { discovery.refs++; },
+    releaseRunDiscovery: () => { discovery.refs--; },
+  });
+  return { source: source as unknown as FeedbackRunSource & EventEmitter, notified, watched, scanned, discovery };
+}
+
+async function withRuns(fn: (root: string) => Promise<void>) {
+  const root = await mkdtemp(join(tmpdir(), "feedback-index-"));
+  try {
+    await fn(root);
+  } finally {
+    await rm(root, { recursive: true, force: true });
+  }
+}
+
+test("the index lists pending requests across runs, oldest first", async () => {
+  await withRuns(async (root) => {
+    await mkdir(join(root, "r1", "review"), { recursive: true });
+    await mkdir(join(root, "r2"), { recursive: true });
+    await writeFile(join(root, "r1", "review", "feedback_request_review.json"), JSON.stringify({ question: "Ship it?" }));
+    await writeFile(join(root, "r2", "feedback_request_gate.json"), JSON.stringify({
+      node_id: "pipeline/approve", prompt: "Approve?", requested_at: "2026-03-19T08:00:00Z",
+    }));
+    // Answered already: not pending.
+    await writeFile(join(root, "r2", "feedback_request_plan.json"), "{}");
+    await writeFile(join(root, "r2", "feedback_response_plan.json"), "{}");
+    const old = new Date("2026-03-19T09:00:00Z");
+    await utimes(join(root, "r1", "review", "feedback_request_review.json"), old, old);
+
+    const { source, notified } = fakeWatcher(root, ["r1", "r2"]);
+    const index = new FeedbackIndex(source);
+    await index.start();
+    index.close();
+
+    assert.deepEqual(
+      index.entries().map((e) => [e.run_id, e.stage, e.node_id, e.graph_name, e.requested_at, e.question]),
+      [
+        ["r2", "gate", "approve", "review-loop", "2026-03-19T08:00:00.000Z", "Approve?"],
+        ["r1", "review", "review", "review-loop", "2026-03-19T09:00:00.000Z", "Ship it?"],
+      ],
+    );
+    // Requests found by the start-up scan still reach feedback_pending webhooks.
+    assert.deepEqual(notified.sort(), ["r1", "r2"]);
+  });
+});
+
+test("watcher updates add and remove entries with events", async () => {
+  await withRuns(async (root) => {
+    await mkdir(join(root, "r1"), { recursive: true });
+    const { source, notified } = fakeWatcher(root, ["r1"]);
+    const index = new FeedbackIndex(source);
+    await index.start();
+    index.close();
+    assert.deepEqual(index.entries(), []);
+
+    const added: FeedbackInboxEntry[] = [];
+    const removed: string[] = [];
+    index.on("added", (e: FeedbackInboxEntry) => added.push(e));
+    index.on("removed", (runId: string, stage: string) => removed.push(`${runId}/${stage}`));
+
+    const reqPath = join(root, "r1", "feedback_request_review.json");
+    await writeFile(reqPath, JSON.stringify({ question: "Ship it?" }));
+    source.emit("update", "r1", state("r1"));
+    await index.rescanRun("r1");
+    assert.deepEqual(added.map((e) => e.stage), ["review"]);
+    assert.deepEqual(notified, ["r1"]);
+
+    // A second update with nothing new fires nothing.
+    source.emit("update", "r1", state("r1"));
+    await index.rescanRun("r1");
+    assert.equal(added.length, 1);
+    assert.equal(notified.length, 1);
+
+    // Answering renames the request to .done.json.
+    await rename(reqPath, join(root, "r1", "feedback_request_review.done.json"));
+    await index.rescanKnown();
+    assert.deepEqual(removed, ["r1/review"]);
+    assert.deepEqual(index.entries(), []);
+  });
+});
+
+test("only live runs are watched; finished runs are left to the start-up sweep", async () => {
+  await withRuns(async (root) => {
+    await mkdir(join(root, "live"), { recursive: true });
+    await mkdir(join(root, "done"), { recursive: true });
+    await writeFile(join(root, "done", "feedback_request_gate.json"), JSON.stringify({ question: "Late?" }));
+    const statuses: Record<string, RunState["computedStatus"]> = { live: "executing", done: "completed" };
+    const { source, watched } = fakeWatcher(root, ["live", "done"], statuses);
+    const index = new FeedbackIndex(source);
+    await index.start();
+
+    assert.deepEqual([...watched.keys()], ["live"]);
+    assert.deepEqual(index.entries().map((e) => e.run_id), ["done"]);
+
+    // Finishing releases the watch, and rescans do not take it back.
+    statuses["live"] = "failed";
+    source.emit("update", "live", state("live", "failed"));
+    await index.rescanKnown();
+    assert.deepEqual([...watched.keys()], []);
+
+    // A resumed run reported by the watcher is watched again.
+    statuses["live"] = "executing";
+    source.emit("update", "live", state("live"));
+    await index.rescanRun("live");
+    assert.deepEqual([...watched.keys()], ["live"]);
+
+    index.close();
+    assert.deepEqual([...watched.keys()], []);
+  });
+});
+
+test("the periodic rescan skips finished runs; new runs arrive through run-added", async () => {
+  await withRuns(async (root) => {
+    for (const id of ["live", "done", "late"]) await mkdir(join(root, id), { recursive: true });
+    const runIds = ["live", "done"];
+    const statuses: Record<string, RunState["computedStatus"]> = { live: "executing", done: "completed" };
+    const { source, watched, scanned, discovery } = fakeWatcher(root, runIds, statuses);
+    const index = new FeedbackIndex(source);
+    await index.start();
+    assert.equal(discovery.refs, 1);
+
+    scanned.length = 0;
+    await index.rescanKnown();
+    assert.deepEqual(scanned.filter((id) => id !== "live"), []);
+
+    runIds.push("late");
+    await writeFile(join(root, "late", "feedback_request_plan.json"), JSON.stringify({ question: "Which plan?" }));
+    source.emit("run-added", "late", state("late"));
+    await index.rescanRun("late");
+    assert.deepEqual([...watched.keys()].sort(), ["late", "live"]);
+    assert.deepEqual(index.entries().map((e) => e.run_id), ["late"]);
+
+    index.close();
+    assert.equal(discovery.refs, 0);
+  });
+});
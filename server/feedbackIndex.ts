@@ -0,0 +1,243 @@
+import { EventEmitter } from "node:events";
+import type { Express, Request, Response } from "express";
+import { scanPendingFeedback, type PendingFeedbackFile } from "./feedback.js";
+import type { RunState, RunWatcher } from "./runWatcher.js";
+
+const SSE_PING_INTERVAL_MS = 15_000;
+const DEFAULT_RESCAN_MS = 60_000;
+const DEFAULT_SWEEP_MS = 6 * 60 * 60_000;
+const TERMINAL = new Set(["completed", "failed", "interrupted", "stopped"]);
+
+/** One unanswered feedback request. Mirrors `FeedbackInboxEntry` in src/lib/types.ts. */
+export interface FeedbackInboxEntry {
+  run_id: string;
+  stage: string;
+  /** Graph node the run is blocked on (last segment of the request's node_id, else the stage). */
+  node_id: string;
+  graph_name: string | null;
+  run_status: string | null;
+  /** The request's own timestamp when it carries one, else the file's mtime. */
+  requested_at: string;
+  question: string | null;
+  request: Record<string, unknown>;
+}
+
+export type FeedbackRunSource = Pick<
+  RunWatcher,
+  | "on" | "listRuns" | "findRunDir" | "readOnce" | "watch" | "sseDisconnect" | "notifyFeedbackPending"
+  | "acquireRunDiscovery" | "releaseRunDiscovery"
+>;
+
+function isTerminal(state: RunState): boolean {
+  return TERMINAL.has(state.run.status ?? "") || TERMINAL.has(state.computedStatus ?? "");
+}
+
+function requestedAt(file: PendingFeedbackFile): string {
+  for (const key of ["requested_at", "created_at", "timestamp"]) {
+    const v = file.request[key];
+    if (typeof v === "string" && !Number.isNaN(Date.parse(v))) return new Date(v).toISOString();
+  }
+  return file.modified_at;
+}
+
+function questionOf(request: Record<string, unknown>): string | null {
+  for (const key of ["question", "prompt", "message"]) {
+    const v = request[key];
+    if (typeof v === "string" && v.trim()) return v;
+  }
+  return null;
+}
+
+export function toInboxEntry(runId: string, file: PendingFeedbackFile, state: RunState | null): FeedbackInboxEntry {
+  return {
+    run_id: runId,
+    stage: file.stage,
+    node_id: String(file.request["node_id"] ?? file.stage).split("/").pop() || file.stage,
+    graph_name: state?.run.dot_file ?? null,
+    run_status: state ? state.computedStatus ?? state.run.status ?? null : null,
+    requested_at: requestedAt(file),
+    question: questionOf(file.request),
+    request: file.request,
+  };
+}
+
+/**
+ * Pending feedback requests of every run under the configured runsDirs.
+ * Every run is scanned once at start. After that the index holds a watch on
+ * each live run, so feedback_pending webhooks fire without an open viewer;
+ * watcher updates rescan the run that changed, and new runs arrive through
+ * "run-added". A periodic rescan covers live runs and runs with pending
+ * requests (answered out of band); finished runs are left alone apart from
+ * a rare full sweep.
+ *
+ * Emits "added" (entry) for each new request after the initial scan and
+ * "removed" (runId, stage) once a request is answered or gone.
+ */
+export class FeedbackIndex extends EventEmitter {
+  private byRun = new Map<string, Map<string, FeedbackInboxEntry>>();
+  // Per-run scan chain so overlapping triggers never interleave.
+  private scans = new Map<string, Promise<void>>();
+  private ready = false;
+  // Runs this index holds a watch on, and runs already seen finished.
+  private live = new Set<string>();
+  private finished = new Set<string>();
+  private timers: ReturnType<typeof setInterval>[] = [];
+
+  constructor(
+    private source: FeedbackRunSource,
+    private opts: { rescanMs?: number; sweepMs?: number } = {},
+  ) {
+    super();
+    this.setMaxListeners(0);
+  }
+
+  async start(): Promise<void> {
+    // Updates also arrive for runs watched on someone else's behalf, which
+    // is how a resumed run gets picked up again.
+    const onState = (runId: string, state: RunState) => {
+      if (isTerminal(state)) this.release(runId);
+      else void this.track(runId, state);
+      void this.rescanRun(runId);
+    };
+    this.source.on("update", onState);
+    this.source.on("run-added", onState);
+    this.source.acquireRunDiscovery();
+    await this.sweep();
+    this.ready = true;
+    this.timers = [
+      setInterval(() => void this.rescanKnown(), this.opts.rescanMs ?? DEFAULT_RESCAN_MS),
+      setInterval(() => void this.sweep(), this.opts.sweepMs ?? DEFAULT_SWEEP_MS),
+    ];
+    for (const t of this.timers) t.unref();
+  }
+
+  close() {
+    if (this.timers.length > 0) this.source.releaseRunDiscovery();
+    for (const t of this.timers) clearInterval(t);
+    this.timers = [];
+    for (const runId of [...this.live]) this.release(runId);
+  }
+
+  /** Watch a run while it is live; a finished run is only ever rescanned. */
+  private async track(runId: string, state: RunState | null): Promise<void> {
+    if (this.live.has(runId) || !state) return;
+    if (isTerminal(state)) {
+      this.finished.add(runId);
+      return;
+    }
+    this.finished.delete(runId);
+    this.live.add(runId);
+    const current = await this.source.watch(runId);
+    if (current && isTerminal(current)) this.release(runId);
+  }
+
+  private release(runId: string) {
+    this.finished.add(runId);
+    if (!this.live.delete(runId)) return;
+    this.source.sseDisconnect(runId);
+  }
+
+  /** Every pending request, oldest first. */
+  entries(): FeedbackInboxEntry[] {
+    return [...this.byRun.values()]
+      .flatMap((m) => [...m.values()])
+      .sort((a, b) => a.requested_at.localeCompare(b.requested_at) || a.run_id.localeCompare(b.run_id));
+  }
+
+  /** Rescan live runs and runs with pending requests; a live run whose dir is gone is dropped. */
+  async rescanKnown(): Promise<void> {
+    for (const runId of new Set([...this.live, ...this.byRun.keys()])) {
+      if (this.live.has(runId) && !(await this.source.findRunDir(runId))) {
+        this.release(runId);
+        this.finished.delete(runId);
+      }
+      await this.rescanRun(runId);
+    }
+  }
+
+  /** Scan every listed run, tracking ones not seen yet and forgetting ones that are gone. */
+  private async sweep(): Promise<void> {
+    const runs = await this.source.listRuns();
+    const listed = new Set(runs.map((r) => r.id));
+    // Sequential: a full rescan is background work and must not starve requests.
+    for (const { id } of runs) {
+      if (!this.live.has(id) && !this.finished.has(id)) await this.track(id, await this.source.readOnce(id));
+      await this.rescanRun(id);
+    }
+    for (const runId of [...this.byRun.keys(), ...this.live, ...this.finished]) {
+      if (listed.has(runId)) continue;
+      this.release(runId);
+      this.finished.delete(runId);
+      await this.rescanRun(runId);
+    }
+  }
+
+  rescanRun(runId: string): Promise<void> {
+    const next = (this.scans.get(runId) ?? Promise.resolve())
+      .then(() => this.scanRun(runId))
+      .catch((err) => console.error(`[FeedbackIndex] scan of ${runId} failed:`, err));
+    this.scans.set(runId, next);
+    void next.then(() => {
+      if (this.scans.get(runId) === next) this.scans.delete(runId);
+    });
+    return next;
+  }
+
+  private async scanRun(runId: string): Promise<void> {
+    const runDir = await this.source.findRunDir(runId);
+    const files = runDir ? await scanPendingFeedback(runDir) : [];
+    const prev = this.byRun.get(runId);
+    if (files.length === 0 && !prev) return;
+
+    // Run state (graph, status) is only read for runs that are actually waiting.
+    const state = files.length > 0 ? await this.source.readOnce(runId) : null;
+    const next = new Map(files.map((f) => [f.stage, toInboxEntry(runId, f, state)]));
+    if (next.size > 0) this.byRun.set(runId, next);
+    else this.byRun.delete(runId);
+
+    for (const stage of prev?.keys() ?? []) {
+      if (!next.has(stage)) this.emit("removed", runId, stage);
+    }
+    const fresh = [...next.values()].filter((e) => !prev?.has(e.stage));
+    if (fresh.length === 0) return;
+    if (this.ready) for (const entry of fresh) this.emit("added", entry);
+    // Subscriptions keep their own fired-event keys, so this never double-delivers.
+    await this.source.notifyFeedbackPending(runId);
+  }
+}
+
+export function registerFeedbackRoutes(app: Express, opts: { index: FeedbackIndex }) {
+  const { index } = opts;
+
+  /** Pending feedback across every run, oldest first. */
+  app.get("/api/feedback", (_req: Request, res: Response) => {
+    res.json({ entries: index.entries() });
+  });
+
+  /**
+   * SSE: a `snapshot` of the inbox, then `added` / `removed` as requests come
+   * and go. Each message is `data: {type, ...}`.
+   */
+  app.get("/api/feedback/stream", (req: Request, res: Response) => {
+    res.setHeader("Content-Type", "text/event-stream");
+    res.setHeader("Cache-Control", "no-cache");
+    res.setHeader("Connection", "keep-alive");
+    res.setHeader("X-Accel-Buffering", "no");
+    res.flushHeaders();
+
+    const send = (msg: unknown) => res.write(`data: ${JSON.stringify(msg)}\n\n`);
+    const onAdded = (entry: FeedbackInboxEntry) => send({ type: "added", entry });
+    const onRemoved = (runId: string, stage: string) => send({ type: "removed", run_id: runId, stage });
+    index.on("added", onAdded);
+    index.on("removed", onRemoved);
+    const ping = setInterval(() => res.write(": ping\n\n"), SSE_PING_INTERVAL_MS);
+
+    req.on("close", () => {
+      clearInterval(ping);
+      index.off("added", onAdded);
+      index.off("removed", onRemoved);
+    });
+
+    send({ type: "snapshot", entries: index.entries() });
+  });
+}
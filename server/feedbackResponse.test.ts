@@ -0,0 +1,82 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { buildFeedbackResponse, validateJsonSchema } from "./feedbackResponse.js";
+
+const NOW = new Date("2026-03-20T12:00:00Z");
+
+test("requests without a schema still take free text", () => {
+  assert.deepEqual(buildFeedbackResponse({ question: "Thoughts?" }, { response: "looks good" }, NOW), {
+    response: "looks good",
+    timestamp: "2026-03-20T12:00:00.000Z",
+  });
+  assert.deepEqual(buildFeedbackResponse({}, { response: "  " }, NOW), { error: "response required" });
+});
+
+test("declared options restrict the answer unless free text is allowed", () => {
+  const gate = { options: ["approve", { label: "Reject", value: "reject" }, { label: "Revise" }] };
+  assert.deepEqual(buildFeedbackResponse(gate, { choice: "reject" }, NOW), {
+    response: "reject", timestamp: NOW.toISOString(), choice: "reject",
+  });
+  // Text matching an option counts as that choice.
+  assert.equal((buildFeedbackResponse(gate, { response: "Revise" }, NOW) as { choice?: string }).choice, "Revise");
+  assert.match((buildFeedbackResponse(gate, { choice: "ship" }, NOW) as { error: string }).error, /one of: approve, reject, Revise/);
+  assert.ok("error" in buildFeedbackResponse(gate, { response: "maybe later" }, NOW));
+  assert.deepEqual(buildFeedbackResponse({ ...gate, allow_free_text: true }, { response: "maybe later" }, NOW), {
+    response: "maybe later", timestamp: NOW.toISOString(),
+  });
+  // Text sent with a choice is a comment; the choice stays the response attractor routes on.
+  assert.deepEqual(buildFeedbackResponse(gate, { choice: "approve", response: "nit: rename foo" }, NOW), {
+    response: "approve", timestamp: NOW.toISOString(), choice: "approve", comment: "nit: rename foo",
+  });
+});
+
+test("a response_schema requires matching data, serialized into response", () => {
+  const request = {
+    response_schema: {
+      type: "object",
+      required: ["verdict"],
+      additionalProperties: false,
+      properties: {
+        verdict: { type: "string", enum: ["pass", "fail"] },
+        score: { type: "integer", minimum: 0, maximum: 10 },
+        tags: { type: "array", items: { type: "string", minLength: 1 }, maxItems: 3 },
+      },
+    },
+  };
+  const ok = buildFeedbackResponse(request, { data: { verdict: "pass", score: 7 } }, NOW);
+  assert.deepEqual(ok, {
+    response: '{"verdict":"pass","score":7}', timestamp: NOW.toISOString(), data: { verdict: "pass", score: 7 },
+  });
+  assert.deepEqual(buildFeedbackResponse(request, { response: "pass" }, NOW), {
+    error: "data required: this request declares a response_schema",
+  });
+  const bad = buildFeedbackResponse(request, { data: { score: 11.5, tags: ["", "x"], extra: 1 } }, NOW);
+  assert.deepEqual(bad, {
+    error: "data does not match the request's response_schema",
+    details: [
+      "$.verdict: required",
+      "$.score: expected integer, got number",
+      "$.tags[0]: shorter than 1 characters",
+      "$.extra: not allowed",
+    ],
+  });
+});
+
+test("schema types, patterns and bounds", () => {
+  assert.deepEqual(validateJsonSchema(3, { type: "number", minimum: 1 }), []);
+  assert.deepEqual(validateJsonSchema(null, { type: ["string", "null"] }), []);
+  assert.deepEqual(validateJsonSchema("v1.2", { type: "string", pattern: "^v\\d+\\.\\d+$" }), []);
+  assert.deepEqual(validateJsonSchema("main", { pattern: "^v" }), ["$: does not match ^v"]);
+  assert.deepEqual(validateJsonSchema([1], { type: "array", minItems: 2 }), ["$: fewer than 2 items"]);
+  assert.deepEqual(validateJsonSchema(true, { const: false }), ["$: must be false"]);
+});
+
+test("file edits are accepted only for the request's editable files", () => {
+  const request = { question: "Fix the config?", editable_files: ["config/app.yaml"] };
+  const files = [{ path: "config/app.yaml", content: "port: 8080\n" }];
+  assert.deepEqual(buildFeedbackResponse(request, { files }, NOW), { response: "", timestamp: NOW.toISOString(), files });
+  assert.deepEqual(buildFeedbackResponse(request, { files: [{ path: "../etc/passwd", content: "" }] }, NOW), {
+    error: "../etc/passwd is not an editable file of this request",
+  });
+  assert.ok("error" in buildFeedbackResponse(request, { files: [{ path: "config/app.yaml" }] }, NOW));
+});
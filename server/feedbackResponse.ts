@@ -0,0 +1,194 @@
+/**
+ * Structured feedback responses. A feedback_request_<stage>.json may declare
+ * what it accepts (all optional; a request with none takes free text, as
+ * before):
+ *
+ *   options / choices   allowed answers: strings or {label, value, description}
+ *   allow_free_text     with options: also accept text outside them
+ *   response_schema     a JSON Schema (see validateJsonSchema for the subset)
+ *                       the response's `data` must match
+ *   editable_files      worktree paths the responder may return edited content for
+ *
+ * The response file keeps attractor's shape, `{response, timestamp}` with
+ * `response` a string; structured parts are added next to it.
+ */
+
+export interface FeedbackResponsePayload {
+  /** What attractor reads: the choice, the free text, or `data` as JSON. */
+  response: string;
+  timestamp: string;
+  choice?: string;
+  /** Free text sent along with a choice. */
+  comment?: string;
+  data?: unknown;
+  files?: { path: string; content: string }[];
+  /** Set when the server answered on its own after the escalation policy's wait; see feedbackEscalation.ts. */
+  auto_response?: { policy: string; after_minutes: number };
+}
+
+export interface FeedbackResponseError {
+  error: string;
+  /** Schema violations, one per offending value. */
+  details?: string[];
+}
+
+export type JsonSchema = Record<string, unknown>;
+
+/** Allowed answer values declared by the request, or null when it declares none. */
+export function declaredOptions(request: Record<string, unknown>): string[] | null {
+  const raw = Array.isArray(request["options"]) ? request["options"] : Array.isArray(request["choices"]) ? request["choices"] : null;
+  if (!raw) return null;
+  return raw.flatMap((o: unknown): string[] => {
+    if (typeof o === "string") return o.trim() ? [o] : [];
+    if (!o || typeof o !== "object") return [];
+    const rec = o as Record<string, unknown>;
+    const value = String(rec["value"] ?? rec["label"] ?? "").trim();
+    return value ? [value] : [];
+  });
+}
+
+function typeOf(v: unknown): string {
+  if (v === null) return "null";
+  if (Array.isArray(v)) return "array";
+  if (typeof v === "number" && Number.isInteger(v)) return "integer";
+  return typeof v;
+}
+
+function matchesType(v: unknown, type: string): boolean {
+  const actual = typeOf(v);
+  return actual === type || (type === "number" && actual === "integer");
+}
+
+/**
+ * Validate `value` against the JSON Schema keywords feedback forms need:
+ * type, enum, const, properties, required, additionalProperties, items,
+ * minItems/maxItems, minLength/maxLength, pattern, minimum/maximum.
+ * Other keywords are ignored. Returns one message per violation.
+ */
+export function validateJsonSchema(value: unknown, schema: JsonSchema, path = "$"): string[] {
+  const errors: string[] = [];
+  const types = schema["type"] == null ? [] : Array.isArray(schema["type"]) ? schema["type"].map(String) : [String(schema["type"])];
+  if (types.length > 0 && !types.some((t) => matchesType(value, t))) {
+    return [`${path}: expected ${types.join(" or ")}, got ${typeOf(value)}`];
+  }
+  if (Array.isArray(schema["enum"]) && !schema["enum"].some((e) => JSON.stringify(e) === JSON.stringify(value))) {
+    errors.push(`${path}: must be one of ${schema["enum"].map((e) => JSON.stringify(e)).join(", ")}`);
+  }
+  if ("const" in schema && JSON.stringify(schema["const"]) !== JSON.stringify(value)) {
+    errors.push(`${path}: must be ${JSON.stringify(schema["const"])}`);
+  }
+
+  if (typeof value === "string") {
+    if (typeof schema["minLength"] === "number" && value.length < schema["minLength"]) {
+      errors.push(`${path}: shorter than ${schema["minLength"]} characters`);
+    }
+    if (typeof schema["maxLength"] === "number" && value.length > schema["maxLength"]) {
+      errors.push(`${path}: longer than ${schema["maxLength"]} characters`);
+    }
+    if (typeof schema["pattern"] === "string") {
+      let re: RegExp | null = null;
+      try { re = new RegExp(schema["pattern"]); } catch { /* unusable pattern: not enforced */ }
+      if (re && !re.test(value)) errors.push(`${path}: does not match ${schema["pattern"]}`);
+    }
+  }
+
+  if (typeof value === "number") {
+    if (typeof schema["minimum"] === "number" && value < schema["minimum"]) errors.push(`${path}: below ${schema["minimum"]}`);
+    if (typeof schema["maximum"] === "number" && value > schema["maximum"]) errors.push(`${path}: above ${schema["maximum"]}`);
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema["minItems"] === "number" && value.length < schema["minItems"]) {
+      errors.push(`${path}: fewer than ${schema["minItems"]} items`);
+    }
+    if (typeof schema["maxItems"] === "number" && value.length > schema["maxItems"]) {
+      errors.push(`${path}: more than ${schema["maxItems"]} items`);
+    }
+    const items = schema["items"];
+    if (items && typeof items === "object" && !Array.isArray(items)) {
+      value.forEach((item, i) => errors.push(...validateJsonSchema(item, items as JsonSchema, `${path}[${i}]`)));
+    }
+  }
+
+  if (typeOf(value) === "object") {
+    const obj = value as Record<string, unknown>;
+    const props = (schema["properties"] ?? {}) as Record<string, JsonSchema>;
+    for (const key of Array.isArray(schema["required"]) ? schema["required"].map(String) : []) {
+      if (!(key in obj)) errors.push(`${path}.${key}: required`);
+    }
+    const extra = schema["additionalProperties"];
+    for (const [key, v] of Object.entries(obj)) {
+      if (props[key]) errors.push(...validateJsonSchema(v, props[key], `${path}.${key}`));
+      else if (extra === false) errors.push(`${path}.${key}: not allowed`);
+      else if (extra && typeof extra === "object") errors.push(...validateJsonSchema(v, extra as JsonSchema, `${path}.${key}`));
+    }
+  }
+  return errors;
+}
+
+function editableFiles(request: Record<string, unknown>): string[] {
+  const raw = request["editable_files"];
+  return Array.isArray(raw) ? raw.filter((p): p is string => typeof p === "string" && p.trim() !== "") : [];
+}
+
+/**
+ * Check a feedback-respond body against what the request declares and build
+ * the response file payload. `body` carries any of `response` (text),
+ * `choice`, `data` (JSON) and `files` ([{path, content}]).
+ */
+export function buildFeedbackResponse(
+  request: Record<string, unknown>,
+  body: Record<string, unknown>,
+  now = new Date(),
+): FeedbackResponsePayload | FeedbackResponseError {
+  const text = typeof body["response"] === "string" ? body["response"] : "";
+  const choice = typeof body["choice"] === "string" ? body["choice"] : undefined;
+  const hasData = body["data"] !== undefined;
+  const options = declaredOptions(request);
+  const schema = request["response_schema"];
+  const payload: FeedbackResponsePayload = { response: text, timestamp: now.toISOString() };
+
+  if (choice !== undefined) {
+    if (!options) return { error: "this request declares no options" };
+    if (!options.includes(choice)) return { error: `choice must be one of: ${options.join(", ")}` };
+    // Attractor routes on `response`, so the choice goes there and any text becomes a comment.
+    payload.choice = choice;
+    payload.response = choice;
+    if (text.trim()) payload.comment = text;
+  } else if (options && text && options.includes(text)) {
+    // Plain-text clients answering with an option's value.
+    payload.choice = text;
+  }
+
+  if (schema && typeof schema === "object" && !Array.isArray(schema)) {
+    if (!hasData) return { error: "data required: this request declares a response_schema" };
+    const details = validateJsonSchema(body["data"], schema as JsonSchema);
+    if (details.length > 0) return { error: "data does not match the request's response_schema", details };
+  }
+  if (hasData) {
+    payload.data = body["data"];
+    if (!text && payload.choice === undefined) payload.response = JSON.stringify(body["data"]);
+  }
+
+  if (body["files"] !== undefined) {
+    const allowed = editableFiles(request);
+    if (!Array.isArray(body["files"])) return { error: "files must be an array of {path, content}" };
+    const files: { path: string; content: string }[] = [];
+    for (const f of body["files"] as unknown[]) {
+      const rec = (f ?? {}) as Record<string, unknown>;
+      if (typeof rec["path"] !== "string" || typeof rec["content"] !== "string") {
+        return { error: "files must be an array of {path, content}" };
+      }
+      if (!allowed.includes(rec["path"])) return { error: `${rec["path"]} is not an editable file of this request` };
+      files.push({ path: rec["path"], content: rec["content"] });
+    }
+    if (files.length > 0) payload.files = files;
+  }
+
+  const answered = payload.response.trim() !== "" || payload.files !== undefined;
+  if (!answered) return { error: "response required" };
+  if (options && payload.choice === undefined && request["allow_free_text"] !== true) {
+    return { error: `response must be one of: ${options.join(", ")}` };
+  }
+  return payload;
+}
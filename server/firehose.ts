@@ -0,0 +1,155 @@
+import type { Express, Request, Response } from "express";
+import type { RunState, RunWatcher } from "./runWatcher.js";
+
+const SSE_PING_INTERVAL_MS = 15_000;
+
+/** One line of the multi-run stream — deliberately small; fetch /api/runs/:id for detail. */
+export interface RunChangeEvent {
+  run_id: string;
+  status: string;
+  previous_status?: string;
+  run_status: string | null;
+  graph_name: string | null;
+  repo: string | null;
+  repo_path: string | null;
+  current_node: string | null;
+  latest_stage: {
+    node_id: string;
+    attempt: number;
+    status: string;
+    started_at: string;
+    finished_at: string | null;
+    restart_index: number;
+  } | null;
+  started_at: string | null;
+  finished_at: string | null;
+  failure_reason: string | null;
+}
+
+type FirehoseFilter = {
+  statuses: Set<string> | null;
+  repos: Set<string> | null;
+  runIds: Set<string> | null;
+};
+
+function csvParam(value: unknown): Set<string> | null {
+  const items = String(value ?? "").split(",").map((v) => v.trim()).filter(Boolean);
+  return items.length > 0 ? new Set(items) : null;
+}
+
+export function toRunChangeEvent(state: RunState): RunChangeEvent {
+  const history = state.stageHistory ?? [];
+  const latest = history.length > 0 ? history[history.length - 1] : undefined;
+  return {
+    run_id: state.run.id,
+    status: state.computedStatus,
+    run_status: state.run.status ?? null,
+    graph_name: state.run.dot_file ?? null,
+    repo: state.run.repo ?? null,
+    repo_path: state.run.repo_path ?? null,
+    current_node: state.run.current_node ?? null,
+    latest_stage: latest
+      ? {
+        node_id: latest.node_id,
+        attempt: latest.attempt,
+        status: latest.status,
+        started_at: latest.started_at,
+        finished_at: latest.finished_at ?? null,
+        restart_index: latest.restartIndex ?? 0,
+      }
+      : null,
+    started_at: state.run.started_at ?? null,
+    finished_at: state.run.finished_at ?? null,
+    failure_reason: state.run.failure_reason ?? null,
+  };
+}
+
+/** Identity of an event minus noise (heartbeats, lastChecked) — used to suppress no-op updates. */
+function eventDigest(ev: RunChangeEvent): string {
+  return JSON.stringify({ ...ev, previous_status: undefined });
+}
+
+function matches(ev: RunChangeEvent, filter: FirehoseFilter): boolean {
+  if (filter.runIds && !filter.runIds.has(ev.run_id)) return false;
+  if (filter.repos && !(ev.repo && filter.repos.has(ev.repo)) && !(ev.repo_path && filter.repos.has(ev.repo_path))) {
+    return false;
+  }
+  // A run leaving a watched status is still interesting — keep the transition.
+  if (filter.statuses && !filter.statuses.has(ev.status) && !(ev.previous_status && filter.statuses.has(ev.previous_status))) {
+    return false;
+  }
+  return true;
+}
+
+export function registerFirehoseRoutes(app: Express, opts: { watcher: RunWatcher }) {
+  const { watcher } = opts;
+
+  /**
+   * SSE stream of compact change events for every run (one connection for a
+   * whole dashboard). Query: ?status=executing,failed &repo=name &runs=id1,id2
+   *
+   * Messages: { type: "snapshot", runs: RunChangeEvent[] } once, then
+   * { type: "run", event: RunChangeEvent } per status/stage change.
+   */
+  app.get("/api/events", async (req: Request, res: Response) => {
+    const filter: FirehoseFilter = {
+      statuses: csvParam(req.query["status"]),
+      repos: csvParam(req.query["repo"]),
+      runIds: csvParam(req.query["runs"]),
+    };
+
+    res.setHeader("Content-Type", "text/event-stream");
+    res.setHeader("Cache-Control", "no-cache");
+    res.setHeader("Connection", "keep-alive");
+    res.setHeader("X-Accel-Buffering", "no");
+    res.flushHeaders();
+
+    let closed = false;
+    // Until the snapshot is written, changes are only recorded — the snapshot reads the same cache.
+    let ready = false;
+    const lastDigest = new Map<string, string>();
+    const lastStatus = new Map<string, string>();
+
+    const onState = (runId: string, state: RunState) => {
+      if (closed || !ready) return;
+      const ev = toRunChangeEvent(state);
+      const digest = eventDigest(ev);
+      if (lastDigest.get(runId) === digest) return;
+      lastDigest.set(runId, digest);
+      const prev = lastStatus.get(runId);
+      lastStatus.set(runId, ev.status);
+      if (prev && prev !== ev.status) ev.previous_status = prev;
+      if (!matches(ev, filter)) return;
+      res.write(`data: ${JSON.stringify({ type: "run", event: ev })}\n\n`);
+    };
+
+    watcher.on("update", onState);
+    watcher.on("run-added", onState);
+    const ping = setInterval(() => {
+      res.write(": ping\n\n");
+    }, SSE_PING_INTERVAL_MS);
+
+    req.on("close", () => {
+      closed = true;
+      clearInterval(ping);
+      watcher.off("update", onState);
+      watcher.off("run-added", onState);
+      watcher.releaseAllRuns();
+    });
+
+    await watcher.acquireAllRuns();
+    if (closed) return;
+
+    const runs: RunChangeEvent[] = [];
+    for (const { id } of await watcher.listRuns()) {
+      const state = watcher.getState(id);
+      if (!state) continue;
+      const ev = toRunChangeEvent(state);
+      lastDigest.set(id, eventDigest(ev));
+      lastStatus.set(id, ev.status);
+      if (matches(ev, filter)) runs.push(ev);
+    }
+    res.write(`data: ${JSON.stringify({ type: "snapshot", runs })}\n\n`);
+    ready = true;
+  });
+}
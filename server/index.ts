@@ -2,8 +2,17 @@ import { join, resolve } from "node:path";
 import { fileURLToPath } from "node:url";
 import express from "express";
 import { RunWatcher } from "./runWatcher.js";
+import { AuditLog, registerAuditRoutes } from "./audit.js";
+import { ApiAuth, registerAuthRoutes } from "./auth.js";
+import { BudgetMonitor, registerBudgetRoutes } from "./budgets.js";
+import { registerCompareRoutes } from "./compare.js";
+import { registerCostRoutes } from "./costs.js";
 import { registerFactoryRoutes } from "./factory.js";
+import { FeedbackEscalator, registerEscalationRoutes } from "./feedbackEscalation.js";
+import { FeedbackIndex, registerFeedbackRoutes } from "./feedbackIndex.js";
+import { registerFirehoseRoutes } from "./firehose.js";
 import { registerRoutes } from "./routes.js";
+import { registerSearchRoutes } from "./search.js";
 
 const __dirname = fileURLToPath(new URL(".", import.meta.url));
 
@@ -27,25 +36,112 @@ function resolveRunsDirs(): string[] {
 
 const KILROY_RUNS_DIRS = resolveRunsDirs();
 
+// Server-owned state (persisted webhook subscriptions, etc.).
+// KILROY_RUN_PANE_STATE_DIR overrides; default: ~/.local/state/kilroy/run-pane/
+const STATE_DIR = resolve(
+  process.env.KILROY_RUN_PANE_STATE_DIR ??
+    join(process.env.HOME ?? "/root", ".local", "state", "kilroy", "run-pane")
+);
+
 // Static files: in production, serve from dist/. In dev, Vite handles the frontend.
 const DIST_DIR = resolve(__dirname, "..", "dist");
 
 const app = express();
 app.use(express.json());
 
+// Who did what to which run; see audit.ts.
+const audit = new AuditLog(resolve(process.env.KILROY_AUDIT_LOG ?? join(STATE_DIR, "audit.ndjson")));
+
+// Named API tokens with scopes; see auth.ts. Applies to every /api route below.
+const auth = new ApiAuth({
+  tokensFile: resolve(process.env.KILROY_API_TOKENS_FILE ?? join(STATE_DIR, "api-tokens.json")),
+  legacyFactoryToken: process.env.KILROY_FACTORY_TOKEN,
+  audit,
+});
+app.use(auth.middleware());
+registerAuthRoutes(app, { auth });
+
 // Serve Vite build assets
 app.use(express.static(DIST_DIR));
 
-const watcher = new RunWatcher(KILROY_RUNS_DIRS);
+function envInt(name: string): number | undefined {
+  const n = parseInt(process.env[name] ?? "", 10);
+  return Number.isFinite(n) && n > 0 ? n : undefined;
+}
+
+function envUsd(name: string): number | undefined {
+  const n = parseFloat(process.env[name] ?? "");
+  return Number.isFinite(n) && n > 0 ? n : undefined;
+}
+
+// Progress-webhook retry policy overrides (defaults live in webhookQueue.ts).
+const webhookRetry = Object.fromEntries(
+  Object.entries({
+    maxAttempts: envInt("KILROY_WEBHOOK_MAX_ATTEMPTS"),
+    baseDelayMs: envInt("KILROY_WEBHOOK_RETRY_BASE_MS"),
+    maxDelayMs: envInt("KILROY_WEBHOOK_RETRY_MAX_MS"),
+  }).filter(([, v]) => v !== undefined),
+);
+
+const watcher = new RunWatcher(KILROY_RUNS_DIRS, { stateDir: STATE_DIR, webhookRetry });
+void watcher.restoreProgressWebhooks().then((count) => {
+  if (count > 0) console.log(`[kilroy-run-pane] Restored ${count} progress webhook subscription(s)`);
+});
+
+// Server-wide default run budget; per-graph and per-run budgets are set via /api/budgets.
+const budgets = new BudgetMonitor(watcher, {
+  storePath: join(STATE_DIR, "budgets.json"),
+  defaults: { warn_usd: envUsd("KILROY_BUDGET_WARN_USD"), limit_usd: envUsd("KILROY_BUDGET_LIMIT_USD") },
+});
+void budgets.start();
+
+// Pending feedback across all runs (the global inbox); keeps every live run watched.
+// Live runs are rescanned every KILROY_FEEDBACK_RESCAN_MS, all runs every KILROY_FEEDBACK_SWEEP_MS.
+const feedbackIndex = new FeedbackIndex(watcher, {
+  rescanMs: envInt("KILROY_FEEDBACK_RESCAN_MS"),
+  sweepMs: envInt("KILROY_FEEDBACK_SWEEP_MS"),
+});
+void feedbackIndex.start();
+
+// Unanswered-feedback escalation; per-graph and server-wide policies are set via /api/feedback/escalation.
+const escalator = new FeedbackEscalator(feedbackIndex, watcher, {
+  storePath: join(STATE_DIR, "feedback-escalation.json"),
+  defaults: {
+    notify_after_minutes: envInt("KILROY_FEEDBACK_NOTIFY_AFTER_MIN"),
+    notify_webhook_url: process.env.KILROY_FEEDBACK_NOTIFY_WEBHOOK_URL,
+    notify_auth_token: process.env.KILROY_FEEDBACK_NOTIFY_AUTH_TOKEN,
+    auto_respond_after_minutes: envInt("KILROY_FEEDBACK_AUTO_RESPOND_AFTER_MIN"),
+    default_response: process.env.KILROY_FEEDBACK_DEFAULT_RESPONSE,
+  },
+  audit,
+});
+void escalator.start();
+
+// Before registerRoutes: its SPA fallbacks must stay last.
+registerFirehoseRoutes(app, { watcher });
+registerSearchRoutes(app, { watcher });
+registerCompareRoutes(app, { watcher });
+registerCostRoutes(app, { watcher });
+registerBudgetRoutes(app, { watcher, monitor: budgets, audit });
+registerAuditRoutes(app, { audit });
+registerFeedbackRoutes(app, { index: feedbackIndex });
+registerEscalationRoutes(app, { escalator, audit });
 
 registerRoutes(app, {
   runsDirs: KILROY_RUNS_DIRS,
   distDir: DIST_DIR,
   watcher,
+  audit,
 });
 
 const projectRoot = resolve(process.env.KILROY_PROJECT_ROOT ?? "/workspace/project");
-registerFactoryRoutes(app, { runsDirs: KILROY_RUNS_DIRS, projectRoot });
+registerFactoryRoutes(app, {
+  runsDirs: KILROY_RUNS_DIRS,
+  projectRoot,
+  logDir: resolve(process.env.KILROY_FACTORY_LOG_DIR ?? join(STATE_DIR, "factory-logs")),
+  uploadDir: join(STATE_DIR, "factory-graphs"),
+  audit,
+});
 
 const BIND_HOST = process.env.RUN_PANE_BIND ?? "0.0.0.0";
 
@@ -53,14 +149,24 @@ const server = app.listen(PORT, BIND_HOST, () => {
   console.log(`[kilroy-run-pane] Listening on http://${BIND_HOST}:${PORT}`);
   console.log(`[kilroy-run-pane] Runs dirs:`);
   for (const d of KILROY_RUNS_DIRS) console.log(`[kilroy-run-pane]   - ${d}`);
+  console.log(`[kilroy-run-pane] State dir: ${STATE_DIR}`);
+  void auth.reload(true).then(() => {
+    if (!auth.enforced) {
+      console.warn("[kilroy-run-pane] No API tokens file: reads are open; writes need KILROY_FACTORY_TOKEN unless sent from loopback");
+    }
+  });
 });
 
 process.on("SIGTERM", () => {
+  escalator.close();
+  feedbackIndex.close();
   watcher.close();
   server.close();
 });
 
 process.on("SIGINT", () => {
+  escalator.close();
+  feedbackIndex.close();
   watcher.close();
   server.close();
   process.exit(0);
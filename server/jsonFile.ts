@@ -0,0 +1,26 @@
+import { chmod, mkdir, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+
+// Server-owned state files can hold webhook tokens and signing secrets, so
+// they are readable by the server's user only.
+export const STATE_FILE_MODE = 0o600;
+
+/**
+ * Write `body` as pretty JSON via a tmp file + rename, so a crash never
+ * leaves a torn file, with owner-only permissions.
+ */
+export async function writeJsonAtomic(path: string, body: unknown): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  const tmpPath = `${path}.tmp`;
+  await writeFile(tmpPath, JSON.stringify(body, null, 2), { encoding: "utf8", mode: STATE_FILE_MODE });
+  // `mode` only applies on creation; a tmp file left by a crash keeps its own.
+  await chmod(tmpPath, STATE_FILE_MODE);
+  await rename(tmpPath, path);
+}
+
+/** Narrow a state file written before it was created owner-only. Missing files are fine. */
+export async function restrictStateFile(path: string): Promise<void> {
+  await chmod(path, STATE_FILE_MODE).catch((err: NodeJS.ErrnoException) => {
+    if (err.code !== "ENOENT") console.warn(`[state] cannot restrict ${path}:`, err);
+  });
+}
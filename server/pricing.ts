@@ -0,0 +1,134 @@
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { loadPricingTable, lookupTablePrice } from "./pricingTable.js";
+import { parseEventsTurns, type PricingEstimate, type PricingSource, type TurnsResponse } from "./turns.js";
+
+// ── Pricing ─────────────────────────────────────────────────────────────────
+
+export async function computePricing(
+  runDir: string,
+  node: string,
+  turnsData: TurnsResponse,
+): Promise<PricingEstimate | undefined> {
+  try {
+    // Model and provider from provider_used.json, else from the events. Only
+    // Kilroy's own log names its profile; Claude Code and Codex logs do not.
+    let modelId = turnsData.model ?? "";
+    let provider = turnsData.profile ?? "";
+    try {
+      const pvRaw = await readFile(join(runDir, node, "provider_used.json"), "utf8");
+      const pv = JSON.parse(pvRaw) as Record<string, unknown>;
+      if (pv.model) modelId = String(pv.model);
+      if (typeof pv.provider === "string" && pv.provider.trim()) provider = pv.provider.trim();
+    } catch { /* ok */ }
+
+    if (!modelId) return undefined;
+
+    // Estimate token counts from text lengths (kept alongside real usage for comparison)
+    let inputChars = 0;
+    let outputChars = 0;
+    for (const turn of turnsData.turns) {
+      if (turn.role === "user") {
+        inputChars += turn.text.length;
+      } else {
+        for (const step of turn.steps) {
+          if (step.text) outputChars += step.text.length;
+          // Tool outputs feed back as input context (rough estimate)
+          if (step.tool_call) inputChars += step.tool_call.output.length * 0.5;
+        }
+      }
+    }
+    const estimatedInputTokens = Math.round(inputChars / 4);
+    const estimatedOutputTokens = Math.round(outputChars / 4);
+
+    let manifest: Record<string, unknown> = {};
+    try {
+      manifest = JSON.parse(await readFile(join(runDir, "manifest.json"), "utf8")) as Record<string, unknown>;
+    } catch { /* kilroy-dash runs have no manifest */ }
+
+    // Local pricing table first, then the run's OpenRouter modeldb.
+    const lookupKey = provider ? `${provider}/${modelId}` : modelId;
+    let promptPrice: number | null = null;
+    let completionPrice: number | null = null;
+    let cacheReadPrice: number | null = null;
+    let cacheWritePrice: number | null = null;
+    let source: PricingSource | null = null;
+
+    const table = await loadPricingTable();
+    if (table) {
+      // Historical runs are priced at the rate in force when they started.
+      const startedAt = typeof manifest.started_at === "string" ? new Date(manifest.started_at) : new Date();
+      const hit = lookupTablePrice(table, modelId, provider, Number.isFinite(startedAt.getTime()) ? startedAt : new Date());
+      if (hit) {
+        promptPrice = hit.prompt;
+        completionPrice = hit.completion;
+        cacheReadPrice = hit.cache_read;
+        cacheWritePrice = hit.cache_write;
+        source = {
+          kind: "table",
+          path: table.path,
+          entry: hit.entry.model,
+          provider: hit.entry.provider,
+          effective_from: hit.entry.effective_from,
+        };
+      }
+    }
+
+    const modeldbObj = manifest.modeldb as Record<string, unknown> | undefined;
+    const modelInfoPath = modeldbObj?.openrouter_model_info_path as string | undefined;
+    if (!source && modelInfoPath) {
+      try {
+        const modeldbRaw = await readFile(modelInfoPath, "utf8");
+        const modeldb = JSON.parse(modeldbRaw) as { data?: Array<{ id: string; pricing?: Record<string, string> }> };
+        const entry = modeldb.data?.find(
+          (m) => m.id === lookupKey || m.id.endsWith(`/${modelId}`) || m.id === modelId
+        );
+        if (entry?.pricing) {
+          promptPrice = entry.pricing.prompt ? parseFloat(entry.pricing.prompt) : null;
+          completionPrice = entry.pricing.completion ? parseFloat(entry.pricing.completion) : null;
+          cacheReadPrice = entry.pricing.input_cache_read ? parseFloat(entry.pricing.input_cache_read) : null;
+          cacheWritePrice = entry.pricing.input_cache_write ? parseFloat(entry.pricing.input_cache_write) : null;
+          source = { kind: "modeldb", path: modelInfoPath, entry: entry.id };
+        }
+      } catch { /* modeldb not available */ }
+    }
+
+    const usage = turnsData.usage ?? null;
+    let estimatedCost: number | null = null;
+    if (promptPrice !== null && completionPrice !== null) {
+      estimatedCost = usage
+        // Models without a cache price bill cached tokens as ordinary input.
+        ? usage.input_tokens * promptPrice
+          + usage.output_tokens * completionPrice
+          + usage.cache_read_tokens * (cacheReadPrice ?? promptPrice)
+          + usage.cache_write_tokens * (cacheWritePrice ?? promptPrice)
+        : estimatedInputTokens * promptPrice + estimatedOutputTokens * completionPrice;
+    }
+
+    return {
+      model_id: lookupKey,
+      token_source: usage ? "usage" : "estimate",
+      actual_usage: usage,
+      estimated_input_tokens: estimatedInputTokens,
+      estimated_output_tokens: estimatedOutputTokens,
+      estimated_cost_usd: estimatedCost,
+      prompt_price_per_token: promptPrice,
+      completion_price_per_token: completionPrice,
+      cache_read_price_per_token: cacheReadPrice,
+      cache_write_price_per_token: cacheWritePrice,
+      pricing_source: source,
+    };
+  } catch {
+    return undefined;
+  }
+}
+
+/** Pricing for a stage directory's latest events.ndjson; undefined when there is nothing to price. */
+export async function estimateStageCost(runDir: string, stagePath: string): Promise<PricingEstimate | undefined> {
+  try {
+    const raw = await readFile(join(runDir, stagePath, "events.ndjson"), "utf8");
+    return await computePricing(runDir, stagePath, parseEventsTurns(raw));
+  } catch {
+    return undefined;
+  }
+}
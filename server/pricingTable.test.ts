@@ -0,0 +1,115 @@
+import assert from "node:assert/strict";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import test from "node:test";
+import { parse as parseYaml } from "yaml";
+import { estimateStageCost } from "./pricing.js";
+import { buildPricingTable, loadPricingTable, lookupTablePrice } from "./pricingTable.js";
+
+const YAML = `
+# local prices, USD per million tokens
+models:
+  - model: anthropic/claude-sonnet-4-5
+    aliases: [claude-sonnet-4-5, "sonnet"]
+    input_per_mtok: 3
+    output_per_mtok: 15
+    cache_read_per_mtok: 0.3
+  - model: gpt-5
+    effective_until: 2025-10-01
+    input_per_mtok: 1.25
+    output_per_mtok: 10
+  - model: gpt-5
+    effective_from: 2025-10-01
+    input_per_mtok: 1
+    output_per_mtok: 8
+  - model: gpt-5
+    provider: azure   # negotiated rate
+    input_per_mtok: 0.5
+    output_per_mtok: 4
+  - model: broken
+    input_per_mtok: -1
+    output_per_mtok: 1
+`;
+
+test("table lookup matches aliases and bare names, honouring effective dates and provider overrides", () => {
+  const table = buildPricingTable("prices.yaml", parseYaml(YAML));
+  assert.equal(table.entries.length, 4);
+  assert.deepEqual(table.errors, ["entry broken: input_per_mtok must be a non-negative number"]);
+
+  const sonnet = lookupTablePrice(table, "sonnet", "anthropic", new Date("2026-01-01"));
+  assert.equal(sonnet?.entry.model, "anthropic/claude-sonnet-4-5");
+  assert.equal(sonnet?.cache_read, 0.3 / 1_000_000);
+  assert.equal(lookupTablePrice(table, "claude-sonnet-4-5", "", new Date())?.prompt, 3 / 1_000_000);
+
+  const before = lookupTablePrice(table, "gpt-5", "openai", new Date("2025-09-15"));
+  const after = lookupTablePrice(table, "gpt-5", "openai", new Date("2025-10-15"));
+  assert.equal(before?.completion, 10 / 1_000_000);
+  assert.equal(after?.completion, 8 / 1_000_000);
+  assert.equal(lookupTablePrice(table, "openai/gpt-5", "", new Date("2025-10-15"))?.entry.effective_from, "2025-10-01");
+  assert.equal(lookupTablePrice(table, "gpt-5", "azure", new Date("2025-09-15"))?.entry.provider, "azure");
+  assert.equal(lookupTablePrice(table, "gpt-4o", "openai", new Date()), null);
+});
+
+test("a Claude Code stage gets its provider override from provider_used.json", async () => {
+  const dir = await mkdtemp(join(tmpdir(), "pricing-"));
+  const previous = process.env.KILROY_PRICING_FILE;
+  try {
+    const pricingFile = join(dir, "prices.json");
+    await writeFile(pricingFile, JSON.stringify({
+      models: [
+        { model: "claude-sonnet-4-5", input_per_mtok: 3, output_per_mtok: 15 },
+        { model: "claude-sonnet-4-5", provider: "bedrock", input_per_mtok: 2, output_per_mtok: 10 },
+      ],
+    }));
+    process.env.KILROY_PRICING_FILE = pricingFile;
+    await mkdir(join(dir, "run", "implement"), { recursive: true });
+    await writeFile(join(dir, "run", "implement", "provider_used.json"), JSON.stringify({ provider: "bedrock", model: "claude-sonnet-4-5" }));
+    await writeFile(join(dir, "run", "implement", "events.ndjson"), [
+      { type: "system", session_id: "s1", model: "claude-sonnet-4-5" },
+      { type: "result", result: "done", usage: { input_tokens: 1_000_000, output_tokens: 100_000 } },
+    ].map((e) => JSON.stringify(e)).join("\n"));
+
+    const pricing = await estimateStageCost(join(dir, "run"), "implement");
+    assert.equal(pricing?.model_id, "bedrock/claude-sonnet-4-5");
+    assert.equal(pricing?.pricing_source?.provider, "bedrock");
+    assert.equal(pricing?.estimated_cost_usd, 3);
+  } finally {
+    if (previous === undefined) delete process.env.KILROY_PRICING_FILE;
+    else process.env.KILROY_PRICING_FILE = previous;
+    await rm(dir, { recursive: true, force: true });
+  }
+});
+
+test("loadPricingTable reads YAML by extension and reports parse errors", async () => {
+  const dir = await mkdtemp(join(tmpdir(), "pricing-"));
+  const previous = process.env.KILROY_PRICING_FILE;
+  try {
+    const yamlFile = join(dir, "prices.yaml");
+    await writeFile(yamlFile, [
+      "sonnet: &sonnet",
+      "  input_per_mtok: 3",
+      "  output_per_mtok: 15",
+      "models:",
+      "  - model: claude-sonnet-4-5",
+      "    <<: *sonnet",
+      "  - { model: \"gpt-5\", input_per_mtok: 1, output_per_mtok: 8, effective_from: 2025-10-01 }",
+    ].join("\n"));
+    process.env.KILROY_PRICING_FILE = yamlFile;
+    const table = await loadPricingTable();
+    assert.deepEqual(table?.errors, []);
+    assert.deepEqual(table?.entries.map((e) => [e.model, e.output_per_mtok, e.effective_from]), [
+      ["claude-sonnet-4-5", 15, undefined],
+      ["gpt-5", 8, "2025-10-01"],
+    ]);
+
+    const jsonFile = join(dir, "prices.json");
+    await writeFile(jsonFile, "models:\n  - model: gpt-5\n");
+    process.env.KILROY_PRICING_FILE = jsonFile;
+    assert.match((await loadPricingTable())?.errors[0] ?? "", /^cannot parse pricing file/);
+  } finally {
+    if (previous === undefined) delete process.env.KILROY_PRICING_FILE;
+    else process.env.KILROY_PRICING_FILE = previous;
+    await rm(dir, { recursive: true, force: true });
+  }
+});
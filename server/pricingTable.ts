@@ -0,0 +1,174 @@
+import { readFile, stat } from "node:fs/promises";
+import { parse as parseYaml } from "yaml";
+
+// ── Local pricing table ─────────────────────────────────────────────────────
+//
+// KILROY_PRICING_FILE points at a JSON file, or a YAML 1.2 file when its
+// name does not end in .json (`<<` merge keys allowed):
+//
+//   models:
+//     - model: anthropic/claude-sonnet-4-5
+//       aliases: [claude-sonnet-4-5, sonnet]
+//       input_per_mtok: 3
+//       output_per_mtok: 15
+//       cache_read_per_mtok: 0.3
+//       cache_write_per_mtok: 3.75
+//     - model: gpt-5
+//       provider: azure              # override: only stages that ran via this provider
+//       effective_from: 2025-10-01   # inclusive; effective_until is exclusive
+//       input_per_mtok: 1.1
+//       output_per_mtok: 9
+//
+// Prices are USD per million tokens; dates are ISO strings (YAML reads a bare
+// 2025-10-01 as one). Table entries take precedence over the run's OpenRouter
+// modeldb file.
+
+export interface PricingTableEntry {
+  model: string;
+  aliases?: string[];
+  provider?: string;
+  effective_from?: string;
+  effective_until?: string;
+  input_per_mtok: number;
+  output_per_mtok: number;
+  cache_read_per_mtok?: number;
+  cache_write_per_mtok?: number;
+}
+
+export interface PricingTable {
+  path: string;
+  entries: PricingTableEntry[];
+  /** Entries skipped while loading, with the reason. */
+  errors: string[];
+}
+
+/** Per-token prices for one stage plus where they came from. */
+export interface TablePrice {
+  entry: PricingTableEntry;
+  prompt: number;
+  completion: number;
+  cache_read: number | null;
+  cache_write: number | null;
+}
+
+// ── Table loading ───────────────────────────────────────────────────────────
+
+function isDate(v: unknown): v is string {
+  return typeof v === "string" && Number.isFinite(Date.parse(v));
+}
+
+/** Validate parsed file contents into table entries; bad entries are reported, not fatal. */
+export function buildPricingTable(path: string, doc: unknown): PricingTable {
+  const errors: string[] = [];
+  const entries: PricingTableEntry[] = [];
+  const models = (doc as { models?: unknown } | null)?.models;
+  if (!Array.isArray(models)) return { path, entries, errors: ["top-level `models` list missing"] };
+
+  models.forEach((raw, i) => {
+    const e = (raw ?? {}) as Record<string, unknown>;
+    const label = typeof e.model === "string" ? e.model : `#${i + 1}`;
+    if (typeof e.model !== "string" || !e.model.trim()) { errors.push(`entry ${label}: model required`); return; }
+    const prices: Partial<Record<string, number>> = {};
+    for (const key of ["input_per_mtok", "output_per_mtok", "cache_read_per_mtok", "cache_write_per_mtok"]) {
+      if (e[key] == null) continue;
+      if (typeof e[key] !== "number" || (e[key] as number) < 0) { errors.push(`entry ${label}: ${key} must be a non-negative number`); return; }
+      prices[key] = e[key] as number;
+    }
+    if (prices.input_per_mtok == null || prices.output_per_mtok == null) {
+      errors.push(`entry ${label}: input_per_mtok and output_per_mtok required`);
+      return;
+    }
+    for (const key of ["effective_from", "effective_until"]) {
+      if (e[key] != null && !isDate(e[key])) { errors.push(`entry ${label}: ${key} must be a date`); return; }
+    }
+    entries.push({
+      model: e.model.trim(),
+      aliases: Array.isArray(e.aliases) ? e.aliases.map((a) => String(a).trim()).filter(Boolean) : undefined,
+      provider: typeof e.provider === "string" && e.provider.trim() ? e.provider.trim() : undefined,
+      effective_from: e.effective_from as string | undefined,
+      effective_until: e.effective_until as string | undefined,
+      input_per_mtok: prices.input_per_mtok,
+      output_per_mtok: prices.output_per_mtok,
+      cache_read_per_mtok: prices.cache_read_per_mtok,
+      cache_write_per_mtok: prices.cache_write_per_mtok,
+    });
+  });
+  return { path, entries, errors };
+}
+
+let cached: { path: string; mtimeMs: number; table: PricingTable } | null = null;
+
+/**
+ * The table named by KILROY_PRICING_FILE, re-read when the file changes.
+ * Returns null when unset; an unreadable or malformed file yields an empty
+ * table carrying the error so /api/pricing can explain it.
+ */
+export async function loadPricingTable(): Promise<PricingTable | null> {
+  const path = process.env.KILROY_PRICING_FILE?.trim();
+  if (!path) return null;
+  let mtimeMs: number;
+  try {
+    mtimeMs = (await stat(path)).mtimeMs;
+  } catch (err) {
+    return { path, entries: [], errors: [`cannot read pricing file: ${(err as Error).message}`] };
+  }
+  if (cached && cached.path === path && cached.mtimeMs === mtimeMs) return cached.table;
+
+  let table: PricingTable;
+  try {
+    const raw = await readFile(path, "utf8");
+    const doc = /\.json$/i.test(path) ? JSON.parse(raw) : parseYaml(raw, { merge: true });
+    table = buildPricingTable(path, doc);
+  } catch (err) {
+    table = { path, entries: [], errors: [`cannot parse pricing file: ${(err as Error).message}`] };
+  }
+  for (const msg of table.errors) console.warn(`[pricingTable] ${path}: ${msg}`);
+  cached = { path, mtimeMs, table };
+  return table;
+}
+
+// ── Lookup ──────────────────────────────────────────────────────────────────
+
+const bareName = (id: string) => id.slice(id.lastIndexOf("/") + 1);
+
+/**
+ * Price for `modelId` as run through `provider` at time `at`. Names match on
+ * the full id, `provider/model`, or the part after the last "/", against the
+ * entry's model and aliases (case-insensitive). A provider-specific entry
+ * beats a generic one; among those, the latest effective_from in force wins.
+ */
+export function lookupTablePrice(
+  table: PricingTable,
+  modelId: string,
+  provider: string,
+  at: Date,
+): TablePrice | null {
+  const wanted = new Set(
+    [modelId, provider ? `${provider}/${modelId}` : "", bareName(modelId)].filter(Boolean).map((s) => s.toLowerCase()),
+  );
+  const providerName = (provider || (modelId.includes("/") ? modelId.slice(0, modelId.indexOf("/")) : "")).toLowerCase();
+  const time = at.getTime();
+
+  let best: PricingTableEntry | null = null;
+  const rank = (e: PricingTableEntry) => [e.provider ? 1 : 0, e.effective_from ? Date.parse(e.effective_from) : -Infinity];
+  for (const e of table.entries) {
+    if (e.provider && e.provider.toLowerCase() !== providerName) continue;
+    if (e.effective_from && Date.parse(e.effective_from) > time) continue;
+    if (e.effective_until && Date.parse(e.effective_until) <= time) continue;
+    const names = [e.model, ...(e.aliases ?? [])].map((n) => n.toLowerCase());
+    if (!names.some((n) => wanted.has(n) || wanted.has(bareName(n)))) continue;
+    if (!best) { best = e; continue; }
+    const [p, from] = rank(e);
+    const [bp, bfrom] = rank(best);
+    if (p > bp || (p === bp && from > bfrom)) best = e;
+  }
+  if (!best) return null;
+  const perToken = (usdPerMtok: number | undefined) => (usdPerMtok == null ? null : usdPerMtok / 1_000_000);
+  return {
+    entry: best,
+    prompt: best.input_per_mtok / 1_000_000,
+    completion: best.output_per_mtok / 1_000_000,
+    cache_read: perToken(best.cache_read_per_mtok),
+    cache_write: perToken(best.cache_write_per_mtok),
+  };
+}
@@ -0,0 +1,69 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import {
+  collectProgressEvents,
+  parseProgressWebhookFilter,
+  selectNewProgressEvents,
+  type ProgressWebhookFilter,
+} from "./progressWebhookFilter.js";
+import type { RunState, VisitedStage } from "./runWatcher.js";
+
+function makeState(history: VisitedStage[], overrides: Partial<RunState> = {}): RunState {
+  return {
+    run: { id: "run-1", status: "executing" },
+    containerAlive: true,
+    computedStatus: "executing",
+    lastChecked: "2026-03-20T00:00:00Z",
+    stageHistory: history,
+    format: "attractor",
+    ...overrides,
+  };
+}
+
+const implement: VisitedStage = { node_id: "implement", attempt: 1, status: "fail", started_at: "2026-03-20T00:00:00Z", failure_reason: "tests failed" };
+const review: VisitedStage = { node_id: "review", attempt: 1, status: "running", started_at: "2026-03-20T00:01:00Z" };
+
+test("filter parsing validates events and implies node_visit from nodes", () => {
+  assert.equal(parseProgressWebhookFilter(undefined), undefined);
+  assert.equal(typeof parseProgressWebhookFilter({ events: ["bogus"] }), "string");
+  assert.equal(typeof parseProgressWebhookFilter({ events: ["node_visit"] }), "string");
+  assert.deepEqual(parseProgressWebhookFilter({ events: ["terminal"], nodes: ["review", "review"] }), {
+    events: ["terminal", "node_visit"],
+    nodes: ["review"],
+  });
+});
+
+test("history events present at subscribe time are not replayed", () => {
+  const filter: ProgressWebhookFilter = { events: ["stage_failure", "node_visit"], nodes: ["review"] };
+  const first = selectNewProgressEvents(collectProgressEvents(makeState([implement]), filter, []), undefined);
+  assert.deepEqual(first.fresh, []);
+
+  const next = selectNewProgressEvents(
+    collectProgressEvents(makeState([implement, review]), filter, []),
+    first.seen,
+  );
+  assert.deepEqual(next.fresh.map((m) => m.type), ["node_visit"]);
+  assert.equal(next.fresh[0].node_id, "review");
+});
+
+test("heartbeat-only changes do not fire filtered subscriptions", () => {
+  const filter: ProgressWebhookFilter = { events: ["terminal", "stage_failure"] };
+  const state = makeState([implement]);
+  const first = selectNewProgressEvents(collectProgressEvents(state, filter, []), undefined);
+  const beat = makeState([implement], { run: { id: "run-1", status: "executing", last_heartbeat: "2026-03-20T00:05:00Z" } });
+  const next = selectNewProgressEvents(collectProgressEvents(beat, filter, []), first.seen);
+  assert.deepEqual(next.fresh, []);
+});
+
+test("terminal, cycle breaker and feedback events fire once", () => {
+  const filter: ProgressWebhookFilter = { events: ["terminal", "cycle_breaker", "feedback_pending"] };
+  const state = makeState([implement], {
+    computedStatus: "failed",
+    run: { id: "run-1", status: "failed", finished_at: "2026-03-20T00:10:00Z" },
+    cycleInfo: { failingNodeId: "implement", signature: "sig", signatureCount: 3, signatureLimit: 3, isBreaker: true },
+  });
+  const first = selectNewProgressEvents(collectProgressEvents(state, filter, ["approve"]), undefined);
+  assert.deepEqual(first.fresh.map((m) => m.type).sort(), ["cycle_breaker", "feedback_pending", "terminal"]);
+  const again = selectNewProgressEvents(collectProgressEvents(state, filter, ["approve"]), first.seen);
+  assert.deepEqual(again.fresh, []);
+});
@@ -0,0 +1,169 @@
+import type { BudgetAlert } from "./budgets.js";
+import type { RunState, VisitedStage } from "./runWatcher.js";
+
+/**
+ * Event classes a progress-webhook subscription can narrow itself to.
+ * A subscription without a filter keeps the legacy behaviour of firing on
+ * every progress-digest change (including heartbeat-only changes).
+ */
+export const PROGRESS_WEBHOOK_EVENTS = [
+  "terminal",
+  "stage_failure",
+  "cycle_breaker",
+  "feedback_pending",
+  "node_visit",
+  "budget",
+] as const;
+
+export type ProgressWebhookEvent = typeof PROGRESS_WEBHOOK_EVENTS[number];
+
+export interface ProgressWebhookFilter {
+  events: ProgressWebhookEvent[];
+  /** Node ids for `node_visit`; matches main-line and branch visits. */
+  nodes?: string[];
+}
+
+export interface ProgressEventMatch {
+  type: ProgressWebhookEvent;
+  /** Stable identity of the occurrence — each key fires at most once per subscription. */
+  key: string;
+  node_id?: string;
+  status?: string;
+  detail?: string;
+}
+
+/** Events derived from history; seeded as already-seen on a subscription's first evaluation. */
+const HISTORICAL_EVENTS = new Set<ProgressWebhookEvent>(["stage_failure", "node_visit"]);
+
+const TERMINAL_STATUSES = new Set(["completed", "failed", "interrupted"]);
+
+/** Parse the `filter` body field. Returns an error string for invalid input, undefined for "no filter". */
+export function parseProgressWebhookFilter(raw: unknown): ProgressWebhookFilter | undefined | string {
+  if (raw == null) return undefined;
+  if (typeof raw !== "object" || Array.isArray(raw)) return "filter must be an object";
+  const obj = raw as Record<string, unknown>;
+
+  const events = new Set<ProgressWebhookEvent>();
+  if (obj.events !== undefined) {
+    if (!Array.isArray(obj.events)) return "filter.events must be an array";
+    for (const e of obj.events) {
+      if (!(PROGRESS_WEBHOOK_EVENTS as readonly string[]).includes(String(e))) {
+        return `unknown filter event "${String(e)}" (expected one of ${PROGRESS_WEBHOOK_EVENTS.join(", ")})`;
+      }
+      events.add(e as ProgressWebhookEvent);
+    }
+  }
+
+  let nodes: string[] | undefined;
+  if (obj.nodes !== undefined) {
+    if (!Array.isArray(obj.nodes)) return "filter.nodes must be an array";
+    nodes = [...new Set(obj.nodes.map((n) => String(n).trim()).filter(Boolean))];
+    // Naming nodes implies interest in visiting them.
+    if (nodes.length > 0) events.add("node_visit");
+  }
+  if (events.has("node_visit") && (!nodes || nodes.length === 0)) {
+    return "filter.nodes required for node_visit";
+  }
+  if (events.size === 0) return "filter.events must not be empty";
+
+  return {
+    events: PROGRESS_WEBHOOK_EVENTS.filter((e) => events.has(e)),
+    ...(nodes && nodes.length > 0 ? { nodes: [...nodes].sort() } : {}),
+  };
+}
+
+function visitKey(v: VisitedStage): string {
+  return `${v.restartIndex ?? 0}/${v.stage_path ?? v.node_id}:${v.attempt}@${v.started_at}`;
+}
+
+/** Every event occurrence currently visible in `state` that the filter cares about. */
+export function collectProgressEvents(
+  state: RunState,
+  filter: ProgressWebhookFilter,
+  pendingFeedbackStages: string[],
+  budgetAlerts: BudgetAlert[] = [],
+): ProgressEventMatch[] {
+  const wanted = new Set(filter.events);
+  const matches: ProgressEventMatch[] = [];
+
+  if (wanted.has("terminal") && TERMINAL_STATUSES.has(state.computedStatus)) {
+    matches.push({
+      type: "terminal",
+      key: `terminal:${state.computedStatus}:${state.run.finished_at ?? ""}`,
+      status: state.computedStatus,
+      detail: state.run.failure_reason,
+    });
+  }
+
+  const nodes = new Set(filter.nodes ?? []);
+  for (const v of state.stageHistory ?? []) {
+    if (wanted.has("stage_failure") && v.status === "fail") {
+      matches.push({
+        type: "stage_failure",
+        key: `stage_failure:${visitKey(v)}`,
+        node_id: v.node_id,
+        status: v.status,
+        detail: v.failure_reason,
+      });
+    }
+    if (wanted.has("node_visit") && nodes.has(v.node_id)) {
+      // One occurrence for the start and one for however the visit ends.
+      const phase = v.status === "running" ? "start" : "end";
+      matches.push({
+        type: "node_visit",
+        key: `node_visit:${phase}:${visitKey(v)}`,
+        node_id: v.node_id,
+        status: v.status,
+      });
+    }
+  }
+
+  if (wanted.has("cycle_breaker") && state.cycleInfo?.isBreaker) {
+    matches.push({
+      type: "cycle_breaker",
+      key: `cycle_breaker:${state.cycleInfo.failingNodeId}:${state.cycleInfo.signature}`,
+      node_id: state.cycleInfo.failingNodeId,
+      detail: state.cycleInfo.signature,
+    });
+  }
+
+  if (wanted.has("feedback_pending")) {
+    for (const stage of pendingFeedbackStages) {
+      matches.push({ type: "feedback_pending", key: `feedback_pending:${stage}`, node_id: stage });
+    }
+  }
+
+  if (wanted.has("budget")) {
+    for (const alert of budgetAlerts) {
+      matches.push({
+        type: "budget",
+        key: `budget:${alert.level}`,
+        status: alert.level,
+        detail: `$${alert.spent_usd.toFixed(2)} spent of $${alert.threshold_usd.toFixed(2)} ${alert.level === "limit" ? "limit" : "warning level"}`,
+      });
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Split current matches into those not yet fired. On the first evaluation
+ * (`seen` undefined) history-derived occurrences are treated as already seen,
+ * so subscribing mid-run does not replay every past failure or visit.
+ */
+export function selectNewProgressEvents(
+  matches: ProgressEventMatch[],
+  seen: string[] | undefined,
+): { fresh: ProgressEventMatch[]; seen: string[] } {
+  const seenSet = new Set(seen ?? []);
+  const fresh: ProgressEventMatch[] = [];
+  for (const m of matches) {
+    if (seenSet.has(m.key)) continue;
+    if (seen === undefined && HISTORICAL_EVENTS.has(m.type)) continue;
+    fresh.push(m);
+  }
+  // Only keys still visible are worth remembering: a feedback request that was
+  // answered and later re-opened for the same stage should fire again.
+  return { fresh, seen: [...new Set(matches.map((m) => m.key))] };
+}
@@ -0,0 +1,63 @@
+import assert from "node:assert/strict";
+import { chmod, mkdtemp, rm, stat, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import test from "node:test";
+import { loadProgressWebhooks, saveProgressWebhooks } from "./progressWebhookStore.js";
+import type { ProgressWebhookSubscription } from "./runWatcher.js";
+
+async function withStore(fn: (storePath: string) => Promise<void>) {
+  const dir = await mkdtemp(join(tmpdir(), "webhook-store-"));
+  try {
+    await fn(join(dir, "state", "progress-webhooks.json"));
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+test("subscriptions round-trip with their retry queue and dead letters", async () => {
+  await withStore(async (storePath) => {
+    const sub: ProgressWebhookSubscription = {
+      id: "sub-1",
+      runId: "run-1",
+      webhookUrl: "http://example.invalid/hook",
+      authToken: "bearer-secret",
+      signingSecret: "hmac-secret",
+      filter: { events: ["terminal", "stage_failure"] },
+      createdAt: "2026-03-20T00:00:00Z",
+      lastDeliveryDigest: "d1",
+      pending: [{ id: "del-2", digest: "d2", payload: { seq: 2 }, enqueuedAt: "2026-03-20T00:01:00Z", attempts: 1, lastError: "HTTP 502" }],
+      deadLetters: [{
+        id: "del-0", digest: "d0", payload: { seq: 0 }, enqueuedAt: "2026-03-20T00:00:30Z", attempts: 5,
+        deadLetteredAt: "2026-03-20T00:00:59Z",
+      }],
+      restored: true,
+    };
+    await saveProgressWebhooks(storePath, [sub]);
+
+    const { restored: _restored, ...expected } = sub;
+    assert.deepEqual(await loadProgressWebhooks(storePath), [expected]);
+    assert.equal((await stat(storePath)).mode & 0o777, 0o600);
+  });
+});
+
+test("loading narrows a world-readable store and skips malformed entries", async () => {
+  await withStore(async (storePath) => {
+    await saveProgressWebhooks(storePath, []);
+    await writeFile(storePath, JSON.stringify({
+      version: 1,
+      subscriptions: [{ id: "sub-1", runId: "run-1", webhookUrl: "http://example.invalid/hook", createdAt: "x" }, { id: 7 }],
+    }));
+    await chmod(storePath, 0o644);
+
+    const subs = await loadProgressWebhooks(storePath);
+    assert.deepEqual(subs.map((s) => s.id), ["sub-1"]);
+    assert.equal((await stat(storePath)).mode & 0o777, 0o600);
+  });
+});
+
+test("a missing store loads as empty", async () => {
+  await withStore(async (storePath) => {
+    assert.deepEqual(await loadProgressWebhooks(storePath), []);
+  });
+});
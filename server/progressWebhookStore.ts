@@ -0,0 +1,57 @@
+import { readFile } from "node:fs/promises";
+import { restrictStateFile, writeJsonAtomic } from "./jsonFile.js";
+import type { ProgressWebhookSubscription } from "./runWatcher.js";
+
+const STORE_VERSION = 1;
+
+interface ProgressWebhookStoreFile {
+  version: number;
+  saved_at: string;
+  subscriptions: ProgressWebhookSubscription[];
+}
+
+function isSubscription(value: unknown): value is ProgressWebhookSubscription {
+  if (!value || typeof value !== "object") return false;
+  const v = value as Record<string, unknown>;
+  return typeof v.id === "string"
+    && typeof v.runId === "string"
+    && typeof v.webhookUrl === "string"
+    && typeof v.createdAt === "string";
+}
+
+/**
+ * Read persisted progress-webhook subscriptions. A missing or unreadable store
+ * yields an empty list — the server must still start without it. A store
+ * written by an older version is narrowed to owner-only on the way in.
+ */
+export async function loadProgressWebhooks(storePath: string): Promise<ProgressWebhookSubscription[]> {
+  let raw: string;
+  try {
+    raw = await readFile(storePath, "utf8");
+  } catch {
+    return [];
+  }
+  await restrictStateFile(storePath);
+  try {
+    const parsed = JSON.parse(raw) as Partial<ProgressWebhookStoreFile>;
+    if (!Array.isArray(parsed.subscriptions)) return [];
+    return parsed.subscriptions.filter(isSubscription);
+  } catch (err) {
+    console.error(`[progressWebhookStore] ignoring malformed ${storePath}:`, err);
+    return [];
+  }
+}
+
+/** Write all subscriptions; they carry auth tokens and signing secrets in plain text. */
+export async function saveProgressWebhooks(
+  storePath: string,
+  subscriptions: ProgressWebhookSubscription[],
+): Promise<void> {
+  const body: ProgressWebhookStoreFile = {
+    version: STORE_VERSION,
+    saved_at: new Date().toISOString(),
+    // `restored` describes this process's view of the entry, not the subscription itself.
+    subscriptions: subscriptions.map(({ restored: _restored, ...sub }) => sub),
+  };
+  await writeJsonAtomic(storePath, body);
+}
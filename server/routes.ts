@@ -1,100 +1,47 @@
-import { readdir, rename, stat, readFile, writeFile } from "node:fs/promises";
-import { dirname, join } from "node:path";
+import { readdir, stat, readFile } from "node:fs/promises";
+import { join } from "node:path";
 import archiver from "archiver";
 import type { Express, Request, Response } from "express";
-import type { RunWatcher } from "./runWatcher.js";
+import { requestActor, type AuditLog } from "./audit.js";
+import { findFeedbackRequestFilePath, pendingFeedbackForAttractorRun, writeFeedbackResponse } from "./feedback.js";
+import { buildFeedbackResponse } from "./feedbackResponse.js";
+import { parseProgressWebhookFilter } from "./progressWebhookFilter.js";
+import { RunEventLog, type RunEvent } from "./runEventLog.js";
+import {
+  GLOBAL_WEBHOOK_RUN_ID,
+  type ProgressWebhookSubscriptionInput,
+  type RunState,
+  type RunWatcher,
+} from "./runWatcher.js";
+import { computePricing } from "./pricing.js";
+import { parseEventsTurns } from "./turns.js";
 
 const SSE_PING_INTERVAL_MS = 15_000;
 
-/** Walk attractor run dir for unanswered feedback_request_*.json (matches kilroy-dash semantics). */
-async function pendingFeedbackForAttractorRun(runDir: string): Promise<Record<string, unknown>[]> {
-  const pending: Record<string, unknown>[] = [];
-  const seen = new Set<string>();
-
-  async function walk(dir: string): Promise<void> {
-    let entries;
-    try {
-      entries = await readdir(dir, { withFileTypes: true });
-    } catch {
-      return;
-    }
-    for (const e of entries) {
-      const p = join(dir, e.name);
-      if (e.isDirectory()) {
-        await walk(p);
-        continue;
-      }
-      if (
-        !e.isFile() ||
-        !e.name.startsWith("feedback_request_") ||
-        !e.name.endsWith(".json") ||
-        e.name.endsWith(".done.json")
-      ) {
-        continue;
-      }
-      const stage = e.name.slice("feedback_request_".length, -".json".length);
-      if (seen.has(stage)) continue;
-
-      const respName = `feedback_response_${stage}.json`;
-      let responded = false;
-      try {
-        await stat(join(dir, respName));
-        responded = true;
-      } catch {
-        /* same dir */
-      }
-      if (!responded) {
-        try {
-          await stat(join(runDir, respName));
-          responded = true;
-        } catch {
-          /* top-level */
-        }
-      }
-      if (responded) {
-        seen.add(stage);
-        continue;
-      }
-
-      try {
-        const raw = await readFile(p, "utf8");
-        const req = JSON.parse(raw) as Record<string, unknown>;
-        if (req["stage"] == null || req["stage"] === "") req["stage"] = stage;
-        pending.push(req);
-        seen.add(stage);
-      } catch {
-        /* skip malformed */
-      }
+/** Validate a progress-webhook subscribe body. Returns an error message on invalid input. */
+function parseProgressWebhookBody(rawBody: unknown): ProgressWebhookSubscriptionInput | string {
+  const body = (rawBody ?? {}) as Record<string, unknown>;
+  const webhookUrl = String(body.webhook_url ?? "").trim();
+  const authToken = String(body.auth_token ?? "").trim();
+  const signingSecret = String(body.signing_secret ?? "").trim();
+  const threadId = String(body.thread_id ?? "").trim();
+  const dashboardRunId = String(body.dashboard_run_id ?? "").trim();
+  if (!webhookUrl) return "webhook_url required";
+  try {
+    const parsed = new URL(webhookUrl);
+    if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+      return "webhook_url must be http or https";
     }
+  } catch {
+    return "invalid webhook_url";
   }
-
-  await walk(runDir);
-  return pending;
-}
-
-async function findFeedbackRequestFilePath(runDir: string, stage: string): Promise<string | null> {
-  const target = `feedback_request_${stage}.json`;
-  let found: string | null = null;
-  async function walk(dir: string): Promise<void> {
-    if (found) return;
-    let entries;
-    try {
-      entries = await readdir(dir, { withFileTypes: true });
-    } catch {
-      return;
-    }
-    for (const e of entries) {
-      const p = join(dir, e.name);
-      if (e.isDirectory()) {
-        await walk(p);
-      } else if (e.isFile() && e.name === target) {
-        found = p;
-        return;
-      }
-    }
+  if (signingSecret && signingSecret.length < 16) {
+    return "signing_secret must be at least 16 characters";
   }
-  await walk(runDir);
-  return found;
+  // Optional { events: [...], nodes: [...] }; omitted = every progress change.
+  const filter = parseProgressWebhookFilter(body.filter);
+  if (typeof filter === "string") return filter;
+  return { webhookUrl, authToken, signingSecret, threadId, dashboardRunId, filter };
 }
 
 export function registerRoutes(
@@ -103,9 +50,10 @@ export function registerRoutes(
     runsDirs: string[];
     distDir: string;
     watcher: RunWatcher;
+    audit: AuditLog;
   }
 ) {
-  const { runsDirs, distDir, watcher } = opts;
+  const { runsDirs, distDir, watcher, audit } = opts;
 
   type RunSummaryRow = {
     id: string;
@@ -125,23 +73,8 @@ export function registerRoutes(
   });
 
   /** Collect all run IDs across all configured runsDirs, deduped, newest-first. */
-  async function listAllRunIds(): Promise<{ id: string; runsDir: string }[]> {
-    const seen = new Set<string>();
-    const results: { id: string; runsDir: string }[] = [];
-    for (const dir of runsDirs) {
-      try {
-        const entries = await readdir(dir, { withFileTypes: true });
-        for (const e of entries) {
-          if (e.isDirectory() && !seen.has(e.name)) {
-            seen.add(e.name);
-            results.push({ id: e.name, runsDir: dir });
-          }
-        }
-      } catch { /* dir may not exist */ }
-    }
-    // Sort by ULID (lexicographic = chronological), newest first
-    results.sort((a, b) => b.id.localeCompare(a.id));
-    return results;
+  function listAllRunIds(): Promise<{ id: string; runsDir: string }[]> {
+    return watcher.listRuns();
   }
 
   function summarizeKilroyRunState(runs: RunSummaryRow[]): {
@@ -330,10 +263,10 @@ export function registerRoutes(
   // Submit feedback (kilroy-dash POST /api/runs/:dashId/feedback proxy target for embedded runs).
   app.post("/api/runs/:id/feedback-respond", async (req: Request, res: Response) => {
     const id = String(req.params["id"] ?? "");
-    const stage = String((req.body as { stage?: string })?.stage ?? "");
-    const responseText = String((req.body as { response?: string })?.response ?? "");
-    if (!stage || !responseText) {
-      res.status(400).json({ error: "stage and response required" });
+    const body = (req.body ?? {}) as Record<string, unknown>;
+    const stage = String(body["stage"] ?? "");
+    if (!stage) {
+      res.status(400).json({ error: "stage required" });
       return;
     }
     const runDir = await watcher.findRunDir(id);
@@ -341,24 +274,36 @@ export function registerRoutes(
       res.status(404).json({ error: "run not found" });
       return;
     }
+    const actor = requestActor(req, res);
     const reqPath = await findFeedbackRequestFilePath(runDir, stage);
     if (!reqPath) {
+      void audit.record(actor, {
+        action: "feedback.respond", run_id: id, payload: req.body, result: "error",
+        detail: { stage, error: "no pending feedback for stage" },
+      });
       res.status(400).json({ error: "no pending feedback for stage" });
       return;
     }
-    const reqDir = dirname(reqPath);
-    const respPath = join(reqDir, `feedback_response_${stage}.json`);
-    const payload = {
-      response: responseText,
-      timestamp: new Date().toISOString(),
-    };
-    await writeFile(respPath, JSON.stringify(payload), "utf8");
-    const donePath = join(reqDir, `feedback_request_${stage}.done.json`);
+    let request: Record<string, unknown> = {};
     try {
-      await rename(reqPath, donePath);
+      request = JSON.parse(await readFile(reqPath, "utf8")) as Record<string, unknown>;
     } catch {
-      /* best-effort */
+      /* unreadable request: accept free text, as before */
+    }
+    const payload = buildFeedbackResponse(request, body);
+    if ("error" in payload) {
+      void audit.record(actor, {
+        action: "feedback.respond", run_id: id, payload: req.body, result: "error",
+        detail: { stage, error: payload.error },
+      });
+      res.status(400).json(payload);
+      return;
     }
+    const { responsePath, renamed } = await writeFeedbackResponse(reqPath, stage, payload);
+    void audit.record(actor, {
+      action: "feedback.respond", run_id: id, payload: req.body, result: "ok",
+      detail: { stage, choice: payload.choice, response_file: responsePath, request_renamed: renamed },
+    });
     res.json({ status: "ok" });
   });
 
@@ -375,38 +320,46 @@ export function registerRoutes(
 
   app.post("/api/runs/:id/progress-webhooks", async (req: Request, res: Response) => {
     const id = String(req.params["id"] ?? "");
-    const webhookUrl = String((req.body as { webhook_url?: string })?.webhook_url ?? "").trim();
-    const authToken = String((req.body as { auth_token?: string })?.auth_token ?? "").trim();
-    const threadId = String((req.body as { thread_id?: string })?.thread_id ?? "").trim();
-    const dashboardRunId = String((req.body as { dashboard_run_id?: string })?.dashboard_run_id ?? "").trim();
-    if (!webhookUrl) {
-      res.status(400).json({ error: "webhook_url required" });
+    const input = parseProgressWebhookBody(req.body);
+    if (typeof input === "string") {
+      res.status(400).json({ error: input });
       return;
     }
-    try {
-      const parsed = new URL(webhookUrl);
-      if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
-        res.status(400).json({ error: "webhook_url must be http or https" });
-        return;
-      }
-    } catch {
-      res.status(400).json({ error: "invalid webhook_url" });
-      return;
-    }
-
-    const subscription = await watcher.subscribeProgressWebhook(id, {
-      webhookUrl,
-      authToken,
-      threadId,
-      dashboardRunId,
-    });
+    const subscription = await watcher.subscribeProgressWebhook(id, input);
     if (!subscription) {
       res.status(404).json({ error: "run not found" });
       return;
     }
+    // No payload digest: the body carries the webhook's credentials.
+    void audit.record(requestActor(req, res), {
+      action: "webhook.subscribe", run_id: id, result: "ok",
+      detail: { subscription_id: subscription.id, events: input.filter?.events ?? null },
+    });
     res.status(201).json({ subscription });
   });
 
+  // Re-queue dead-lettered deliveries. Body: { delivery_ids?: string[] } — omit to replay all.
+  app.post("/api/runs/:id/progress-webhooks/:subscriptionId/replay", async (req: Request, res: Response) => {
+    const id = String(req.params["id"] ?? "");
+    const subscriptionId = String(req.params["subscriptionId"] ?? "");
+    const rawIds = (req.body as { delivery_ids?: unknown })?.delivery_ids;
+    if (rawIds !== undefined && !Array.isArray(rawIds)) {
+      res.status(400).json({ error: "delivery_ids must be an array" });
+      return;
+    }
+    const deliveryIds = Array.isArray(rawIds) ? rawIds.map(String) : undefined;
+    const replayed = watcher.replayProgressWebhook(id, subscriptionId, deliveryIds);
+    if (!replayed) {
+      res.status(404).json({ error: "subscription not found" });
+      return;
+    }
+    void audit.record(requestActor(req, res), {
+      action: "webhook.replay", run_id: id, payload: req.body, result: "ok",
+      detail: { subscription_id: subscriptionId, replayed: replayed.length },
+    });
+    res.json({ replayed: replayed.map((d) => d.id) });
+  });
+
   app.delete("/api/runs/:id/progress-webhooks/:subscriptionId", async (req: Request, res: Response) => {
     const id = String(req.params["id"] ?? "");
     const subscriptionId = String(req.params["subscriptionId"] ?? "");
@@ -415,12 +368,86 @@ export function registerRoutes(
       res.status(404).json({ error: "subscription not found" });
       return;
     }
+    void audit.record(requestActor(req, res), {
+      action: "webhook.unsubscribe", run_id: id, result: "ok", detail: { subscription_id: subscriptionId },
+    });
     res.json({ ok: true });
   });
 
-  // SSE stream for live run state updates
+  // Global (all-runs) progress webhooks — fire for every run under runsDirs, including future ones.
+  app.get("/api/progress-webhooks", (_req: Request, res: Response) => {
+    res.json({ subscriptions: watcher.listProgressWebhooks(GLOBAL_WEBHOOK_RUN_ID) });
+  });
+
+  app.post("/api/progress-webhooks", async (req: Request, res: Response) => {
+    const input = parseProgressWebhookBody(req.body);
+    if (typeof input === "string") {
+      res.status(400).json({ error: input });
+      return;
+    }
+    if (input.dashboardRunId) {
+      res.status(400).json({ error: "dashboard_run_id is not supported for global subscriptions" });
+      return;
+    }
+    const subscription = await watcher.subscribeGlobalProgressWebhook(input);
+    void audit.record(requestActor(req, res), {
+      action: "webhook.subscribe", result: "ok",
+      detail: { subscription_id: subscription.id, global: true, events: input.filter?.events ?? null },
+    });
+    res.status(201).json({ subscription });
+  });
+
+  app.post("/api/progress-webhooks/:subscriptionId/replay", (req: Request, res: Response) => {
+    const subscriptionId = String(req.params["subscriptionId"] ?? "");
+    const rawIds = (req.body as { delivery_ids?: unknown })?.delivery_ids;
+    if (rawIds !== undefined && !Array.isArray(rawIds)) {
+      res.status(400).json({ error: "delivery_ids must be an array" });
+      return;
+    }
+    const deliveryIds = Array.isArray(rawIds) ? rawIds.map(String) : undefined;
+    const replayed = watcher.replayProgressWebhook(GLOBAL_WEBHOOK_RUN_ID, subscriptionId, deliveryIds);
+    if (!replayed) {
+      res.status(404).json({ error: "subscription not found" });
+      return;
+    }
+    void audit.record(requestActor(req, res), {
+      action: "webhook.replay", payload: req.body, result: "ok",
+      detail: { subscription_id: subscriptionId, global: true, replayed: replayed.length },
+    });
+    res.json({ replayed: replayed.map((d) => d.id) });
+  });
+
+  app.delete("/api/progress-webhooks/:subscriptionId", (req: Request, res: Response) => {
+    const subscriptionId = String(req.params["subscriptionId"] ?? "");
+    if (!watcher.unsubscribeProgressWebhook(GLOBAL_WEBHOOK_RUN_ID, subscriptionId)) {
+      res.status(404).json({ error: "subscription not found" });
+      return;
+    }
+    void audit.record(requestActor(req, res), {
+      action: "webhook.unsubscribe", result: "ok", detail: { subscription_id: subscriptionId, global: true },
+    });
+    res.json({ ok: true });
+  });
+
+  // Shared per-run patch log for delta streams — lets a reconnect resume.
+  const eventLog = new RunEventLog();
+  watcher.on("update", (runId: string, state: RunState) => {
+    eventLog.record(runId, state);
+  });
+
+  // SSE stream for live run state updates.
+  // ?delta=1 sends { type: "snapshot", state } once, then { type: "patch", ... }
+  // (see runStateDelta.ts); without it every message is a full RunState.
+  // Every message carries an id. A delta client reconnecting with Last-Event-ID
+  // (header, or ?last_event_id= since EventSource cannot set headers on a new
+  // connection) gets only the patches it missed when they are still buffered.
+  // Pending feedback goes out as a separate `event: feedback` (the same list as
+  // GET /api/runs/:id/feedback) on connect and whenever it changes; it has no
+  // id, so it does not move the client's Last-Event-ID.
   app.get("/api/runs/:id/events", async (req: Request, res: Response) => {
     const id = String(req.params["id"] ?? "");
+    const delta = req.query["delta"] === "1";
+    const lastEventId = String(req.get("Last-Event-ID") ?? req.query["last_event_id"] ?? "").trim();
 
     // Set SSE headers
     res.setHeader("Content-Type", "text/event-stream");
@@ -429,23 +456,58 @@ export function registerRoutes(
     res.setHeader("X-Accel-Buffering", "no");
     res.flushHeaders();
 
+    const send = (eventId: string, data: unknown) => {
+      res.write(`id: ${eventId}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    eventLog.retain(id);
     // Ensure watcher is active for this run
     const initialState = await watcher.watch(id);
+    // After a watcher teardown the re-read state may differ from the buffered
+    // one — recording it yields the catch-up patch for resuming clients.
+    if (initialState) eventLog.record(id, initialState);
 
-    // Send initial snapshot
-    if (initialState) {
-      res.write(`data: ${JSON.stringify(initialState)}\n\n`);
-    } else {
+    const snapshot = eventLog.snapshot(id);
+    const missed = delta && lastEventId ? eventLog.since(id, lastEventId) : null;
+    if (!snapshot) {
       res.write(`data: ${JSON.stringify({ error: "run not found" })}\n\n`);
+    } else if (missed) {
+      for (const ev of missed) send(ev.id, ev.patch);
+    } else {
+      send(snapshot.id, delta ? { type: "snapshot", state: snapshot.state } : snapshot.state);
     }
 
     // Subscribe to updates
-    const onUpdate = (runId: string, state: unknown) => {
+    const onEvent = (runId: string, ev: RunEvent) => {
       if (runId !== id) return;
-      res.write(`data: ${JSON.stringify(state)}\n\n`);
+      send(ev.id, delta ? ev.patch : eventLog.snapshot(id)?.state);
     };
 
-    watcher.on("update", onUpdate);
+    eventLog.on("event", onEvent);
+
+    // The watcher reports feedback_request_* changes even when the RunState is unchanged.
+    let closed = false;
+    let lastFeedback = "";
+    const sendFeedback = async () => {
+      const runDir = await watcher.findRunDir(id);
+      const pending = runDir ? await pendingFeedbackForAttractorRun(runDir) : [];
+      const json = JSON.stringify(pending);
+      if (closed || json === lastFeedback) return;
+      lastFeedback = json;
+      res.write(`event: feedback\ndata: ${json}\n\n`);
+    };
+    // Chained so an older list never lands after a newer one.
+    let feedbackSent: Promise<void> = Promise.resolve();
+    const queueFeedback = () => {
+      feedbackSent = feedbackSent.then(sendFeedback).catch(() => { /* next update retries */ });
+    };
+    const onUpdate = (runId: string) => {
+      if (runId === id) queueFeedback();
+    };
+    if (snapshot) {
+      watcher.on("update", onUpdate);
+      queueFeedback();
+    }
 
     // Keepalive ping
     const ping = setInterval(() => {
@@ -454,8 +516,11 @@ export function registerRoutes(
 
     // Cleanup on disconnect — tear down watcher when last SSE client leaves
     req.on("close", () => {
+      closed = true;
       clearInterval(ping);
       watcher.off("update", onUpdate);
+      eventLog.off("event", onEvent);
+      eventLog.release(id);
       watcher.sseDisconnect(id);
     });
   });
@@ -793,6 +858,10 @@ export function registerRoutes(
       process.platform === "darwin" ? ["open",     [worktreePath]] :
                                       ["xdg-open", [worktreePath]];
     execFile(cmd, args, (err) => {
+      void audit.record(requestActor(req, res), {
+        action: "workspace.reveal", run_id: id, result: err ? "error" : "ok",
+        detail: { path: worktreePath, ...(err ? { error: String(err) } : {}) },
+      });
       if (err) { res.status(500).json({ error: String(err) }); return; }
       res.json({ ok: true });
     });
@@ -819,360 +888,19 @@ export function registerRoutes(
     res.sendFile(join(distDir, "index.html"));
   });
 
-  app.get("/", (_req: Request, res: Response) => {
+  app.get("/compare/*", (_req: Request, res: Response) => {
     res.sendFile(join(distDir, "index.html"));
   });
-}
-
-// ── Turn parsing ────────────────────────────────────────────────────────────
-
-interface ToolCallRecord {
-  call_id: string;
-  tool_name: string;
-  arguments: unknown;
-  output: string;
-  is_error: boolean;
-}
-
-interface AssistantStep {
-  text?: string;
-  thinking?: string;
-  tool_call?: ToolCallRecord;
-}
-
-interface TurnUser {
-  role: "user";
-  text: string;
-}
-
-interface TurnAssistant {
-  role: "assistant";
-  steps: AssistantStep[];
-}
-
-interface PricingEstimate {
-  model_id: string;
-  estimated_input_tokens: number;
-  estimated_output_tokens: number;
-  estimated_cost_usd: number | null;
-  prompt_price_per_token: number | null;
-  completion_price_per_token: number | null;
-}
-
-interface TurnsResponse {
-  session_id?: string;
-  model?: string;
-  profile?: string;
-  turns: (TurnUser | TurnAssistant)[];
-  pricing?: PricingEstimate;
-  response_text?: string;
-}
-
-function parseEventsTurns(raw: string): TurnsResponse {
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const events: any[] = [];
-  for (const line of raw.split("\n")) {
-    const l = line.trim();
-    if (!l) continue;
-    try { events.push(JSON.parse(l)); } catch { /* skip malformed */ }
-  }
-
-  // Fingerprint by first event:
-  //   Kilroy format   → { kind: "SESSION_START", ... }
-  //   Claude Code     → { type: "system", ... }
-  //   Codex           → { type: "thread.started", ... }
-  const firstEv = events[0];
-  if (firstEv?.kind) return parseKilroyEvents(events);
-  if (firstEv?.type === "thread.started") return parseCodexEvents(events);
-  return parseClaudeCodeEvents(events);
-}
-
-// ── Kilroy format parser (kind: SESSION_START / USER_INPUT / TOOL_CALL_* / ASSISTANT_TEXT_END)
-
-function parseKilroyEvents(
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  events: any[],
-): TurnsResponse {
-  let session_id: string | undefined;
-  let model: string | undefined;
-  let profile: string | undefined;
-
-  const turns: (TurnUser | TurnAssistant)[] = [];
-  const assistantSteps: AssistantStep[] = [];
-  const pendingCalls = new Map<string, { tool_name: string; arguments: unknown }>();
-
-  const flushAssistant = () => {
-    if (assistantSteps.length > 0) {
-      turns.push({ role: "assistant", steps: [...assistantSteps] });
-      assistantSteps.length = 0;
-    }
-  };
-
-  for (const ev of events) {
-    const d = ev.data ?? {};
-    switch (ev.kind) {
-      case "SESSION_START":
-        session_id = ev.session_id;
-        model = String(d.model ?? "");
-        profile = String(d.profile ?? "");
-        break;
-      case "USER_INPUT":
-        flushAssistant();
-        turns.push({ role: "user", text: String(d.text ?? "") });
-        break;
-      case "TOOL_CALL_START": {
-        let args: unknown;
-        try { args = JSON.parse(String(d.arguments_json ?? "{}")); } catch { args = d.arguments_json; }
-        pendingCalls.set(String(d.call_id), { tool_name: String(d.tool_name ?? ""), arguments: args });
-        break;
-      }
-      case "TOOL_CALL_END": {
-        const callId = String(d.call_id ?? "");
-        const pending = pendingCalls.get(callId);
-        if (pending) {
-          assistantSteps.push({
-            tool_call: {
-              call_id: callId,
-              tool_name: String(d.tool_name ?? pending.tool_name),
-              arguments: pending.arguments,
-              output: String(d.full_output ?? ""),
-              is_error: Boolean(d.is_error),
-            },
-          });
-          pendingCalls.delete(callId);
-        }
-        break;
-      }
-      case "ASSISTANT_TEXT_END": {
-        const text = String(d.text ?? "");
-        if (text) assistantSteps.push({ text });
-        break;
-      }
-    }
-  }
-
-  flushAssistant();
-  return { session_id, model: model || undefined, profile: profile || undefined, turns };
-}
-
-// ── Claude Code native format parser (type: system / assistant / user / result)
-// Each assistant event has a message.id — events with the same id belong to one turn.
-// Content blocks: thinking, text, tool_use. Tool results arrive in subsequent user events.
-
-function parseClaudeCodeEvents(
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  events: any[],
-): TurnsResponse {
-  let session_id: string | undefined;
-  let model: string | undefined;
-  let response_text: string | undefined;
-
-  const turns: (TurnUser | TurnAssistant)[] = [];
-  let currentMsgId: string | undefined;
-  const currentSteps: AssistantStep[] = [];
-
-  const flushAssistant = () => {
-    if (currentSteps.length > 0) {
-      turns.push({ role: "assistant", steps: [...currentSteps] });
-      currentSteps.length = 0;
-    }
-    currentMsgId = undefined;
-  };
-
-  for (const ev of events) {
-    const evType = ev.type;
-
-    if (evType === "system") {
-      session_id = ev.session_id;
-      model = ev.model;
-    } else if (evType === "assistant") {
-      const msg = ev.message;
-      const msgId: string | undefined = msg?.id;
-      if (!msgId) continue;
-
-      if (currentMsgId && currentMsgId !== msgId) {
-        flushAssistant();
-      }
-      currentMsgId = msgId;
-
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      for (const block of (msg.content ?? []) as any[]) {
-        if (block.type === "thinking" && block.thinking) {
-          currentSteps.push({ thinking: String(block.thinking) });
-        } else if (block.type === "text" && block.text) {
-          currentSteps.push({ text: String(block.text) });
-        } else if (block.type === "tool_use") {
-          currentSteps.push({
-            tool_call: {
-              call_id: String(block.id ?? ""),
-              tool_name: String(block.name ?? ""),
-              arguments: (block.input ?? {}) as Record<string, unknown>,
-              output: "",
-              is_error: false,
-            },
-          });
-        }
-      }
-    } else if (evType === "user") {
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      for (const block of (ev.message?.content ?? []) as any[]) {
-        if (block.type === "tool_result") {
-          const toolId = String(block.tool_use_id ?? "");
-          const step = currentSteps.find((s) => s.tool_call?.call_id === toolId);
-          if (step?.tool_call) {
-            const raw = block.content;
-            step.tool_call.output = typeof raw === "string"
-              ? raw
-              // eslint-disable-next-line @typescript-eslint/no-explicit-any
-              : Array.isArray(raw) ? (raw as any[]).map((c) => (typeof c === "string" ? c : (c.text ?? JSON.stringify(c)))).join("") : JSON.stringify(raw);
-            step.tool_call.is_error = Boolean(block.is_error);
-          }
-        }
-      }
-    } else if (evType === "result" && ev.result) {
-      response_text = String(ev.result);
-    }
-  }
-
-  flushAssistant();
-  return { session_id, model: model || undefined, turns, response_text };
-}
 
-// ── Codex format parser (type: thread.started / item.started / item.completed / turn.*)
-// Items: reasoning (thinking), command_execution (shell), file_change, agent_message (final text)
-
-function parseCodexEvents(
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  events: any[],
-): TurnsResponse {
-  const steps: AssistantStep[] = [];
-  let response_text: string | undefined;
-
-  for (const ev of events) {
-    if (ev.type !== "item.completed") continue;
-    const item = ev.item;
-    if (!item) continue;
-
-    switch (item.type) {
-      case "reasoning":
-        if (item.text) steps.push({ thinking: String(item.text) });
-        break;
-      case "command_execution":
-        steps.push({
-          tool_call: {
-            call_id: String(item.id ?? ""),
-            tool_name: "command_execution",
-            arguments: { command: String(item.command ?? "") },
-            output: String(item.aggregated_output ?? ""),
-            is_error: typeof item.exit_code === "number" && item.exit_code !== 0,
-          },
-        });
-        break;
-      case "file_change": {
-        const changes: Array<{ path?: string; kind?: string }> =
-          Array.isArray(item.changes) ? item.changes : [];
-        const changesText = changes.map((c) => `${c.kind ?? "?"}: ${c.path ?? ""}`).join("\n");
-        steps.push({
-          tool_call: {
-            call_id: String(item.id ?? ""),
-            tool_name: "file_change",
-            arguments: { changes },
-            output: changesText,
-            is_error: false,
-          },
-        });
-        break;
-      }
-      case "agent_message": {
-        // agent_message.text may be JSON: { final: "...", summary: "..." }
-        let text = String(item.text ?? "");
-        try {
-          const parsed = JSON.parse(text) as Record<string, unknown>;
-          if (typeof parsed.final === "string") text = parsed.final;
-        } catch { /* plain text */ }
-        response_text = text;
-        if (text) steps.push({ text });
-        break;
-      }
-    }
-  }
-
-  return {
-    turns: steps.length > 0 ? [{ role: "assistant", steps }] : [],
-    response_text,
-  };
-}
-
-async function computePricing(
-  runDir: string,
-  node: string,
-  turnsData: TurnsResponse,
-): Promise<PricingEstimate | undefined> {
-  try {
-    // Model from events or provider_used.json
-    let modelId = turnsData.model ?? "";
-    const profile = turnsData.profile ?? "";
-    try {
-      const pvRaw = await readFile(join(runDir, node, "provider_used.json"), "utf8");
-      const pv = JSON.parse(pvRaw) as Record<string, unknown>;
-      if (pv.model) modelId = String(pv.model);
-    } catch { /* ok */ }
-
-    if (!modelId) return undefined;
-
-    // Estimate token counts from text lengths
-    let inputChars = 0;
-    let outputChars = 0;
-    for (const turn of turnsData.turns) {
-      if (turn.role === "user") {
-        inputChars += turn.text.length;
-      } else {
-        for (const step of turn.steps) {
-          if (step.text) outputChars += step.text.length;
-          // Tool outputs feed back as input context (rough estimate)
-          if (step.tool_call) inputChars += step.tool_call.output.length * 0.5;
-        }
-      }
-    }
-    const estimatedInputTokens = Math.round(inputChars / 4);
-    const estimatedOutputTokens = Math.round(outputChars / 4);
-
-    // Look up pricing from modeldb
-    const lookupKey = profile ? `${profile}/${modelId}` : modelId;
-    let promptPrice: number | null = null;
-    let completionPrice: number | null = null;
-    try {
-      const manifestRaw = await readFile(join(runDir, "manifest.json"), "utf8");
-      const manifest = JSON.parse(manifestRaw) as Record<string, unknown>;
-      const modeldbObj = manifest.modeldb as Record<string, unknown> | undefined;
-      const modelInfoPath = modeldbObj?.openrouter_model_info_path as string | undefined;
-      if (modelInfoPath) {
-        const modeldbRaw = await readFile(modelInfoPath, "utf8");
-        const modeldb = JSON.parse(modeldbRaw) as { data?: Array<{ id: string; pricing?: Record<string, string> }> };
-        const entry = modeldb.data?.find(
-          (m) => m.id === lookupKey || m.id.endsWith(`/${modelId}`) || m.id === modelId
-        );
-        if (entry?.pricing) {
-          promptPrice = entry.pricing.prompt ? parseFloat(entry.pricing.prompt) : null;
-          completionPrice = entry.pricing.completion ? parseFloat(entry.pricing.completion) : null;
-        }
-      }
-    } catch { /* modeldb not available */ }
+  app.get("/search", (_req: Request, res: Response) => {
+    res.sendFile(join(distDir, "index.html"));
+  });
 
-    const estimatedCost =
-      promptPrice !== null && completionPrice !== null
-        ? estimatedInputTokens * promptPrice + estimatedOutputTokens * completionPrice
-        : null;
+  app.get("/feedback", (_req: Request, res: Response) => {
+    res.sendFile(join(distDir, "index.html"));
+  });
 
-    return {
-      model_id: lookupKey,
-      estimated_input_tokens: estimatedInputTokens,
-      estimated_output_tokens: estimatedOutputTokens,
-      estimated_cost_usd: estimatedCost,
-      prompt_price_per_token: promptPrice,
-      completion_price_per_token: completionPrice,
-    };
-  } catch {
-    return undefined;
-  }
+  app.get("/", (_req: Request, res: Response) => {
+    res.sendFile(join(distDir, "index.html"));
+  });
 }
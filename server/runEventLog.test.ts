@@ -0,0 +1,56 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { RunEventLog } from "./runEventLog.js";
+import type { RunState } from "./runWatcher.js";
+
+function makeState(node: string): RunState {
+  return {
+    run: { id: "run-1", status: "executing", current_node: node },
+    containerAlive: true,
+    computedStatus: "executing",
+    lastChecked: "2026-03-20T00:00:00Z",
+    format: "attractor",
+  };
+}
+
+test("a client resumes with only the patches after its last id", () => {
+  const log = new RunEventLog();
+  log.retain("run-1");
+  log.record("run-1", makeState("plan"));
+  const start = log.snapshot("run-1")!;
+
+  log.record("run-1", makeState("implement"));
+  log.record("run-1", makeState("review"));
+
+  const missed = log.since("run-1", start.id);
+  assert.deepEqual(missed?.map((e) => e.patch.set?.run?.current_node), ["implement", "review"]);
+  assert.deepEqual(log.since("run-1", missed![1].id), []);
+  log.release("run-1");
+});
+
+test("evicted, future and foreign ids fall back to a snapshot", () => {
+  const log = new RunEventLog({ capacity: 2 });
+  log.retain("run-1");
+  log.record("run-1", makeState("a"));
+  const start = log.snapshot("run-1")!;
+  for (const node of ["b", "c", "d"]) log.record("run-1", makeState(node));
+
+  assert.equal(log.since("run-1", start.id), null);
+  assert.equal(log.since("run-1", start.id.replace(/:\d+$/, ":99")), null);
+  assert.equal(log.since("run-1", "0:1"), null);
+  assert.equal(log.since("run-1", "garbage"), null);
+  log.release("run-1");
+});
+
+test("unchanged states do not consume ids and unretained runs are ignored", () => {
+  const log = new RunEventLog();
+  assert.equal(log.record("run-2", makeState("a")), null);
+  assert.equal(log.snapshot("run-2"), null);
+
+  log.retain("run-1");
+  log.record("run-1", makeState("a"));
+  const before = log.snapshot("run-1")!.id;
+  assert.equal(log.record("run-1", { ...makeState("a"), lastChecked: "2026-03-20T00:00:09Z" }), null);
+  assert.equal(log.snapshot("run-1")!.id, before);
+  log.release("run-1");
+});
@@ -0,0 +1,115 @@
+import { EventEmitter } from "node:events";
+import { diffRunState, type RunStatePatch } from "./runStateDelta.js";
+import type { RunState } from "./runWatcher.js";
+
+/** One delta-stream message; `id` goes out as the SSE `id:` field. */
+export interface RunEvent {
+  id: string;
+  patch: RunStatePatch;
+}
+
+interface RunLog {
+  seq: number;
+  state: RunState | null;
+  /** Ring buffer — oldest first, at most `capacity` entries. */
+  events: { seq: number; patch: RunStatePatch }[];
+  refs: number;
+  expiry: ReturnType<typeof setTimeout> | null;
+}
+
+const DEFAULT_CAPACITY = 200;
+/** Keep a run's buffer this long after its last SSE client leaves, so a reconnect can resume. */
+const DEFAULT_RETENTION_MS = 5 * 60_000;
+
+/**
+ * Per-run sequence of RunState patches shared by every delta SSE client of a
+ * run. Ids are `<epoch>:<seq>`; the epoch changes on server restart so a
+ * stale Last-Event-ID falls back to a snapshot instead of matching by accident.
+ *
+ * Emits "event" (runId, RunEvent) for each recorded patch.
+ */
+export class RunEventLog extends EventEmitter {
+  private readonly epoch = Date.now().toString(36);
+  private readonly runs = new Map<string, RunLog>();
+  private readonly capacity: number;
+  private readonly retentionMs: number;
+
+  constructor(opts: { capacity?: number; retentionMs?: number } = {}) {
+    super();
+    // One listener per open SSE connection.
+    this.setMaxListeners(0);
+    this.capacity = opts.capacity ?? DEFAULT_CAPACITY;
+    this.retentionMs = opts.retentionMs ?? DEFAULT_RETENTION_MS;
+  }
+
+  retain(runId: string) {
+    let log = this.runs.get(runId);
+    if (!log) {
+      log = { seq: 0, state: null, events: [], refs: 0, expiry: null };
+      this.runs.set(runId, log);
+    }
+    log.refs++;
+    if (log.expiry) { clearTimeout(log.expiry); log.expiry = null; }
+  }
+
+  release(runId: string) {
+    const log = this.runs.get(runId);
+    if (!log) return;
+    log.refs = Math.max(0, log.refs - 1);
+    if (log.refs > 0 || log.expiry) return;
+    log.expiry = setTimeout(() => {
+      if (this.runs.get(runId) === log && log.refs === 0) this.runs.delete(runId);
+    }, this.retentionMs);
+    log.expiry.unref?.();
+  }
+
+  /**
+   * Fold a new state into the run's log. The first state only seeds the
+   * baseline. Runs nobody has retained are ignored.
+   */
+  record(runId: string, state: RunState): RunEvent | null {
+    const log = this.runs.get(runId);
+    if (!log) return null;
+    const prev = log.state;
+    log.state = state;
+    if (!prev) return null;
+    const patch = diffRunState(prev, state);
+    if (!patch) return null;
+
+    log.seq++;
+    log.events.push({ seq: log.seq, patch });
+    if (log.events.length > this.capacity) log.events.splice(0, log.events.length - this.capacity);
+    const event = { id: this.formatId(log.seq), patch };
+    this.emit("event", runId, event);
+    return event;
+  }
+
+  /** Current state and the id it corresponds to — what a fresh client starts from. */
+  snapshot(runId: string): { id: string; state: RunState } | null {
+    const log = this.runs.get(runId);
+    if (!log?.state) return null;
+    return { id: this.formatId(log.seq), state: log.state };
+  }
+
+  /**
+   * Events after `lastEventId`, or null when the client cannot resume (unknown
+   * epoch, id from the future, or already evicted from the buffer).
+   */
+  since(runId: string, lastEventId: string): RunEvent[] | null {
+    const log = this.runs.get(runId);
+    if (!log?.state) return null;
+    const [epoch, rawSeq] = lastEventId.split(":");
+    const seq = Number(rawSeq);
+    if (epoch !== this.epoch || !Number.isInteger(seq) || seq < 0 || seq > log.seq) return null;
+    if (seq === log.seq) return [];
+    const oldest = log.events[0]?.seq ?? log.seq + 1;
+    if (seq + 1 < oldest) return null;
+    return log.events
+      .filter((e) => e.seq > seq)
+      .map((e) => ({ id: this.formatId(e.seq), patch: e.patch }));
+  }
+
+  private formatId(seq: number): string {
+    return `${this.epoch}:${seq}`;
+  }
+}
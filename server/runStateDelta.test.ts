@@ -0,0 +1,49 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { diffRunState } from "./runStateDelta.js";
+import type { RunState, VisitedStage } from "./runWatcher.js";
+
+function makeState(history: VisitedStage[], overrides: Partial<RunState> = {}): RunState {
+  return {
+    run: { id: "run-1", status: "executing" },
+    containerAlive: true,
+    computedStatus: "executing",
+    lastChecked: "2026-03-20T00:00:00Z",
+    dot: "digraph { a -> b }",
+    stageHistory: history,
+    format: "attractor",
+    ...overrides,
+  };
+}
+
+const plan: VisitedStage = { node_id: "plan", attempt: 1, status: "pass", started_at: "2026-03-20T00:00:00Z", finished_at: "2026-03-20T00:01:00Z" };
+const implRunning: VisitedStage = { node_id: "implement", attempt: 1, status: "running", started_at: "2026-03-20T00:01:00Z" };
+const implDone: VisitedStage = { ...implRunning, status: "pass", finished_at: "2026-03-20T00:05:00Z" };
+const review: VisitedStage = { node_id: "review", attempt: 1, status: "running", started_at: "2026-03-20T00:05:00Z" };
+
+test("finished tail and appended visit are sent from the first changed index", () => {
+  const patch = diffRunState(makeState([plan, implRunning]), makeState([plan, implDone, review]));
+  assert.deepEqual(patch?.history, { from: 1, entries: [implDone, review] });
+  assert.equal(patch?.dot, undefined);
+  assert.equal(patch?.set, undefined);
+});
+
+test("lastChecked-only changes produce no patch", () => {
+  const prev = makeState([plan]);
+  const next = makeState([plan], { lastChecked: "2026-03-20T00:00:05Z" });
+  assert.equal(diffRunState(prev, next), null);
+});
+
+test("changed and removed top-level fields go in set/unset; dot only when changed", () => {
+  const prev = makeState([plan], { worktreePath: "/tmp/wt" });
+  const next = makeState([plan], {
+    computedStatus: "failed",
+    run: { id: "run-1", status: "failed" },
+    dot: "digraph { a -> c }",
+  });
+  const patch = diffRunState(prev, next);
+  assert.deepEqual(patch?.set, { computedStatus: "failed", run: { id: "run-1", status: "failed" } });
+  assert.deepEqual(patch?.unset, ["worktreePath"]);
+  assert.equal(patch?.dot, "digraph { a -> c }");
+  assert.equal(patch?.history, undefined);
+});
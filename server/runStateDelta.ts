@@ -0,0 +1,61 @@
+import type { RunState, StageInfo, VisitedStage } from "./runWatcher.js";
+
+/**
+ * Incremental update for a RunState previously sent to the same client.
+ * Mirrors `RunStatePatch` in src/lib/types.ts — keep the two in sync.
+ *
+ *  - `set` / `unset`: top-level scalar and small-object fields (run, cycleInfo, …)
+ *  - `dot`:     only present when the DOT source changed
+ *  - `stages`:  full replacement, only when any stage changed (the list is small)
+ *  - `history`: replace stageHistory from index `from` onward with `entries`
+ *               (covers both appended visits and the in-flight tail finishing)
+ */
+export interface RunStatePatch {
+  type: "patch";
+  set?: Partial<Omit<RunState, "dot" | "stages" | "stageHistory">>;
+  unset?: string[];
+  dot?: string;
+  stages?: StageInfo[];
+  history?: { from: number; entries: VisitedStage[] };
+}
+
+const BULK_KEYS = new Set(["dot", "stages", "stageHistory"]);
+
+function same(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/** Returns null when nothing changed that the client would render. */
+export function diffRunState(prev: RunState, next: RunState): RunStatePatch | null {
+  const patch: RunStatePatch = { type: "patch" };
+  const prevRecord = prev as unknown as Record<string, unknown>;
+  const nextRecord = next as unknown as Record<string, unknown>;
+
+  const set: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(nextRecord)) {
+    if (BULK_KEYS.has(key) || value === undefined) continue;
+    if (!same(prevRecord[key], value)) set[key] = value;
+  }
+  const unset = Object.keys(prevRecord).filter(
+    (key) => !BULK_KEYS.has(key) && prevRecord[key] !== undefined && nextRecord[key] === undefined,
+  );
+  // lastChecked changes on every read; alone it is not worth a message.
+  const meaningful = Object.keys(set).some((key) => key !== "lastChecked") || unset.length > 0;
+
+  if (next.dot !== undefined && next.dot !== prev.dot) patch.dot = next.dot;
+  if (next.stages && !same(prev.stages, next.stages)) patch.stages = next.stages;
+
+  const prevHistory = prev.stageHistory ?? [];
+  const nextHistory = next.stageHistory ?? [];
+  let from = 0;
+  const common = Math.min(prevHistory.length, nextHistory.length);
+  while (from < common && same(prevHistory[from], nextHistory[from])) from++;
+  if (from < nextHistory.length || nextHistory.length < prevHistory.length) {
+    patch.history = { from, entries: nextHistory.slice(from) };
+  }
+
+  if (!meaningful && !patch.dot && !patch.stages && !patch.history) return null;
+  if (Object.keys(set).length > 0) patch.set = set as RunStatePatch["set"];
+  if (unset.length > 0) patch.unset = unset;
+  return patch;
+}
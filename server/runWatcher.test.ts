@@ -0,0 +1,210 @@
+import assert from "node:assert/strict";
+import { mkdtemp, mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import test from "node:test";
+import { RunWatcher } from "./runWatcher.js";
+
+const DOT = 'digraph release { graph [retry_target="plan"]; plan -> implement -> review; }';
+
+async function withRunsDir(fn: (root: string) => Promise<void>) {
+  const root = await mkdtemp(join(tmpdir(), "run-watcher-"));
+  try {
+    await fn(root);
+  } finally {
+    await rm(root, { recursive: true, force: true });
+  }
+}
+
+async function writeJson(path: string, value: unknown): Promise<void> {
+  await writeFile(path, JSON.stringify(value), "utf8");
+}
+
+function ndjson(events: Record<string, unknown>[]): string {
+  return events.map((e) => JSON.stringify(e)).join("\n") + "\n";
+}
+
+test("kilroy-dash runs get the graph, history and stages from run.json", async () => {
+  await withRunsDir(async (root) => {
+    const runDir = join(root, "dash1");
+    await mkdir(join(runDir, "graphs"), { recursive: true });
+    await writeFile(join(runDir, "graphs", "release.dot"), DOT);
+    await writeJson(join(runDir, "run.json"), {
+      id: "dash1",
+      status: "failed",
+      dot_file: "graphs/release.dot",
+      worktree: "/work/dash1",
+      params: { env: "staging", retries: 2, nested: { x: 1 } },
+      failure_reason: "review rejected",
+      stages: [
+        { node_id: "plan", status: "success", started_at: "2026-03-20T10:00:00Z", finished_at: "2026-03-20T10:01:30Z" },
+        { node: "implement", status: "error", start_time: "2026-03-20T10:01:30Z", ended_at: "2026-03-20T10:02:00Z", error: "tests failed" },
+        { node_id: "implement", attempt: 2, status: "pass", started_at: "2026-03-20T10:02:00Z", duration_s: 45 },
+        { node_id: "review", status: "running", started_at: "2026-03-20T10:03:00Z" },
+      ],
+      annotations: [
+        { id: "a1", kind: "review", title: "Review notes", node: "review" },
+        { title: "Coverage", node: "implement" },
+        { kind: "report" },
+      ],
+      notes: ["flaky CI"],
+      notifications: [{ level: "warn", message: "slow stage" }],
+    });
+
+    const watcher = new RunWatcher([root]);
+    const state = await watcher.readOnce("dash1");
+    watcher.close();
+
+    assert.ok(state);
+    assert.equal(state.format, "kilroy-dash");
+    assert.equal(state.computedStatus, "failed");
+    assert.equal(state.dot, DOT);
+    assert.equal(state.worktreePath, "/work/dash1");
+    assert.deepEqual(
+      state.stageHistory?.map((v) => [v.node_id, v.attempt, v.status, v.duration_s, v.failure_reason]),
+      [
+        ["plan", 1, "pass", 90, undefined],
+        ["implement", 1, "fail", 30, "tests failed"],
+        ["implement", 2, "pass", 45, undefined],
+        // Still "running" in run.json, but the run has failed.
+        ["review", 1, "interrupted", undefined, undefined],
+      ],
+    );
+    assert.deepEqual(state.stages?.map((s) => [s.node_id, s.status]), [
+      ["plan", "success"], ["implement", "pass"], ["review", "running"],
+    ]);
+    assert.deepEqual(state.run.completed_nodes, ["plan", "implement"]);
+    assert.deepEqual(state.run.params, { env: "staging", retries: "2" });
+    assert.deepEqual(state.run.annotations, [
+      { id: "a1", kind: "review", title: "Review notes", node: "review" },
+      { id: "1", kind: "report", title: "Coverage", node: "implement" },
+    ]);
+    assert.deepEqual(state.run.notes, ["flaky CI"]);
+    assert.deepEqual(state.run.notifications, [{ level: "warn", message: "slow stage" }]);
+    assert.equal("stages" in state.run, false);
+  });
+});
+
+test("kilroy-dash runs without stage records fall back to the attractor logs", async () => {
+  await withRunsDir(async (root) => {
+    const runDir = join(root, "dash2");
+    const logsRoot = join(runDir, "logs");
+    await mkdir(join(logsRoot, "plan"), { recursive: true });
+    await writeFile(join(runDir, "graph.dot"), DOT);
+    await writeJson(join(logsRoot, "plan", "status.json"), { status: "success" });
+    await writeFile(join(logsRoot, "progress.ndjson"), ndjson([
+      { ts: "2026-03-20T10:00:00Z", event: "stage_attempt_start", node_id: "plan" },
+      { ts: "2026-03-20T10:00:20Z", event: "stage_attempt_end", node_id: "plan", status: "success" },
+      { ts: "2026-03-20T10:00:21Z", event: "stage_attempt_start", node_id: "implement" },
+    ]));
+    await writeJson(join(runDir, "run.json"), {
+      id: "dash2", status: "pending", dot_file: "missing.dot", attractor_logs_root: logsRoot, completed_nodes: ["plan"],
+    });
+
+    const watcher = new RunWatcher([root]);
+    const state = await watcher.readOnce("dash2");
+    watcher.close();
+
+    assert.ok(state);
+    assert.equal(state.dot, DOT);
+    assert.deepEqual(
+      state.stageHistory?.map((v) => [v.node_id, v.status, v.stage_path]),
+      [["plan", "pass", "logs/plan"], ["implement", "running", "logs/implement"]],
+    );
+    assert.deepEqual(state.stages?.map((s) => [s.node_id, s.status]), [["plan", "success"]]);
+    assert.equal(state.run.current_node, "implement");
+  });
+});
+
+test("attractor runs read manifest, checkpoint, progress and final.json", async () => {
+  await withRunsDir(async (root) => {
+    const runDir = join(root, "att1");
+    await mkdir(join(runDir, "implement"), { recursive: true });
+    await writeFile(join(runDir, "graph.dot"), DOT);
+    await writeJson(join(runDir, "manifest.json"), {
+      goal: "ship it", graph_name: "release", repo_path: "/src/app", worktree: "/work/att1", params: { env: "prod" },
+    });
+    await writeJson(join(runDir, "checkpoint.json"), { current_node: "implement", completed_nodes: ["plan"] });
+    await writeJson(join(runDir, "implement", "status.json"), { status: "fail", failure_reason: "tests failed" });
+    await writeJson(join(runDir, "final.json"), { status: "fail", failure_reason: "tests failed" });
+    await writeFile(join(runDir, "progress.ndjson"), ndjson([
+      { ts: "2026-03-20T10:00:00Z", event: "stage_attempt_start", node_id: "plan" },
+      { ts: "2026-03-20T10:00:10Z", event: "stage_attempt_end", node_id: "plan", status: "success" },
+      { ts: "2026-03-20T10:00:11Z", event: "stage_attempt_start", node_id: "implement" },
+      { ts: "2026-03-20T10:00:41Z", event: "stage_attempt_end", node_id: "implement", status: "fail", failure_reason: "tests failed" },
+      { ts: "2026-03-20T10:00:42Z", event: "stage_attempt_start", node_id: "review" },
+    ]));
+
+    const watcher = new RunWatcher([root]);
+    const state = await watcher.readOnce("att1");
+    watcher.close();
+
+    assert.ok(state);
+    assert.equal(state.format, "attractor");
+    assert.equal(state.computedStatus, "failed");
+    assert.equal(state.dot, DOT);
+    assert.equal(state.worktreePath, "/work/att1");
+    assert.equal(state.run.dot_file, "release");
+    assert.deepEqual(state.run.params, { env: "prod", goal: "ship it" });
+    assert.deepEqual(
+      state.stageHistory?.map((v) => [v.node_id, v.status, v.duration_s]),
+      [["plan", "pass", 10], ["implement", "fail", 30], ["review", "interrupted", undefined]],
+    );
+    assert.deepEqual(state.stages?.map((s) => [s.node_id, s.status, s.failure_reason]), [
+      ["implement", "fail", "tests failed"],
+    ]);
+  });
+});
+
+test("a global progress webhook fires for runs created after subscribing", async () => {
+  await withRunsDir(async (root) => {
+    const runsDir = join(root, "runs");
+    const stateDir = join(root, "state");
+    await mkdir(runsDir);
+    const received: Record<string, unknown>[] = [];
+    const server = createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk) => { body += chunk; });
+      req.on("end", () => {
+        received.push(JSON.parse(body) as Record<string, unknown>);
+        res.end("ok");
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as AddressInfo;
+    const watcher = new RunWatcher([runsDir], { stateDir });
+    try {
+      const sub = await watcher.subscribeGlobalProgressWebhook({ webhookUrl: `http://127.0.0.1:${port}/hook` });
+
+      // Give the runs-root watcher its initial scan before the run appears.
+      await new Promise((r) => setTimeout(r, 1000));
+      await mkdir(join(runsDir, "late1"));
+      await writeJson(join(runsDir, "late1", "run.json"), { id: "late1", status: "completed" });
+      // The runs root is polled every 5s.
+      for (let i = 0; i < 150 && received.length === 0; i++) await new Promise((r) => setTimeout(r, 100));
+      assert.equal(received.length, 1);
+      assert.equal(received[0]["attractor_run_id"], "late1");
+
+      // A threshold crossed after the run finished does not re-send its outcome.
+      assert.ok(watcher.getState("late1"));
+      watcher.setBudgetAlerts("late1", [{ level: "warn", spent_usd: 9, threshold_usd: 8, crossed_at: new Date().toISOString() }]);
+      await new Promise((r) => setTimeout(r, 300));
+      assert.equal(received.length, 1);
+
+      // The finished run's cursor stays behind as a tombstone.
+      let stored: { subscriptions: { id: string; runCursors?: Record<string, { finished?: boolean }> }[] } | null = null;
+      for (let i = 0; i < 50; i++) {
+        stored = JSON.parse(await readFile(join(stateDir, "progress-webhooks.json"), "utf8").catch(() => "null"));
+        if (stored?.subscriptions[0]?.runCursors?.["late1"]?.finished) break;
+        await new Promise((r) => setTimeout(r, 50));
+      }
+      assert.equal(stored?.subscriptions[0]?.id, sub.id);
+      assert.equal(stored?.subscriptions[0]?.runCursors?.["late1"]?.finished, true);
+    } finally {
+      watcher.close();
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+});
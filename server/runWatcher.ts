@@ -1,8 +1,23 @@
 import { readFile, readdir, stat } from "node:fs/promises";
-import { join, relative, dirname } from "node:path";
+import { join, relative, dirname, basename, isAbsolute } from "node:path";
 import { EventEmitter } from "node:events";
 import chokidar, { type FSWatcher } from "chokidar";
 import { checkContainerAlive } from "./pidCheck.js";
+import type { BudgetAlert } from "./budgets.js";
+import { pendingFeedbackForAttractorRun } from "./feedback.js";
+import {
+  collectProgressEvents,
+  selectNewProgressEvents,
+  type ProgressEventMatch,
+  type ProgressWebhookFilter,
+} from "./progressWebhookFilter.js";
+import { loadProgressWebhooks, saveProgressWebhooks } from "./progressWebhookStore.js";
+import {
+  DEFAULT_WEBHOOK_RETRY_POLICY,
+  ProgressWebhookQueue,
+  type ProgressWebhookDelivery,
+  type WebhookRetryPolicy,
+} from "./webhookQueue.js";
 import { execFile } from "node:child_process";
 import { promisify } from "node:util";
 
@@ -83,24 +98,51 @@ export interface RunState {
   format: "kilroy-dash" | "attractor";
 }
 
-export interface ProgressWebhookSubscription {
+/** `runId` of a subscription that fires for every run under the configured runsDirs. */
+export const GLOBAL_WEBHOOK_RUN_ID = "*";
+
+/** Per-run dispatch position: the subscription itself for per-run subs, one entry per run for global subs. */
+export interface ProgressWebhookCursor {
+  lastEnqueuedDigest?: string;
+  firedEventKeys?: string[];
+  /** Global subs: the run's terminal state has been dispatched; later changes stay quiet until it runs again. */
+  finished?: boolean;
+}
+
+export interface ProgressWebhookSubscription extends ProgressWebhookCursor {
   id: string;
-  runId: string;
+  runId: string; // GLOBAL_WEBHOOK_RUN_ID for all-runs subscriptions
   webhookUrl: string;
   authToken?: string;
+  signingSecret?: string; // HMAC-SHA256 key; see webhookSignature.ts
   threadId?: string;
   dashboardRunId?: string;
+  filter?: ProgressWebhookFilter; // unset = fire on every progress change
+  runCursors?: Record<string, ProgressWebhookCursor>; // global subs only
   createdAt: string;
   lastDeliveryDigest?: string;
   lastDeliveredAt?: string;
   lastError?: string;
+  pending?: ProgressWebhookDelivery[]; // FIFO retry queue; head is the next attempt
+  deadLetters?: ProgressWebhookDelivery[]; // deliveries that exhausted their attempts
+  restored?: boolean; // true when reloaded from the state dir after a server restart
+}
+
+export type ProgressWebhookDeliveryState = "idle" | "retrying" | "dead_letter";
+
+export interface ProgressWebhookSubscriptionView extends Omit<ProgressWebhookSubscription, "signingSecret"> {
+  signed: boolean;
+  restored: boolean;
+  deliveryState: ProgressWebhookDeliveryState;
 }
 
 export interface ProgressWebhookSubscriptionInput {
   webhookUrl: string;
   authToken?: string;
+  signingSecret?: string;
   threadId?: string;
   dashboardRunId?: string;
+  filter?: ProgressWebhookFilter;
 }
 
 function deriveComputedStatus(run: RunRecord, containerAlive: boolean): ComputedStatus {
@@ -136,9 +178,10 @@ function summarizeRunProgress(state: RunState): string {
   return `Run ${runLabel} is ${status}.`;
 }
 
-function buildProgressDigest(state: RunState): string {
+function buildProgressDigest(state: RunState, budgetAlerts: BudgetAlert[]): string {
   const latest = latestVisitedStage(state);
   return JSON.stringify({
+    budgetLevel: budgetAlerts[budgetAlerts.length - 1]?.level ?? "",
     computedStatus: state.computedStatus,
     runStatus: state.run.status ?? "",
     currentNode: state.run.current_node ?? "",
@@ -157,18 +200,17 @@ function buildProgressDigest(state: RunState): string {
   });
 }
 
-async function deliverProgressWebhook(
+function buildProgressPayload(
   sub: ProgressWebhookSubscription,
   state: RunState,
-): Promise<void> {
-  const digest = buildProgressDigest(state);
-  if (sub.lastDeliveryDigest === digest) return;
-
+  budgetAlerts: BudgetAlert[],
+  events?: ProgressEventMatch[],
+): Record<string, unknown> {
   const latest = latestVisitedStage(state);
-  const payload = {
+  const budget = budgetAlerts[budgetAlerts.length - 1];
+  return {
     event_type: "run_progress",
-    sent_at: new Date().toISOString(),
-    delivery_id: digest,
+    events: events?.map(({ key: _key, ...e }) => e),
     run_id: sub.dashboardRunId || state.run.id,
     dashboard_run_id: sub.dashboardRunId || undefined,
     attractor_run_id: state.run.id,
@@ -191,29 +233,39 @@ async function deliverProgressWebhook(
         restart_index: latest.restartIndex ?? null,
       }
       : null,
+    budget: budget
+      ? { level: budget.level, spent_usd: budget.spent_usd, threshold_usd: budget.threshold_usd }
+      : undefined,
     run_url: `/runs/${sub.dashboardRunId || state.run.id}`,
   };
+}
 
-  const headers: Record<string, string> = {
-    "Content-Type": "application/json",
-    Accept: "application/json",
+function progressWebhookView(sub: ProgressWebhookSubscription): ProgressWebhookSubscriptionView {
+  let deliveryState: ProgressWebhookDeliveryState = "idle";
+  if (sub.pending?.some((d) => d.attempts > 0)) deliveryState = "retrying";
+  else if ((sub.deadLetters?.length ?? 0) > 0) deliveryState = "dead_letter";
+  // Never echo the signing secret back out of the API; cursors are internal bookkeeping.
+  const { signingSecret, runCursors: _runCursors, ...rest } = sub;
+  return {
+    ...rest,
+    signed: Boolean(signingSecret),
+    pending: sub.pending?.map((d) => ({ ...d })),
+    deadLetters: sub.deadLetters?.map((d) => ({ ...d })),
+    restored: sub.restored === true,
+    deliveryState,
   };
-  if (sub.authToken) {
-    headers["Authorization"] = `Bearer ${sub.authToken}`;
-  }
+}
 
-  const response = await fetch(sub.webhookUrl, {
-    method: "POST",
-    headers,
-    body: JSON.stringify(payload),
-  });
-  if (!response.ok) {
-    const text = await response.text().catch(() => "");
-    throw new Error(`webhook ${response.status}: ${text || response.statusText}`);
-  }
-  sub.lastDeliveryDigest = digest;
-  sub.lastDeliveredAt = new Date().toISOString();
-  delete sub.lastError;
+function findMatchingSubscription(
+  perRun: Map<string, ProgressWebhookSubscription>,
+  input: ProgressWebhookSubscriptionInput,
+): ProgressWebhookSubscription | undefined {
+  return [...perRun.values()].find((sub) =>
+    sub.webhookUrl === input.webhookUrl.trim()
+    && (sub.threadId ?? "") === (input.threadId?.trim() ?? "")
+    && (sub.dashboardRunId ?? "") === (input.dashboardRunId?.trim() ?? "")
+    && JSON.stringify(sub.filter ?? null) === JSON.stringify(input.filter ?? null)
+  );
 }
 
 function createProgressWebhookSubscription(
@@ -225,8 +277,10 @@ function createProgressWebhookSubscription(
     runId,
     webhookUrl: input.webhookUrl.trim(),
     authToken: input.authToken?.trim() || undefined,
+    signingSecret: input.signingSecret?.trim() || undefined,
     threadId: input.threadId?.trim() || undefined,
     dashboardRunId: input.dashboardRunId?.trim() || undefined,
+    filter: input.filter,
     createdAt: new Date().toISOString(),
   };
 }
@@ -242,23 +296,174 @@ async function checkPidAlive(pid: number): Promise<boolean> {
 }
 
 // ─── Kilroy-dash sync format (run.json) ──────────────────────────────────────
+//
+// kilroy-dash writes one run.json per run: the RunRecord fields plus a
+// `stages` array of per-visit records in execution order, e.g.
+//   {"node_id": "implement", "attempt": 2, "status": "fail",
+//    "started_at": "...", "finished_at": "...", "failure_reason": "..."}
+// Older syncs name some fields differently (node/id, start_time, ended_at,
+// error), so those are accepted too. Runs synced without stage records fall
+// back to the attractor progress.ndjson under attractor_logs_root.
+
+const str = (v: unknown): string | undefined => (typeof v === "string" && v ? v : undefined);
+
+/** Fold a dash stage status into VisitedStage's four; custom outcomes (routing labels) count as pass. */
+function dashVisitStatus(raw: unknown): VisitedStage["status"] {
+  switch (String(raw ?? "").toLowerCase()) {
+    case "running": case "executing": case "in_progress": case "started": return "running";
+    case "fail": case "failed": case "error": case "work_failed": return "fail";
+    case "interrupted": case "cancelled": case "canceled": case "stopped": return "interrupted";
+    default: return "pass";
+  }
+}
+
+function parseDashStageRecords(raw: unknown): { history: VisitedStage[]; stages: StageInfo[] } {
+  const history: VisitedStage[] = [];
+  const latest = new Map<string, StageInfo>();
+  const attempts = new Map<string, number>();
+  for (const rec of Array.isArray(raw) ? raw : []) {
+    if (!rec || typeof rec !== "object") continue;
+    const r = rec as Record<string, unknown>;
+    const node_id = str(r.node_id) ?? str(r.node) ?? str(r.id);
+    if (!node_id) continue;
+    const attempt = typeof r.attempt === "number" ? r.attempt : (attempts.get(node_id) ?? 0) + 1;
+    attempts.set(node_id, attempt);
+    const started_at = str(r.started_at) ?? str(r.start_time) ?? "";
+    const finished_at = str(r.finished_at) ?? str(r.ended_at) ?? str(r.end_time);
+    const failure_reason = str(r.failure_reason) ?? str(r.error);
+    let duration_s = typeof r.duration_s === "number" ? r.duration_s : undefined;
+    if (duration_s === undefined && started_at && finished_at) {
+      const ms = new Date(finished_at).getTime() - new Date(started_at).getTime();
+      if (!isNaN(ms)) duration_s = Math.round(ms / 1000);
+    }
+    const visit: VisitedStage = { node_id, attempt, status: dashVisitStatus(r.status), started_at };
+    if (finished_at) visit.finished_at = finished_at;
+    if (duration_s !== undefined) visit.duration_s = duration_s;
+    if (failure_reason) visit.failure_reason = failure_reason;
+    if (str(r.stage_path)) visit.stage_path = str(r.stage_path);
+    history.push(visit);
+    latest.set(node_id, {
+      node_id,
+      status: String(r.status ?? visit.status),
+      failure_reason,
+      context_updates: r.context_updates && typeof r.context_updates === "object"
+        ? (r.context_updates as Record<string, unknown>)
+        : undefined,
+      started_at: started_at || undefined,
+      finished_at,
+    });
+  }
+  return { history, stages: [...latest.values()] };
+}
 
-async function readKilroyDashFormat(runDir: string): Promise<RunState | null> {
+/** Annotations the graph can draw need an id, kind and title; others are dropped. */
+function dashAnnotations(raw: unknown): unknown[] | undefined {
+  if (!Array.isArray(raw)) return undefined;
+  return raw.flatMap((a, i) => {
+    if (!a || typeof a !== "object") return [];
+    const rec = a as Record<string, unknown>;
+    const title = str(rec.title);
+    if (!title) return [];
+    return [{ ...rec, id: str(rec.id) ?? String(i), kind: rec.kind === "review" ? "review" : "report", title }];
+  });
+}
+
+async function readKilroyDashFormat(runId: string, runDir: string): Promise<RunState | null> {
+  let parsed: Record<string, unknown>;
   try {
-    const raw = await readFile(join(runDir, "run.json"), "utf8");
-    const run: RunRecord = JSON.parse(raw);
+    parsed = JSON.parse(await readFile(join(runDir, "run.json"), "utf8"));
+  } catch {
+    return null;
+  }
+  try {
+    const { stages: stageRecords, worktree, worktree_path, ...fields } = parsed;
+    const run = { ...fields, id: str(fields.id) ?? runId } as RunRecord;
+
     const containerId = run.container_id ?? "";
     const containerAlive = run.status === "executing" && containerId
       ? await checkContainerAlive(containerId)
       : false;
+
+    // dot_file may be absolute, relative to the run dir, or relative to the repo;
+    // the run dir's graph.dot is the copy made at launch.
+    const dotCandidates: string[] = [];
+    if (run.dot_file) {
+      if (isAbsolute(run.dot_file)) dotCandidates.push(run.dot_file);
+      else {
+        dotCandidates.push(join(runDir, run.dot_file));
+        if (run.repo_path) dotCandidates.push(join(run.repo_path, run.dot_file));
+      }
+    }
+    dotCandidates.push(join(runDir, "graph.dot"));
+    let dot: string | undefined;
+    for (const path of dotCandidates) {
+      try { dot = await readFile(path, "utf8"); break; } catch { /* try next */ }
+    }
+
+    let { history: stageHistory, stages } = parseDashStageRecords(stageRecords);
+    let cycleInfo: CycleInfo | undefined;
+    if (stageHistory.length === 0) {
+      const logsRoot = run.attractor_logs_root ?? runDir;
+      const progress = await parseProgressHistory(join(logsRoot, "progress.ndjson"));
+      const prefix = logsRoot === runDir ? "" : `${relative(runDir, logsRoot)}/`;
+      stageHistory = progress.history.map((v) => (prefix
+        ? { ...v, stage_path: `${prefix}${v.stage_path ?? v.node_id}` }
+        : v));
+      cycleInfo = progress.cycleInfo;
+      stages = await readAttractorStages(logsRoot, run.completed_nodes ?? []);
+      if (stages.length === 0) {
+        stages = (run.completed_nodes ?? []).map((node_id) => ({ node_id, status: "pass" }));
+      }
+    }
+
+    // As for attractor runs: a finished run has nothing still running.
+    const terminal = run.status === "completed" || run.status === "failed"
+      || run.status === "stopped" || run.status === "interrupted";
+    if (terminal || (run.status === "executing" && !containerAlive)) {
+      for (const v of stageHistory) {
+        if (v.status === "running") v.status = "interrupted";
+      }
+    }
+
+    if (!run.current_node) {
+      run.current_node = [...stageHistory].reverse().find((v) => v.status === "running")?.node_id;
+    }
+    if (!run.completed_nodes) {
+      const done = new Set(stageHistory.filter((v) => v.status === "pass").map((v) => v.node_id));
+      if (done.size > 0) run.completed_nodes = [...done];
+    }
+    if (run.params && typeof run.params === "object" && !Array.isArray(run.params)) {
+      const params: Record<string, string> = {};
+      for (const [k, v] of Object.entries(run.params as Record<string, unknown>)) {
+        if (v != null && typeof v !== "object") params[k] = String(v);
+      }
+      run.params = Object.keys(params).length > 0 ? params : undefined;
+    } else {
+      run.params = undefined;
+    }
+    run.annotations = dashAnnotations(run.annotations);
+    run.notes = Array.isArray(run.notes) ? run.notes : undefined;
+    run.notifications = Array.isArray(run.notifications) ? run.notifications : undefined;
+
+    if (cycleInfo && dot) {
+      const retryTargetMatch = /\bretry_target\s*=\s*"([^"]+)"/.exec(dot);
+      if (retryTargetMatch) cycleInfo = { ...cycleInfo, retryTargetNodeId: retryTargetMatch[1] };
+    }
+
     return {
       run,
       containerAlive,
       computedStatus: deriveComputedStatus(run, containerAlive),
       lastChecked: new Date().toISOString(),
+      dot,
+      stages,
+      stageHistory,
+      cycleInfo,
+      worktreePath: str(worktree) ?? str(worktree_path),
       format: "kilroy-dash",
     };
-  } catch {
+  } catch (err) {
+    console.error(`[RunWatcher] kilroy-dash read error for ${runId}:`, err);
     return null;
   }
 }
@@ -315,6 +520,14 @@ async function readAttractorFormat(runId: string, runDir: string): Promise<RunSt
     const manifest: Record<string, unknown> = JSON.parse(manifestRaw);
 
     const goal = typeof manifest.goal === "string" ? manifest.goal : undefined;
+    // Run params (e.g. from a parameterised factory start), shown next to the goal.
+    const params: Record<string, string> = {};
+    if (manifest.params && typeof manifest.params === "object" && !Array.isArray(manifest.params)) {
+      for (const [k, v] of Object.entries(manifest.params as Record<string, unknown>)) {
+        if (v != null && typeof v !== "object") params[k] = String(v);
+      }
+    }
+    if (goal) params.goal = goal;
     const graphName = typeof manifest.graph_name === "string" ? manifest.graph_name : undefined;
     const startedAt = typeof manifest.started_at === "string" ? manifest.started_at : undefined;
     const logsRoot = typeof manifest.logs_root === "string" ? manifest.logs_root : runDir;
@@ -467,7 +680,7 @@ async function readAttractorFormat(runId: string, runDir: string): Promise<RunSt
       attractor_run_id: runId,
       attractor_logs_root: logsRoot,
       has_checkpoint: hasCheckpoint,
-      params: goal ? { goal } : undefined,
+      params: Object.keys(params).length > 0 ? params : undefined,
       completed_nodes: completedNodes,
     };
 
@@ -666,6 +879,14 @@ async function readAttractorStages(runDir: string, completedNodes: string[]): Pr
 
 // ─── RunWatcher ───────────────────────────────────────────────────────────────
 
+export interface RunWatcherOptions {
+  /** Directory for server-owned state (e.g. progress-webhooks.json). Persistence is off when unset. */
+  stateDir?: string;
+  webhookRetry?: Partial<WebhookRetryPolicy>;
+}
+
+const RUN_MARKER_FILES = new Set(["run.json", "manifest.json"]);
+
 export class RunWatcher extends EventEmitter {
   private runsDirs: string[];
   private dirForRun = new Map<string, string>(); // runId → resolved run dir
@@ -676,14 +897,52 @@ export class RunWatcher extends EventEmitter {
   private sseRefs = new Map<string, number>();
   private webhookRefs = new Map<string, number>();
   private progressWebhooks = new Map<string, Map<string, ProgressWebhookSubscription>>();
-
-  constructor(runsDirs: string[]) {
+  private progressWebhookStorePath?: string;
+  // Serializes store writes so an older snapshot never lands after a newer one.
+  private progressWebhookPersist: Promise<void> = Promise.resolve();
+  private webhookQueue: ProgressWebhookQueue;
+  // Consumers that need every run watched (global webhooks); root watching runs while > 0.
+  private allRunsRefs = 0;
+  private allRunsSweep: Promise<void> = Promise.resolve();
+  // Consumers that only need new runs announced (the feedback index); root watching also runs while > 0.
+  private discoveryRefs = 0;
+  private rootWatcher: FSWatcher | null = null;
+  // Budget thresholds each run has crossed, as last reported by BudgetMonitor.
+  private budgetAlerts = new Map<string, BudgetAlert[]>();
+
+  constructor(runsDirs: string[], opts: RunWatcherOptions = {}) {
     super();
     this.runsDirs = runsDirs;
+    this.webhookQueue = new ProgressWebhookQueue(
+      { ...DEFAULT_WEBHOOK_RETRY_POLICY, ...opts.webhookRetry },
+      () => this.persistProgressWebhooks(),
+    );
+    if (opts.stateDir) {
+      this.progressWebhookStorePath = join(opts.stateDir, "progress-webhooks.json");
+    }
   }
 
   getRunsDirs(): string[] { return this.runsDirs; }
 
+  /** All run directories across all configured runsDirs, deduped by id, newest-first (ULID order). */
+  async listRuns(): Promise<{ id: string; runsDir: string }[]> {
+    const seen = new Set<string>();
+    const results: { id: string; runsDir: string }[] = [];
+    for (const dir of this.runsDirs) {
+      try {
+        const entries = await readdir(dir, { withFileTypes: true });
+        for (const e of entries) {
+          if (e.isDirectory() && !seen.has(e.name)) {
+            seen.add(e.name);
+            results.push({ id: e.name, runsDir: dir });
+          }
+        }
+      } catch { /* dir may not exist */ }
+    }
+    results.sort((a, b) => b.id.localeCompare(a.id));
+    return results;
+  }
+
   /** Find the directory for a run across all configured runsDirs. */
   async findRunDir(runId: string): Promise<string | null> {
     if (this.dirForRun.has(runId)) return this.dirForRun.get(runId)!;
@@ -708,7 +967,8 @@ export class RunWatcher extends EventEmitter {
   }
 
   /**
-   * Start watching a run (called when an SSE connection opens).
+   * Start watching a run (called when an SSE connection opens, and by the
+   * feedback index for each live run).
    * Uses polling to avoid EMFILE — only state-relevant files are checked.
    * Call sseDisconnect() when the SSE connection closes.
    */
@@ -731,16 +991,137 @@ export class RunWatcher extends EventEmitter {
     }
   }
 
-  listProgressWebhooks(runId: string): ProgressWebhookSubscription[] {
+  listProgressWebhooks(runId: string): ProgressWebhookSubscriptionView[] {
     const perRun = this.progressWebhooks.get(runId);
     if (!perRun) return [];
-    return [...perRun.values()].map((sub) => ({ ...sub }));
+    return [...perRun.values()].map(progressWebhookView);
+  }
+
+  /**
+   * Re-queue dead-lettered deliveries for a subscription (all of them, or only
+   * `deliveryIds`). Returns null when the subscription does not exist.
+   */
+  replayProgressWebhook(
+    runId: string,
+    subscriptionId: string,
+    deliveryIds?: string[],
+  ): ProgressWebhookDelivery[] | null {
+    const sub = this.progressWebhooks.get(runId)?.get(subscriptionId);
+    if (!sub) return null;
+    return this.webhookQueue.replay(sub, deliveryIds);
+  }
+
+  /**
+   * Record the budget thresholds a run has crossed (warn, then limit) and
+   * notify progress webhooks when that set changes.
+   */
+  setBudgetAlerts(runId: string, alerts: BudgetAlert[]) {
+    const levels = (list: BudgetAlert[]) => list.map((a) => a.level).join(",");
+    const prev = this.budgetAlerts.get(runId) ?? [];
+    if (alerts.length > 0) this.budgetAlerts.set(runId, alerts);
+    else this.budgetAlerts.delete(runId);
+    // Spend moves on every stage; only a newly crossed (or reset) threshold is news.
+    if (levels(prev) === levels(alerts)) return;
+    const state = this.cache.get(runId);
+    if (state) void this.dispatchProgressWebhooks(runId, state);
+  }
+
+  /**
+   * A feedback request turned up in a run that may not be watched (found by
+   * the feedback index's periodic rescan): give feedback_pending subscribers
+   * their event. Stages that already fired are not repeated.
+   */
+  async notifyFeedbackPending(runId: string): Promise<void> {
+    const state = await this.readOnce(runId);
+    if (state) await this.dispatchProgressWebhooks(runId, state);
+  }
+
+  /**
+   * Subscribe to progress of every run under the configured runsDirs,
+   * including runs created later. Existing runs only fire once they change.
+   */
+  async subscribeGlobalProgressWebhook(
+    input: ProgressWebhookSubscriptionInput,
+  ): Promise<ProgressWebhookSubscriptionView> {
+    let perRun = this.progressWebhooks.get(GLOBAL_WEBHOOK_RUN_ID);
+    if (!perRun) {
+      perRun = new Map<string, ProgressWebhookSubscription>();
+      this.progressWebhooks.set(GLOBAL_WEBHOOK_RUN_ID, perRun);
+    }
+    const existing = findMatchingSubscription(perRun, input);
+    if (existing) return this.refreshExistingSubscription(existing, input);
+
+    const subscription = createProgressWebhookSubscription(GLOBAL_WEBHOOK_RUN_ID, input);
+    perRun.set(subscription.id, subscription);
+    this.persistProgressWebhooks();
+    // The sweep reads every run; it must not hold up the response.
+    this.acquireAllRuns().catch((err) => {
+      console.error("[RunWatcher] watching all runs failed:", err);
+    });
+    return progressWebhookView(subscription);
+  }
+
+  /**
+   * Reload subscriptions persisted by a previous server process and re-arm a
+   * watcher for each run. Subscriptions whose run no longer exists are dropped.
+   */
+  async restoreProgressWebhooks(): Promise<number> {
+    if (!this.progressWebhookStorePath) return 0;
+    const saved = await loadProgressWebhooks(this.progressWebhookStorePath);
+    const runIds = new Set<string>();
+    let dropped = 0;
+    let globalCount = 0;
+    for (const sub of saved) {
+      if (sub.runId === GLOBAL_WEBHOOK_RUN_ID) {
+        let perRun = this.progressWebhooks.get(GLOBAL_WEBHOOK_RUN_ID);
+        if (!perRun) {
+          perRun = new Map<string, ProgressWebhookSubscription>();
+          this.progressWebhooks.set(GLOBAL_WEBHOOK_RUN_ID, perRun);
+        }
+        if (!perRun.has(sub.id)) {
+          perRun.set(sub.id, { ...sub, restored: true });
+          globalCount++;
+        }
+        continue;
+      }
+      if (!(await this.findRunDir(sub.runId))) {
+        console.warn(`[RunWatcher] dropping progress webhook ${sub.id}: run ${sub.runId} not found`);
+        dropped++;
+        continue;
+      }
+      let perRun = this.progressWebhooks.get(sub.runId);
+      if (!perRun) {
+        perRun = new Map<string, ProgressWebhookSubscription>();
+        this.progressWebhooks.set(sub.runId, perRun);
+      }
+      if (perRun.has(sub.id)) continue;
+      perRun.set(sub.id, { ...sub, restored: true });
+      this.webhookRefs.set(sub.runId, (this.webhookRefs.get(sub.runId) ?? 0) + 1);
+      runIds.add(sub.runId);
+    }
+    if (dropped > 0) this.persistProgressWebhooks();
+
+    // Resume retries that were in flight when the previous process exited.
+    for (const perRun of this.progressWebhooks.values()) {
+      for (const sub of perRun.values()) {
+        if (sub.pending?.length) void this.webhookQueue.drain(sub);
+      }
+    }
+
+    for (const runId of runIds) {
+      const state = await this.ensureWatching(runId);
+      if (state) {
+        void this.dispatchProgressWebhooks(runId, state);
+      }
+    }
+    if (globalCount > 0) await this.acquireAllRuns();
+    return saved.length - dropped;
   }
 
   async subscribeProgressWebhook(
     runId: string,
     input: ProgressWebhookSubscriptionInput,
-  ): Promise<ProgressWebhookSubscription | null> {
+  ): Promise<ProgressWebhookSubscriptionView | null> {
     const runDir = await this.findRunDir(runId);
     if (!runDir) return null;
 
@@ -750,22 +1131,30 @@ export class RunWatcher extends EventEmitter {
       perRun = new Map<string, ProgressWebhookSubscription>();
       this.progressWebhooks.set(runId, perRun);
     }
-    const existing = [...perRun.values()].find((sub) =>
-      sub.webhookUrl === input.webhookUrl.trim()
-      && (sub.threadId ?? "") === (input.threadId?.trim() ?? "")
-      && (sub.dashboardRunId ?? "") === (input.dashboardRunId?.trim() ?? "")
-    );
-    if (existing) {
-      return { ...existing };
-    }
+    const existing = findMatchingSubscription(perRun, input);
+    if (existing) return this.refreshExistingSubscription(existing, input);
     perRun.set(subscription.id, subscription);
     this.webhookRefs.set(runId, (this.webhookRefs.get(runId) ?? 0) + 1);
+    this.persistProgressWebhooks();
 
     const state = await this.ensureWatching(runId);
     if (state) {
       void this.dispatchProgressWebhooks(runId, state);
     }
-    return { ...subscription };
+    return progressWebhookView(subscription);
+  }
+
+  /** Re-subscribing with a new secret rotates it in place. */
+  private refreshExistingSubscription(
+    existing: ProgressWebhookSubscription,
+    input: ProgressWebhookSubscriptionInput,
+  ): ProgressWebhookSubscriptionView {
+    const secret = input.signingSecret?.trim();
+    if (secret && secret !== existing.signingSecret) {
+      existing.signingSecret = secret;
+      this.persistProgressWebhooks();
+    }
+    return progressWebhookView(existing);
   }
 
   unsubscribeProgressWebhook(runId: string, subscriptionId: string): boolean {
@@ -773,9 +1162,15 @@ export class RunWatcher extends EventEmitter {
     if (!perRun) return false;
     const removed = perRun.delete(subscriptionId);
     if (!removed) return false;
+    this.webhookQueue.cancel(subscriptionId);
     if (perRun.size === 0) {
       this.progressWebhooks.delete(runId);
     }
+    this.persistProgressWebhooks();
+    if (runId === GLOBAL_WEBHOOK_RUN_ID) {
+      this.releaseAllRuns();
+      return true;
+    }
     const refs = (this.webhookRefs.get(runId) ?? 1) - 1;
     if (refs <= 0) {
       this.webhookRefs.delete(runId);
@@ -789,7 +1184,104 @@ export class RunWatcher extends EventEmitter {
   }
 
   private totalRefs(runId: string): number {
-    return (this.sseRefs.get(runId) ?? 0) + (this.webhookRefs.get(runId) ?? 0);
+    return (this.sseRefs.get(runId) ?? 0) + (this.webhookRefs.get(runId) ?? 0) + this.allRunsRefs;
+  }
+
+  /**
+   * Watch every run (existing and future) until the matching releaseAllRuns().
+   * New runs are detected by polling the runs roots for a run.json/manifest.json
+   * appearing one level down; each one is announced with a "run-added" event.
+   */
+  async acquireAllRuns(): Promise<void> {
+    this.allRunsRefs++;
+    if (this.allRunsRefs === 1) {
+      this.startRootWatch();
+      this.allRunsSweep = this.watchExistingRuns();
+    }
+    // Later callers still wait for the initial sweep so getState() is populated.
+    await this.allRunsSweep;
+  }
+
+  private async watchExistingRuns(): Promise<void> {
+    const runs = await this.listRuns();
+    const listed = new Set(runs.map((r) => r.id));
+    this.pruneGlobalCursors((runId) => listed.has(runId));
+    // Sequential on purpose: attractor reads shell out for PID checks.
+    for (const { id } of runs) {
+      if (this.allRunsRefs === 0) return;
+      await this.ensureWatching(id);
+    }
+  }
+
+  releaseAllRuns() {
+    if (this.allRunsRefs === 0) return;
+    this.allRunsRefs--;
+    if (this.allRunsRefs > 0) return;
+    this.stopRootWatchIfIdle();
+    for (const runId of [...this.watchers.keys()]) {
+      if (this.totalRefs(runId) <= 0) this.unwatch(runId);
+    }
+  }
+
+  /**
+   * Announce runs created from now on with "run-added" until the matching
+   * releaseRunDiscovery(), without watching any run. Listeners decide which
+   * of them to watch.
+   */
+  acquireRunDiscovery() {
+    this.discoveryRefs++;
+    this.startRootWatch();
+  }
+
+  releaseRunDiscovery() {
+    if (this.discoveryRefs === 0) return;
+    this.discoveryRefs--;
+    this.stopRootWatchIfIdle();
+  }
+
+  private stopRootWatchIfIdle() {
+    if (this.allRunsRefs > 0 || this.discoveryRefs > 0) return;
+    this.rootWatcher?.close();
+    this.rootWatcher = null;
+  }
+
+  private startRootWatch() {
+    if (this.rootWatcher) return;
+    const roots = this.runsDirs;
+    const depthOf = (p: string) => {
+      for (const root of roots) {
+        const rel = relative(root, p);
+        if (!rel.startsWith("..")) return rel === "" ? 0 : rel.split("/").length;
+      }
+      return -1;
+    };
+    const watcher = chokidar.watch(roots, {
+      persistent: false,
+      ignoreInitial: true,
+      usePolling: true,
+      interval: 5000,
+      depth: 1,
+      // Root dirs, run dirs, and the marker files that make a dir a run.
+      ignored: (filePath: string, stats?: import("node:fs").Stats) => {
+        const depth = depthOf(filePath);
+        if (depth <= 1) return stats ? !stats.isDirectory() : false;
+        return !RUN_MARKER_FILES.has(basename(filePath));
+      },
+    });
+    watcher.on("add", (filePath: string) => {
+      if (depthOf(filePath) !== 2 || !RUN_MARKER_FILES.has(basename(filePath))) return;
+      void this.onRunDiscovered(basename(dirname(filePath)));
+    });
+    this.rootWatcher = watcher;
+  }
+
+  private async onRunDiscovered(runId: string) {
+    if (this.watchers.has(runId)) return;
+    const state = this.allRunsRefs > 0 ? await this.ensureWatching(runId) : await this.readOnce(runId);
+    if (!state) return;
+    this.emit("run-added", runId, state);
+    // A brand-new run is news in itself — deliver its first state immediately.
+    void this.dispatchProgressWebhooks(runId, state);
   }
 
   private async ensureWatching(runId: string): Promise<RunState | null> {
@@ -830,6 +1322,8 @@ export class RunWatcher extends EventEmitter {
       interval: 5000,
       ignored: (filePath: string) => {
         const base = filePath.split("/").pop() ?? "";
+        // Feedback requests drive feedback_pending webhook events.
+        if (base.startsWith("feedback_request_")) return false;
         const STATE_FILES = new Set([
           "progress.ndjson", "final.json", "checkpoint.json",
           "run.json", "live.json", "manifest.json",
@@ -857,17 +1351,89 @@ export class RunWatcher extends EventEmitter {
   }
 
   private async dispatchProgressWebhooks(runId: string, state: RunState): Promise<void> {
-    const perRun = this.progressWebhooks.get(runId);
-    if (!perRun || perRun.size === 0) return;
-    await Promise.all(
-      [...perRun.values()].map(async (sub) => {
-        try {
-          await deliverProgressWebhook(sub, state);
-        } catch (error) {
-          sub.lastError = error instanceof Error ? error.message : String(error);
-        }
-      }),
-    );
+    const TERMINAL = new Set(["completed", "failed", "interrupted", "stopped"]);
+    const terminal = TERMINAL.has(state.run.status ?? "") || TERMINAL.has(state.computedStatus ?? "");
+    const targets: { sub: ProgressWebhookSubscription; cursor: ProgressWebhookCursor }[] = [];
+    for (const sub of this.progressWebhooks.get(runId)?.values() ?? []) {
+      targets.push({ sub, cursor: sub });
+    }
+    let resumed = false;
+    for (const sub of this.progressWebhooks.get(GLOBAL_WEBHOOK_RUN_ID)?.values() ?? []) {
+      const cursors = sub.runCursors ?? (sub.runCursors = {});
+      const cursor = cursors[runId] ?? (cursors[runId] = {});
+      // Budget alerts and late threshold checks re-dispatch finished runs; their outcome was already sent.
+      if (cursor.finished && terminal) continue;
+      if (cursor.finished) {
+        delete cursor.finished;
+        resumed = true;
+      }
+      targets.push({ sub, cursor });
+    }
+    if (resumed) this.persistProgressWebhooks();
+    if (targets.length === 0) return;
+    const budgetAlerts = this.budgetAlerts.get(runId) ?? [];
+    const digest = buildProgressDigest(state, budgetAlerts);
+
+    let feedbackStages: string[] = [];
+    if (targets.some(({ sub }) => sub.filter?.events.includes("feedback_pending"))) {
+      const runDir = await this.findRunDir(runId);
+      const pending = runDir ? await pendingFeedbackForAttractorRun(runDir) : [];
+      feedbackStages = pending.map((req) => String(req["stage"] ?? "")).filter(Boolean);
+    }
+
+    for (const { sub, cursor } of targets) {
+      if (!sub.filter) {
+        if ((cursor.lastEnqueuedDigest ?? (cursor === sub ? sub.lastDeliveryDigest : undefined)) === digest) continue;
+        cursor.lastEnqueuedDigest = digest;
+        // Global subs share one queue across runs: only a run's latest snapshot need wait, but never drop its outcome.
+        const coalesceKey = cursor !== sub && !terminal ? runId : undefined;
+        this.webhookQueue.enqueue(sub, digest, buildProgressPayload(sub, state, budgetAlerts), coalesceKey);
+        continue;
+      }
+      const matches = collectProgressEvents(state, sub.filter, feedbackStages, budgetAlerts);
+      const { fresh, seen } = selectNewProgressEvents(matches, cursor.firedEventKeys);
+      const changed = JSON.stringify(seen) !== JSON.stringify(cursor.firedEventKeys);
+      cursor.firedEventKeys = seen;
+      if (fresh.length > 0) {
+        const eventDigest = `events:${fresh.map((m) => m.key).join(",")}`;
+        cursor.lastEnqueuedDigest = eventDigest;
+        this.webhookQueue.enqueue(sub, eventDigest, buildProgressPayload(sub, state, budgetAlerts, fresh));
+      } else if (changed) {
+        this.persistProgressWebhooks();
+      }
+    }
+
+    // Keep the finished run's cursor as a tombstone until it leaves the runs dirs.
+    if (terminal) {
+      const global = targets.filter(({ sub }) => sub.runId === GLOBAL_WEBHOOK_RUN_ID);
+      for (const { cursor } of global) cursor.finished = true;
+      if (global.length > 0) this.persistProgressWebhooks();
+    }
+  }
+
+  /** Drop global subscriptions' per-run cursors for runs that `keep` rejects. */
+  private pruneGlobalCursors(keep: (runId: string) => boolean) {
+    let changed = false;
+    for (const sub of this.progressWebhooks.get(GLOBAL_WEBHOOK_RUN_ID)?.values() ?? []) {
+      const cursors = sub.runCursors ?? {};
+      for (const runId of Object.keys(cursors)) {
+        if (keep(runId)) continue;
+        delete cursors[runId];
+        changed = true;
+      }
+    }
+    if (changed) this.persistProgressWebhooks();
+  }
+
+  private persistProgressWebhooks() {
+    const storePath = this.progressWebhookStorePath;
+    if (!storePath) return;
+    const snapshot = [...this.progressWebhooks.values()].flatMap((perRun) => [...perRun.values()].map((sub) => ({ ...sub })));
+    this.progressWebhookPersist = this.progressWebhookPersist
+      .then(() => saveProgressWebhooks(storePath, snapshot))
+      .catch((err) => {
+        console.error("[RunWatcher] failed to persist progress webhooks:", err);
+      });
   }
 
   private startPolling(runId: string, runDir: string) {
@@ -905,7 +1471,7 @@ export class RunWatcher extends EventEmitter {
     // Try kilroy-dash format first
     try {
       await stat(join(runDir, "run.json"));
-      return readKilroyDashFormat(runDir);
+      return readKilroyDashFormat(runId, runDir);
     } catch { /* fall through */ }
 
     // Try raw attractor format
@@ -934,6 +1500,9 @@ export class RunWatcher extends EventEmitter {
   }
 
   close() {
+    this.webhookQueue.close();
+    this.rootWatcher?.close();
+    this.rootWatcher = null;
     for (const w of this.watchers.values()) w.close();
     for (const i of this.polling.values()) clearInterval(i);
     this.watchers.clear();
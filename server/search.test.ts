@@ -0,0 +1,84 @@
+import assert from "node:assert/strict";
+import { mkdtemp, mkdir, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import test from "node:test";
+import type { RunState } from "./runWatcher.js";
+import { parseSearchQuery, RunSearchIndex, type SearchRunSource } from "./search.js";
+
+async function fixtureRun(root: string): Promise<{ source: SearchRunSource; runDir: string }> {
+  const runDir = join(root, "run-1");
+  await mkdir(join(runDir, "implement"), { recursive: true });
+  await mkdir(join(runDir, "review"), { recursive: true });
+  await writeFile(join(runDir, "implement", "prompt.md"), "Fix the flaky test in login_spec.\n");
+  await writeFile(join(runDir, "implement", "events.ndjson"), [
+    JSON.stringify({ type: "system", session_id: "s", model: "m" }),
+    JSON.stringify({ type: "assistant", message: { id: "a1", content: [{ type: "tool_use", id: "t1", name: "Bash", input: { command: "npm test" } }] } }),
+    JSON.stringify({ type: "user", message: { content: [{ type: "tool_result", tool_use_id: "t1", content: "write failed: ENOSPC no space left on device" }] } }),
+  ].join("\n"));
+  await writeFile(join(runDir, "review", "status.json"), JSON.stringify({ status: "fail", failure_reason: "login_spec still flaky" }));
+
+  const state: RunState = {
+    run: { id: "run-1", status: "failed", dot_file: "pipeline" },
+    containerAlive: false,
+    computedStatus: "failed",
+    lastChecked: "2026-03-20T00:00:00Z",
+    format: "attractor",
+    stageHistory: [
+      { node_id: "implement", attempt: 1, status: "pass", started_at: "2026-03-20T00:00:00Z" },
+      { node_id: "review", attempt: 1, status: "fail", started_at: "2026-03-20T00:01:00Z" },
+      { node_id: "implement", attempt: 1, status: "pass", started_at: "2026-03-20T00:02:00Z" },
+    ],
+  };
+  const source: SearchRunSource = {
+    listRuns: async () => [{ id: "run-1", runsDir: root }],
+    findRunDir: async (id) => (id === "run-1" ? runDir : null),
+    readOnce: async (id) => (id === "run-1" ? state : null),
+  };
+  return { source, runDir };
+}
+
+test("query parsing separates quoted phrases", () => {
+  assert.deepEqual(parseSearchQuery('flaky "Login spec"'), { terms: ["flaky", "login", "spec"], phrases: ["login spec"] });
+});
+
+test("tool outputs, prompts and failure reasons are searchable with visit links", async () => {
+  const root = await mkdtemp(join(tmpdir(), "run-search-"));
+  try {
+    const { source } = await fixtureRun(root);
+    const index = new RunSearchIndex(source);
+    await index.refresh();
+
+    const enospc = index.search("ENOSPC");
+    assert.equal(enospc.total, 1);
+    assert.equal(enospc.hits[0].source, "tool_output");
+    assert.equal(enospc.hits[0].tool_name, "Bash");
+    // The implement dir holds its latest (second) visit.
+    assert.equal(enospc.hits[0].visit, 2);
+    assert.match(enospc.hits[0].snippet, /ENOSPC/);
+
+    const flaky = index.search("login_spec flaky");
+    assert.deepEqual(flaky.hits.map((h) => h.source).sort(), ["failure_reason", "prompt"]);
+    assert.equal(index.search("login_spec flaky", { sources: new Set(["failure_reason"]) }).total, 1);
+    assert.equal(index.search('"still flaky"').hits[0]?.node_id, "review");
+    assert.equal(index.search('"flaky still"').total, 0);
+  } finally {
+    await rm(root, { recursive: true, force: true });
+  }
+});
+
+test("changed files are re-indexed after markDirty", async () => {
+  const root = await mkdtemp(join(tmpdir(), "run-search-"));
+  try {
+    const { source, runDir } = await fixtureRun(root);
+    const index = new RunSearchIndex(source);
+    await index.refresh();
+    await writeFile(join(runDir, "implement", "prompt.md"), "Rewrite the parser.\n");
+    index.markDirty("run-1");
+    await index.refresh();
+    assert.equal(index.search("parser").total, 1);
+    assert.equal(index.search("login_spec", { sources: new Set(["prompt"]) }).total, 0);
+  } finally {
+    await rm(root, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,371 @@
+import { readFile, stat } from "node:fs/promises";
+import { join } from "node:path";
+import type { Express, Request, Response } from "express";
+import type { RunState, RunWatcher } from "./runWatcher.js";
+import { parseEventsTurns } from "./turns.js";
+
+export const SEARCH_SOURCES = ["prompt", "response", "tool_output", "failure_reason"] as const;
+export type SearchSource = typeof SEARCH_SOURCES[number];
+
+export interface SearchHit {
+  run_id: string;
+  node_id: string;
+  stage_path: string;
+  /** 1-based visit number among visits to node_id — matches the viewer's ?visit= param. */
+  visit: number;
+  source: SearchSource;
+  tool_name?: string;
+  snippet: string;
+  score: number;
+  graph_name: string | null;
+  run_status: string | null;
+  started_at: string | null;
+}
+
+export interface SearchResult {
+  query: string;
+  hits: SearchHit[];
+  total: number;
+  indexed_runs: number;
+}
+
+interface SearchQuery {
+  terms: string[];
+  /** Quoted phrases, lowercased; each must appear verbatim. */
+  phrases: string[];
+}
+
+interface SearchDoc {
+  runId: string;
+  nodeId: string;
+  stagePath: string;
+  visit: number;
+  source: SearchSource;
+  toolName?: string;
+  text: string;
+}
+
+interface IndexedRun {
+  /** file path → fingerprint and the docs it produced */
+  files: Map<string, { fingerprint: string; docIds: number[] }>;
+  terminal: boolean;
+  dirty: boolean;
+  indexedAt: number;
+  graphName: string | null;
+  runStatus: string | null;
+  startedAt: string | null;
+}
+
+/** The parts of RunWatcher the index reads through (narrowed for tests). */
+export type SearchRunSource = Pick<RunWatcher, "listRuns" | "findRunDir" | "readOnce">;
+
+/** Per-document text cap — tool outputs can be megabytes of build logs. */
+const MAX_DOC_CHARS = 64 * 1024;
+/** Skip events.ndjson files larger than this rather than parse them on every refresh. */
+const MAX_EVENTS_BYTES = 32 * 1024 * 1024;
+/** Live runs are re-scanned at most this often; finished runs only when the watcher reports a change. */
+const LIVE_RESCAN_MS = 30_000;
+const SNIPPET_RADIUS = 80;
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+const TERMINAL_STATUSES = new Set(["completed", "failed", "interrupted"]);
+
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().split(/[^a-z0-9_]+/).filter((t) => t.length > 0);
+}
+
+/** `flaky "test_login times out"` → terms [flaky, test_login, times, out], phrases ["test_login times out"]. */
+export function parseSearchQuery(raw: string): SearchQuery {
+  const phrases: string[] = [];
+  const rest = raw.replace(/"([^"]*)"/g, (_m, phrase: string) => {
+    const p = phrase.trim().toLowerCase();
+    if (p) phrases.push(p);
+    return ` ${phrase} `;
+  });
+  return { terms: [...new Set(tokenize(rest))], phrases };
+}
+
+function fileFingerprint(st: { mtimeMs: number; size: number }): string {
+  return `${st.mtimeMs}:${st.size}`;
+}
+
+function makeSnippet(text: string, needles: string[]): string {
+  const lower = text.toLowerCase();
+  let at = -1;
+  let len = 0;
+  for (const n of needles) {
+    const i = lower.indexOf(n);
+    if (i !== -1 && (at === -1 || i < at)) { at = i; len = n.length; }
+  }
+  if (at === -1) at = 0;
+  const start = Math.max(0, at - SNIPPET_RADIUS);
+  const end = Math.min(text.length, at + len + SNIPPET_RADIUS);
+  const body = text.slice(start, end).replace(/\s+/g, " ").trim();
+  return `${start > 0 ? "…" : ""}${body}${end < text.length ? "…" : ""}`;
+}
+
+function countOccurrences(haystack: string, needle: string): number {
+  let n = 0;
+  for (let i = haystack.indexOf(needle); i !== -1 && n < 50; i = haystack.indexOf(needle, i + needle.length)) n++;
+  return n;
+}
+
+/**
+ * The stage directory holds the files of the most recent visit to that stage
+ * path (earlier attempts are overwritten), so each path maps to its last visit.
+ */
+function stageVisits(state: RunState): Map<string, { nodeId: string; visit: number }> {
+  const byPath = new Map<string, { nodeId: string; visit: number }>();
+  const visitCount = new Map<string, number>();
+  for (const v of state.stageHistory ?? []) {
+    const n = (visitCount.get(v.node_id) ?? 0) + 1;
+    visitCount.set(v.node_id, n);
+    byPath.set(v.stage_path ?? v.node_id, { nodeId: v.node_id, visit: n });
+  }
+  return byPath;
+}
+
+/**
+ * In-memory inverted index over stage artifacts of every run. Refreshes are
+ * incremental: files are re-read only when their mtime/size changed, and
+ * finished runs are not re-scanned unless the watcher reports an update.
+ */
+export class RunSearchIndex {
+  private nextDocId = 1;
+  private readonly docs = new Map<number, SearchDoc>();
+  private readonly postings = new Map<string, Set<number>>();
+  private readonly runs = new Map<string, IndexedRun>();
+  private refreshing: Promise<void> | null = null;
+
+  constructor(private source: SearchRunSource) {}
+
+  markDirty(runId: string) {
+    const run = this.runs.get(runId);
+    if (run) run.dirty = true;
+  }
+
+  /** Bring the index up to date. Concurrent callers share one pass. */
+  refresh(): Promise<void> {
+    if (!this.refreshing) {
+      this.refreshing = this.refreshAll().finally(() => { this.refreshing = null; });
+    }
+    return this.refreshing;
+  }
+
+  get indexedRuns(): number {
+    return this.runs.size;
+  }
+
+  search(raw: string, opts: { runId?: string; sources?: Set<SearchSource>; limit?: number } = {}): SearchResult {
+    const query = parseSearchQuery(raw);
+    const limit = Math.min(Math.max(opts.limit ?? DEFAULT_LIMIT, 1), MAX_LIMIT);
+    const tokens = [...new Set([...query.terms, ...query.phrases.flatMap(tokenize)])];
+    if (tokens.length === 0) return { query: raw, hits: [], total: 0, indexed_runs: this.runs.size };
+
+    // Intersect postings, smallest list first.
+    const lists = tokens.map((t) => this.postings.get(t) ?? new Set<number>()).sort((a, b) => a.size - b.size);
+    const hits: SearchHit[] = [];
+    for (const docId of lists[0]) {
+      if (!lists.every((l) => l.has(docId))) continue;
+      const doc = this.docs.get(docId);
+      if (!doc) continue;
+      if (opts.runId && doc.runId !== opts.runId) continue;
+      if (opts.sources && !opts.sources.has(doc.source)) continue;
+      const lower = doc.text.toLowerCase();
+      if (!query.phrases.every((p) => lower.includes(p))) continue;
+
+      const needles = [...query.phrases, ...query.terms];
+      const score = needles.reduce((sum, n) => sum + countOccurrences(lower, n), 0);
+      const run = this.runs.get(doc.runId);
+      hits.push({
+        run_id: doc.runId,
+        node_id: doc.nodeId,
+        stage_path: doc.stagePath,
+        visit: doc.visit,
+        source: doc.source,
+        ...(doc.toolName ? { tool_name: doc.toolName } : {}),
+        snippet: makeSnippet(doc.text, needles),
+        score,
+        graph_name: run?.graphName ?? null,
+        run_status: run?.runStatus ?? null,
+        started_at: run?.startedAt ?? null,
+      });
+    }
+
+    hits.sort((a, b) => b.score - a.score || (b.started_at ?? "").localeCompare(a.started_at ?? ""));
+    return { query: raw, hits: hits.slice(0, limit), total: hits.length, indexed_runs: this.runs.size };
+  }
+
+  private async refreshAll() {
+    const listed = await this.source.listRuns();
+    const present = new Set(listed.map((r) => r.id));
+    for (const runId of [...this.runs.keys()]) {
+      if (!present.has(runId)) this.dropRun(runId);
+    }
+    const now = Date.now();
+    for (const { id } of listed) {
+      const run = this.runs.get(id);
+      if (run && !run.dirty && (run.terminal || now - run.indexedAt < LIVE_RESCAN_MS)) continue;
+      try {
+        await this.indexRun(id);
+      } catch (err) {
+        console.error(`[RunSearchIndex] failed to index ${id}:`, err);
+      }
+    }
+  }
+
+  private async indexRun(runId: string) {
+    const runDir = await this.source.findRunDir(runId);
+    const state = runDir ? await this.source.readOnce(runId) : null;
+    if (!runDir || !state) {
+      this.dropRun(runId);
+      return;
+    }
+
+    let run = this.runs.get(runId);
+    if (!run) {
+      run = {
+        files: new Map(), terminal: false, dirty: false, indexedAt: 0,
+        graphName: null, runStatus: null, startedAt: null,
+      };
+      this.runs.set(runId, run);
+    }
+    run.dirty = false;
+    run.indexedAt = Date.now();
+    run.terminal = TERMINAL_STATUSES.has(state.computedStatus);
+    run.graphName = state.run.dot_file ?? null;
+    run.runStatus = state.computedStatus;
+    run.startedAt = state.run.started_at ?? null;
+
+    const seen = new Set<string>();
+    for (const [stagePath, { nodeId, visit }] of stageVisits(state)) {
+      const stageDir = join(runDir, stagePath);
+      const base = { runId, nodeId, stagePath, visit };
+      for (const file of ["prompt.md", "response.md", "status.json", "events.ndjson"]) {
+        const path = join(stageDir, file);
+        seen.add(path);
+        let fingerprint: string;
+        try {
+          const st = await stat(path);
+          if (file === "events.ndjson" && st.size > MAX_EVENTS_BYTES) continue;
+          fingerprint = fileFingerprint(st);
+        } catch {
+          this.dropFile(run, path);
+          continue;
+        }
+        const prev = run.files.get(path);
+        // Visit numbers shift when a stage is re-run, so the doc must be rebuilt then too.
+        const key = `${fingerprint}@${visit}`;
+        if (prev?.fingerprint === key) continue;
+        this.dropFile(run, path);
+        const raw = await readFile(path, "utf8").catch(() => "");
+        const docIds = extractDocs(file, raw).map((d) => this.addDoc({ ...base, ...d }));
+        run.files.set(path, { fingerprint: key, docIds });
+      }
+    }
+    for (const path of [...run.files.keys()]) {
+      if (!seen.has(path)) this.dropFile(run, path);
+    }
+  }
+
+  private addDoc(doc: SearchDoc): number {
+    const id = this.nextDocId++;
+    this.docs.set(id, doc);
+    for (const token of new Set(tokenize(doc.text))) {
+      let list = this.postings.get(token);
+      if (!list) { list = new Set(); this.postings.set(token, list); }
+      list.add(id);
+    }
+    return id;
+  }
+
+  private dropFile(run: IndexedRun, path: string) {
+    const entry = run.files.get(path);
+    if (!entry) return;
+    for (const id of entry.docIds) {
+      const doc = this.docs.get(id);
+      if (!doc) continue;
+      for (const token of new Set(tokenize(doc.text))) {
+        const list = this.postings.get(token);
+        list?.delete(id);
+        if (list && list.size === 0) this.postings.delete(token);
+      }
+      this.docs.delete(id);
+    }
+    run.files.delete(path);
+  }
+
+  private dropRun(runId: string) {
+    const run = this.runs.get(runId);
+    if (!run) return;
+    for (const path of [...run.files.keys()]) this.dropFile(run, path);
+    this.runs.delete(runId);
+  }
+}
+
+/** Searchable text of one stage artifact. events.ndjson yields one doc per tool call. */
+function extractDocs(file: string, raw: string): { source: SearchSource; toolName?: string; text: string }[] {
+  const cap = (text: string) => text.slice(0, MAX_DOC_CHARS);
+  switch (file) {
+    case "prompt.md":
+      return raw.trim() ? [{ source: "prompt", text: cap(raw) }] : [];
+    case "response.md":
+      return raw.trim() ? [{ source: "response", text: cap(raw) }] : [];
+    case "status.json": {
+      try {
+        const status = JSON.parse(raw) as Record<string, unknown>;
+        const reason = typeof status.failure_reason === "string" ? status.failure_reason : "";
+        return reason ? [{ source: "failure_reason", text: cap(reason) }] : [];
+      } catch {
+        return [];
+      }
+    }
+    case "events.ndjson": {
+      const docs: { source: SearchSource; toolName?: string; text: string }[] = [];
+      for (const turn of parseEventsTurns(raw).turns) {
+        if (turn.role !== "assistant") continue;
+        for (const step of turn.steps) {
+          const call = step.tool_call;
+          if (call?.output) docs.push({ source: "tool_output", toolName: call.tool_name, text: cap(call.output) });
+        }
+      }
+      return docs;
+    }
+    default:
+      return [];
+  }
+}
+
+function csvParam(value: unknown): string[] {
+  return String(value ?? "").split(",").map((v) => v.trim()).filter(Boolean);
+}
+
+export function registerSearchRoutes(app: Express, opts: { watcher: RunWatcher }) {
+  const { watcher } = opts;
+  const index = new RunSearchIndex(watcher);
+  watcher.on("update", (runId: string) => index.markDirty(runId));
+
+  /**
+   * Full-text search across runs. Query: ?q=ENOSPC &source=tool_output,response
+   * &run=<id> &limit=50. Quoted phrases in q must match verbatim; all words
+   * must appear in the same artifact.
+   */
+  app.get("/api/search", async (req: Request, res: Response) => {
+    const q = String(req.query["q"] ?? "").trim();
+    if (!q) { res.status(400).json({ error: "q required" }); return; }
+    const sources = csvParam(req.query["source"]);
+    const unknown = sources.find((s) => !(SEARCH_SOURCES as readonly string[]).includes(s));
+    if (unknown) {
+      res.status(400).json({ error: `unknown source "${unknown}" (expected one of ${SEARCH_SOURCES.join(", ")})` });
+      return;
+    }
+    const limit = parseInt(String(req.query["limit"] ?? ""), 10);
+    await index.refresh();
+    res.json(index.search(q, {
+      runId: String(req.query["run"] ?? "").trim() || undefined,
+      sources: sources.length > 0 ? new Set(sources as SearchSource[]) : undefined,
+      limit: Number.isFinite(limit) ? limit : undefined,
+    }));
+  });
+}
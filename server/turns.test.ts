@@ -0,0 +1,67 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { parseEventsTurns } from "./turns.js";
+
+const ndjson = (events: unknown[]) => events.map((e) => JSON.stringify(e)).join("\n");
+
+test("Claude Code: result usage is authoritative, cache buckets kept apart", () => {
+  const raw = ndjson([
+    { type: "system", session_id: "s1", model: "claude-sonnet" },
+    { type: "assistant", message: { id: "m1", content: [{ type: "text", text: "hi" }], usage: { input_tokens: 10, output_tokens: 5 } } },
+    {
+      type: "result",
+      result: "done",
+      usage: { input_tokens: 120, output_tokens: 300, cache_read_input_tokens: 9000, cache_creation_input_tokens: 1500 },
+    },
+  ]);
+  assert.deepEqual(parseEventsTurns(raw).usage, {
+    input_tokens: 120, output_tokens: 300, cache_read_tokens: 9000, cache_write_tokens: 1500,
+  });
+});
+
+test("Claude Code without a result sums messages, taking message_delta output counts", () => {
+  const raw = ndjson([
+    { type: "system", session_id: "s1", model: "claude-sonnet" },
+    { type: "stream_event", event: { type: "message_start", message: { id: "m1", usage: { input_tokens: 10, output_tokens: 1, cache_read_input_tokens: 100 } } } },
+    { type: "stream_event", event: { type: "message_delta", usage: { output_tokens: 40 } } },
+    { type: "assistant", message: { id: "m1", content: [{ type: "text", text: "a" }], usage: { input_tokens: 10, output_tokens: 1, cache_read_input_tokens: 100 } } },
+    { type: "assistant", message: { id: "m2", content: [{ type: "text", text: "b" }], usage: { input_tokens: 20, output_tokens: 7 } } },
+  ]);
+  assert.deepEqual(parseEventsTurns(raw).usage, {
+    input_tokens: 30, output_tokens: 47, cache_read_tokens: 100, cache_write_tokens: 0,
+  });
+});
+
+test("Codex turn.completed usage: cached input is split out of input_tokens", () => {
+  const raw = ndjson([
+    { type: "thread.started", thread_id: "t" },
+    { type: "turn.completed", usage: { input_tokens: 1000, cached_input_tokens: 800, output_tokens: 50 } },
+    { type: "turn.completed", usage: { input_tokens: 500, cached_input_tokens: 0, output_tokens: 25 } },
+  ]);
+  assert.deepEqual(parseEventsTurns(raw).usage, {
+    input_tokens: 700, output_tokens: 75, cache_read_tokens: 800, cache_write_tokens: 0,
+  });
+});
+
+test("Kilroy usage blocks are summed; logs without usage report none", () => {
+  const raw = ndjson([
+    { kind: "SESSION_START", session_id: "s", data: { model: "gpt-5", profile: "openai" } },
+    { kind: "ASSISTANT_TEXT_END", data: { text: "x", usage: { input_tokens: 400, output_tokens: 20, cache_read_tokens: 300 } } },
+    { kind: "ASSISTANT_TEXT_END", data: { text: "y", usage: { input_tokens: 100, output_tokens: 10 } } },
+  ]);
+  assert.deepEqual(parseEventsTurns(raw).usage, {
+    input_tokens: 200, output_tokens: 30, cache_read_tokens: 300, cache_write_tokens: 0,
+  });
+  assert.equal(parseEventsTurns(ndjson([{ kind: "SESSION_START", data: {} }])).usage, undefined);
+});
+
+test("Kilroy usage inclusivity follows the profile, not the counts", () => {
+  // Anthropic counts are exclusive even when fresh input exceeds the cache reads.
+  const raw = ndjson([
+    { kind: "SESSION_START", session_id: "s", data: { model: "claude-sonnet-4-5", profile: "anthropic" } },
+    { kind: "ASSISTANT_TEXT_END", data: { text: "x", usage: { input_tokens: 900, output_tokens: 20, cache_read_tokens: 300, cache_write_tokens: 100 } } },
+  ]);
+  assert.deepEqual(parseEventsTurns(raw).usage, {
+    input_tokens: 900, output_tokens: 20, cache_read_tokens: 300, cache_write_tokens: 100,
+  });
+});
@@ -0,0 +1,396 @@
+// ── Turn parsing ────────────────────────────────────────────────────────────
+
+export interface ToolCallRecord {
+  call_id: string;
+  tool_name: string;
+  arguments: unknown;
+  output: string;
+  is_error: boolean;
+}
+
+export interface AssistantStep {
+  text?: string;
+  thinking?: string;
+  tool_call?: ToolCallRecord;
+}
+
+export interface TurnUser {
+  role: "user";
+  text: string;
+}
+
+export interface TurnAssistant {
+  role: "assistant";
+  steps: AssistantStep[];
+}
+
+/**
+ * Provider-reported token counts, normalised so the four buckets are disjoint:
+ * `input_tokens` is uncached prompt input only.
+ */
+export interface TokenUsage {
+  input_tokens: number;
+  output_tokens: number;
+  cache_read_tokens: number;
+  cache_write_tokens: number;
+}
+
+/** Where a stage's prices came from: the local pricing table or the run's OpenRouter modeldb. */
+export interface PricingSource {
+  kind: "table" | "modeldb";
+  /** File the prices were read from. */
+  path: string;
+  /** Matched table model or modeldb id. */
+  entry: string;
+  provider?: string;
+  effective_from?: string;
+}
+
+export interface PricingEstimate {
+  model_id: string;
+  /** "usage" when the event stream carried real counts; "estimate" when priced from chars / 4. */
+  token_source: "usage" | "estimate";
+  actual_usage: TokenUsage | null;
+  estimated_input_tokens: number;
+  estimated_output_tokens: number;
+  /** Cost of actual_usage when present, otherwise of the estimated counts. */
+  estimated_cost_usd: number | null;
+  prompt_price_per_token: number | null;
+  completion_price_per_token: number | null;
+  cache_read_price_per_token: number | null;
+  cache_write_price_per_token: number | null;
+  /** Null when no source had a price for the model. */
+  pricing_source: PricingSource | null;
+}
+
+export interface TurnsResponse {
+  session_id?: string;
+  model?: string;
+  profile?: string;
+  turns: (TurnUser | TurnAssistant)[];
+  pricing?: PricingEstimate;
+  response_text?: string;
+  /** Summed provider usage; absent when the events carry none (older logs). */
+  usage?: TokenUsage;
+}
+
+function num(v: unknown): number {
+  return typeof v === "number" && Number.isFinite(v) ? v : 0;
+}
+
+/**
+ * Normalise one provider usage block. Field names differ per provider
+ * (Anthropic: cache_*_input_tokens; OpenAI/Codex: cached_input_tokens), and so
+ * does whether `input_tokens` already includes cache reads — `inputIncludesCached`
+ * says which, so cached input is never counted twice.
+ */
+export function normalizeUsage(raw: Record<string, unknown> | null | undefined, inputIncludesCached: boolean): TokenUsage | null {
+  if (!raw || typeof raw !== "object") return null;
+  const details = raw.prompt_tokens_details;
+  const input = num(raw.input_tokens ?? raw.prompt_tokens);
+  const output = num(raw.output_tokens ?? raw.completion_tokens);
+  const cacheRead = num(raw.cache_read_tokens ?? raw.cache_read_input_tokens ?? raw.cached_input_tokens
+    ?? (details && typeof details === "object" ? (details as Record<string, unknown>).cached_tokens : undefined));
+  const cacheWrite = num(raw.cache_write_tokens ?? raw.cache_creation_input_tokens);
+  if (input + output + cacheRead + cacheWrite === 0) return null;
+  return {
+    input_tokens: inputIncludesCached ? Math.max(0, input - cacheRead - cacheWrite) : input,
+    output_tokens: output,
+    cache_read_tokens: cacheRead,
+    cache_write_tokens: cacheWrite,
+  };
+}
+
+/**
+ * Whether a provider counts cached input inside `input_tokens`. Anthropic
+ * reports cache reads and writes as separate buckets; OpenAI-compatible APIs
+ * and Gemini fold them into the prompt count.
+ */
+function providerInputIncludesCached(provider: string | undefined): boolean {
+  return !/^(anthropic|claude)/i.test(provider ?? "");
+}
+
+export function addUsage(a: TokenUsage | undefined, b: TokenUsage | null): TokenUsage | undefined {
+  if (!b) return a;
+  if (!a) return { ...b };
+  return {
+    input_tokens: a.input_tokens + b.input_tokens,
+    output_tokens: a.output_tokens + b.output_tokens,
+    cache_read_tokens: a.cache_read_tokens + b.cache_read_tokens,
+    cache_write_tokens: a.cache_write_tokens + b.cache_write_tokens,
+  };
+}
+
+export function parseEventsTurns(raw: string): TurnsResponse {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const events: any[] = [];
+  for (const line of raw.split("\n")) {
+    const l = line.trim();
+    if (!l) continue;
+    try { events.push(JSON.parse(l)); } catch { /* skip malformed */ }
+  }
+
+  // Fingerprint by first event:
+  //   Kilroy format   → { kind: "SESSION_START", ... }
+  //   Claude Code     → { type: "system", ... }
+  //   Codex           → { type: "thread.started", ... }
+  const firstEv = events[0];
+  if (firstEv?.kind) return parseKilroyEvents(events);
+  if (firstEv?.type === "thread.started") return parseCodexEvents(events);
+  return parseClaudeCodeEvents(events);
+}
+
+// ── Kilroy format parser (kind: SESSION_START / USER_INPUT / TOOL_CALL_* / ASSISTANT_TEXT_END)
+
+function parseKilroyEvents(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  events: any[],
+): TurnsResponse {
+  let session_id: string | undefined;
+  let model: string | undefined;
+  let profile: string | undefined;
+
+  const turns: (TurnUser | TurnAssistant)[] = [];
+  const assistantSteps: AssistantStep[] = [];
+  const pendingCalls = new Map<string, { tool_name: string; arguments: unknown }>();
+  let usage: TokenUsage | undefined;
+
+  const flushAssistant = () => {
+    if (assistantSteps.length > 0) {
+      turns.push({ role: "assistant", steps: [...assistantSteps] });
+      assistantSteps.length = 0;
+    }
+  };
+
+  // Any event kind may carry a per-request usage block in the provider's own
+  // convention; they are normalised once the session's profile is known.
+  const usageBlocks: Record<string, unknown>[] = [];
+
+  for (const ev of events) {
+    const d = ev.data ?? {};
+    if (d.usage && typeof d.usage === "object") usageBlocks.push(d.usage);
+    switch (ev.kind) {
+      case "SESSION_START":
+        session_id = ev.session_id;
+        model = String(d.model ?? "");
+        profile = String(d.profile ?? "");
+        break;
+      case "USER_INPUT":
+        flushAssistant();
+        turns.push({ role: "user", text: String(d.text ?? "") });
+        break;
+      case "TOOL_CALL_START": {
+        let args: unknown;
+        try { args = JSON.parse(String(d.arguments_json ?? "{}")); } catch { args = d.arguments_json; }
+        pendingCalls.set(String(d.call_id), { tool_name: String(d.tool_name ?? ""), arguments: args });
+        break;
+      }
+      case "TOOL_CALL_END": {
+        const callId = String(d.call_id ?? "");
+        const pending = pendingCalls.get(callId);
+        if (pending) {
+          assistantSteps.push({
+            tool_call: {
+              call_id: callId,
+              tool_name: String(d.tool_name ?? pending.tool_name),
+              arguments: pending.arguments,
+              output: String(d.full_output ?? ""),
+              is_error: Boolean(d.is_error),
+            },
+          });
+          pendingCalls.delete(callId);
+        }
+        break;
+      }
+      case "ASSISTANT_TEXT_END": {
+        const text = String(d.text ?? "");
+        if (text) assistantSteps.push({ text });
+        break;
+      }
+    }
+  }
+
+  flushAssistant();
+  const inclusive = providerInputIncludesCached(profile);
+  for (const block of usageBlocks) usage = addUsage(usage, normalizeUsage(block, inclusive));
+  return { session_id, model: model || undefined, profile: profile || undefined, turns, usage };
+}
+
+// ── Claude Code native format parser (type: system / assistant / user / result)
+// Each assistant event has a message.id — events with the same id belong to one turn.
+// Content blocks: thinking, text, tool_use. Tool results arrive in subsequent user events.
+
+function parseClaudeCodeEvents(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  events: any[],
+): TurnsResponse {
+  let session_id: string | undefined;
+  let model: string | undefined;
+  let response_text: string | undefined;
+
+  const turns: (TurnUser | TurnAssistant)[] = [];
+  let currentMsgId: string | undefined;
+  const currentSteps: AssistantStep[] = [];
+  // Per-message usage: assistant events repeat the message's usage once per
+  // content block, and message_delta carries the final (cumulative) output count.
+  const messageUsage = new Map<string, TokenUsage>();
+  let streamMsgId: string | undefined;
+  let resultUsage: TokenUsage | null = null;
+
+  const flushAssistant = () => {
+    if (currentSteps.length > 0) {
+      turns.push({ role: "assistant", steps: [...currentSteps] });
+      currentSteps.length = 0;
+    }
+    currentMsgId = undefined;
+  };
+
+  for (const ev of events) {
+    const evType = ev.type;
+
+    if (evType === "system") {
+      session_id = ev.session_id;
+      model = ev.model;
+    } else if (evType === "stream_event" || evType === "message_start" || evType === "message_delta") {
+      // Partial-message stream (--include-partial-messages), wrapped or bare.
+      const sev = evType === "stream_event" ? ev.event : ev;
+      if (sev?.type === "message_start" && sev.message?.id) {
+        streamMsgId = String(sev.message.id);
+        const u = normalizeUsage(sev.message.usage, false);
+        if (u) messageUsage.set(streamMsgId, u);
+      } else if (sev?.type === "message_delta" && streamMsgId) {
+        const prev = messageUsage.get(streamMsgId);
+        const u = normalizeUsage({ ...prev, ...sev.usage }, false);
+        if (u) messageUsage.set(streamMsgId, u);
+      }
+    } else if (evType === "assistant") {
+      const msg = ev.message;
+      const msgId: string | undefined = msg?.id;
+      if (!msgId) continue;
+
+      const u = normalizeUsage(msg.usage, false);
+      const prev = messageUsage.get(msgId);
+      if (u && (!prev || u.output_tokens >= prev.output_tokens)) messageUsage.set(msgId, u);
+
+      if (currentMsgId && currentMsgId !== msgId) {
+        flushAssistant();
+      }
+      currentMsgId = msgId;
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      for (const block of (msg.content ?? []) as any[]) {
+        if (block.type === "thinking" && block.thinking) {
+          currentSteps.push({ thinking: String(block.thinking) });
+        } else if (block.type === "text" && block.text) {
+          currentSteps.push({ text: String(block.text) });
+        } else if (block.type === "tool_use") {
+          currentSteps.push({
+            tool_call: {
+              call_id: String(block.id ?? ""),
+              tool_name: String(block.name ?? ""),
+              arguments: (block.input ?? {}) as Record<string, unknown>,
+              output: "",
+              is_error: false,
+            },
+          });
+        }
+      }
+    } else if (evType === "user") {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      for (const block of (ev.message?.content ?? []) as any[]) {
+        if (block.type === "tool_result") {
+          const toolId = String(block.tool_use_id ?? "");
+          const step = currentSteps.find((s) => s.tool_call?.call_id === toolId);
+          if (step?.tool_call) {
+            const raw = block.content;
+            step.tool_call.output = typeof raw === "string"
+              ? raw
+              // eslint-disable-next-line @typescript-eslint/no-explicit-any
+              : Array.isArray(raw) ? (raw as any[]).map((c) => (typeof c === "string" ? c : (c.text ?? JSON.stringify(c)))).join("") : JSON.stringify(raw);
+            step.tool_call.is_error = Boolean(block.is_error);
+          }
+        }
+      }
+    } else if (evType === "result") {
+      if (ev.result) response_text = String(ev.result);
+      // The session total is authoritative when present.
+      resultUsage = normalizeUsage(ev.usage, false);
+    }
+  }
+
+  flushAssistant();
+  let usage: TokenUsage | undefined = resultUsage ?? undefined;
+  if (!usage) {
+    for (const u of messageUsage.values()) usage = addUsage(usage, u);
+  }
+  return { session_id, model: model || undefined, turns, response_text, usage };
+}
+
+// ── Codex format parser (type: thread.started / item.started / item.completed / turn.*)
+// Items: reasoning (thinking), command_execution (shell), file_change, agent_message (final text)
+
+function parseCodexEvents(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  events: any[],
+): TurnsResponse {
+  const steps: AssistantStep[] = [];
+  let response_text: string | undefined;
+  let usage: TokenUsage | undefined;
+
+  for (const ev of events) {
+    // Codex input_tokens include cached_input_tokens.
+    if (ev.type === "turn.completed") usage = addUsage(usage, normalizeUsage(ev.usage, true));
+    if (ev.type !== "item.completed") continue;
+    const item = ev.item;
+    if (!item) continue;
+
+    switch (item.type) {
+      case "reasoning":
+        if (item.text) steps.push({ thinking: String(item.text) });
+        break;
+      case "command_execution":
+        steps.push({
+          tool_call: {
+            call_id: String(item.id ?? ""),
+            tool_name: "command_execution",
+            arguments: { command: String(item.command ?? "") },
+            output: String(item.aggregated_output ?? ""),
+            is_error: typeof item.exit_code === "number" && item.exit_code !== 0,
+          },
+        });
+        break;
+      case "file_change": {
+        const changes: Array<{ path?: string; kind?: string }> =
+          Array.isArray(item.changes) ? item.changes : [];
+        const changesText = changes.map((c) => `${c.kind ?? "?"}: ${c.path ?? ""}`).join("\n");
+        steps.push({
+          tool_call: {
+            call_id: String(item.id ?? ""),
+            tool_name: "file_change",
+            arguments: { changes },
+            output: changesText,
+            is_error: false,
+          },
+        });
+        break;
+      }
+      case "agent_message": {
+        // agent_message.text may be JSON: { final: "...", summary: "..." }
+        let text = String(item.text ?? "");
+        try {
+          const parsed = JSON.parse(text) as Record<string, unknown>;
+          if (typeof parsed.final === "string") text = parsed.final;
+        } catch { /* plain text */ }
+        response_text = text;
+        if (text) steps.push({ text });
+        break;
+      }
+    }
+  }
+
+  return {
+    turns: steps.length > 0 ? [{ role: "assistant", steps }] : [],
+    response_text,
+    usage,
+  };
+}
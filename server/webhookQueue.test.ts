@@ -0,0 +1,103 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import type { ProgressWebhookSubscription } from "./runWatcher.js";
+import { ProgressWebhookQueue, computeRetryDelay, type WebhookRetryPolicy } from "./webhookQueue.js";
+
+const FAST_POLICY: WebhookRetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 1,
+  maxDelayMs: 5,
+  maxPending: 10,
+  maxDeadLetters: 10,
+};
+
+function makeSub(): ProgressWebhookSubscription {
+  return {
+    id: "sub-1",
+    runId: "run-1",
+    webhookUrl: "http://example.invalid/hook",
+    createdAt: "2026-03-20T00:00:00Z",
+  };
+}
+
+async function settle(queue: ProgressWebhookQueue, sub: ProgressWebhookSubscription): Promise<void> {
+  for (let i = 0; i < 100 && (sub.pending?.length ?? 0) > 0; i++) {
+    await new Promise((r) => setTimeout(r, 10));
+    await queue.drain(sub);
+  }
+}
+
+test("retry delay grows exponentially and respects the cap", () => {
+  const policy = { ...FAST_POLICY, baseDelayMs: 1000, maxDelayMs: 10_000 };
+  assert.ok(computeRetryDelay(1, policy) <= 1200);
+  assert.ok(computeRetryDelay(3, policy) >= 3200);
+  assert.ok(computeRetryDelay(10, policy) <= 12_000);
+});
+
+test("failed delivery is retried until it succeeds", async () => {
+  let calls = 0;
+  const queue = new ProgressWebhookQueue(FAST_POLICY, () => {}, async () => {
+    calls++;
+    if (calls < 2) throw new Error("webhook 503: down");
+  });
+  const sub = makeSub();
+  queue.enqueue(sub, "digest-a", { event_type: "run_progress" });
+  await settle(queue, sub);
+
+  assert.equal(calls, 2);
+  assert.equal(sub.pending?.length, 0);
+  assert.equal(sub.lastDeliveryDigest, "digest-a");
+  assert.equal(sub.lastError, undefined);
+  queue.close();
+});
+
+test("exhausted delivery is dead-lettered and can be replayed", async () => {
+  let healthy = false;
+  const delivered: string[] = [];
+  const queue = new ProgressWebhookQueue(FAST_POLICY, () => {}, async (_sub, delivery) => {
+    if (!healthy) throw new Error("webhook 502: bad gateway");
+    delivered.push(delivery.digest);
+  });
+  const sub = makeSub();
+  queue.enqueue(sub, "digest-terminal", { event_type: "run_progress" });
+  await settle(queue, sub);
+
+  assert.equal(sub.pending?.length, 0);
+  assert.equal(sub.deadLetters?.length, 1);
+  assert.equal(sub.deadLetters?.[0].attempts, 3);
+  assert.equal(sub.deadLetters?.[0].lastError, "webhook 502: bad gateway");
+
+  healthy = true;
+  const replayed = queue.replay(sub);
+  assert.equal(replayed.length, 1);
+  await settle(queue, sub);
+
+  assert.deepEqual(delivered, ["digest-terminal"]);
+  assert.equal(sub.deadLetters?.length, 0);
+  queue.close();
+});
+
+test("coalesced snapshots keep one per run and never replace an outcome or the in-flight head", async () => {
+  let release!: () => void;
+  const gate = new Promise<void>((r) => { release = r; });
+  const delivered: string[] = [];
+  const queue = new ProgressWebhookQueue({ ...FAST_POLICY, maxPending: 4 }, () => {}, async (_sub, delivery) => {
+    await gate;
+    delivered.push(delivery.digest);
+  });
+  const sub = { ...makeSub(), runId: "*" };
+  queue.enqueue(sub, "a1", {}, "run-a");
+  queue.enqueue(sub, "b1", {}, "run-b");
+  for (const digest of ["a2", "a3", "a4", "a5"]) queue.enqueue(sub, digest, {}, "run-a");
+  queue.enqueue(sub, "a-done", {});
+  queue.enqueue(sub, "a6", {}, "run-a");
+  assert.deepEqual(sub.pending?.map((d) => d.digest), ["a1", "b1", "a-done", "a6"]);
+
+  // Overflow dead-letters the oldest waiting delivery, not the one being sent.
+  queue.enqueue(sub, "c1", {}, "run-c");
+  assert.deepEqual(sub.deadLetters?.map((d) => d.digest), ["b1"]);
+  release();
+  await settle(queue, sub);
+  assert.deepEqual(delivered, ["a1", "a-done", "a6", "c1"]);
+  queue.close();
+});
@@ -0,0 +1,244 @@
+import { randomUUID } from "node:crypto";
+import type { ProgressWebhookSubscription } from "./runWatcher.js";
+import { DELIVERY_ID_HEADER, signatureHeaders } from "./webhookSignature.js";
+
+/** One queued POST for a subscription. Persisted with the subscription so retries survive restarts. */
+export interface ProgressWebhookDelivery {
+  id: string;
+  digest: string;
+  payload: Record<string, unknown>;
+  enqueuedAt: string;
+  attempts: number;
+  nextAttemptAt?: string;
+  lastAttemptAt?: string;
+  lastError?: string;
+  deadLetteredAt?: string;
+  /** Set for run snapshots on global subscriptions: a newer snapshot with the same key replaces this one while it waits. */
+  coalesceKey?: string;
+}
+
+export interface WebhookRetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /**
+   * Pending deliveries kept per subscription; older ones are dead-lettered on
+   * overflow. Coalesced snapshots count once per key, so a global
+   * subscription holds about one per run plus each run's outcome.
+   */
+  maxPending: number;
+  /** Dead letters kept per subscription; the oldest are discarded beyond this. */
+  maxDeadLetters: number;
+}
+
+export const DEFAULT_WEBHOOK_RETRY_POLICY: WebhookRetryPolicy = {
+  maxAttempts: 10,
+  baseDelayMs: 5_000,
+  maxDelayMs: 5 * 60_000,
+  maxPending: 100,
+  maxDeadLetters: 50,
+};
+
+/** Delay before attempt `attempts + 1`: base · 2^(attempts-1), capped, with ±20% jitter. */
+export function computeRetryDelay(attempts: number, policy: WebhookRetryPolicy): number {
+  const exp = policy.baseDelayMs * 2 ** Math.max(0, attempts - 1);
+  const capped = Math.min(exp, policy.maxDelayMs);
+  const jitter = capped * 0.2 * (Math.random() * 2 - 1);
+  return Math.max(0, Math.round(capped + jitter));
+}
+
+/** Globally unique and stable across retries, so receivers can dedupe on it. */
+export function newDeliveryId(): string {
+  return randomUUID();
+}
+
+export async function postWebhookDelivery(
+  sub: ProgressWebhookSubscription,
+  delivery: ProgressWebhookDelivery,
+): Promise<void> {
+  const body = JSON.stringify({
+    ...delivery.payload,
+    delivery_id: delivery.id,
+    sent_at: new Date().toISOString(),
+  });
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    Accept: "application/json",
+    [DELIVERY_ID_HEADER]: delivery.id,
+    "X-Kilroy-Delivery-Attempt": String(delivery.attempts + 1),
+  };
+  if (sub.authToken) {
+    headers["Authorization"] = `Bearer ${sub.authToken}`;
+  }
+  if (sub.signingSecret) {
+    // Signed per attempt: each retry carries a fresh timestamp.
+    Object.assign(headers, signatureHeaders(sub.signingSecret, body));
+  }
+
+  const response = await fetch(sub.webhookUrl, {
+    method: "POST",
+    headers,
+    body,
+    signal: AbortSignal.timeout(15_000),
+  });
+  if (!response.ok) {
+    const text = await response.text().catch(() => "");
+    throw new Error(`webhook ${response.status}: ${text || response.statusText}`);
+  }
+}
+
+/**
+ * Per-subscription FIFO delivery queue with exponential backoff.
+ *
+ * Deliveries are attempted in order; a failing head blocks the ones behind it
+ * so receivers never see progress out of order. After `maxAttempts` the head
+ * moves to `deadLetters` and the queue continues. A delivery enqueued with a
+ * `coalesceKey` replaces any waiting delivery with the same key, so one busy
+ * run cannot crowd the others out of a shared queue. `onChange` fires
+ * whenever queue state mutates so the owner can persist it.
+ */
+export class ProgressWebhookQueue {
+  private timers = new Map<string, ReturnType<typeof setTimeout>>();
+  private draining = new Set<string>();
+  private cancelled = new Set<string>();
+
+  constructor(
+    private policy: WebhookRetryPolicy,
+    private onChange: () => void,
+    private send: (sub: ProgressWebhookSubscription, delivery: ProgressWebhookDelivery) => Promise<void> = postWebhookDelivery,
+  ) {}
+
+  enqueue(
+    sub: ProgressWebhookSubscription,
+    digest: string,
+    payload: Record<string, unknown>,
+    coalesceKey?: string,
+  ): ProgressWebhookDelivery {
+    const delivery: ProgressWebhookDelivery = {
+      id: newDeliveryId(),
+      digest,
+      payload,
+      enqueuedAt: new Date().toISOString(),
+      attempts: 0,
+    };
+    const pending = sub.pending ?? (sub.pending = []);
+    // The head may be mid-send; drain() shifts it once the attempt settles.
+    const first = this.draining.has(sub.id) ? 1 : 0;
+    if (coalesceKey) {
+      delivery.coalesceKey = coalesceKey;
+      for (let i = pending.length - 1; i >= first; i--) {
+        if (pending[i].coalesceKey === coalesceKey) pending.splice(i, 1);
+      }
+    }
+    pending.push(delivery);
+    while (pending.length > this.policy.maxPending) {
+      const [overflow] = pending.splice(first, 1);
+      this.deadLetter(sub, overflow, "queue overflow");
+    }
+    this.onChange();
+    void this.drain(sub);
+    return delivery;
+  }
+
+  /** Move dead letters (all, or the given ids) back onto the pending queue with a fresh attempt budget. */
+  replay(sub: ProgressWebhookSubscription, deliveryIds?: string[]): ProgressWebhookDelivery[] {
+    const dead = sub.deadLetters ?? [];
+    const wanted = deliveryIds && deliveryIds.length > 0 ? new Set(deliveryIds) : null;
+    const replayed = dead.filter((d) => !wanted || wanted.has(d.id));
+    if (replayed.length === 0) return [];
+    sub.deadLetters = dead.filter((d) => !replayed.includes(d));
+    const pending = sub.pending ?? (sub.pending = []);
+    for (const d of replayed) {
+      d.attempts = 0;
+      delete d.deadLetteredAt;
+      delete d.nextAttemptAt;
+      pending.push(d);
+    }
+    this.onChange();
+    this.clearTimer(sub.id);
+    void this.drain(sub);
+    return replayed.map((d) => ({ ...d }));
+  }
+
+  /** Attempt every due delivery at the head of the queue; reschedules itself on failure. */
+  async drain(sub: ProgressWebhookSubscription): Promise<void> {
+    if (this.draining.has(sub.id)) return;
+    this.draining.add(sub.id);
+    try {
+      while (sub.pending && sub.pending.length > 0) {
+        if (this.cancelled.has(sub.id)) return;
+        const head = sub.pending[0];
+        const dueAt = head.nextAttemptAt ? new Date(head.nextAttemptAt).getTime() : 0;
+        const wait = dueAt - Date.now();
+        if (wait > 0) {
+          this.schedule(sub, wait);
+          return;
+        }
+        try {
+          await this.send(sub, head);
+          sub.pending.shift();
+          sub.lastDeliveryDigest = head.digest;
+          sub.lastDeliveredAt = new Date().toISOString();
+          delete sub.lastError;
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          head.attempts += 1;
+          head.lastAttemptAt = new Date().toISOString();
+          head.lastError = message;
+          sub.lastError = message;
+          if (head.attempts >= this.policy.maxAttempts) {
+            sub.pending.shift();
+            this.deadLetter(sub, head, message);
+          } else {
+            const delay = computeRetryDelay(head.attempts, this.policy);
+            head.nextAttemptAt = new Date(Date.now() + delay).toISOString();
+            this.onChange();
+            this.schedule(sub, delay);
+            return;
+          }
+        }
+        this.onChange();
+      }
+    } finally {
+      this.draining.delete(sub.id);
+    }
+  }
+
+  /** Stop all further attempts for a subscription that has been removed. */
+  cancel(subscriptionId: string) {
+    this.cancelled.add(subscriptionId);
+    this.clearTimer(subscriptionId);
+  }
+
+  close() {
+    for (const t of this.timers.values()) clearTimeout(t);
+    this.timers.clear();
+  }
+
+  private deadLetter(sub: ProgressWebhookSubscription, delivery: ProgressWebhookDelivery, reason: string) {
+    delivery.deadLetteredAt = new Date().toISOString();
+    delivery.lastError = delivery.lastError ?? reason;
+    delete delivery.nextAttemptAt;
+    const dead = sub.deadLetters ?? (sub.deadLetters = []);
+    dead.push(delivery);
+    if (dead.length > this.policy.maxDeadLetters) {
+      dead.splice(0, dead.length - this.policy.maxDeadLetters);
+    }
+    console.warn(`[ProgressWebhookQueue] dead-lettered delivery ${delivery.id} for subscription ${sub.id}: ${reason}`);
+  }
+
+  private schedule(sub: ProgressWebhookSubscription, delayMs: number) {
+    this.clearTimer(sub.id);
+    const timer = setTimeout(() => {
+      this.timers.delete(sub.id);
+      void this.drain(sub);
+    }, delayMs);
+    timer.unref?.();
+    this.timers.set(sub.id, timer);
+  }
+
+  private clearTimer(subscriptionId: string) {
+    const t = this.timers.get(subscriptionId);
+    if (t) { clearTimeout(t); this.timers.delete(subscriptionId); }
+  }
+}
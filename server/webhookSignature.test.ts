@@ -0,0 +1,49 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import {
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  signatureHeaders,
+  verifyWebhookSignature,
+} from "./webhookSignature.js";
+
+const SECRET = "0123456789abcdef-secret";
+const BODY = JSON.stringify({ event_type: "run_progress", delivery_id: "d-1" });
+const NOW = Date.parse("2026-03-20T00:00:00Z");
+
+test("signature headers verify against the same body", () => {
+  const headers = signatureHeaders(SECRET, BODY, NOW);
+  const check = verifyWebhookSignature({
+    secret: SECRET,
+    body: BODY,
+    timestamp: headers[TIMESTAMP_HEADER],
+    signature: headers[SIGNATURE_HEADER],
+    now: NOW + 10_000,
+  });
+  assert.deepEqual(check, { ok: true });
+});
+
+test("tampered body or wrong secret is rejected", () => {
+  const headers = signatureHeaders(SECRET, BODY, NOW);
+  const base = { timestamp: headers[TIMESTAMP_HEADER], signature: headers[SIGNATURE_HEADER], now: NOW };
+  assert.deepEqual(
+    verifyWebhookSignature({ ...base, secret: SECRET, body: BODY.replace("d-1", "d-2") }),
+    { ok: false, reason: "mismatch" },
+  );
+  assert.deepEqual(
+    verifyWebhookSignature({ ...base, secret: "another-secret-value", body: BODY }),
+    { ok: false, reason: "mismatch" },
+  );
+});
+
+test("stale timestamp is rejected as a replay", () => {
+  const headers = signatureHeaders(SECRET, BODY, NOW);
+  const check = verifyWebhookSignature({
+    secret: SECRET,
+    body: BODY,
+    timestamp: headers[TIMESTAMP_HEADER],
+    signature: headers[SIGNATURE_HEADER],
+    now: NOW + 301_000,
+  });
+  assert.deepEqual(check, { ok: false, reason: "expired" });
+});
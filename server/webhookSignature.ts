@@ -0,0 +1,58 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+export const SIGNATURE_HEADER = "X-Kilroy-Signature";
+export const TIMESTAMP_HEADER = "X-Kilroy-Timestamp";
+export const DELIVERY_ID_HEADER = "X-Kilroy-Delivery-Id";
+
+/** Receivers should reject deliveries whose timestamp is further than this from their clock. */
+export const DEFAULT_SIGNATURE_TOLERANCE_S = 300;
+
+/**
+ * Signature over `<timestamp>.<raw body>` with HMAC-SHA256, formatted as
+ * `v1=<hex>`. Binding the timestamp into the MAC is what makes the tolerance
+ * window a replay defence: an attacker cannot re-date a captured request.
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const mac = createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+  return `v1=${mac}`;
+}
+
+export function signatureHeaders(secret: string, body: string, now = Date.now()): Record<string, string> {
+  const timestamp = Math.floor(now / 1000);
+  return {
+    [TIMESTAMP_HEADER]: String(timestamp),
+    [SIGNATURE_HEADER]: signWebhookPayload(secret, timestamp, body),
+  };
+}
+
+export type SignatureCheck =
+  | { ok: true }
+  | { ok: false; reason: "missing" | "malformed" | "expired" | "mismatch" };
+
+/**
+ * Reference verifier for receivers (and tests). Callers must still dedupe on
+ * `delivery_id` — the tolerance window alone allows a replay within it.
+ */
+export function verifyWebhookSignature(opts: {
+  secret: string;
+  body: string;
+  timestamp: string | undefined;
+  signature: string | undefined;
+  toleranceS?: number;
+  now?: number;
+}): SignatureCheck {
+  const { secret, body, timestamp, signature } = opts;
+  if (!timestamp || !signature) return { ok: false, reason: "missing" };
+  const ts = Number(timestamp);
+  if (!Number.isInteger(ts) || !signature.startsWith("v1=")) return { ok: false, reason: "malformed" };
+  const nowS = Math.floor((opts.now ?? Date.now()) / 1000);
+  if (Math.abs(nowS - ts) > (opts.toleranceS ?? DEFAULT_SIGNATURE_TOLERANCE_S)) {
+    return { ok: false, reason: "expired" };
+  }
+  const expected = Buffer.from(signWebhookPayload(secret, ts, body));
+  const given = Buffer.from(signature);
+  if (expected.length !== given.length || !timingSafeEqual(expected, given)) {
+    return { ok: false, reason: "mismatch" };
+  }
+  return { ok: true };
+}
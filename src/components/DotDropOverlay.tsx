@@ -1,5 +1,6 @@
 import { useState, useEffect, useCallback, useRef, useMemo, type ReactNode } from "react";
 import { DotPreview } from "./DotPreview";
+import { FactoryStartForm } from "./FactoryStartForm";
 import { NodeDetailPanel } from "./NodeDetailPanel";
 import { parseAllNodeLabels, updateNodeAttr } from "../lib/dotUtils";
 import { apiUrl } from "../lib/embeddedBase";
@@ -15,6 +16,9 @@ export function DotDropOverlay({ children }: DotDropOverlayProps) {
   const [isDragging, setIsDragging] = useState(false);
   const [dotContent, setDotContent] = useState<string | null>(null);
   const [dotFileName, setDotFileName] = useState<string>("");
+  // Server-side path of the dropped file, when the drop carried one (VS Code)
+  const [dotFilePath, setDotFilePath] = useState<string | null>(null);
+  const [starting, setStarting] = useState(false);
   const [selectedNode, setSelectedNode] = useState<string | null>(null);
   const [editingEnabled, setEditingEnabled] = useState(false);
   const [saving, setSaving] = useState(false);
@@ -51,6 +55,8 @@ export function DotDropOverlay({ children }: DotDropOverlayProps) {
     }
     setDotContent(null);
     setDotFileName("");
+    setDotFilePath(null);
+    setStarting(false);
     setSelectedNode(null);
     setEditingEnabled(false);
     savedContentRef.current = null;
@@ -110,6 +116,7 @@ export function DotDropOverlay({ children }: DotDropOverlayProps) {
         setDebouncedDot(text);
         savedContentRef.current = text;
         setDotFileName(fileName);
+        setDotFilePath(filePath);
       })
       .catch((err) => console.error("Failed to load DOT file from path:", err));
   }
@@ -127,6 +134,7 @@ export function DotDropOverlay({ children }: DotDropOverlayProps) {
     // Case 1: Native file drop (from Finder / file manager)
     if (file && (file.name.endsWith(".dot") || file.name.endsWith(".gv"))) {
       // Clear previous state on new file drop
+      setDotFilePath(null);
       setSelectedNode(null);
       setEditingEnabled(false);
       fileHandleRef.current = null;
@@ -322,6 +330,13 @@ export function DotDropOverlay({ children }: DotDropOverlayProps) {
                   Download
                 </button>
               )}
+              <button
+                onClick={() => setStarting(true)}
+                className="text-[11px] text-blue-400 hover:text-blue-300 px-2 py-1 rounded hover:bg-gray-800 transition-colors border border-blue-800/40"
+                title="Start an attractor run of this graph through the factory"
+              >
+                Start run…
+              </button>
               <button
                 onClick={closeOverlay}
                 className="text-xs text-gray-400 hover:text-gray-200 px-2 py-1 rounded hover:bg-gray-800 transition-colors"
@@ -363,6 +378,13 @@ export function DotDropOverlay({ children }: DotDropOverlayProps) {
               />
             )}
           </div>
+          {starting && (
+            <FactoryStartForm
+              // Unsaved edits are started as text, not from the file on disk.
+              dropped={{ name: dotFileName, dot: dotContent, path: dirty ? undefined : dotFilePath ?? undefined }}
+              onClose={() => setStarting(false)}
+            />
+          )}
         </div>
       )}
     </div>
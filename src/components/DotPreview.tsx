@@ -12,6 +12,8 @@ interface Props {
   terminalFailedNode?: string;
   cycleNodes?: string[];
   cycleResolved?: boolean;
+  /** Nodes blocked on a human feedback request (shown amber, above every other status). */
+  waitingNodes?: string[];
   onNodeClick?: (nodeName: string) => void;
   selectedNode?: string;
   nodeAnnotations?: Record<string, string>;
@@ -21,6 +23,8 @@ interface Props {
   edgeToEdge?: boolean;
   stageHistory?: VisitedStage[];
   hoveredHistoryIndex?: number | null;
+  /** Second traversal (run comparison) overlaid on stageHistory's edges in a contrasting colour. */
+  compareHistory?: VisitedStage[];
   /** When set, smoothly pan+zoom so this node fills ~25% of the viewport. */
   focusNode?: string;
 }
@@ -189,6 +193,8 @@ const ZOOM_STEP = 0.15;
 const CLICK_THRESHOLD_PX = 5;
 
 const TRAVERSED_EDGE_COLOR = "#38bdf8"; // sky-400
+const COMPARE_EDGE_COLOR = "#e879f9"; // fuchsia-400
+const SHARED_EDGE_COLOR = "#e5e7eb"; // gray-200 — taken by both compared runs
 const GLOW_FILTERS = `
   <filter id="glow-selected" x="-60%" y="-60%" width="220%" height="220%">
     <feDropShadow dx="0" dy="0" stdDeviation="8" flood-color="#60a5fa" flood-opacity="1"/>
@@ -197,6 +203,9 @@ const GLOW_FILTERS = `
   <filter id="glow-active" x="-50%" y="-50%" width="200%" height="200%">
     <feDropShadow dx="0" dy="0" stdDeviation="6" flood-color="#60a5fa" flood-opacity="1"/>
   </filter>
+  <filter id="glow-waiting" x="-60%" y="-60%" width="220%" height="220%">
+    <feDropShadow dx="0" dy="0" stdDeviation="7" flood-color="#f59e0b" flood-opacity="1"/>
+  </filter>
   <filter id="glow-cycle" x="-60%" y="-60%" width="220%" height="220%">
     <feDropShadow dx="0" dy="0" stdDeviation="7" flood-color="#f97316" flood-opacity="1"/>
     <feDropShadow dx="0" dy="0" stdDeviation="3" flood-color="#f97316" flood-opacity="1"/>
@@ -216,6 +225,7 @@ export function DotPreview({
   terminalFailedNode,
   cycleNodes,
   cycleResolved,
+  waitingNodes,
   onNodeClick,
   selectedNode,
   nodeAnnotations,
@@ -225,6 +235,7 @@ export function DotPreview({
   edgeToEdge,
   stageHistory,
   hoveredHistoryIndex,
+  compareHistory,
   focusNode,
 }: Props) {
   const containerRef = useRef<HTMLDivElement>(null);
@@ -372,6 +383,7 @@ export function DotPreview({
     svg.querySelectorAll("g.node").forEach((g) => {
       g.querySelectorAll("polygon, ellipse, path").forEach((shape) => {
         shape.removeAttribute("data-highlighted");
+        shape.removeAttribute("data-waiting");
         shape.removeAttribute("data-completed");
         shape.removeAttribute("data-selected");
         shape.removeAttribute("filter");
@@ -390,9 +402,11 @@ export function DotPreview({
     const completedSet = new Set(completedNodes || []);
     const failedSet = new Set(failedNodes || []);
     const cycleSet = new Set(cycleNodes || []);
+    const waitingSet = new Set(waitingNodes || []);
 
     svg.querySelectorAll("g.node").forEach((g) => {
       const title = g.querySelector("title")?.textContent?.trim() || "";
+      const isWaiting = waitingSet.has(title);
       const isActive = highlightNode != null && title === highlightNode;
       const isSelected = selectedNode != null && title === selectedNode;
       const isCompleted = completedSet.has(title);
@@ -400,7 +414,7 @@ export function DotPreview({
       const isTerminalFailed = isFailed && title === terminalFailedNode;
       const isCycle = cycleSet.has(title);
 
-      if (!isActive && !isSelected && !isFailed && !isCompleted && !isCycle) return;
+      if (!isWaiting && !isActive && !isSelected && !isFailed && !isCompleted && !isCycle) return;
 
       g.querySelectorAll("polygon, ellipse, path").forEach((shape) => {
         // Save original values once.
@@ -409,9 +423,15 @@ export function DotPreview({
           shape.setAttribute("data-orig-fill", shape.getAttribute("fill") || "");
         }
 
-        // Apply status-based fill/stroke (priority: active > terminal-failed > retry-failed > completed).
+        // Apply status-based fill/stroke (priority: waiting > active > terminal-failed > retry-failed > completed).
         // Cycle nodes intentionally do NOT change color — only glow is applied.
-        if (isActive) {
+        if (isWaiting) {
+          // Amber for a node blocked on human feedback
+          shape.setAttribute("stroke", "#f59e0b");
+          shape.setAttribute("stroke-width", "2.5");
+          shape.setAttribute("fill", "rgba(245, 158, 11, 0.15)");
+          shape.setAttribute("data-waiting", "true");
+        } else if (isActive) {
           // Blue for currently running
           shape.setAttribute("stroke", "#60a5fa");
           shape.setAttribute("stroke-width", "2");
@@ -441,10 +461,12 @@ export function DotPreview({
           shape.setAttribute("filter", "url(#glow-selected)");
           shape.setAttribute("data-selected", "true");
           // Boost stroke-width slightly for selected if not already set by status
-          if (!isActive && !isFailed && !isCompleted) {
+          if (!isWaiting && !isActive && !isFailed && !isCompleted) {
             shape.setAttribute("stroke", "#6b7280");
             shape.setAttribute("stroke-width", "1.5");
           }
+        } else if (isWaiting) {
+          shape.setAttribute("filter", "url(#glow-waiting)");
         } else if (isActive) {
           shape.setAttribute("filter", "url(#glow-active)");
         } else if (isCycle) {
@@ -458,14 +480,15 @@ export function DotPreview({
         if (t.getAttribute("data-orig-text-fill") === null) {
           t.setAttribute("data-orig-text-fill", t.getAttribute("fill") || "");
         }
-        if (isActive) t.setAttribute("fill", "#93c5fd");         // blue-300
+        if (isWaiting) t.setAttribute("fill", "#fcd34d");        // amber-300
+        else if (isActive) t.setAttribute("fill", "#93c5fd");    // blue-300
         else if (isTerminalFailed) t.setAttribute("fill", "#f87171");  // red-400
         else if (isFailed) t.setAttribute("fill", "#fde047");    // yellow-300
         else if (isCompleted) t.setAttribute("fill", "#4ade80"); // green-400
         // Cycle nodes: no text color change — the glow on the shape is enough
       });
     });
-  }, [highlightNode, completedNodes, failedNodes, terminalFailedNode, cycleNodes, cycleResolved, dot, selectedNode, svgVersion]);
+  }, [highlightNode, completedNodes, failedNodes, terminalFailedNode, cycleNodes, cycleResolved, waitingNodes, dot, selectedNode, svgVersion]);
 
   // Highlight traversed edges and add traversal count badges.
   // When hoveredHistoryIndex is set, only highlights edges up to that point;
@@ -538,7 +561,14 @@ export function DotPreview({
       }
     }
 
-    if (previewTraversals.size === 0 && futureTraversals.size === 0) return;
+    const compareTraversals = new Map<string, number>();
+    const compareMain = (compareHistory ?? []).filter((v) => !v.fan_out_node);
+    for (let i = 0; i < compareMain.length - 1; i++) {
+      const key = `${compareMain[i].node_id}->${compareMain[i + 1].node_id}`;
+      compareTraversals.set(key, (compareTraversals.get(key) ?? 0) + 1);
+    }
+
+    if (previewTraversals.size === 0 && futureTraversals.size === 0 && compareTraversals.size === 0) return;
 
     // Yellow while still executing; orange once the cycle caused failure
     const CYCLE_EDGE_COLOR = cycleResolved ? "#f97316" : "#eab308";
@@ -554,16 +584,20 @@ export function DotPreview({
 
       const count = previewTraversals.get(normalized) ?? 0;
       const isFuture = futureTraversals.has(normalized);
+      const compareCount = compareTraversals.get(normalized) ?? 0;
 
-      if (!count && !isFuture) return;
+      if (!count && !isFuture && !compareCount) return;
 
       // Cycle edges: both endpoints are in the cycle node set.
       // Suppress cycle edge color if either endpoint is currently selected (selected glow takes priority).
       const [src, dst] = normalized.split("->", 2);
       const isCycleEdge = !isFuture && cycleSet.size > 0 && cycleSet.has(src) && cycleSet.has(dst)
         && src !== selectedNode && dst !== selectedNode;
-      const color = isFuture ? FUTURE_EDGE_COLOR : isCycleEdge ? CYCLE_EDGE_COLOR : TRAVERSED_EDGE_COLOR;
-      const strokeWidth = count > 1 ? 1 + (count - 1) * 0.5 : 1;
+      const color = compareHistory
+        ? (count && compareCount ? SHARED_EDGE_COLOR : count ? TRAVERSED_EDGE_COLOR : COMPARE_EDGE_COLOR)
+        : isFuture ? FUTURE_EDGE_COLOR : isCycleEdge ? CYCLE_EDGE_COLOR : TRAVERSED_EDGE_COLOR;
+      const maxCount = Math.max(count, compareCount);
+      const strokeWidth = maxCount > 1 ? 1 + (maxCount - 1) * 0.5 : 1;
 
       edgeG.querySelectorAll("path, polyline").forEach((el) => {
         if (el.getAttribute("data-edge-orig-stroke") === null) {
@@ -582,8 +616,9 @@ export function DotPreview({
         el.setAttribute("stroke", color);
       });
 
-      // Count badge for edges traversed more than once (only for highlighted, not future)
-      if (count > 1) {
+      // Count badge for edges traversed more than once (only for highlighted, not future).
+      // Comparisons show per-run counts in their table instead.
+      if (count > 1 && !compareHistory) {
         const path = edgeG.querySelector("path");
         if (!path) return;
         const totalLen = path.getTotalLength();
@@ -617,7 +652,7 @@ export function DotPreview({
         graphGroup.appendChild(group);
       }
     });
-  }, [stageHistory, hoveredHistoryIndex, cycleNodes, cycleResolved, svgVersion, selectedNode]);
+  }, [stageHistory, compareHistory, hoveredHistoryIndex, cycleNodes, cycleResolved, svgVersion, selectedNode]);
 
   // Add per-node visit count badges (shown when a node is visited more than once).
   useEffect(() => {
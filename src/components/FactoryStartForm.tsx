@@ -0,0 +1,266 @@
+import { useEffect, useState } from "react";
+import { appUrl } from "../lib/embeddedBase";
+import { factoryJson, factoryToken, forgetFactoryToken, rememberFactoryToken, TokenRejected } from "../lib/factoryAuth";
+import type { FactoryStartOptions } from "../lib/types";
+
+/** A graph that is not in the project: DOT text from a browser drop. */
+export interface DroppedGraph {
+  name: string;
+  dot: string;
+  /** Set when the drop carried a path (VS Code); used if it is inside the project. */
+  path?: string;
+}
+
+interface StartedJob {
+  id: string;
+  status: string;
+  run_id: string | null;
+  error: string | null;
+}
+
+// After starting, wait this long for the attractor to create its run dir before giving up on redirecting.
+const RUN_WAIT_MS = 60_000;
+const RUN_POLL_MS = 1000;
+
+const inputCls = "w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs text-gray-200 focus:outline-none focus:border-blue-600";
+const labelCls = "block text-[11px] text-gray-500 mb-1";
+
+/**
+ * Start an attractor run through the factory API, with a goal, params, model
+ * profile and extra flags. Only overrides the server allow-lists permit are
+ * offered; the server validates them again. Opens the run once it exists.
+ */
+export function FactoryStartForm({ dropped, onClose }: { dropped?: DroppedGraph; onClose: () => void }) {
+  const [token, setToken] = useState<string | null>(() => factoryToken());
+  const [options, setOptions] = useState<FactoryStartOptions | null>(null);
+  const [graphPath, setGraphPath] = useState("");
+  const [compose, setCompose] = useState("");
+  const [goal, setGoal] = useState("");
+  const [params, setParams] = useState<{ key: string; value: string }[]>([]);
+  const [profile, setProfile] = useState("");
+  const [flags, setFlags] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [job, setJob] = useState<StartedJob | null>(null);
+
+  const fail = (err: unknown) => {
+    if (err instanceof TokenRejected) {
+      forgetFactoryToken();
+      setToken(null);
+    }
+    setError(err instanceof Error ? err.message : String(err));
+  };
+
+  // Primitives only: callers rebuild `dropped` on every render.
+  const droppedPath = dropped?.path;
+  const hasDropped = dropped != null;
+  useEffect(() => {
+    if (!token) return;
+    let cancelled = false;
+    factoryJson<FactoryStartOptions>("/api/factory/start-options", token)
+      .then((opts) => {
+        if (cancelled) return;
+        rememberFactoryToken(token);
+        setOptions(opts);
+        setCompose(opts.default_compose);
+        const droppedRel = droppedPath?.startsWith(opts.project_root + "/")
+          ? droppedPath.slice(opts.project_root.length + 1)
+          : null;
+        if (droppedRel) setGraphPath(droppedRel);
+        else if (!hasDropped) setGraphPath(opts.graphs[0] ?? "");
+      })
+      .catch((err) => { if (!cancelled) fail(err); });
+    return () => { cancelled = true; };
+  }, [token, droppedPath, hasDropped]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Once started, follow the job until the attractor has created its run, then open it.
+  const openRun = (runId: string) => window.location.assign(appUrl(`/run/${encodeURIComponent(runId)}`));
+  useEffect(() => {
+    if (!token || !job || job.status === "exited") return;
+    if (job.run_id) {
+      openRun(job.run_id);
+      return;
+    }
+    const deadline = Date.now() + RUN_WAIT_MS;
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const poll = async () => {
+      try {
+        const next = await factoryJson<StartedJob>(`/api/factory/jobs/${encodeURIComponent(job.id)}`, token);
+        if (cancelled) return;
+        if (next.run_id) {
+          openRun(next.run_id);
+          return;
+        }
+        setJob(next);
+        if (next.status !== "exited" && Date.now() < deadline) timer = setTimeout(() => void poll(), RUN_POLL_MS);
+      } catch (err) {
+        if (!cancelled) fail(err);
+      }
+    };
+    timer = setTimeout(() => void poll(), RUN_POLL_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [token, job?.id]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const useDroppedText = dropped && !graphPath;
+
+  const submit = async () => {
+    if (!token) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const body = {
+        ...(useDroppedText ? { graph_dot: dropped.dot, graph_name: dropped.name } : { graph_path: graphPath }),
+        compose_file: compose || undefined,
+        goal: goal.trim() || undefined,
+        params: Object.fromEntries(params.filter((p) => p.key.trim()).map((p) => [p.key.trim(), p.value])),
+        model_profile: profile || undefined,
+        extra_flags: flags.split(/\s+/).filter(Boolean),
+      };
+      const res = await factoryJson<{ status: string; job: StartedJob }>("/api/factory/attractor/start", token, {
+        method: "POST",
+        body,
+      });
+      setJob(res.job);
+    } catch (err) {
+      fail(err);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const setParam = (i: number, patch: Partial<{ key: string; value: string }>) =>
+    setParams((ps) => ps.map((p, j) => (j === i ? { ...p, ...patch } : p)));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60" onClick={onClose}>
+      <div
+        className="w-full max-w-lg max-h-[90vh] overflow-y-auto rounded-lg border border-gray-800 bg-gray-950 p-4 space-y-3 text-gray-200"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center">
+          <h2 className="text-sm font-semibold">Start a run</h2>
+          <button onClick={onClose} className="ml-auto text-xs text-gray-500 hover:text-gray-300" title="Close">
+            {"✕"}
+          </button>
+        </div>
+
+        {!token ? (
+          <div className="space-y-2 text-xs text-gray-500">
+            <div>Starting runs needs the factory token.</div>
+            {error && <div className="text-red-400">{error}</div>}
+            <button
+              onClick={() => setToken(factoryToken())}
+              className="px-2 py-0.5 rounded bg-gray-800 text-gray-300 hover:bg-gray-700"
+            >
+              Enter token
+            </button>
+          </div>
+        ) : job ? (
+          <div className="space-y-1 text-xs">
+            <div className="text-gray-300">
+              Job <span className="font-mono">{job.id}</span>{" "}
+              {job.status === "queued" ? "is queued" : job.status === "running" ? "is starting…" : "exited"}
+            </div>
+            {job.error && <div className="text-red-400">{job.error}</div>}
+            {job.status !== "exited" && (
+              <div className="text-gray-500">The run opens as soon as the attractor creates it.</div>
+            )}
+          </div>
+        ) : !options ? (
+          <div className="text-xs text-gray-500">{error ? <span className="text-red-400">{error}</span> : "Loading…"}</div>
+        ) : (
+          <>
+            <div>
+              <label className={labelCls}>Graph</label>
+              {dropped && !graphPath ? (
+                <div className="text-xs font-mono text-gray-300">
+                  {dropped.name} <span className="text-gray-600">(uploaded with the request)</span>
+                </div>
+              ) : (
+                <select value={graphPath} onChange={(e) => setGraphPath(e.target.value)} className={inputCls}>
+                  {graphPath && !options.graphs.includes(graphPath) && <option value={graphPath}>{graphPath}</option>}
+                  {options.graphs.map((g) => <option key={g} value={g}>{g}</option>)}
+                </select>
+              )}
+            </div>
+
+            <div>
+              <label className={labelCls}>Config</label>
+              <select value={compose} onChange={(e) => setCompose(e.target.value)} className={inputCls}>
+                {!options.compose_files.includes(options.default_compose) && (
+                  <option value={options.default_compose}>{options.default_compose} (default)</option>
+                )}
+                {options.compose_files.map((c) => (
+                  <option key={c} value={c}>{c}{c === options.default_compose ? " (default)" : ""}</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className={labelCls}>Goal</label>
+              <textarea value={goal} onChange={(e) => setGoal(e.target.value)} rows={3} className={inputCls} placeholder="Use the graph's goal" />
+            </div>
+
+            <div>
+              <label className={labelCls}>Params</label>
+              <div className="space-y-1">
+                {params.map((p, i) => (
+                  <div key={i} className="flex gap-1">
+                    {options.param_keys ? (
+                      <select value={p.key} onChange={(e) => setParam(i, { key: e.target.value })} className={`${inputCls} w-1/3`}>
+                        <option value="" />
+                        {options.param_keys.map((k) => <option key={k} value={k}>{k}</option>)}
+                      </select>
+                    ) : (
+                      <input value={p.key} onChange={(e) => setParam(i, { key: e.target.value })} placeholder="key" className={`${inputCls} w-1/3`} />
+                    )}
+                    <input value={p.value} onChange={(e) => setParam(i, { value: e.target.value })} placeholder="value" className={inputCls} />
+                    <button onClick={() => setParams((ps) => ps.filter((_, j) => j !== i))} className="px-1 text-xs text-gray-600 hover:text-gray-300">
+                      {"✕"}
+                    </button>
+                  </div>
+                ))}
+                <button onClick={() => setParams((ps) => [...ps, { key: "", value: "" }])} className="text-[11px] text-blue-400 hover:text-blue-300">
+                  + Add param
+                </button>
+              </div>
+            </div>
+
+            {options.model_profiles.length > 0 && (
+              <div>
+                <label className={labelCls}>Model profile</label>
+                <select value={profile} onChange={(e) => setProfile(e.target.value)} className={inputCls}>
+                  <option value="">From config</option>
+                  {options.model_profiles.map((p) => <option key={p} value={p}>{p}</option>)}
+                </select>
+              </div>
+            )}
+
+            {options.allowed_flags.length > 0 && (
+              <div>
+                <label className={labelCls}>Extra flags — allowed: {options.allowed_flags.join(", ")}</label>
+                <input value={flags} onChange={(e) => setFlags(e.target.value)} placeholder="--flag --other=value" className={`${inputCls} font-mono`} />
+              </div>
+            )}
+
+            {error && <div className="text-xs text-red-400">{error}</div>}
+            <div className="flex justify-end gap-2">
+              <button onClick={onClose} className="px-2 py-1 rounded text-xs text-gray-400 hover:bg-gray-800">Cancel</button>
+              <button
+                onClick={submit}
+                disabled={busy || (!graphPath && !dropped)}
+                className="px-2 py-1 rounded text-xs font-semibold bg-blue-600/80 text-white hover:bg-blue-600 disabled:opacity-50"
+              >
+                {busy ? "Starting…" : "Start"}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,381 @@
+import { useEffect, useMemo, useState } from "react";
+import { apiUrl } from "../lib/embeddedBase";
+import { factoryJson, factoryToken, forgetFactoryToken, hasFactoryToken, rememberFactoryToken, TokenRejected } from "../lib/factoryAuth";
+import {
+  declaresOptions,
+  editableFiles,
+  feedbackNode,
+  feedbackOptions,
+  feedbackQuestion,
+  formData,
+  responseSchema,
+  schemaFields,
+  type SchemaField,
+} from "../lib/feedback";
+import type { FeedbackResponseBody, PendingFeedback } from "../lib/types";
+import MarkdownContent from "./MarkdownContent";
+
+/**
+ * POST a response, with the stored token if any. When the server asks for a
+ * token (or rejects the stored one), prompt once and retry.
+ */
+async function postResponse(runId: string, body: FeedbackResponseBody) {
+  const path = `/api/runs/${encodeURIComponent(runId)}/feedback-respond`;
+  const init = { method: "POST", body };
+  const token = hasFactoryToken() ? factoryToken() : null;
+  try {
+    await factoryJson(path, token, init);
+  } catch (err) {
+    if (!(err instanceof TokenRejected)) throw err;
+    if (token) forgetFactoryToken();
+    const entered = factoryToken();
+    if (!entered) throw err;
+    await factoryJson(path, entered, init);
+    rememberFactoryToken(entered);
+  }
+}
+
+const INPUT_CLS =
+  "bg-gray-950 border border-gray-700 rounded px-2 py-1 text-xs text-gray-200 focus:outline-none focus:border-amber-600";
+
+/** Inputs for a response_schema: one per field for flat objects, else a JSON editor. */
+function SchemaForm({
+  fields,
+  values,
+  onChange,
+  json,
+  onJsonChange,
+}: {
+  fields: SchemaField[] | null;
+  values: Record<string, string | boolean>;
+  onChange: (key: string, value: string | boolean) => void;
+  json: string;
+  onJsonChange: (json: string) => void;
+}) {
+  if (!fields) {
+    return (
+      <textarea
+        value={json}
+        onChange={(e) => onJsonChange(e.target.value)}
+        rows={4}
+        spellCheck={false}
+        placeholder="JSON response"
+        className={`w-full font-mono ${INPUT_CLS}`}
+      />
+    );
+  }
+  return (
+    <div className="grid grid-cols-[auto_1fr] gap-x-2 gap-y-1 items-center">
+      {fields.map((f) => (
+        <label key={f.key} className="contents">
+          <span className="text-xs text-gray-400" title={f.description}>
+            {f.label}
+            {f.required && <span className="text-amber-500">*</span>}
+          </span>
+          {f.kind === "boolean" ? (
+            <input
+              type="checkbox"
+              checked={values[f.key] === true}
+              onChange={(e) => onChange(f.key, e.target.checked)}
+              className="justify-self-start"
+            />
+          ) : f.kind === "enum" ? (
+            <select value={String(values[f.key] ?? "")} onChange={(e) => onChange(f.key, e.target.value)} className={INPUT_CLS}>
+              <option value="">—</option>
+              {f.enumValues?.map((v) => <option key={v} value={v}>{v}</option>)}
+            </select>
+          ) : (
+            <input
+              type={f.kind === "string" ? "text" : "number"}
+              step={f.kind === "integer" ? 1 : "any"}
+              value={String(values[f.key] ?? "")}
+              onChange={(e) => onChange(f.key, e.target.value)}
+              placeholder={f.description}
+              className={INPUT_CLS}
+            />
+          )}
+        </label>
+      ))}
+    </div>
+  );
+}
+
+/** Editors for the request's editable_files, prefilled from the run's worktree when it has one. */
+function FileEdits({
+  runId,
+  paths,
+  edits,
+  onChange,
+}: {
+  runId: string;
+  paths: string[];
+  edits: Record<string, string>;
+  onChange: (path: string, content: string | null) => void;
+}) {
+  const [loading, setLoading] = useState<string | null>(null);
+
+  const startEdit = async (path: string) => {
+    setLoading(path);
+    let content = "";
+    try {
+      const r = await fetch(apiUrl(`/api/runs/${encodeURIComponent(runId)}/workspace/file?path=${encodeURIComponent(path)}`));
+      if (r.ok) content = await r.text();
+    } catch {
+      /* start from empty */
+    }
+    setLoading(null);
+    onChange(path, content);
+  };
+
+  return (
+    <div className="space-y-1">
+      {paths.map((path) => (
+        <div key={path}>
+          <div className="flex items-center gap-2 text-xs">
+            <span className="font-mono text-gray-400 truncate">{path}</span>
+            {path in edits ? (
+              <button onClick={() => onChange(path, null)} className="text-gray-500 hover:text-gray-300">Discard edit</button>
+            ) : (
+              <button
+                disabled={loading === path}
+                onClick={() => void startEdit(path)}
+                className="text-blue-400 hover:text-blue-300 disabled:opacity-50"
+              >
+                {loading === path ? "Loading…" : "Edit"}
+              </button>
+            )}
+          </div>
+          {path in edits && (
+            <textarea
+              value={edits[path]}
+              onChange={(e) => onChange(path, e.target.value)}
+              rows={8}
+              spellCheck={false}
+              className={`mt-1 w-full font-mono ${INPUT_CLS}`}
+            />
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * One request with its answer controls. Requests that declare options,
+ * a response_schema or editable_files get matching controls (the server
+ * validates against the same declaration); others take free text, with
+ * `dot` supplying the node's edge labels as quick answers.
+ */
+export function FeedbackCard({
+  runId,
+  request,
+  dot,
+  onFocusNode,
+  onAnswered,
+}: {
+  runId: string;
+  request: PendingFeedback;
+  dot: string;
+  onFocusNode?: (nodeId: string) => void;
+  onAnswered: () => void;
+}) {
+  const [text, setText] = useState("");
+  const [choice, setChoice] = useState<string | null>(null);
+  const [values, setValues] = useState<Record<string, string | boolean>>({});
+  const [json, setJson] = useState("");
+  const [edits, setEdits] = useState<Record<string, string>>({});
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const node = feedbackNode(request);
+  const question = feedbackQuestion(request);
+  const options = feedbackOptions(request, dot);
+  const declared = declaresOptions(request);
+  const freeText = !declared || request.allow_free_text === true;
+  const schema = responseSchema(request);
+  const fields = useMemo(() => (schema ? schemaFields(schema) : null), [schema]);
+  const files = editableFiles(request);
+  // Anything beyond a single answer is collected into one Send.
+  const structured = schema != null || files.length > 0;
+
+  const send = async (body: Omit<FeedbackResponseBody, "stage">) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await postResponse(runId, { stage: request.stage, ...body });
+      onAnswered();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const sendStructured = () => {
+    const body: Omit<FeedbackResponseBody, "stage"> = {};
+    if (text.trim()) body.response = text;
+    if (choice) body.choice = choice;
+    if (schema) {
+      try {
+        body.data = fields ? formData(fields, values) : JSON.parse(json);
+      } catch (err) {
+        setError(err instanceof SyntaxError ? `Invalid JSON: ${err.message}` : err instanceof Error ? err.message : String(err));
+        return;
+      }
+    }
+    const edited = Object.entries(edits).map(([path, content]) => ({ path, content }));
+    if (edited.length > 0) body.files = edited;
+    void send(body);
+  };
+
+  const pickOption = (value: string) => {
+    if (structured) setChoice((c) => (c === value ? null : value));
+    else if (declared) void send(text.trim() ? { choice: value, response: text } : { choice: value });
+    else void send({ response: value });
+  };
+
+  const sendText = () => {
+    if (structured) sendStructured();
+    else if (freeText && text.trim()) void send({ response: text });
+  };
+
+  return (
+    <div className="rounded border border-amber-700/50 bg-gray-900/80 p-2 space-y-2">
+      <div className="flex items-center gap-2 text-xs">
+        <button
+          onClick={() => onFocusNode?.(node)}
+          className="font-mono text-amber-300 hover:underline"
+          title="Show this node"
+        >
+          {node}
+        </button>
+        {request.stage !== node && <span className="font-mono text-gray-600 truncate">{request.stage}</span>}
+      </div>
+      {question ? (
+        <MarkdownContent content={question} className="text-xs" />
+      ) : (
+        <div className="text-xs text-gray-500 italic">No question in the request</div>
+      )}
+      {options.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {options.map((o) => (
+            <button
+              key={o.value}
+              disabled={busy}
+              onClick={() => pickOption(o.value)}
+              title={o.description}
+              className={`px-2 py-0.5 rounded text-xs text-white disabled:opacity-50 ${
+                structured && choice !== o.value ? "bg-gray-700 hover:bg-gray-600" : "bg-amber-600/80 hover:bg-amber-600"
+              }`}
+            >
+              {o.label}
+            </button>
+          ))}
+        </div>
+      )}
+      {schema && (
+        <SchemaForm
+          fields={fields}
+          values={values}
+          onChange={(key, value) => setValues((prev) => ({ ...prev, [key]: value }))}
+          json={json}
+          onJsonChange={setJson}
+        />
+      )}
+      {files.length > 0 && (
+        <FileEdits
+          runId={runId}
+          paths={files}
+          edits={edits}
+          onChange={(path, content) =>
+            setEdits((prev) => {
+              const next = { ...prev };
+              if (content === null) delete next[path];
+              else next[path] = content;
+              return next;
+            })
+          }
+        />
+      )}
+      <div className="flex gap-1">
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) sendText();
+          }}
+          rows={options.length > 0 || structured ? 1 : 2}
+          placeholder={
+            !freeText ? "Comment (optional)…" : options.length > 0 || structured ? "Or write a response…" : "Response…"
+          }
+          className={`flex-1 ${INPUT_CLS}`}
+        />
+        {(structured || freeText) && (
+          <button
+            disabled={busy || (!structured && !text.trim())}
+            onClick={sendText}
+            className="px-2 rounded text-xs bg-gray-800 text-gray-200 hover:bg-gray-700 disabled:opacity-50"
+          >
+            {busy ? "Sending…" : "Send"}
+          </button>
+        )}
+      </div>
+      {error && <div className="text-xs text-red-400">{error}</div>}
+    </div>
+  );
+}
+
+/**
+ * Unanswered feedback requests of a run. Answers go through
+ * POST /api/runs/:id/feedback-respond; the run's SSE stream then drops the
+ * request, and until it does the answered card stays hidden here.
+ */
+export function FeedbackInbox({
+  runId,
+  requests,
+  dot,
+  onFocusNode,
+}: {
+  runId: string;
+  requests: PendingFeedback[];
+  dot: string;
+  onFocusNode?: (nodeId: string) => void;
+}) {
+  const [answered, setAnswered] = useState<Set<string>>(new Set());
+  const [collapsed, setCollapsed] = useState(false);
+
+  // Forget answers the server no longer lists, so a re-asked stage shows again.
+  const stages = requests.map((r) => r.stage).join("\n");
+  useEffect(() => {
+    setAnswered((prev) => new Set([...prev].filter((s) => requests.some((r) => r.stage === s))));
+  }, [stages]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const open = requests.filter((r) => !answered.has(r.stage));
+  if (open.length === 0) return null;
+
+  return (
+    <div className="shrink-0 border-b border-amber-800/60 bg-amber-950/20 max-h-[45vh] overflow-y-auto">
+      <button
+        onClick={() => setCollapsed((c) => !c)}
+        className="w-full flex items-center gap-2 px-3 py-1.5 text-xs text-amber-300 hover:bg-amber-950/30"
+      >
+        <span>{collapsed ? "▸" : "▾"}</span>
+        <span className="font-semibold">Waiting for feedback</span>
+        <span className="text-amber-500">{open.length}</span>
+      </button>
+      {!collapsed && (
+        <div className="px-3 pb-2 space-y-2">
+          {open.map((r) => (
+            <FeedbackCard
+              key={r.stage}
+              runId={runId}
+              request={r}
+              dot={dot}
+              onFocusNode={onFocusNode}
+              onAnswered={() => setAnswered((prev) => new Set(prev).add(r.stage))}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,173 @@
+import { useEffect, useRef, useState } from "react";
+import { apiUrl, appUrl } from "../lib/embeddedBase";
+import type { FeedbackInboxEntry, FeedbackInboxEvent } from "../lib/types";
+import { FeedbackCard } from "./FeedbackInbox";
+
+const AGE_TICK_MS = 30_000;
+
+function entryKey(e: { run_id: string; stage: string }): string {
+  return `${e.run_id}\n${e.stage}`;
+}
+
+function runUrl(e: FeedbackInboxEntry): string {
+  return appUrl(`/run/${encodeURIComponent(e.run_id)}?node=${encodeURIComponent(e.node_id)}`);
+}
+
+function age(iso: string, now: number): string {
+  const mins = Math.floor((now - new Date(iso).getTime()) / 60_000);
+  if (mins < 1) return "just now";
+  if (mins < 60) return `${mins}m`;
+  const hours = Math.floor(mins / 60);
+  if (hours < 24) return `${hours}h ${mins % 60}m`;
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+}
+
+const notificationsSupported = typeof window !== "undefined" && "Notification" in window;
+
+function notify(e: FeedbackInboxEntry) {
+  if (!notificationsSupported || Notification.permission !== "granted") return;
+  const n = new Notification(`Feedback needed: ${e.graph_name ?? e.run_id}`, {
+    body: `${e.node_id}${e.question ? ` — ${e.question.slice(0, 160)}` : ""}`,
+    tag: entryKey(e),
+  });
+  n.onclick = () => {
+    window.focus();
+    window.location.href = runUrl(e);
+  };
+}
+
+/**
+ * Every unanswered feedback request across all runs, oldest (longest
+ * blocked) first, live over /api/feedback/stream. With notifications
+ * enabled, each new request raises a browser notification.
+ */
+export function FeedbackInboxPage() {
+  const [entries, setEntries] = useState<FeedbackInboxEntry[] | null>(null);
+  const [connected, setConnected] = useState(false);
+  const [answered, setAnswered] = useState<Set<string>>(new Set());
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [permission, setPermission] = useState(() => (notificationsSupported ? Notification.permission : "denied"));
+  const [now, setNow] = useState(Date.now());
+  // Read inside the EventSource handler without reconnecting on change.
+  const permissionRef = useRef(permission);
+  permissionRef.current = permission;
+
+  useEffect(() => {
+    const es = new EventSource(apiUrl("/api/feedback/stream"));
+    es.onopen = () => setConnected(true);
+    es.onerror = () => setConnected(false);
+    es.onmessage = (ev) => {
+      let msg: FeedbackInboxEvent;
+      try {
+        msg = JSON.parse(ev.data) as FeedbackInboxEvent;
+      } catch {
+        return;
+      }
+      if (msg.type === "snapshot") {
+        setEntries(msg.entries);
+      } else if (msg.type === "added") {
+        const key = entryKey(msg.entry);
+        setEntries((prev) => [...(prev ?? []).filter((e) => entryKey(e) !== key), msg.entry]);
+        setAnswered((prev) => {
+          if (!prev.has(key)) return prev;
+          const next = new Set(prev);
+          next.delete(key);
+          return next;
+        });
+        if (permissionRef.current === "granted") notify(msg.entry);
+      } else if (msg.type === "removed") {
+        const key = entryKey(msg);
+        setEntries((prev) => prev?.filter((e) => entryKey(e) !== key) ?? prev);
+      }
+    };
+    return () => es.close();
+  }, []);
+
+  useEffect(() => {
+    const t = setInterval(() => setNow(Date.now()), AGE_TICK_MS);
+    return () => clearInterval(t);
+  }, []);
+
+  const open = (entries ?? []).filter((e) => !answered.has(entryKey(e)));
+
+  return (
+    <div className="min-h-screen bg-gray-950 text-gray-100">
+      <div className="max-w-4xl mx-auto px-6 py-8">
+        <div className="flex items-baseline gap-4 mb-5">
+          <a href={appUrl("/")} className="text-xs text-gray-500 hover:text-gray-300">← Runs</a>
+          <h1 className="text-base font-semibold text-gray-200">Feedback inbox</h1>
+          {entries && <span className="text-xs text-amber-400">{open.length} waiting</span>}
+          {!connected && entries && <span className="text-xs text-gray-600">reconnecting…</span>}
+          <span className="ml-auto" />
+          {notificationsSupported && permission === "default" && (
+            <button
+              onClick={() => void Notification.requestPermission().then(setPermission)}
+              className="text-xs text-blue-400 hover:text-blue-300"
+            >
+              Enable notifications
+            </button>
+          )}
+          {permission === "granted" && <span className="text-xs text-gray-600">Notifications on</span>}
+          {notificationsSupported && permission === "denied" && (
+            <span className="text-xs text-gray-600" title="Allow notifications for this site in the browser settings">
+              Notifications blocked
+            </span>
+          )}
+        </div>
+
+        {!entries ? (
+          <div className="text-sm text-gray-600">Loading…</div>
+        ) : open.length === 0 ? (
+          <div className="text-sm text-gray-600">No run is waiting for feedback</div>
+        ) : (
+          <div className="space-y-1">
+            {open.map((e) => {
+              const key = entryKey(e);
+              const isOpen = expanded === key;
+              return (
+                <div key={key} className="rounded border border-gray-800 bg-gray-900/40">
+                  <div className="flex items-baseline gap-3 px-3 py-2 text-xs hover:bg-gray-900">
+                    <button
+                      onClick={() => setExpanded(isOpen ? null : key)}
+                      className="flex-1 min-w-0 flex items-baseline gap-3 text-left"
+                    >
+                      <span className="w-16 shrink-0 text-amber-400 tabular-nums" title={new Date(e.requested_at).toLocaleString()}>
+                        {age(e.requested_at, now)}
+                      </span>
+                      <span className="w-40 shrink-0 truncate text-gray-300" title={e.graph_name ?? undefined}>
+                        {e.graph_name ?? "—"}
+                      </span>
+                      <span className="w-32 shrink-0 truncate font-mono text-amber-300" title={e.stage}>{e.node_id}</span>
+                      <span className="flex-1 truncate text-gray-400">{e.question ?? ""}</span>
+                      {e.run_status && e.run_status !== "executing" && (
+                        <span className="shrink-0 text-gray-600">{e.run_status}</span>
+                      )}
+                    </button>
+                    <a
+                      href={runUrl(e)}
+                      className="shrink-0 font-mono text-gray-500 hover:text-blue-400"
+                      title={`Open run ${e.run_id}`}
+                    >
+                      {e.run_id.slice(-8)}
+                    </a>
+                  </div>
+                  {isOpen && (
+                    <div className="px-3 pb-3">
+                      <FeedbackCard
+                        runId={e.run_id}
+                        request={e.request}
+                        dot=""
+                        onFocusNode={() => { window.location.href = runUrl(e); }}
+                        onAnswered={() => setAnswered((prev) => new Set(prev).add(key))}
+                      />
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
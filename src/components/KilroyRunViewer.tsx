@@ -5,9 +5,14 @@ import { DotPreview } from "./DotPreview";
 import { StageSidebar } from "./StageSidebar";
 import { StageDetailPanel } from "./StageDetailPanel";
 import { NodeDetailPanel } from "./NodeDetailPanel";
-import type { ComputedStatus } from "../lib/types";
+import { FeedbackInbox } from "./FeedbackInbox";
+import { LauncherLog } from "./LauncherLog";
+import { RunActivity } from "./RunActivity";
+import type { BudgetStatus, ComputedStatus, FactoryRunControl, RunAnnotation, RunCost } from "../lib/types";
 import { parseAllNodeLabels } from "../lib/dotUtils";
-import { appUrl } from "../lib/embeddedBase";
+import { feedbackNode } from "../lib/feedback";
+import { apiUrl, appUrl } from "../lib/embeddedBase";
+import { factoryToken, forgetFactoryToken, rememberFactoryToken } from "../lib/factoryAuth";
 
 function shortPath(p: string): string {
   const parts = p.split("/").filter(Boolean);
@@ -33,6 +38,86 @@ function StatusBadge({ status }: { status: ComputedStatus | undefined }) {
   );
 }
 
+/** Spend against the run's budget; amber once past the warning level, red at the limit. */
+function BudgetBadge({ status }: { status: BudgetStatus | null }) {
+  if (!status?.budget || status.spent_usd == null) return null;
+  const { budget, spent_usd: spent } = status;
+  const level = status.alerts[status.alerts.length - 1]?.level;
+  const cap = budget.limit_usd ?? budget.warn_usd ?? 0;
+  const classes = level === "limit"
+    ? "bg-red-500/20 text-red-400"
+    : level === "warn" ? "bg-amber-500/20 text-amber-400" : "bg-gray-500/15 text-gray-400";
+  const title = [
+    budget.warn_usd != null ? `warn at $${budget.warn_usd.toFixed(2)}` : null,
+    budget.limit_usd != null ? `limit $${budget.limit_usd.toFixed(2)}` : null,
+    `(${budget.source} budget)`,
+    status.stopped_at ? `— stopped at ${new Date(status.stopped_at).toLocaleTimeString()}` : null,
+  ].filter(Boolean).join(" ");
+  return (
+    <span className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-semibold tabular-nums ${classes}`} title={title}>
+      ${spent.toFixed(2)} / ${cap.toFixed(2)}
+      {level === "limit" && (status.stopped_at ? " · stopped" : " · over budget")}
+    </span>
+  );
+}
+
+/**
+ * Stop control for a run driven by the factory's attractor child. The factory
+ * token is asked for once and kept in localStorage; a rejected token is forgotten.
+ */
+function FactoryStopButton({
+  runId,
+  control,
+  onStopping,
+}: {
+  runId: string;
+  control: FactoryRunControl | null;
+  onStopping: () => void;
+}) {
+  const [busy, setBusy] = useState(false);
+
+  if (!control?.active) return null;
+
+  const stop = async () => {
+    if (!window.confirm("Stop this run? The attractor is sent SIGINT, then SIGTERM/SIGKILL if it does not exit.")) return;
+    const token = factoryToken();
+    if (!token) return;
+    setBusy(true);
+    try {
+      const r = await fetch(apiUrl("/api/factory/attractor/stop"), {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+        body: JSON.stringify({ run_id: runId, reason: "stopped from run viewer" }),
+      });
+      if (r.status === 401) {
+        forgetFactoryToken();
+        window.alert("Factory token rejected");
+        return;
+      }
+      const body = (await r.json()) as { error?: string };
+      if (!r.ok) {
+        window.alert(body.error ?? `Stop failed (${r.status})`);
+        return;
+      }
+      rememberFactoryToken(token);
+      onStopping();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <button
+      onClick={stop}
+      disabled={busy || control.stopping}
+      className="px-2 py-0.5 rounded text-xs font-semibold bg-red-500/15 text-red-400 hover:bg-red-500/25 disabled:opacity-50 disabled:cursor-default"
+      title="Stop the factory's attractor process for this run"
+    >
+      {control.stopping ? "Stopping…" : "Stop"}
+    </button>
+  );
+}
+
 function HeartbeatAge({ lastHeartbeat }: { lastHeartbeat?: string }) {
   if (!lastHeartbeat) return null;
   const ms = Date.now() - new Date(lastHeartbeat).getTime();
@@ -44,7 +129,7 @@ function HeartbeatAge({ lastHeartbeat }: { lastHeartbeat?: string }) {
 
 export function KilroyRunViewer() {
   const { runId } = useParams<{ runId: string }>();
-  const { runState, stages, stageHistory, dot, loading, error, connected } = useRunMonitor(runId);
+  const { runState, stages, stageHistory, dot, feedback, loading, error, connected } = useRunMonitor(runId);
   const [searchParams, setSearchParams] = useSearchParams();
 
   // ?minimal=1 hides header + sidebars by default; click the expand button to toggle back.
@@ -59,6 +144,52 @@ export function KilroyRunViewer() {
   const userClosedRef = useRef(false);
   // Cycle steps menu toggle
   const [cycleMenuOpen, setCycleMenuOpen] = useState(false);
+  const [cost, setCost] = useState<RunCost | null>(null);
+  const [budget, setBudget] = useState<BudgetStatus | null>(null);
+  const [factoryControl, setFactoryControl] = useState<FactoryRunControl | null>(null);
+
+  // Re-price whenever a stage finishes — that is when new events/usage land.
+  const finishedVisits = stageHistory.filter((v) => v.status !== "running").length;
+  useEffect(() => {
+    if (!runId) return;
+    let cancelled = false;
+    fetch(apiUrl(`/api/runs/${encodeURIComponent(runId)}/cost`))
+      .then((r) => (r.ok ? r.json() : null))
+      .then((c: RunCost | null) => { if (!cancelled) setCost(c); })
+      .catch(() => { /* cost panel is optional */ });
+    fetch(apiUrl(`/api/runs/${encodeURIComponent(runId)}/budget`))
+      .then((r) => (r.ok ? r.json() : null))
+      .then((b: BudgetStatus | null) => { if (!cancelled) setBudget(b); })
+      .catch(() => { /* no budget badge */ });
+    return () => { cancelled = true; };
+  }, [runId, finishedVisits]);
+
+  // Whether the factory drives this run (Stop button) and launched it (Launcher log view).
+  const runStatus = runState?.computedStatus;
+  useEffect(() => {
+    if (!runId) return;
+    let cancelled = false;
+    fetch(apiUrl(`/api/factory/attractor/runs/${encodeURIComponent(runId)}`))
+      .then((r) => (r.ok ? r.json() : null))
+      .then((c: FactoryRunControl | null) => { if (!cancelled) setFactoryControl(c); })
+      .catch(() => { /* factory API not mounted */ });
+    return () => { cancelled = true; };
+  }, [runId, runStatus]);
+
+  // ?view=launcher swaps the graph for the factory launcher's log, ?view=activity for the run's audit trail.
+  const viewParam = searchParams.get("view");
+  const centerView =
+    viewParam === "launcher" && factoryControl?.launcher_logs ? "launcher" : viewParam === "activity" ? "activity" : "graph";
+  const setCenterView = (view: "graph" | "launcher" | "activity") => {
+    setSearchParams((p) => { if (view !== "graph") p.set("view", view); else p.delete("view"); return p; }, { replace: true });
+  };
+  const waitingNodes = useMemo(() => feedback.map(feedbackNode), [feedback]);
+
+  const centerTabs = [
+    ["graph", "Graph"],
+    ...(factoryControl?.launcher_logs ? [["launcher", "Launcher log"] as const] : []),
+    ["activity", "Activity"],
+  ] as const;
 
   // ── URL deep-link helpers ──────────────────────────────────────────────────
 
@@ -113,6 +244,15 @@ export function KilroyRunViewer() {
   // Map node IDs → human-readable labels from the DOT graph
   const nodeLabels = useMemo(() => parseAllNodeLabels(dot ?? ""), [dot]);
 
+  // Run annotations (reports, reviews) drawn on their node's outgoing edge
+  const annotationsByNode = useMemo(() => {
+    const byNode: Record<string, RunAnnotation[]> = {};
+    for (const a of run?.annotations ?? []) {
+      if (a.node) (byNode[a.node] ??= []).push(a);
+    }
+    return byNode;
+  }, [run?.annotations]);
+
   // Auto-open the detail panel on the last failed step when a run ends in failure.
   const computedStatus = runState?.computedStatus;
   useEffect(() => {
@@ -248,6 +388,7 @@ export function KilroyRunViewer() {
           <a href={appUrl("/")} className="text-gray-600 hover:text-gray-300 text-xs shrink-0" title="All runs">←</a>
           <span className="text-xs font-mono text-gray-400 truncate max-w-xs" title={runId}>{runId}</span>
           {runState && <StatusBadge status={runState.computedStatus} />}
+          <BudgetBadge status={budget} />
           {run?.dot_file && <span className="text-xs text-gray-500">{run.dot_file}</span>}
           {run?.repo_path && (
             <span className="text-xs text-gray-600 font-mono truncate max-w-xs" title={run.repo_path}>
@@ -256,6 +397,13 @@ export function KilroyRunViewer() {
           )}
           {run?.last_heartbeat && <HeartbeatAge lastHeartbeat={run.last_heartbeat} />}
           <div className="ml-auto flex items-center gap-2">
+            {runId && (
+              <FactoryStopButton
+                runId={runId}
+                control={factoryControl}
+                onStopping={() => setFactoryControl((c) => (c ? { ...c, stopping: true } : c))}
+              />
+            )}
             <span
               className={`w-2 h-2 rounded-full ${connected ? "bg-green-500" : "bg-red-500"}`}
               title={connected ? "Connected" : "Disconnected"}
@@ -357,42 +505,82 @@ export function KilroyRunViewer() {
             restartCount={runState?.restartCount}
             restartKinds={runState?.restartKinds}
             nodeLabels={nodeLabels}
+            cost={cost}
           />
         )}
 
-        {/* Center: DOT graph */}
-        <div className="flex-1 min-w-0">
-          {dot ? (
-            <DotPreview
+        {/* Center: DOT graph, the launcher log, or the activity log */}
+        <div className="flex-1 min-w-0 flex flex-col">
+          {chrome && runId && (
+            <div className="flex items-center border-b border-gray-800 shrink-0">
+              {centerTabs.map(([id, label]) => (
+                <button
+                  key={id}
+                  onClick={() => setCenterView(id)}
+                  className={`px-3 py-1.5 text-xs whitespace-nowrap ${
+                    centerView === id
+                      ? "text-gray-100 border-b-2 border-blue-500"
+                      : "text-gray-500 hover:text-gray-300"
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          )}
+          {chrome && runId && (
+            <FeedbackInbox
+              runId={runId}
+              requests={feedback}
               dot={dot}
-              className="h-full"
-              completedNodes={completedNodes}
-              failedNodes={failedNodes}
-              terminalFailedNode={terminalFailedNode}
-              cycleNodes={cycleNodes}
-              cycleResolved={runFailed}
-              highlightNode={highlightNode}
-              selectedNode={graphSelectedNode}
-              onNodeClick={handleGraphNodeClick}
-              stageHistory={stageHistory}
-              hoveredHistoryIndex={hoveredHistoryIndex}
-              edgeToEdge
-              focusNode={!chrome ? highlightNode : undefined}
+              onFocusNode={(nodeId) => {
+                setCenterView("graph");
+                if (graphSelectedNode !== nodeId) handleGraphNodeClick(nodeId);
+              }}
             />
-          ) : (
-            <div className="flex items-center justify-center h-full text-gray-600 text-sm">
-              {run ? (
-                <div className="text-center space-y-1">
-                  <div>No DOT graph available</div>
-                  <div className="text-xs text-gray-700">
-                    DOT graph not found in run manifest
-                  </div>
-                </div>
-              ) : (
-                <div>Waiting for run data…</div>
-              )}
-            </div>
           )}
+          <div className="flex-1 min-h-0">
+            {centerView === "launcher" && runId ? (
+              <LauncherLog runId={runId} launches={factoryControl?.launcher_logs ?? 0} />
+            ) : centerView === "activity" && runId ? (
+              <RunActivity runId={runId} />
+            ) : dot ? (
+              <DotPreview
+                dot={dot}
+                className="h-full"
+                completedNodes={completedNodes}
+                failedNodes={failedNodes}
+                terminalFailedNode={terminalFailedNode}
+                cycleNodes={cycleNodes}
+                cycleResolved={runFailed}
+                waitingNodes={waitingNodes}
+                highlightNode={highlightNode}
+                selectedNode={graphSelectedNode}
+                onNodeClick={handleGraphNodeClick}
+                reportAnnotationsByNode={annotationsByNode}
+                onReportAnnotationClick={(a) => {
+                  if (a.node && graphSelectedNode !== a.node) handleGraphNodeClick(a.node);
+                }}
+                stageHistory={stageHistory}
+                hoveredHistoryIndex={hoveredHistoryIndex}
+                edgeToEdge
+                focusNode={!chrome ? highlightNode : undefined}
+              />
+            ) : (
+              <div className="flex items-center justify-center h-full text-gray-600 text-sm">
+                {run ? (
+                  <div className="text-center space-y-1">
+                    <div>No DOT graph available</div>
+                    <div className="text-xs text-gray-700">
+                      DOT graph not found in run manifest
+                    </div>
+                  </div>
+                ) : (
+                  <div>Waiting for run data…</div>
+                )}
+              </div>
+            )}
+          </div>
         </div>
 
         {/* Right panel: stage details (slide-in) */}
@@ -0,0 +1,170 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  factoryJson,
+  factoryToken,
+  forgetFactoryToken,
+  hasFactoryToken,
+  rememberFactoryToken,
+  TokenRejected,
+} from "../lib/factoryAuth";
+import type { LauncherLogChunk, LauncherLogInfo } from "../lib/types";
+
+const POLL_INTERVAL_MS = 2000;
+// Open on the last 256 KB; keep at most 2 MB in the page while following.
+const INITIAL_TAIL_BYTES = 256 * 1024;
+const MAX_TEXT_CHARS = 2 * 1024 * 1024;
+
+function describe(log: LauncherLogInfo): string {
+  if (log.live) return "running";
+  if (log.error) return log.error;
+  return log.exit_code != null ? `exited ${log.exit_code}` : "exited";
+}
+
+/**
+ * stdout/stderr of the factory launches (the start and any resumes) that
+ * drove a run, following the newest while it is live. `launches` is the
+ * server's count, so a new resume refreshes the list.
+ */
+export function LauncherLog({ runId, launches }: { runId: string; launches: number }) {
+  const [token, setToken] = useState<string | null>(() => (hasFactoryToken() ? factoryToken() : null));
+  const [logs, setLogs] = useState<LauncherLogInfo[] | null>(null);
+  const [jobId, setJobId] = useState<string | null>(null);
+  const [text, setText] = useState("");
+  const [truncated, setTruncated] = useState(false);
+  const [done, setDone] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const preRef = useRef<HTMLPreElement>(null);
+  // Follow the end of the log until the user scrolls up.
+  const stickToBottom = useRef(true);
+
+  const fail = (err: unknown) => {
+    if (err instanceof TokenRejected) {
+      forgetFactoryToken();
+      setToken(null);
+    }
+    setError(err instanceof Error ? err.message : String(err));
+  };
+
+  useEffect(() => {
+    if (!token) return;
+    let cancelled = false;
+    factoryJson<{ logs: LauncherLogInfo[] }>(`/api/runs/${encodeURIComponent(runId)}/launcher-logs`, token)
+      .then(({ logs: list }) => {
+        if (cancelled) return;
+        rememberFactoryToken(token);
+        setError(null);
+        setLogs(list);
+        setJobId((cur) => (cur && list.some((l) => l.job_id === cur) ? cur : list[list.length - 1]?.job_id ?? null));
+      })
+      .catch((err) => { if (!cancelled) fail(err); });
+    return () => { cancelled = true; };
+  }, [runId, token, launches]);
+
+  useEffect(() => {
+    if (!token || !jobId) return;
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    setText("");
+    setTruncated(false);
+    setDone(false);
+    stickToBottom.current = true;
+
+    const poll = async (offset: number) => {
+      try {
+        const chunk = await factoryJson<LauncherLogChunk>(
+          `/api/factory/jobs/${encodeURIComponent(jobId)}/log?offset=${offset}`,
+          token,
+        );
+        if (cancelled) return;
+        if (offset < 0 && chunk.offset > 0) setTruncated(true);
+        if (chunk.text) {
+          setText((prev) => {
+            const next = prev + chunk.text;
+            if (next.length <= MAX_TEXT_CHARS) return next;
+            setTruncated(true);
+            return next.slice(next.length - MAX_TEXT_CHARS);
+          });
+        }
+        if (chunk.done) {
+          setDone(true);
+          return;
+        }
+        // More already on disk: fetch it now; otherwise wait for the child to write.
+        const delay = chunk.next_offset < chunk.size ? 0 : POLL_INTERVAL_MS;
+        timer = setTimeout(() => void poll(chunk.next_offset), delay);
+      } catch (err) {
+        if (!cancelled) fail(err);
+      }
+    };
+    void poll(-INITIAL_TAIL_BYTES);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [jobId, token]);
+
+  useEffect(() => {
+    const el = preRef.current;
+    if (el && stickToBottom.current) el.scrollTop = el.scrollHeight;
+  }, [text]);
+
+  if (!token) {
+    return (
+      <div className="flex flex-col items-center justify-center h-full gap-2 text-sm text-gray-500">
+        <div>The launcher log needs the factory token.</div>
+        {error && <div className="text-xs text-red-400">{error}</div>}
+        <button
+          onClick={() => setToken(factoryToken())}
+          className="px-2 py-0.5 rounded text-xs bg-gray-800 text-gray-300 hover:bg-gray-700"
+        >
+          Enter token
+        </button>
+      </div>
+    );
+  }
+
+  const selected = logs?.find((l) => l.job_id === jobId);
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex items-center gap-2 px-3 py-1.5 border-b border-gray-800 shrink-0 text-xs">
+        {logs && logs.length > 1 ? (
+          <select
+            value={jobId ?? ""}
+            onChange={(e) => setJobId(e.target.value)}
+            className="bg-gray-900 border border-gray-700 rounded px-1 py-0.5 text-gray-300"
+          >
+            {logs.map((l) => (
+              <option key={l.job_id} value={l.job_id}>
+                {l.kind} · {new Date(l.created_at).toLocaleString()}
+              </option>
+            ))}
+          </select>
+        ) : (
+          selected && <span className="text-gray-400">{selected.kind} · {new Date(selected.created_at).toLocaleString()}</span>
+        )}
+        {selected && (
+          <span className={selected.live && !done ? "text-amber-400" : selected.error ? "text-red-400" : "text-gray-500"}>
+            {done && selected.live ? "exited" : describe(selected)}
+          </span>
+        )}
+        {error && <span className="ml-auto text-red-400 truncate" title={error}>{error}</span>}
+      </div>
+      {logs && logs.length === 0 ? (
+        <div className="flex items-center justify-center flex-1 text-sm text-gray-600">No launcher log for this run</div>
+      ) : (
+        <pre
+          ref={preRef}
+          onScroll={(e) => {
+            const el = e.currentTarget;
+            stickToBottom.current = el.scrollHeight - el.scrollTop - el.clientHeight < 40;
+          }}
+          className="flex-1 overflow-auto p-3 text-xs text-gray-300 font-mono whitespace-pre-wrap bg-gray-950"
+        >
+          {truncated && <span className="text-gray-600">… earlier output not shown{"\n"}</span>}
+          {text}
+        </pre>
+      )}
+    </div>
+  );
+}
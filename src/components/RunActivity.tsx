@@ -0,0 +1,102 @@
+import { useEffect, useState } from "react";
+import { apiUrl } from "../lib/embeddedBase";
+import { storedAuthHeaders } from "../lib/factoryAuth";
+import type { RunActivityEntry } from "../lib/types";
+
+const POLL_INTERVAL_MS = 10_000;
+
+const RESULT_CLS: Record<RunActivityEntry["result"], string> = {
+  ok: "text-green-400",
+  error: "text-red-400",
+  denied: "text-amber-400",
+};
+
+function summarize(detail: Record<string, unknown> | undefined): string {
+  if (!detail) return "";
+  return Object.entries(detail)
+    .filter(([, v]) => v != null && v !== "")
+    .map(([k, v]) => `${k}=${typeof v === "string" ? v : JSON.stringify(v)}`)
+    .join("  ");
+}
+
+/**
+ * Who did what to a run, newest first, from the server's audit log: feedback
+ * responses, factory starts/resumes/stops, checkpoint repairs, attractor
+ * spawns and exits, and refused writes.
+ */
+export function RunActivity({ runId }: { runId: string }) {
+  const [entries, setEntries] = useState<RunActivityEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const poll = async () => {
+      try {
+        const r = await fetch(apiUrl(`/api/runs/${encodeURIComponent(runId)}/activity`), { headers: storedAuthHeaders() });
+        const body = (await r.json().catch(() => ({}))) as { entries?: RunActivityEntry[]; error?: string };
+        if (cancelled) return;
+        if (!r.ok) throw new Error(body.error ?? `HTTP ${r.status}`);
+        setEntries(body.entries ?? []);
+        setError(null);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err));
+      }
+      if (!cancelled) timer = setTimeout(() => void poll(), POLL_INTERVAL_MS);
+    };
+    void poll();
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [runId]);
+
+  if (!entries) {
+    return (
+      <div className="flex items-center justify-center h-full text-sm text-gray-600">
+        {error ? <span className="text-red-400">{error}</span> : "Loading…"}
+      </div>
+    );
+  }
+  if (entries.length === 0) {
+    return <div className="flex items-center justify-center h-full text-sm text-gray-600">No recorded activity for this run</div>;
+  }
+
+  return (
+    <div className="h-full overflow-auto bg-gray-950">
+      {error && <div className="px-3 py-1 text-xs text-red-400 border-b border-gray-800">{error}</div>}
+      <table className="w-full text-xs">
+        <thead className="sticky top-0 bg-gray-950 text-gray-500 text-left">
+          <tr>
+            <th className="px-3 py-1.5 font-normal">When</th>
+            <th className="px-3 py-1.5 font-normal">Who</th>
+            <th className="px-3 py-1.5 font-normal">Action</th>
+            <th className="px-3 py-1.5 font-normal">Result</th>
+            <th className="px-3 py-1.5 font-normal">Details</th>
+          </tr>
+        </thead>
+        <tbody>
+          {entries.map((e, i) => (
+            <tr key={i} className="border-t border-gray-900 align-top">
+              <td className="px-3 py-1 text-gray-400 whitespace-nowrap" title={e.at}>{new Date(e.at).toLocaleString()}</td>
+              <td className="px-3 py-1 whitespace-nowrap" title={e.token_id ? `token ${e.token_id}` : undefined}>
+                <span className={e.actor === "system" ? "text-gray-500" : "text-gray-200"}>{e.actor}</span>
+              </td>
+              <td className="px-3 py-1 font-mono text-gray-300 whitespace-nowrap">
+                {e.action}
+                {e.job_id && <span className="ml-1 text-gray-600" title="factory job">{e.job_id}</span>}
+              </td>
+              <td className={`px-3 py-1 ${RESULT_CLS[e.result] ?? "text-gray-400"}`}>{e.result}</td>
+              <td
+                className="px-3 py-1 font-mono text-gray-500 break-all"
+                title={e.payload_sha256 ? `payload sha256 ${e.payload_sha256}` : undefined}
+              >
+                {summarize(e.detail)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,253 @@
+import { useEffect, useMemo, useState } from "react";
+import { useParams } from "react-router-dom";
+import { DotPreview } from "./DotPreview";
+import type { CompareNodeRow, CompareNodeSide, CompareRunSummary, RunComparison, RunState } from "../lib/types";
+import { apiUrl, appUrl } from "../lib/embeddedBase";
+import { diffLines } from "../lib/textDiff";
+
+function fmtDuration(s: number): string {
+  if (s < 60) return `${s}s`;
+  const m = Math.floor(s / 60);
+  const rem = s % 60;
+  if (m < 60) return rem > 0 ? `${m}m ${rem}s` : `${m}m`;
+  const h = Math.floor(m / 60);
+  const remM = m % 60;
+  return remM > 0 ? `${h}h ${remM}m` : `${h}h`;
+}
+
+function fmtCost(usd: number | null): string {
+  if (usd == null) return "—";
+  if (usd < 0.01) return `$${usd.toFixed(4)}`;
+  return `$${usd.toFixed(3)}`;
+}
+
+/** Signed difference B − A, coloured so that "B got worse" reads red. */
+function Delta({ a, b, fmt }: { a: number | null | undefined; b: number | null | undefined; fmt: (n: number) => string }) {
+  if (a == null || b == null || a === b) return null;
+  const d = b - a;
+  return <span className={`ml-1 text-[10px] ${d > 0 ? "text-red-400" : "text-green-400"}`}>{d > 0 ? "+" : "−"}{fmt(Math.abs(d))}</span>;
+}
+
+async function fetchJson<T>(path: string): Promise<T> {
+  const r = await fetch(apiUrl(path));
+  const body = await r.json();
+  if (!r.ok) throw new Error(body.error ?? `HTTP ${r.status}`);
+  return body as T;
+}
+
+async function fetchResponse(runId: string, side: CompareNodeSide | null): Promise<string> {
+  if (!side) return "";
+  const r = await fetch(apiUrl(`/api/runs/${encodeURIComponent(runId)}/stages/${side.stage_path}/response.md`));
+  return r.ok ? r.text() : "";
+}
+
+function statusIcons(side: CompareNodeSide) {
+  return side.statuses.map((s, i) => {
+    const icon = s === "pass" ? "✓" : s === "fail" ? "✗" : s === "interrupted" ? "~" : "●";
+    const cls = s === "pass" ? "text-green-400" : s === "fail" ? "text-red-400" : s === "interrupted" ? "text-amber-600" : "text-amber-400";
+    return <span key={i} className={cls}>{icon}</span>;
+  });
+}
+
+function SideCell({ side }: { side: CompareNodeSide | null }) {
+  if (!side) return <td className="px-2 py-1.5 text-gray-700">not visited</td>;
+  return (
+    <td className="px-2 py-1.5 align-top">
+      <div className="flex items-center gap-1.5">
+        <span className="font-mono">{statusIcons(side)}</span>
+        <span className="text-gray-400">{side.visits}×</span>
+        {side.max_attempt > 1 && <span className="text-gray-600">att {side.max_attempt}</span>}
+      </div>
+      {side.failure_reasons.map((r, i) => (
+        <div key={i} className="text-[11px] text-red-400/80 line-clamp-2" title={r}>{r}</div>
+      ))}
+    </td>
+  );
+}
+
+function RunHeader({ label, run, color }: { label: string; run: CompareRunSummary; color: string }) {
+  return (
+    <a href={appUrl(`/run/${encodeURIComponent(run.id)}`)} className="flex-1 min-w-0 px-3 py-2 bg-gray-900 border border-gray-800 rounded hover:border-gray-700">
+      <div className="flex items-baseline gap-2">
+        <span className={`text-xs font-bold ${color}`}>{label}</span>
+        {run.graph_name && <span className="text-sm text-gray-200">{run.graph_name}</span>}
+        <span className="text-xs text-gray-500 ml-auto">{run.status}</span>
+      </div>
+      <div className="text-[11px] font-mono text-gray-600 truncate">{run.id}</div>
+      <div className="text-xs text-gray-500">
+        {run.visits} visits · {run.duration_s != null ? fmtDuration(run.duration_s) : "—"} · {fmtCost(run.estimated_cost_usd)}
+      </div>
+    </a>
+  );
+}
+
+function ResponseDiff({ runA, runB, row }: { runA: string; runB: string; row: CompareNodeRow }) {
+  const [texts, setTexts] = useState<[string, string] | null>(null);
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([fetchResponse(runA, row.a), fetchResponse(runB, row.b)])
+      .then((t) => { if (!cancelled) setTexts(t); })
+      .catch(() => { if (!cancelled) setTexts(["", ""]); });
+    return () => { cancelled = true; };
+  }, [runA, runB, row]);
+
+  const lines = useMemo(() => (texts ? diffLines(texts[0], texts[1]) : []), [texts]);
+  if (!texts) return <div className="px-3 py-2 text-xs text-gray-500">Loading responses…</div>;
+  if (!texts[0] && !texts[1]) return <div className="px-3 py-2 text-xs text-gray-500">No response.md in either run.</div>;
+  if (texts[0] === texts[1]) return <div className="px-3 py-2 text-xs text-gray-500">Responses are identical.</div>;
+  return (
+    <pre className="max-h-96 overflow-auto px-3 py-2 text-[11px] font-mono leading-relaxed bg-gray-950">
+      {lines.map((l, i) => (
+        <div
+          key={i}
+          className={l.type === "add" ? "bg-green-500/10 text-green-300" : l.type === "del" ? "bg-red-500/10 text-red-300" : "text-gray-500"}
+        >
+          {l.type === "add" ? "+ " : l.type === "del" ? "- " : "  "}{l.text}
+        </div>
+      ))}
+    </pre>
+  );
+}
+
+export function RunCompare() {
+  const { runA = "", runB = "" } = useParams<{ runA: string; runB: string }>();
+  const [comparison, setComparison] = useState<RunComparison | null>(null);
+  const [states, setStates] = useState<[RunState, RunState] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setComparison(null);
+    setStates(null);
+    setError(null);
+    Promise.all([
+      fetchJson<RunComparison>(`/api/compare/${encodeURIComponent(runA)}/${encodeURIComponent(runB)}`),
+      fetchJson<RunState>(`/api/runs/${encodeURIComponent(runA)}`),
+      fetchJson<RunState>(`/api/runs/${encodeURIComponent(runB)}`),
+    ])
+      .then(([c, a, b]) => {
+        if (cancelled) return;
+        setComparison(c);
+        setStates([a, b]);
+      })
+      .catch((err: unknown) => { if (!cancelled) setError(err instanceof Error ? err.message : String(err)); });
+    return () => { cancelled = true; };
+  }, [runA, runB]);
+
+  // Node colouring: anything either run visited, failures from either.
+  const { visited, failed } = useMemo(() => {
+    const rows = comparison?.nodes ?? [];
+    return {
+      visited: rows.map((r) => r.node_id),
+      failed: rows.filter((r) => r.a?.statuses.includes("fail") || r.b?.statuses.includes("fail")).map((r) => r.node_id),
+    };
+  }, [comparison]);
+
+  if (error) return <div className="min-h-screen bg-gray-950 text-red-400 p-8 text-sm">{error}</div>;
+  if (!comparison || !states) return <div className="min-h-screen bg-gray-950 text-gray-500 p-8 text-sm">Loading comparison…</div>;
+
+  const dot = states[0].dot ?? states[1].dot ?? "";
+
+  return (
+    <div className="h-screen flex flex-col bg-gray-950 text-gray-100">
+      <div className="flex gap-2 p-3 border-b border-gray-800 shrink-0">
+        <RunHeader label="A" run={comparison.a} color="text-sky-400" />
+        <RunHeader label="B" run={comparison.b} color="text-fuchsia-400" />
+      </div>
+      {!comparison.same_graph && (
+        <div className="px-3 py-1.5 text-xs text-amber-400 bg-amber-500/10 border-b border-amber-500/20 shrink-0">
+          The runs use different graphs — the preview shows run A's graph.
+        </div>
+      )}
+
+      <div className="flex flex-1 min-h-0">
+        <div className="flex-1 min-w-0 flex flex-col border-r border-gray-800">
+          <div className="flex gap-3 px-3 py-1.5 text-[11px] text-gray-500 border-b border-gray-800">
+            <span><span className="text-sky-400">━</span> A only</span>
+            <span><span className="text-fuchsia-400">━</span> B only</span>
+            <span><span className="text-gray-200">━</span> both</span>
+          </div>
+          {dot && (
+            <DotPreview
+              dot={dot}
+              className="flex-1 min-h-0"
+              completedNodes={visited}
+              failedNodes={failed}
+              stageHistory={states[0].stageHistory}
+              compareHistory={states[1].stageHistory ?? []}
+              selectedNode={expanded ?? undefined}
+              onNodeClick={(n) => setExpanded((cur) => (cur === n ? null : n))}
+              edgeToEdge
+            />
+          )}
+        </div>
+
+        <div className="w-[36rem] max-w-[55%] overflow-auto">
+          <table className="w-full text-xs">
+            <thead className="sticky top-0 bg-gray-900 text-gray-500 text-left">
+              <tr>
+                <th className="px-2 py-1.5 font-medium">Node</th>
+                <th className="px-2 py-1.5 font-medium text-sky-400">A</th>
+                <th className="px-2 py-1.5 font-medium text-fuchsia-400">B</th>
+                <th className="px-2 py-1.5 font-medium">Duration</th>
+                <th className="px-2 py-1.5 font-medium">Cost</th>
+              </tr>
+            </thead>
+            <tbody>
+              {comparison.nodes.map((row) => (
+                <CompareRow
+                  key={row.node_id}
+                  row={row}
+                  runA={runA}
+                  runB={runB}
+                  expanded={expanded === row.node_id}
+                  onToggle={() => setExpanded((cur) => (cur === row.node_id ? null : row.node_id))}
+                />
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function CompareRow({ row, runA, runB, expanded, onToggle }: {
+  row: CompareNodeRow;
+  runA: string;
+  runB: string;
+  expanded: boolean;
+  onToggle: () => void;
+}) {
+  const differs = !row.a || !row.b || row.a.statuses.join() !== row.b.statuses.join();
+  return (
+    <>
+      <tr
+        onClick={onToggle}
+        className={`border-b border-gray-800/60 cursor-pointer hover:bg-gray-800/40 ${expanded ? "bg-gray-800/40" : ""}`}
+      >
+        <td className={`px-2 py-1.5 align-top font-mono ${differs ? "text-amber-300" : "text-gray-300"}`}>
+          {expanded ? "▾" : "▸"} {row.node_id}
+        </td>
+        <SideCell side={row.a} />
+        <SideCell side={row.b} />
+        <td className="px-2 py-1.5 align-top text-gray-400 whitespace-nowrap">
+          {row.a ? fmtDuration(row.a.total_duration_s) : "—"} / {row.b ? fmtDuration(row.b.total_duration_s) : "—"}
+          <Delta a={row.a?.total_duration_s} b={row.b?.total_duration_s} fmt={fmtDuration} />
+        </td>
+        <td className="px-2 py-1.5 align-top text-gray-400 whitespace-nowrap">
+          {fmtCost(row.a?.estimated_cost_usd ?? null)} / {fmtCost(row.b?.estimated_cost_usd ?? null)}
+          <Delta a={row.a?.estimated_cost_usd} b={row.b?.estimated_cost_usd} fmt={(n) => fmtCost(n)} />
+        </td>
+      </tr>
+      {expanded && (
+        <tr className="border-b border-gray-800">
+          <td colSpan={5} className="p-0">
+            <ResponseDiff runA={runA} runB={runB} row={row} />
+          </td>
+        </tr>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,185 @@
+import { useEffect, useMemo, useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import type { SearchHit, SearchResult, SearchSource } from "../lib/types";
+import { apiUrl, appUrl } from "../lib/embeddedBase";
+
+const SOURCES: { id: SearchSource; label: string }[] = [
+  { id: "prompt", label: "Prompts" },
+  { id: "response", label: "Responses" },
+  { id: "tool_output", label: "Tool output" },
+  { id: "failure_reason", label: "Failures" },
+];
+
+const SOURCE_BADGE: Record<SearchSource, string> = {
+  prompt: "text-violet-300 bg-violet-500/10",
+  response: "text-blue-300 bg-blue-500/10",
+  tool_output: "text-cyan-300 bg-cyan-500/10",
+  failure_reason: "text-red-300 bg-red-500/10",
+};
+
+/** StageDetailPanel tab that shows each source. */
+const SOURCE_TAB: Partial<Record<SearchSource, string>> = {
+  prompt: "prompt",
+  response: "response",
+  tool_output: "turns",
+};
+
+const DEBOUNCE_MS = 300;
+
+function hitUrl(hit: SearchHit): string {
+  const params = new URLSearchParams({ node: hit.node_id, visit: String(hit.visit) });
+  const tab = SOURCE_TAB[hit.source];
+  if (tab) params.set("tab", tab);
+  return appUrl(`/run/${encodeURIComponent(hit.run_id)}?${params}`);
+}
+
+/** Wrap every occurrence of the query's words in <mark>. */
+function highlight(snippet: string, query: string) {
+  const words = query.toLowerCase().match(/[a-z0-9_]+/g) ?? [];
+  if (words.length === 0) return snippet;
+  const re = new RegExp(`(${words.map((w) => w.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")).join("|")})`, "gi");
+  return snippet.split(re).map((part, i) =>
+    i % 2 === 1 ? <mark key={i} className="bg-amber-400/30 text-amber-100 rounded-sm">{part}</mark> : part,
+  );
+}
+
+export function RunSearch() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [input, setInput] = useState(() => searchParams.get("q") ?? "");
+  const [sources, setSources] = useState<Set<SearchSource>>(() => new Set(
+    (searchParams.get("source") ?? "").split(",").filter(Boolean) as SearchSource[],
+  ));
+  const [result, setResult] = useState<SearchResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const query = input.trim();
+  const sourceParam = [...sources].join(",");
+
+  useEffect(() => {
+    setSearchParams((p) => {
+      if (query) p.set("q", query); else p.delete("q");
+      if (sourceParam) p.set("source", sourceParam); else p.delete("source");
+      return p;
+    }, { replace: true });
+    if (!query) { setResult(null); setError(null); return; }
+
+    const ctrl = new AbortController();
+    const timer = setTimeout(() => {
+      setLoading(true);
+      const params = new URLSearchParams({ q: query });
+      if (sourceParam) params.set("source", sourceParam);
+      fetch(apiUrl(`/api/search?${params}`), { signal: ctrl.signal })
+        .then(async (r) => {
+          const body = await r.json();
+          if (!r.ok) throw new Error(body.error ?? `HTTP ${r.status}`);
+          setResult(body as SearchResult);
+          setError(null);
+        })
+        .catch((err: unknown) => {
+          if (ctrl.signal.aborted) return;
+          setError(err instanceof Error ? err.message : String(err));
+        })
+        .finally(() => { if (!ctrl.signal.aborted) setLoading(false); });
+    }, DEBOUNCE_MS);
+    return () => { clearTimeout(timer); ctrl.abort(); };
+    // setSearchParams changes identity with every URL update — deliberately omitted.
+  }, [query, sourceParam]);
+
+  // Group hits by run, keeping the best-scoring run first.
+  const groups = useMemo(() => {
+    const byRun = new Map<string, SearchHit[]>();
+    for (const hit of result?.hits ?? []) {
+      const list = byRun.get(hit.run_id) ?? [];
+      list.push(hit);
+      byRun.set(hit.run_id, list);
+    }
+    return [...byRun.entries()];
+  }, [result]);
+
+  const toggleSource = (id: SearchSource) => {
+    setSources((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-950 text-gray-100">
+      <div className="max-w-3xl mx-auto px-6 py-8 space-y-3">
+        <div className="flex items-baseline gap-3 mb-5">
+          <a href={appUrl("/")} className="text-xs text-gray-500 hover:text-gray-300">← Runs</a>
+          <h1 className="text-base font-semibold text-gray-200">Search run artifacts</h1>
+        </div>
+
+        <input
+          type="text"
+          autoFocus
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          placeholder='Search prompts, responses, tool output… (use "quotes" for phrases)'
+          className="w-full px-3 py-2 bg-gray-900 border border-gray-700 rounded text-sm text-gray-200 placeholder-gray-600 focus:outline-none focus:border-gray-500"
+        />
+
+        <div className="flex flex-wrap gap-1.5">
+          {SOURCES.map(({ id, label }) => (
+            <button
+              key={id}
+              onClick={() => toggleSource(id)}
+              className={`px-2 py-0.5 rounded text-xs border transition-colors ${
+                sources.has(id)
+                  ? "border-blue-500 bg-blue-500/10 text-gray-200"
+                  : "border-gray-700 bg-gray-800/50 text-gray-400 hover:border-gray-500"
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+          {result && (
+            <span className="ml-auto text-xs text-gray-600 self-center">
+              {result.total} match{result.total === 1 ? "" : "es"}
+              {result.total > result.hits.length && ` (showing ${result.hits.length})`}
+              {" · "}{result.indexed_runs} runs indexed
+            </span>
+          )}
+        </div>
+
+        {error && <div className="text-red-400 text-sm">{error}</div>}
+        {loading && !result && <div className="text-gray-500 text-sm">Searching…</div>}
+        {result && result.hits.length === 0 && !loading && (
+          <div className="text-gray-500 text-sm">No matches.</div>
+        )}
+
+        {groups.map(([runId, hits]) => (
+          <div key={runId} className="bg-gray-900 border border-gray-800 rounded">
+            <a
+              href={appUrl(`/run/${encodeURIComponent(runId)}`)}
+              className="flex items-baseline gap-2 px-4 py-2 border-b border-gray-800 hover:bg-gray-800/60"
+            >
+              {hits[0].graph_name && <span className="text-sm font-medium text-gray-200">{hits[0].graph_name}</span>}
+              <span className="text-[11px] font-mono text-gray-600">{runId}</span>
+              {hits[0].run_status && <span className="text-xs text-gray-500 ml-auto">{hits[0].run_status}</span>}
+            </a>
+            {hits.map((hit, i) => (
+              <a
+                key={`${hit.stage_path}:${hit.source}:${i}`}
+                href={hitUrl(hit)}
+                className="block px-4 py-2 hover:bg-gray-800/60 border-b border-gray-800/60 last:border-b-0"
+              >
+                <div className="flex items-center gap-2 text-xs mb-0.5">
+                  <span className="font-mono text-gray-300">{hit.node_id}</span>
+                  <span className="text-gray-600">#{hit.visit}</span>
+                  <span className={`px-1.5 rounded text-[10px] ${SOURCE_BADGE[hit.source]}`}>
+                    {hit.source === "tool_output" && hit.tool_name ? hit.tool_name : hit.source.replace("_", " ")}
+                  </span>
+                </div>
+                <div className="text-xs text-gray-400 font-mono break-words">{highlight(hit.snippet, query)}</div>
+              </a>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
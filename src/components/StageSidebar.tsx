@@ -1,5 +1,5 @@
 import { useEffect, useRef } from "react";
-import type { RunRecord, StageInfo, VisitedStage } from "../lib/types";
+import type { RunCost, RunRecord, StageInfo, VisitedStage } from "../lib/types";
 import { useResizablePanel, resizeHandleClass } from "../hooks/useResizablePanel";
 
 function fmtDuration(s: number): string {
@@ -12,6 +12,17 @@ function fmtDuration(s: number): string {
   return remM > 0 ? `${h}h ${remM}m` : `${h}h`;
 }
 
+function fmtCost(usd: number): string {
+  if (usd < 0.01) return `$${usd.toFixed(4)}`;
+  return `$${usd.toFixed(2)}`;
+}
+
+function fmtTokens(n: number): string {
+  if (n >= 1_000_000) return `${(n / 1_000_000).toFixed(1)}M`;
+  if (n >= 1_000) return `${(n / 1_000).toFixed(1)}k`;
+  return String(n);
+}
+
 function fmtTime(iso: string): string {
   const d = new Date(iso);
   return d.toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit", second: "2-digit", hour12: false });
@@ -42,9 +53,51 @@ interface StageSidebarProps {
   restartCount?: number;
   restartKinds?: Record<number, "loop" | "process">;
   nodeLabels?: Map<string, string>;
+  cost?: RunCost | null;
+}
+
+/** Run total plus the most expensive nodes (summed across restarts and branches). */
+function CostPanel({ cost, nodeLabels }: { cost: RunCost; nodeLabels?: Map<string, string> }) {
+  const { totals } = cost;
+  const byNode = new Map<string, number>();
+  for (const s of cost.stages) {
+    if (s.cost_usd != null) byNode.set(s.node_id, (byNode.get(s.node_id) ?? 0) + s.cost_usd);
+  }
+  const top = [...byNode.entries()].sort((a, b) => b[1] - a[1]).slice(0, 5);
+  const approx = totals.estimated_stages > 0;
+  return (
+    <div className="border-b border-gray-800 p-3 shrink-0">
+      <h3 className="text-xs font-medium text-gray-400 mb-2 uppercase tracking-wider flex items-baseline justify-between">
+        <span>Cost</span>
+        <span
+          className="text-sm font-semibold normal-case tracking-normal text-emerald-400 tabular-nums"
+          title={approx ? `${totals.estimated_stages} stage(s) priced from a chars ÷ 4 token estimate` : "From provider-reported token usage"}
+        >
+          {approx ? "~" : ""}{fmtCost(totals.cost_usd)}
+        </span>
+      </h3>
+      <div className="text-[10px] text-gray-500 tabular-nums">
+        {fmtTokens(totals.input_tokens)} in · {fmtTokens(totals.output_tokens)} out
+        {totals.cache_read_tokens > 0 && ` · ${fmtTokens(totals.cache_read_tokens)} cached`}
+      </div>
+      {totals.unpriced_stages > 0 && (
+        <div className="text-[10px] text-amber-500/80">{totals.unpriced_stages} stage(s) without a price</div>
+      )}
+      {top.length > 0 && (
+        <dl className="mt-1.5 space-y-0.5 text-[11px]">
+          {top.map(([nodeId, usd]) => (
+            <div key={nodeId} className="flex justify-between gap-2">
+              <dt className="font-mono text-gray-400 truncate">{nodeLabels?.get(nodeId) ?? nodeId}</dt>
+              <dd className="text-gray-300 tabular-nums shrink-0">{fmtCost(usd)}</dd>
+            </div>
+          ))}
+        </dl>
+      )}
+    </div>
+  );
 }
 
-export function StageSidebar({ run, stageHistory, selectedHistoryIndex, onSelectVisit, onHoverVisit, restartCount, restartKinds, nodeLabels }: StageSidebarProps) {
+export function StageSidebar({ run, stageHistory, selectedHistoryIndex, onSelectVisit, onHoverVisit, restartCount, restartKinds, nodeLabels, cost }: StageSidebarProps) {
   const { width, onMouseDown } = useResizablePanel({ edge: "right", initialWidth: 224, minWidth: 160, maxWidth: 480, storageKey: "kilroy-sidebar-w" });
   const selectedNodeId = selectedHistoryIndex != null ? stageHistory?.[selectedHistoryIndex]?.node_id : undefined;
   const bottomRef = useRef<HTMLDivElement>(null);
@@ -122,6 +175,8 @@ export function StageSidebar({ run, stageHistory, selectedHistoryIndex, onSelect
         </dl>
       </div>
 
+      {cost && cost.stages.length > 0 && <CostPanel cost={cost} nodeLabels={nodeLabels} />}
+
       {/* Execution History */}
       <div className="flex-1 overflow-auto">
         <h3 className="text-xs font-medium text-gray-400 px-3 py-2 uppercase tracking-wider sticky top-0 bg-gray-950 flex items-center justify-between">
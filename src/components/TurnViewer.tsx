@@ -371,32 +371,62 @@ function fmtCost(usd: number): string {
 function PricingBadge({ pricing }: { pricing: PricingEstimate }) {
   const [detail, setDetail] = useState(false);
   const hasCost = pricing.estimated_cost_usd !== null;
+  const usage = pricing.actual_usage;
+  // "~" marks numbers derived from the chars ÷ 4 approximation.
+  const approx = usage ? "" : "~";
+  const totalTokens = usage
+    ? usage.input_tokens + usage.output_tokens + usage.cache_read_tokens + usage.cache_write_tokens
+    : pricing.estimated_input_tokens + pricing.estimated_output_tokens;
+  const perM = (p: number) => `$${(p * 1_000_000).toFixed(2)}/1M tok`;
   return (
     <button
       onClick={() => setDetail((d) => !d)}
       className="group relative text-[10px] text-gray-500 hover:text-gray-300 flex items-center gap-1"
-      title="Estimated cost (based on text length ÷ 4 token approximation)"
+      title={usage ? "Cost from provider-reported token usage" : "Estimated cost (based on text length ÷ 4 token approximation)"}
     >
       {hasCost ? (
         <span className="text-emerald-600 group-hover:text-emerald-400">
-          ~{fmtCost(pricing.estimated_cost_usd!)}
+          {approx}{fmtCost(pricing.estimated_cost_usd!)}
         </span>
       ) : (
-        <span>~{fmtTokens(pricing.estimated_input_tokens + pricing.estimated_output_tokens)} tok</span>
+        <span>{approx}{fmtTokens(totalTokens)} tok</span>
       )}
       {detail && (
-        <div className="absolute top-4 right-0 z-10 bg-gray-900 border border-gray-700 rounded p-2 text-[10px] text-gray-400 whitespace-nowrap shadow-lg">
+        <div className="absolute top-4 right-0 z-10 bg-gray-900 border border-gray-700 rounded p-2 text-[10px] text-gray-400 whitespace-nowrap shadow-lg text-left">
           <div>Model: {pricing.model_id}</div>
-          <div>Input:  ~{fmtTokens(pricing.estimated_input_tokens)} tok</div>
-          <div>Output: ~{fmtTokens(pricing.estimated_output_tokens)} tok</div>
+          {usage ? (
+            <>
+              <div>Input:  {fmtTokens(usage.input_tokens)} tok</div>
+              <div>Output: {fmtTokens(usage.output_tokens)} tok</div>
+              {usage.cache_read_tokens > 0 && <div>Cache read:  {fmtTokens(usage.cache_read_tokens)} tok</div>}
+              {usage.cache_write_tokens > 0 && <div>Cache write: {fmtTokens(usage.cache_write_tokens)} tok</div>}
+              <div className="text-gray-600">
+                Estimate was ~{fmtTokens(pricing.estimated_input_tokens)} in / ~{fmtTokens(pricing.estimated_output_tokens)} out
+              </div>
+            </>
+          ) : (
+            <>
+              <div>Input:  ~{fmtTokens(pricing.estimated_input_tokens)} tok</div>
+              <div>Output: ~{fmtTokens(pricing.estimated_output_tokens)} tok</div>
+            </>
+          )}
           {pricing.prompt_price_per_token !== null && (
             <div className="border-t border-gray-700 mt-1 pt-1">
-              <div>In:  ${(pricing.prompt_price_per_token * 1_000_000).toFixed(2)}/1M tok</div>
-              <div>Out: ${(pricing.completion_price_per_token! * 1_000_000).toFixed(2)}/1M tok</div>
+              <div>In:  {perM(pricing.prompt_price_per_token)}</div>
+              <div>Out: {perM(pricing.completion_price_per_token!)}</div>
+              {pricing.cache_read_price_per_token !== null && <div>Cache read:  {perM(pricing.cache_read_price_per_token)}</div>}
+              {pricing.cache_write_price_per_token !== null && <div>Cache write: {perM(pricing.cache_write_price_per_token)}</div>}
+            </div>
+          )}
+          {pricing.pricing_source && (
+            <div className="text-gray-600" title={pricing.pricing_source.path}>
+              Priced by {pricing.pricing_source.kind === "table" ? "pricing table" : "OpenRouter modeldb"}: {pricing.pricing_source.entry}
+              {pricing.pricing_source.provider && ` (${pricing.pricing_source.provider})`}
+              {pricing.pricing_source.effective_from && ` since ${pricing.pricing_source.effective_from}`}
             </div>
           )}
           {hasCost && (
-            <div className="text-emerald-500 font-medium">≈ {fmtCost(pricing.estimated_cost_usd!)}</div>
+            <div className="text-emerald-500 font-medium">{usage ? "=" : "≈"} {fmtCost(pricing.estimated_cost_usd!)}</div>
           )}
         </div>
       )}
@@ -5,6 +5,7 @@ import remarkGfm from "remark-gfm";
 import type { Components } from "react-markdown";
 import type { VisitedStage } from "../lib/types";
 import { apiUrl } from "../lib/embeddedBase";
+import { storedAuthHeaders } from "../lib/factoryAuth";
 
 interface WorkspaceFile {
   path: string;
@@ -679,7 +680,7 @@ export function WorkspacePanel({ runId, isExecuting, selectedVisit, stageHistory
   }, [selectedPath, fileDiffs]);
 
   const handleReveal = () => {
-    fetch(apiUrl(`/api/runs/${runId}/workspace/reveal`), { method: "POST" }).catch(() => {});
+    fetch(apiUrl(`/api/runs/${runId}/workspace/reveal`), { method: "POST", headers: storedAuthHeaders() }).catch(() => {});
   };
 
   const handleDownload = async () => {
@@ -1,5 +1,5 @@
 import { useState, useEffect, useCallback, useRef } from "react";
-import type { RunState, StageInfo, VisitedStage, ComputedStatus } from "../lib/types";
+import type { PendingFeedback, RunState, RunStateMessage, RunStatePatch, StageInfo, VisitedStage, ComputedStatus } from "../lib/types";
 import { apiUrl } from "../lib/embeddedBase";
 
 interface RunMonitorState {
@@ -7,6 +7,8 @@ interface RunMonitorState {
   stages: StageInfo[];
   stageHistory: VisitedStage[];
   dot: string;
+  /** Unanswered feedback requests, pushed by the server as they appear and are answered. */
+  feedback: PendingFeedback[];
   loading: boolean;
   error: string | null;
   connected: boolean;
@@ -17,11 +19,23 @@ const TERMINAL: Set<ComputedStatus> = new Set(["completed", "failed", "interrupt
 /** How long to wait after the tab goes hidden before disconnecting SSE. */
 const VISIBILITY_GRACE_MS = 60_000;
 
+function applyPatch(prev: RunState, patch: RunStatePatch): RunState {
+  const next = { ...prev, ...patch.set } as RunState;
+  for (const key of patch.unset ?? []) delete (next as unknown as Record<string, unknown>)[key];
+  if (patch.dot !== undefined) next.dot = patch.dot;
+  if (patch.stages) next.stages = patch.stages;
+  if (patch.history) {
+    next.stageHistory = (prev.stageHistory ?? []).slice(0, patch.history.from).concat(patch.history.entries);
+  }
+  return next;
+}
+
 export function useRunMonitor(runId: string | undefined): RunMonitorState {
   const [runState, setRunState] = useState<RunState | null>(null);
   const [stages, setStages] = useState<StageInfo[]>([]);
   const [stageHistory, setStageHistory] = useState<VisitedStage[]>([]);
   const [dot, setDot] = useState("");
+  const [feedback, setFeedback] = useState<PendingFeedback[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [connected, setConnected] = useState(false);
@@ -32,6 +46,10 @@ export function useRunMonitor(runId: string | undefined): RunMonitorState {
   const lastStatus = useRef<ComputedStatus | null>(null);
   // Timer for the visibility grace period.
   const visibilityTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Full state as reconstructed from snapshot + patches; patches apply to this.
+  const current = useRef<RunState | null>(null);
+  // SSE id of the last applied message; sent on reconnect to resume instead of re-snapshotting.
+  const lastEventId = useRef<string | null>(null);
 
   const disconnect = useCallback(() => {
     if (retryTimer.current) { clearTimeout(retryTimer.current); retryTimer.current = null; }
@@ -48,7 +66,9 @@ export function useRunMonitor(runId: string | undefined): RunMonitorState {
       esRef.current = null;
     }
 
-    const es = new EventSource(apiUrl(`/api/runs/${encodeURIComponent(id)}/events`));
+    const params = new URLSearchParams({ delta: "1" });
+    if (current.current && lastEventId.current) params.set("last_event_id", lastEventId.current);
+    const es = new EventSource(apiUrl(`/api/runs/${encodeURIComponent(id)}/events?${params}`));
     esRef.current = es;
 
     es.onopen = () => {
@@ -60,12 +80,21 @@ export function useRunMonitor(runId: string | undefined): RunMonitorState {
 
     es.onmessage = (event) => {
       try {
-        const data = JSON.parse(event.data);
-        if (data.error) {
+        const data = JSON.parse(event.data) as RunStateMessage;
+        if ("error" in data) {
           setError(data.error);
           return;
         }
-        const state = data as RunState;
+        let state: RunState;
+        if (data.type === "snapshot") {
+          state = data.state;
+        } else if (current.current) {
+          state = applyPatch(current.current, data);
+        } else {
+          return; // patch without a base — the reconnect will start with a snapshot
+        }
+        current.current = state;
+        if (event.lastEventId) lastEventId.current = event.lastEventId;
         setRunState(state);
         setLoading(false);
         if (state.dot) setDot(state.dot);
@@ -75,6 +104,7 @@ export function useRunMonitor(runId: string | undefined): RunMonitorState {
         if (state.computedStatus) lastStatus.current = state.computedStatus;
         // If run just became terminal, close the SSE — no more updates expected.
         if (state.computedStatus && TERMINAL.has(state.computedStatus)) {
+          setFeedback([]);
           es.close();
           esRef.current = null;
           // Leave connected=true-ish: the state is final, no reconnect needed.
@@ -86,6 +116,14 @@ export function useRunMonitor(runId: string | undefined): RunMonitorState {
       }
     };
 
+    es.addEventListener("feedback", (event) => {
+      try {
+        setFeedback(JSON.parse((event as MessageEvent<string>).data) as PendingFeedback[]);
+      } catch {
+        // ignore parse errors
+      }
+    });
+
     es.onerror = () => {
       setConnected(false);
       es.close();
@@ -113,6 +151,9 @@ export function useRunMonitor(runId: string | undefined): RunMonitorState {
     setStages([]);
     setStageHistory([]);
     setDot("");
+    setFeedback([]);
+    current.current = null;
+    lastEventId.current = null;
     retryCount.current = 0;
     lastStatus.current = null;
 
@@ -156,5 +197,5 @@ export function useRunMonitor(runId: string | undefined): RunMonitorState {
     };
   }, [runId, connect, disconnect]);
 
-  return { runState, stages, stageHistory, dot, loading, error, connected };
+  return { runState, stages, stageHistory, dot, feedback, loading, error, connected };
 }
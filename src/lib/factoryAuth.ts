@@ -0,0 +1,54 @@
+import { apiUrl } from "./embeddedBase";
+
+// The factory API token, asked for once and kept in localStorage. Controls
+// that call authenticated factory endpoints share it.
+
+const FACTORY_TOKEN_KEY = "kilroy-factory-token";
+
+/** The stored token, or prompt for one (not stored until the server accepts it). */
+export function factoryToken(): string | null {
+  return localStorage.getItem(FACTORY_TOKEN_KEY) ?? (window.prompt("Factory token")?.trim() || null);
+}
+
+export function rememberFactoryToken(token: string) {
+  localStorage.setItem(FACTORY_TOKEN_KEY, token);
+}
+
+export function forgetFactoryToken() {
+  localStorage.removeItem(FACTORY_TOKEN_KEY);
+}
+
+export function hasFactoryToken(): boolean {
+  return localStorage.getItem(FACTORY_TOKEN_KEY) != null;
+}
+
+/** Authorization for plain fetches, from the stored token if there is one (never prompts). */
+export function storedAuthHeaders(): Record<string, string> {
+  const token = localStorage.getItem(FACTORY_TOKEN_KEY);
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+export class TokenRejected extends Error {}
+
+/**
+ * JSON from an authenticated endpoint; throws the server's `error` (and any
+ * `details`) on failure.
+ * A null token sends no credentials (for endpoints the server may leave open).
+ */
+export async function factoryJson<T>(path: string, token: string | null, init?: { method: string; body: unknown }): Promise<T> {
+  const r = await fetch(apiUrl(path), {
+    method: init?.method ?? "GET",
+    headers: {
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      ...(init ? { "Content-Type": "application/json" } : {}),
+    },
+    body: init ? JSON.stringify(init.body) : undefined,
+  });
+  if (r.status === 401) throw new TokenRejected(token ? "Factory token rejected" : "This needs an API token");
+  const body = (await r.json().catch(() => ({}))) as T & { error?: string; details?: string[] };
+  if (!r.ok) {
+    const details = Array.isArray(body.details) && body.details.length > 0 ? `: ${body.details.join("; ")}` : "";
+    throw new Error((body.error ?? `HTTP ${r.status}`) + details);
+  }
+  return body;
+}
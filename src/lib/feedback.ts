@@ -0,0 +1,125 @@
+import type { PendingFeedback } from "./types";
+
+export interface FeedbackOption {
+  label: string;
+  /** What gets written as the response. */
+  value: string;
+  description?: string;
+}
+
+/** The graph node a request is waiting on. */
+export function feedbackNode(req: PendingFeedback): string {
+  return String(req.node_id ?? req.stage).split("/").pop() ?? req.stage;
+}
+
+export function feedbackQuestion(req: PendingFeedback): string {
+  for (const key of ["question", "prompt", "message"] as const) {
+    const v = req[key];
+    if (typeof v === "string" && v.trim()) return v;
+  }
+  return "";
+}
+
+/** Labels of the edges leaving `nodeId`, in DOT order: a human gate's choices. */
+function outgoingEdgeLabels(dot: string, nodeId: string): string[] {
+  const labels: string[] = [];
+  const edgeRe = /"?([\w.-]+)"?\s*->\s*"?[\w.-]+"?\s*\[([^\]]*)\]/g;
+  let m: RegExpExecArray | null;
+  while ((m = edgeRe.exec(dot)) !== null) {
+    if (m[1] !== nodeId) continue;
+    const label = /\blabel\s*=\s*(?:"((?:[^"\\]|\\.)*)"|([\w.-]+))/.exec(m[2]);
+    const text = (label?.[1] ?? label?.[2])?.replace(/\\"/g, '"').trim();
+    if (text && !labels.includes(text)) labels.push(text);
+  }
+  return labels;
+}
+
+/**
+ * Choices to offer: the request's own `options` (or `choices`), else the
+ * labels of the waiting node's outgoing edges. Empty means free text only.
+ */
+export function feedbackOptions(req: PendingFeedback, dot: string): FeedbackOption[] {
+  const raw = Array.isArray(req.options) ? req.options : Array.isArray(req.choices) ? req.choices : null;
+  if (raw) {
+    return raw.flatMap((o): FeedbackOption[] => {
+      if (typeof o === "string") return o.trim() ? [{ label: o, value: o }] : [];
+      if (!o || typeof o !== "object") return [];
+      const value = String(o.value ?? o.label ?? "").trim();
+      if (!value) return [];
+      return [{ label: String(o.label ?? value), value, description: o.description ? String(o.description) : undefined }];
+    });
+  }
+  return dot ? outgoingEdgeLabels(dot, feedbackNode(req)).map((l) => ({ label: l, value: l })) : [];
+}
+
+/** Whether the request itself lists its choices (the server then enforces them). */
+export function declaresOptions(req: PendingFeedback): boolean {
+  return Array.isArray(req.options) || Array.isArray(req.choices);
+}
+
+export function responseSchema(req: PendingFeedback): Record<string, unknown> | null {
+  const s = req.response_schema;
+  return s && typeof s === "object" && !Array.isArray(s) ? s : null;
+}
+
+export function editableFiles(req: PendingFeedback): string[] {
+  return Array.isArray(req.editable_files) ? req.editable_files.filter((p) => typeof p === "string" && p.trim() !== "") : [];
+}
+
+export interface SchemaField {
+  key: string;
+  label: string;
+  kind: "string" | "number" | "integer" | "boolean" | "enum";
+  enumValues?: string[];
+  required: boolean;
+  description?: string;
+}
+
+/**
+ * Form fields for an object schema whose properties are all scalars (or
+ * string enums). Null means the schema needs the raw JSON editor.
+ */
+export function schemaFields(schema: Record<string, unknown>): SchemaField[] | null {
+  if (schema.type !== "object" || !schema.properties || typeof schema.properties !== "object") return null;
+  const required = Array.isArray(schema.required) ? schema.required.map(String) : [];
+  const fields: SchemaField[] = [];
+  for (const [key, raw] of Object.entries(schema.properties as Record<string, Record<string, unknown>>)) {
+    const base = {
+      key,
+      label: typeof raw.title === "string" ? raw.title : key,
+      required: required.includes(key),
+      description: typeof raw.description === "string" ? raw.description : undefined,
+    };
+    if (Array.isArray(raw.enum)) {
+      if (!raw.enum.every((v) => typeof v === "string")) return null;
+      fields.push({ ...base, kind: "enum", enumValues: raw.enum as string[] });
+    } else if (raw.type === "string" || raw.type === "number" || raw.type === "integer" || raw.type === "boolean") {
+      fields.push({ ...base, kind: raw.type });
+    } else {
+      return null;
+    }
+  }
+  return fields;
+}
+
+/** Build `data` from form values; blank optional fields are left out. Throws on unparseable numbers. */
+export function formData(fields: SchemaField[], values: Record<string, string | boolean>): Record<string, unknown> {
+  const data: Record<string, unknown> = {};
+  for (const f of fields) {
+    const v = values[f.key];
+    if (f.kind === "boolean") {
+      if (v !== undefined || f.required) data[f.key] = v === true;
+      continue;
+    }
+    const text = typeof v === "string" ? v.trim() : "";
+    if (!text) continue;
+    if (f.kind === "number" || f.kind === "integer") {
+      const n = Number(text);
+      if (!Number.isFinite(n)) throw new Error(`${f.label} must be a number`);
+      data[f.key] = n;
+    } else {
+      data[f.key] = typeof v === "string" ? v : text;
+    }
+  }
+  return data;
+}
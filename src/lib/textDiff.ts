@@ -0,0 +1,57 @@
+export interface DiffLine {
+  type: "same" | "add" | "del";
+  text: string;
+}
+
+/** Above this many LCS cells the diff degrades to "all removed, all added". */
+const MAX_LCS_CELLS = 4_000_000;
+
+/** Line diff of `a` → `b` (LCS-based; common prefix/suffix trimmed first). */
+export function diffLines(a: string, b: string): DiffLine[] {
+  const left = a.split("\n");
+  const right = b.split("\n");
+
+  let start = 0;
+  while (start < left.length && start < right.length && left[start] === right[start]) start++;
+  let endL = left.length;
+  let endR = right.length;
+  while (endL > start && endR > start && left[endL - 1] === right[endR - 1]) { endL--; endR--; }
+
+  const head = left.slice(0, start).map((text): DiffLine => ({ type: "same", text }));
+  const tail = left.slice(endL).map((text): DiffLine => ({ type: "same", text }));
+  const l = left.slice(start, endL);
+  const r = right.slice(start, endR);
+
+  if (l.length * r.length > MAX_LCS_CELLS) {
+    return [
+      ...head,
+      ...l.map((text): DiffLine => ({ type: "del", text })),
+      ...r.map((text): DiffLine => ({ type: "add", text })),
+      ...tail,
+    ];
+  }
+
+  // lcs[i][j] = LCS length of l[i..] and r[j..]
+  const cols = r.length + 1;
+  const lcs = new Uint32Array((l.length + 1) * cols);
+  for (let i = l.length - 1; i >= 0; i--) {
+    for (let j = r.length - 1; j >= 0; j--) {
+      lcs[i * cols + j] = l[i] === r[j]
+        ? lcs[(i + 1) * cols + j + 1] + 1
+        : Math.max(lcs[(i + 1) * cols + j], lcs[i * cols + j + 1]);
+    }
+  }
+
+  const middle: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < l.length && j < r.length) {
+    if (l[i] === r[j]) { middle.push({ type: "same", text: l[i] }); i++; j++; }
+    else if (lcs[(i + 1) * cols + j] >= lcs[i * cols + j + 1]) { middle.push({ type: "del", text: l[i] }); i++; }
+    else { middle.push({ type: "add", text: r[j] }); j++; }
+  }
+  while (i < l.length) middle.push({ type: "del", text: l[i++] });
+  while (j < r.length) middle.push({ type: "add", text: r[j++] });
+
+  return [...head, ...middle, ...tail];
+}
@@ -82,6 +82,21 @@ export interface RunState {
   format?: string;
 }
 
+/** Incremental SSE update (`?delta=1`); mirrors server/runStateDelta.ts. */
+export interface RunStatePatch {
+  type: "patch";
+  set?: Partial<Omit<RunState, "dot" | "stages" | "stageHistory">>;
+  unset?: string[];
+  dot?: string;
+  stages?: StageInfo[];
+  history?: { from: number; entries: VisitedStage[] };
+}
+
+export type RunStateMessage =
+  | { type: "snapshot"; state: RunState }
+  | RunStatePatch
+  | { error: string };
+
 export interface StageFileInfo {
   name: string;
   size: number;
@@ -143,13 +158,35 @@ export interface TurnAssistant {
 
 export type Turn = TurnUser | TurnAssistant;
 
+/** Provider-reported token counts; the four buckets are disjoint (input excludes cache). */
+export interface TokenUsage {
+  input_tokens: number;
+  output_tokens: number;
+  cache_read_tokens: number;
+  cache_write_tokens: number;
+}
+
+export interface PricingSource {
+  kind: "table" | "modeldb";
+  path: string;
+  entry: string;
+  provider?: string;
+  effective_from?: string;
+}
+
 export interface PricingEstimate {
   model_id: string;
+  /** "usage" when priced from real provider counts; "estimate" when from chars / 4 */
+  token_source: "usage" | "estimate";
+  actual_usage: TokenUsage | null;
   estimated_input_tokens: number;
   estimated_output_tokens: number;
   estimated_cost_usd: number | null;
   prompt_price_per_token: number | null;
   completion_price_per_token: number | null;
+  cache_read_price_per_token: number | null;
+  cache_write_price_per_token: number | null;
+  pricing_source: PricingSource | null;
 }
 
 export interface TurnsData {
@@ -160,4 +197,252 @@ export interface TurnsData {
   pricing?: PricingEstimate;
   /** Final LLM response text from response.md (may not appear in event stream for some providers) */
   response_text?: string;
+  usage?: TokenUsage;
+}
+
+export type SearchSource = "prompt" | "response" | "tool_output" | "failure_reason";
+
+export interface SearchHit {
+  run_id: string;
+  node_id: string;
+  stage_path: string;
+  /** 1-based visit number among visits to node_id (the viewer's ?visit= param) */
+  visit: number;
+  source: SearchSource;
+  tool_name?: string;
+  snippet: string;
+  score: number;
+  graph_name: string | null;
+  run_status: string | null;
+  started_at: string | null;
+}
+
+export interface SearchResult {
+  query: string;
+  hits: SearchHit[];
+  total: number;
+  indexed_runs: number;
+}
+
+export interface CompareNodeSide {
+  visits: number;
+  max_attempt: number;
+  total_duration_s: number;
+  statuses: VisitedStage["status"][];
+  failure_reasons: string[];
+  /** Stage dir of the latest visit — where response.md lives */
+  stage_path: string;
+  estimated_cost_usd: number | null;
 }
+
+export interface CompareNodeRow {
+  node_id: string;
+  a: CompareNodeSide | null;
+  b: CompareNodeSide | null;
+}
+
+export interface CompareRunSummary {
+  id: string;
+  graph_name: string | null;
+  status: string;
+  started_at: string | null;
+  finished_at: string | null;
+  duration_s: number | null;
+  visits: number;
+  estimated_cost_usd: number | null;
+}
+
+export interface RunComparison {
+  a: CompareRunSummary;
+  b: CompareRunSummary;
+  same_graph: boolean;
+  nodes: CompareNodeRow[];
+}
+
+export interface CostTotals {
+  cost_usd: number;
+  priced_stages: number;
+  /** Stages with events but no price — cost_usd excludes them */
+  unpriced_stages: number;
+  /** Priced from chars ÷ 4 rather than provider usage */
+  estimated_stages: number;
+  input_tokens: number;
+  output_tokens: number;
+  cache_read_tokens: number;
+  cache_write_tokens: number;
+}
+
+export interface StageCost {
+  stage_path: string;
+  node_id: string;
+  model_id: string;
+  cost_usd: number | null;
+  token_source: "usage" | "estimate";
+  input_tokens: number;
+  output_tokens: number;
+  cache_read_tokens: number;
+  cache_write_tokens: number;
+  pricing_source: PricingSource | null;
+}
+
+export interface RunCost {
+  run_id: string;
+  graph_name: string | null;
+  repo: string | null;
+  started_at: string | null;
+  status: string;
+  totals: CostTotals;
+  stages: StageCost[];
+}
+
+export interface CostGroup {
+  key: string;
+  runs: number;
+  totals: CostTotals;
+}
+
+export interface NodeCostGroup extends CostGroup {
+  graph_name: string | null;
+  node_id: string;
+  avg_cost_usd: number;
+}
+
+export interface CostRollup {
+  runs: Omit<RunCost, "stages">[];
+  totals: CostTotals;
+  by_graph: CostGroup[];
+  by_repo: CostGroup[];
+  by_model: CostGroup[];
+  by_day: CostGroup[];
+  by_node: NodeCostGroup[];
+}
+
+export interface BudgetConfig {
+  warn_usd?: number;
+  limit_usd?: number;
+  stop_on_limit?: boolean;
+}
+
+export interface BudgetAlert {
+  level: "warn" | "limit";
+  spent_usd: number;
+  threshold_usd: number;
+  crossed_at: string;
+}
+
+export interface BudgetStatus {
+  run_id: string;
+  budget: (BudgetConfig & { source: "run" | "graph" | "default" }) | null;
+  spent_usd: number | null;
+  alerts: BudgetAlert[];
+  /** Set when the server interrupted the run for reaching its limit */
+  stopped_at: string | null;
+}
+
+/** Mirrors GET /api/factory/attractor/runs/:id — public factory facts about one run */
+export interface FactoryRunControl {
+  active: boolean;
+  queued: boolean;
+  stopping: boolean;
+  launcher_logs: number;
+}
+
+/** One factory launch (start or resume) that drove a run; mirrors server/factoryLogs.ts */
+export interface LauncherLogInfo {
+  job_id: string;
+  kind: "start" | "resume";
+  run_id: string | null;
+  graph_path: string | null;
+  created_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+  exit_code: number | null;
+  error: string | null;
+  size: number;
+  live: boolean;
+}
+
+export interface LauncherLogChunk {
+  text: string;
+  offset: number;
+  next_offset: number;
+  size: number;
+  live: boolean;
+  done: boolean;
+}
+
+/** Mirrors GET /api/factory/start-options — what a parameterised start may use */
+export interface FactoryStartOptions {
+  project_root: string;
+  /** Paths relative to project_root */
+  graphs: string[];
+  compose_files: string[];
+  default_compose: string;
+  model_profiles: string[];
+  allowed_flags: string[];
+  /** Null when any well-formed key is accepted */
+  param_keys: string[] | null;
+}
+
+/** One audit-log entry in a run's Activity view; mirrors server/audit.ts (without the client address) */
+export interface RunActivityEntry {
+  at: string;
+  /** Token name, "anonymous", or "system" for the server's own actions */
+  actor: string;
+  token_id: string | null;
+  action: string;
+  run_id: string | null;
+  job_id: string | null;
+  payload_sha256: string | null;
+  result: "ok" | "error" | "denied";
+  detail?: Record<string, unknown>;
+}
+
+/**
+ * A pending feedback_request_<stage>.json as served by GET /api/runs/:id/feedback
+ * and the run SSE `feedback` event. Only `stage` is guaranteed; the rest is
+ * whatever the attractor wrote (see src/lib/feedback.ts for the fields read).
+ */
+export interface PendingFeedback {
+  stage: string;
+  node_id?: string;
+  question?: string;
+  prompt?: string;
+  message?: string;
+  options?: (string | { label?: string; value?: string; description?: string })[];
+  choices?: string[];
+  /** With options: text outside them is accepted too. */
+  allow_free_text?: boolean;
+  /** JSON Schema the response's `data` must match (validated by the server). */
+  response_schema?: Record<string, unknown>;
+  /** Worktree paths the responder may send edited content for. */
+  editable_files?: string[];
+  [key: string]: unknown;
+}
+
+/** Body of POST /api/runs/:id/feedback-respond; see server/feedbackResponse.ts. */
+export interface FeedbackResponseBody {
+  stage: string;
+  response?: string;
+  choice?: string;
+  data?: unknown;
+  files?: { path: string; content: string }[];
+}
+
+/** One row of the cross-run inbox (GET /api/feedback). Mirrors server/feedbackIndex.ts. */
+export interface FeedbackInboxEntry {
+  run_id: string;
+  stage: string;
+  node_id: string;
+  graph_name: string | null;
+  run_status: string | null;
+  requested_at: string;
+  question: string | null;
+  request: PendingFeedback;
+}
+
+/** Messages of GET /api/feedback/stream. */
+export type FeedbackInboxEvent =
+  | { type: "snapshot"; entries: FeedbackInboxEntry[] }
+  | { type: "added"; entry: FeedbackInboxEntry }
+  | { type: "removed"; run_id: string; stage: string };
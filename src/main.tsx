@@ -3,7 +3,12 @@ import { createRoot } from "react-dom/client";
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { KilroyRunViewer } from "./components/KilroyRunViewer";
 import { DotDropOverlay } from "./components/DotDropOverlay";
+import { FactoryStartForm } from "./components/FactoryStartForm";
+import { FeedbackInboxPage } from "./components/FeedbackInboxPage";
+import { RunCompare } from "./components/RunCompare";
+import { RunSearch } from "./components/RunSearch";
 import { apiUrl, appUrl, routerBasename } from "./lib/embeddedBase";
+import type { CostRollup, CostTotals } from "./lib/types";
 import "./index.css";
 
 createRoot(document.getElementById("root")!).render(
@@ -12,6 +17,9 @@ createRoot(document.getElementById("root")!).render(
       <BrowserRouter basename={routerBasename()}>
         <Routes>
           <Route path="/run/:runId" element={<KilroyRunViewer />} />
+          <Route path="/compare/:runA/:runB" element={<RunCompare />} />
+          <Route path="/search" element={<RunSearch />} />
+          <Route path="/feedback" element={<FeedbackInboxPage />} />
           <Route path="/" element={<RunPicker />} />
           <Route path="*" element={<Navigate to="/" replace />} />
         </Routes>
@@ -60,6 +68,11 @@ function shortRepoPath(p: string): string {
   return "…/" + parts.slice(-2).join("/");
 }
 
+function fmtCost(usd: number): string {
+  if (usd < 0.01) return `$${usd.toFixed(4)}`;
+  return `$${usd.toFixed(2)}`;
+}
+
 /** Very simple fuzzy match: all query words must appear in the target string */
 function fuzzyMatch(target: string, query: string): boolean {
   if (!query) return true;
@@ -68,12 +81,25 @@ function fuzzyMatch(target: string, query: string): boolean {
 }
 
 function RunPicker() {
+  const [starting, setStarting] = useState(false);
   return (
     <div className="min-h-screen bg-gray-950 text-gray-100">
       <div className="max-w-3xl mx-auto px-6 py-8">
-        <h1 className="text-base font-semibold text-gray-200 mb-5">Kilroy Runs</h1>
+        <div className="flex items-baseline gap-4 mb-5">
+          <h1 className="text-base font-semibold text-gray-200">Kilroy Runs</h1>
+          <button onClick={() => setStarting(true)} className="ml-auto text-xs text-blue-400 hover:text-blue-300">
+            Start run…
+          </button>
+          <a href={appUrl("/feedback")} className="text-xs text-gray-500 hover:text-gray-300">
+            Feedback inbox
+          </a>
+          <a href={appUrl("/search")} className="text-xs text-gray-500 hover:text-gray-300">
+            Search artifacts →
+          </a>
+        </div>
         <RunList />
       </div>
+      {starting && <FactoryStartForm onClose={() => setStarting(false)} />}
     </div>
   );
 }
@@ -83,6 +109,9 @@ function RunList() {
   const [loading, setLoading] = useState(true);
   const [query, setQuery] = useState("");
   const [now, setNow] = useState(Date.now());
+  // First run picked for a side-by-side comparison; picking a second navigates.
+  const [compareBase, setCompareBase] = useState<string | null>(null);
+  const [costs, setCosts] = useState<CostRollup | null>(null);
 
   useEffect(() => {
     fetch(apiUrl("/api/runs/summaries"))
@@ -98,8 +127,19 @@ function RunList() {
         setLoading(false);
       })
       .catch(() => setLoading(false));
+    // Costs parse every stage's events — fetched separately so the list is not held up.
+    fetch(apiUrl("/api/costs?limit=50"))
+      .then((r) => (r.ok ? r.json() : null))
+      .then((c: CostRollup | null) => setCosts(c))
+      .catch(() => { /* cost column is optional */ });
   }, []);
 
+  const costByRun = useMemo(() => {
+    const m = new Map<string, CostTotals>();
+    for (const r of costs?.runs ?? []) m.set(r.run_id, r.totals);
+    return m;
+  }, [costs]);
+
   // Refresh time-ago every 30s
   useEffect(() => {
     const id = setInterval(() => setNow(Date.now()), 30_000);
@@ -133,6 +173,29 @@ function RunList() {
         className="w-full px-3 py-2 bg-gray-900 border border-gray-700 rounded text-sm text-gray-200 placeholder-gray-600 focus:outline-none focus:border-gray-500"
       />
 
+      {costs && costs.runs.length > 0 && (
+        <div className="flex items-baseline gap-3 text-xs text-gray-500">
+          <span>
+            Last {costs.runs.length} runs:{" "}
+            <span className="text-emerald-400 tabular-nums">{fmtCost(costs.totals.cost_usd)}</span>
+          </span>
+          {costs.by_node[0] && costs.by_node[0].totals.cost_usd > 0 && (
+            <span className="truncate" title={`${fmtCost(costs.by_node[0].avg_cost_usd)} per run on average`}>
+              Priciest node: <span className="font-mono text-gray-400">{costs.by_node[0].node_id}</span>
+              {costs.by_node[0].graph_name && <> in {costs.by_node[0].graph_name}</>}
+              {" "}({fmtCost(costs.by_node[0].totals.cost_usd)})
+            </span>
+          )}
+        </div>
+      )}
+
+      {compareBase && (
+        <div className="flex items-center gap-2 px-3 py-1.5 text-xs text-fuchsia-300 bg-fuchsia-500/10 border border-fuchsia-500/20 rounded">
+          <span>Comparing <span className="font-mono">{compareBase}</span> — pick a second run with ⇄</span>
+          <button onClick={() => setCompareBase(null)} className="ml-auto text-gray-400 hover:text-gray-200">Cancel</button>
+        </div>
+      )}
+
       {filtered.length === 0 && (
         <div className="text-gray-500 text-sm">
           {runs.length === 0 ? "No runs found." : "No runs match the filter."}
@@ -147,46 +210,72 @@ function RunList() {
         const sourceName = multiSource && run.source_dir
           ? run.source_dir.split("/").filter(Boolean).pop() ?? run.source_dir
           : null;
+        const isBase = compareBase === run.id;
+        const cost = costByRun.get(run.id);
         return (
-          <a
-            key={run.id}
-            href={appUrl(`/run/${run.id}`)}
-            className="block px-4 py-3 bg-gray-900 border border-gray-800 rounded hover:bg-gray-800/80 hover:border-gray-700 transition-colors"
-          >
-            <div className="flex items-start gap-3">
-              {/* Status dot */}
-              <div className="mt-1 shrink-0">
-                <span
-                  className={`block w-2 h-2 rounded-full ${dot.color}`}
-                  title={dot.label}
-                />
-              </div>
+          <div key={run.id} className="relative group">
+            <a
+              href={appUrl(`/run/${run.id}`)}
+              className={`block px-4 py-3 bg-gray-900 border rounded hover:bg-gray-800/80 hover:border-gray-700 transition-colors ${
+                isBase ? "border-fuchsia-500/60" : "border-gray-800"
+              }`}
+            >
+              <div className="flex items-start gap-3">
+                {/* Status dot */}
+                <div className="mt-1 shrink-0">
+                  <span
+                    className={`block w-2 h-2 rounded-full ${dot.color}`}
+                    title={dot.label}
+                  />
+                </div>
 
-              {/* Content */}
-              <div className="min-w-0 flex-1 space-y-0.5">
-                <div className="flex items-baseline gap-2 flex-wrap">
-                  {run.graph_name && (
-                    <span className="text-sm font-medium text-gray-200">{run.graph_name}</span>
-                  )}
-                  {run.repo_path ? (
-                    <span className="text-xs text-gray-500 font-mono truncate" title={run.repo_path}>{shortRepoPath(run.repo_path)}</span>
-                  ) : run.repo ? (
-                    <span className="text-xs text-gray-500">{run.repo}</span>
-                  ) : null}
-                  {sourceName && (
-                    <span className="text-[10px] px-1.5 py-0.5 rounded bg-gray-800 text-gray-500 font-mono">{sourceName}</span>
-                  )}
-                  {ago && (
-                    <span className="text-xs text-gray-600 ml-auto shrink-0">{ago}</span>
+                {/* Content */}
+                <div className="min-w-0 flex-1 space-y-0.5">
+                  <div className="flex items-baseline gap-2 flex-wrap">
+                    {run.graph_name && (
+                      <span className="text-sm font-medium text-gray-200">{run.graph_name}</span>
+                    )}
+                    {run.repo_path ? (
+                      <span className="text-xs text-gray-500 font-mono truncate" title={run.repo_path}>{shortRepoPath(run.repo_path)}</span>
+                    ) : run.repo ? (
+                      <span className="text-xs text-gray-500">{run.repo}</span>
+                    ) : null}
+                    {sourceName && (
+                      <span className="text-[10px] px-1.5 py-0.5 rounded bg-gray-800 text-gray-500 font-mono">{sourceName}</span>
+                    )}
+                    {cost && cost.priced_stages > 0 && (
+                      <span
+                        className="text-xs text-emerald-500/80 tabular-nums shrink-0 ml-auto"
+                        title={cost.estimated_stages > 0 ? "Partly estimated from text length" : "From provider-reported usage"}
+                      >
+                        {cost.estimated_stages > 0 ? "~" : ""}{fmtCost(cost.cost_usd)}
+                      </span>
+                    )}
+                    {ago && (
+                      <span className={`text-xs text-gray-600 shrink-0 ${cost && cost.priced_stages > 0 ? "" : "ml-auto"}`}>{ago}</span>
+                    )}
+                  </div>
+                  <div className="text-[11px] font-mono text-gray-600">{run.id}</div>
+                  {run.goal && (
+                    <div className="text-xs text-gray-500 line-clamp-1 mt-0.5">{run.goal}</div>
                   )}
                 </div>
-                <div className="text-[11px] font-mono text-gray-600">{run.id}</div>
-                {run.goal && (
-                  <div className="text-xs text-gray-500 line-clamp-1 mt-0.5">{run.goal}</div>
-                )}
               </div>
-            </div>
-          </a>
+            </a>
+            <button
+              onClick={() => {
+                if (!compareBase) setCompareBase(run.id);
+                else if (isBase) setCompareBase(null);
+                else window.location.assign(appUrl(`/compare/${encodeURIComponent(compareBase)}/${encodeURIComponent(run.id)}`));
+              }}
+              title={compareBase ? (isBase ? "Cancel comparison" : "Compare with selected run") : "Compare with another run"}
+              className={`absolute right-3 bottom-2 px-1.5 text-xs rounded transition-opacity ${
+                compareBase ? "opacity-100 text-fuchsia-300" : "opacity-0 group-hover:opacity-100 text-gray-500 hover:text-gray-300"
+              }`}
+            >
+              ⇄
+            </button>
+          </div>
         );
       })}
     </div>